@@ -0,0 +1,66 @@
+/**
+ * 변환 작업 진행 상황 (Server-Sent Events)
+ *
+ * GET /api/convert/jobs/xxx/events
+ * - 연결 즉시 현재 상태, 이후 바뀔 때마다 `event: job` + ConversionJob JSON
+ * - 작업이 끝나면(done/failed/cancelled) 스트림을 닫음 (재시도 후에는 다시 연결)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getConversionJobs, isFinished, ConversionJob } from "@/lib/server/conversionJobs";
+
+// 프록시가 연결을 끊지 않도록 주기적으로 주석 전송
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  const jobs = getConversionJobs();
+  if (!jobs.get(jobId)) {
+    return NextResponse.json({ error: "변환 작업을 찾을 수 없습니다" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(": ping\n\n")), HEARTBEAT_INTERVAL);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // 클라이언트가 먼저 끊은 경우
+        }
+      };
+
+      const send = (job: ConversionJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(job)}\n\n`));
+        if (isFinished(job.status)) queueMicrotask(close);
+      };
+
+      unsubscribe = jobs.subscribe(jobId, send);
+      if (!unsubscribe) close();
+      request.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
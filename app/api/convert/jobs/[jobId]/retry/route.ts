@@ -0,0 +1,27 @@
+/**
+ * 변환 작업 재시도 API
+ *
+ * POST /api/convert/jobs/xxx/retry - 실패·취소된 작업을 같은 파일로 다시 실행
+ * (작업이 만료되어 원본이 없으면 404 - 파일을 다시 업로드)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getConversionJobs } from "@/lib/server/conversionJobs";
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params;
+  const jobs = getConversionJobs();
+  const existing = jobs.get(jobId);
+  if (!existing) {
+    return NextResponse.json({ error: "변환 작업을 찾을 수 없습니다" }, { status: 404 });
+  }
+
+  const job = jobs.retry(jobId);
+  if (!job) {
+    return NextResponse.json(
+      { error: "실패하거나 취소된 작업만 다시 실행할 수 있습니다", job: existing },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ success: true, job }, { status: 202 });
+}
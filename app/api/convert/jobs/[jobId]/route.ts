@@ -0,0 +1,32 @@
+/**
+ * 변환 작업 API
+ *
+ * GET /api/convert/jobs/xxx - 작업 상태 조회
+ * DELETE /api/convert/jobs/xxx - 대기/워커 변환 중인 작업 취소 (취소할 수 없는 단계면 success: false)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getConversionJobs } from "@/lib/server/conversionJobs";
+
+interface JobRouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  const { jobId } = await params;
+  const job = getConversionJobs().get(jobId);
+  if (!job) {
+    return NextResponse.json({ error: "변환 작업을 찾을 수 없습니다" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, job });
+}
+
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  const { jobId } = await params;
+  const jobs = getConversionJobs();
+  if (!jobs.get(jobId)) {
+    return NextResponse.json({ error: "변환 작업을 찾을 수 없습니다" }, { status: 404 });
+  }
+  const cancelled = jobs.cancel(jobId);
+  return NextResponse.json({ success: cancelled, job: jobs.get(jobId) });
+}
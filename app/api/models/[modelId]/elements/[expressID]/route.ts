@@ -0,0 +1,21 @@
+/**
+ * 요소 속성 API
+ *
+ * GET /api/models/xxx/elements/123 - 기본 속성 + Pset/Qto/타입/재료 섹션 + 포함 관계
+ */
+
+import { NextRequest } from "next/server";
+import { ModelQueryError, respondWithModel } from "@/lib/server/modelQuery";
+
+interface ElementRouteContext {
+  params: Promise<{ modelId: string; expressID: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: ElementRouteContext) {
+  const { modelId, expressID } = await params;
+  return respondWithModel(modelId, query => {
+    const element = /^\d+$/.test(expressID) ? query.element(Number(expressID)) : null;
+    if (!element) throw new ModelQueryError(`요소를 찾을 수 없습니다: ${expressID}`, 404);
+    return { element };
+  });
+}
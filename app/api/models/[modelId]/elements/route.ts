@@ -0,0 +1,26 @@
+/**
+ * 요소 목록 API (페이지 단위)
+ *
+ * GET /api/models/xxx/elements
+ *   ?type=IfcWall,IfcSlab         IFC 클래스 (대소문자 무시) 또는 typeCode
+ *   ?storey=storey_123            층 (id 또는 expressID)
+ *   ?container=123                공간 노드에 직접 포함된 요소
+ *   ?property=Pset_WallCommon.IsExternal&value=true
+ *                                 속성 값 필터 (op: eq, ne, contains, gt, gte, lt, lte, exists)
+ *   ?offset=0&limit=100           페이지 (limit 최대 1000)
+ */
+
+import { NextRequest } from "next/server";
+import { parseElementFilter, parsePageParams, respondWithModel } from "@/lib/server/modelQuery";
+
+interface ElementsRouteContext {
+  params: Promise<{ modelId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: ElementsRouteContext) {
+  const { modelId } = await params;
+  const { searchParams } = new URL(request.url);
+  return respondWithModel(modelId, query =>
+    ({ ...query.findElements(parseElementFilter(searchParams), parsePageParams(searchParams)) })
+  );
+}
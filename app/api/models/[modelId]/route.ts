@@ -0,0 +1,27 @@
+/**
+ * 저장된 모델 요약 API (지오메트리 없이 조회)
+ *
+ * GET /api/models/xxx - 저장 정보 + 개수 + IFC 클래스별 요소 수
+ * 요소: /api/models/xxx/elements, 공간 트리: /api/models/xxx/tree, 층: /api/models/xxx/storeys
+ */
+
+import { NextRequest } from "next/server";
+import { respondWithModel } from "@/lib/server/modelQuery";
+
+interface ModelRouteContext {
+  params: Promise<{ modelId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: ModelRouteContext) {
+  const { modelId } = await params;
+  return respondWithModel(modelId, query => ({
+    model: query.entry,
+    counts: {
+      elements: query.elementCount,
+      meshes: query.header.meshCount,
+      storeys: query.header.storeys.length,
+      materials: query.header.materials.length,
+    },
+    classes: query.classes(),
+  }));
+}
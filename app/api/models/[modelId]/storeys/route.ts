@@ -0,0 +1,19 @@
+/**
+ * 층 목록 API
+ *
+ * GET /api/models/xxx/storeys?offset=0&limit=100 - 층 이름·높이(m)·요소 수
+ * 층별 요소는 /api/models/xxx/elements?storey=storey_123
+ */
+
+import { NextRequest } from "next/server";
+import { parsePageParams, respondWithModel } from "@/lib/server/modelQuery";
+
+interface StoreysRouteContext {
+  params: Promise<{ modelId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: StoreysRouteContext) {
+  const { modelId } = await params;
+  const { searchParams } = new URL(request.url);
+  return respondWithModel(modelId, query => ({ ...query.storeys(parsePageParams(searchParams)) }));
+}
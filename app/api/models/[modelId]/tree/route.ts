@@ -0,0 +1,24 @@
+/**
+ * 공간 트리 API (노드 단위로 탐색)
+ *
+ * GET /api/models/xxx/tree - IfcProject 노드 + 하위 노드 페이지
+ * GET /api/models/xxx/tree?node=123&offset=0&limit=100 - 지정한 노드
+ * 노드에 포함된 요소는 /api/models/xxx/elements?container=123
+ */
+
+import { NextRequest } from "next/server";
+import { ModelQueryError, parsePageParams, respondWithModel } from "@/lib/server/modelQuery";
+
+interface TreeRouteContext {
+  params: Promise<{ modelId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: TreeRouteContext) {
+  const { modelId } = await params;
+  const { searchParams } = new URL(request.url);
+  const node = searchParams.get("node");
+  return respondWithModel(modelId, query => {
+    if (node && !/^\d+$/.test(node)) throw new ModelQueryError("node는 expressID여야 합니다");
+    return query.spatialNode(node ? Number(node) : undefined, parsePageParams(searchParams));
+  });
+}
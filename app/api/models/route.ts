@@ -0,0 +1,30 @@
+/**
+ * 서버에 저장된 변환 결과 목록 API
+ *
+ * GET /api/models - 저장된 모델 목록 (최근 조회순) + 저장소 사용량
+ * 모델 데이터는 GET /api/convert?id=xxx 로 조회
+ * 지오메트리 없이 요소·속성·공간 트리·층 조회는 GET /api/models/xxx/... (lib/server/modelQuery)
+ */
+
+import { NextResponse } from "next/server";
+import { getModelStore } from "@/lib/server/modelStore";
+
+export async function GET() {
+  try {
+    const store = getModelStore();
+    const { entries, totalBytes, maxBytes } = await store.list();
+    return NextResponse.json({
+      success: true,
+      formatVersion: store.formatVersion,
+      totalBytes,
+      maxBytes,
+      models: entries,
+    });
+  } catch (error) {
+    console.error("모델 목록 조회 실패:", error);
+    return NextResponse.json(
+      { error: "모델 목록을 불러오지 못했습니다" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,58 @@
 "use client";
 
-import { X, Package, Hash, Layers, ChevronDown, ChevronRight } from "lucide-react";
+import { X, Package, Hash, Layers, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { SelectionSummary } from "@/types/ifc";
+import { SelectionSummary, IFCProperty, IFCPropertySection, IFCPropertySectionKind } from "@/types/ifc";
 import { useState } from "react";
 
 interface PropertyPanelProps {
   summary: SelectionSummary | null;
   onClose: () => void;
+  // 요소를 펼칠 때 Pset/Qto/타입/재료 섹션 조회
+  loadElementSections?: (expressID: number) => Promise<IFCPropertySection[]>;
 }
 
-export function PropertyPanel({ summary, onClose }: PropertyPanelProps) {
+// 섹션 종류별 배지
+const SECTION_BADGES: Record<IFCPropertySectionKind, { label: string; className: string }> = {
+  attributes: { label: "기본", className: "bg-slate-600/50 text-slate-300" },
+  pset: { label: "Pset", className: "bg-blue-500/20 text-blue-400" },
+  qto: { label: "Qto", className: "bg-green-500/20 text-green-400" },
+  type: { label: "타입", className: "bg-purple-500/20 text-purple-400" },
+  material: { label: "재료", className: "bg-amber-500/20 text-amber-400" },
+  classification: { label: "분류", className: "bg-cyan-500/20 text-cyan-400" },
+};
+
+const formatValue = (prop: IFCProperty): string => {
+  if (prop.value === null) return "-";
+  if (typeof prop.value === "boolean") return prop.value ? "예" : "아니오";
+  return prop.unit ? `${prop.value} ${prop.unit}` : String(prop.value);
+};
+
+export function PropertyPanel({ summary, onClose, loadElementSections }: PropertyPanelProps) {
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
+  const [sectionsByElement, setSectionsByElement] = useState<Map<number, IFCPropertySection[]>>(new Map());
+  const [loadingItems, setLoadingItems] = useState<Set<number>>(new Set());
+
+  const loadSections = async (expressID: number) => {
+    if (!loadElementSections || sectionsByElement.has(expressID)) return;
+    setLoadingItems(prev => new Set(prev).add(expressID));
+    try {
+      const sections = await loadElementSections(expressID);
+      setSectionsByElement(prev => new Map(prev).set(expressID, sections));
+    } catch (err) {
+      console.warn(`⚠️ 속성 조회 실패 (ID: ${expressID}):`, err);
+      setSectionsByElement(prev => new Map(prev).set(expressID, []));
+    } finally {
+      setLoadingItems(prev => {
+        const next = new Set(prev);
+        next.delete(expressID);
+        return next;
+      });
+    }
+  };
 
   const toggleExpand = (expressID: number) => {
     const newExpanded = new Set(expandedItems);
@@ -22,6 +60,7 @@ export function PropertyPanel({ summary, onClose }: PropertyPanelProps) {
       newExpanded.delete(expressID);
     } else {
       newExpanded.add(expressID);
+      loadSections(expressID);
     }
     setExpandedItems(newExpanded);
   };
@@ -73,6 +112,25 @@ export function PropertyPanel({ summary, onClose }: PropertyPanelProps) {
                     <p className="text-lg font-mono text-slate-300">{summary.typeCode}</p>
                   </div>
                 </div>
+
+                {/* 산출 수량 (Qto 우선, 없으면 메시 계산) */}
+                {summary.dimensions && (summary.dimensions.totalArea || summary.dimensions.totalVolume || summary.dimensions.totalLength) && (
+                  <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+                    {[
+                      { label: "면적", value: summary.dimensions.totalArea, unit: "m²", digits: 2 },
+                      { label: "체적", value: summary.dimensions.totalVolume, unit: "m³", digits: 3 },
+                      { label: "길이", value: summary.dimensions.totalLength, unit: "m", digits: 2 },
+                    ].map(({ label, value, unit, digits }) => (
+                      <div key={label} className="bg-slate-800/50 rounded-lg px-2 py-2">
+                        <p className="text-xs text-slate-400">{label}</p>
+                        <p className="text-sm font-medium text-white tabular-nums">
+                          {value !== undefined ? value.toFixed(digits) : "-"}
+                          <span className="text-xs text-slate-500 ml-0.5">{unit}</span>
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -113,7 +171,44 @@ export function PropertyPanel({ summary, onClose }: PropertyPanelProps) {
                             <span className="text-xs text-slate-300">{element.description}</span>
                           </div>
                         )}
-                        {element.properties.length > 0 ? (
+                        {loadingItems.has(element.expressID) ? (
+                          <div className="flex items-center gap-2 py-1 text-xs text-slate-500">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            속성 불러오는 중...
+                          </div>
+                        ) : (sectionsByElement.get(element.expressID)?.length ?? 0) > 0 ? (
+                          <div className="space-y-3 mt-1">
+                            {sectionsByElement.get(element.expressID)!.map((section) => (
+                              <div key={section.id}>
+                                <div className="flex items-center gap-2 mb-1">
+                                  <span className={`text-[10px] px-1.5 py-0.5 rounded ${SECTION_BADGES[section.kind].className}`}>
+                                    {SECTION_BADGES[section.kind].label}
+                                  </span>
+                                  <span className="text-xs font-medium text-slate-300 truncate" title={section.title}>
+                                    {section.title}
+                                  </span>
+                                  {section.source === "type" && section.kind !== "type" && (
+                                    <span className="text-[10px] text-slate-500 ml-auto">타입</span>
+                                  )}
+                                </div>
+                                {section.properties.length > 0 ? (
+                                  <div className="space-y-0.5 pl-1">
+                                    {section.properties.map((prop, propIndex) => (
+                                      <div key={propIndex} className="flex justify-between gap-2 text-xs">
+                                        <span className="text-slate-500 truncate" title={prop.type}>{prop.name}</span>
+                                        <span className="text-slate-300 font-medium text-right break-all">
+                                          {formatValue(prop)}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                ) : (
+                                  <p className="text-xs text-slate-500 pl-1">값 없음</p>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        ) : element.properties.length > 0 ? (
                           <div className="space-y-1 mt-1">
                             {element.properties.slice(0, 5).map((prop, propIndex) => (
                               <div key={propIndex} className="flex justify-between text-xs">
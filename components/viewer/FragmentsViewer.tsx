@@ -21,7 +21,8 @@ import { ViewerToolbar } from "./toolbar";
 import { FileUpload } from "./upload";
 
 // 타입
-import { MaterialItem, StoreyInfo, IFCSpatialNode, IFC_TYPE_NAMES, ElementDimensions, IFC_SPATIAL_TYPES } from "@/types/ifc";
+import { MaterialItem, StoreyInfo, IFCSpatialNode, ElementDimensions, IFC_SPATIAL_TYPES } from "@/types/ifc";
+import { getIfcTypeInfo, IfcSchemaModule, registerIfcSchema } from "@/lib/ifc/typeRegistry";
 
 // 성능 통계
 import StatsImpl from "stats.js";
@@ -58,14 +59,6 @@ interface IfcGeometry {
   GetIndexDataSize(): number;
 }
 
-const TYPE_CATEGORIES: Record<number, string> = {
-  45: "구조", 46: "구조", 1529196076: "구조", 843113511: "구조",
-  753842376: "구조", 900683007: "구조",
-  395920057: "건축", 3304561284: "건축", 331165859: "건축",
-  2016517767: "건축", 2262370178: "건축", 1973544240: "건축",
-  263784265: "가구", 3171933400: "기타", 1073191201: "기타",
-};
-
 function StatsPanel({ parentRef }: { parentRef: React.RefObject<HTMLDivElement | null> }) {
   useEffect(() => {
     if (!parentRef.current) return;
@@ -913,6 +906,7 @@ export function FragmentsViewer() {
       // web-ifc 로드 (동적 import)
       // 참고: https://github.com/ThatOpen/engine_web-ifc/tree/main/examples/usage
       const WebIFC = await import("web-ifc");
+      registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
       
       let ifcApi = ifcApiRef.current;
       if (!ifcApi) {
@@ -1203,8 +1197,8 @@ export function FragmentsViewer() {
         materialsList.push({
           id: key,
           typeCode: data.typeCode,
-          typeName: IFC_TYPE_NAMES[data.typeCode] || `타입 ${data.typeCode}`,
-          category: TYPE_CATEGORIES[data.typeCode] || "기타",
+          typeName: getIfcTypeInfo(data.typeCode).koreanName,
+          category: getIfcTypeInfo(data.typeCode).category,
           spec: data.spec,
           count: data.expressIDs.length,
           unit: "개",
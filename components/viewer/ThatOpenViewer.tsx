@@ -19,47 +19,14 @@ import { FileUpload } from "./upload";
 
 // 타입
 import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
+import { getIfcTypeInfoByName } from "@/lib/ifc/typeRegistry";
 
 // 성능 통계
 import StatsImpl from "stats.js";
 
-// IFC 카테고리 한글 이름 매핑
+// IFC 카테고리 한글 이름 (스키마 타입 레지스트리)
 function getCategoryKoreanName(ifcType: string): string {
-  const mapping: Record<string, string> = {
-    'IfcWall': '벽',
-    'IfcWallStandardCase': '벽',
-    'IfcSlab': '슬라브',
-    'IfcColumn': '기둥',
-    'IfcBeam': '보',
-    'IfcDoor': '문',
-    'IfcWindow': '창문',
-    'IfcStair': '계단',
-    'IfcStairFlight': '계단',
-    'IfcRoof': '지붕',
-    'IfcRailing': '난간',
-    'IfcFurniture': '가구',
-    'IfcFurnishingElement': '가구',
-    'IfcPlate': '판',
-    'IfcMember': '부재',
-    'IfcCovering': '마감재',
-    'IfcFooting': '기초',
-    'IfcPile': '파일',
-    'IfcCurtainWall': '커튼월',
-    'IfcBuildingElementProxy': '기타요소',
-    'IfcSpace': '공간',
-    'IfcOpeningElement': '개구부',
-    'IfcFlowTerminal': '위생기구',
-    'IfcFlowSegment': '배관',
-    'IfcFlowFitting': '배관피팅',
-    'IfcDistributionElement': '설비요소',
-    'IfcReinforcingBar': '철근',
-    'IfcReinforcingMesh': '철망',
-    // 공정별 분류
-    'IfcAnnotation': '가설공사',
-    'IfcGrid': '측량',
-  };
-  
-  return mapping[ifcType] || ifcType.replace('Ifc', '');
+  return getIfcTypeInfoByName(ifcType)?.koreanName ?? ifcType.replace(/^Ifc/i, '');
 }
 
 // 카테고리별 단위 결정
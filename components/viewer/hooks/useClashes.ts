@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useCallback, useRef, useMemo } from "react";
+import * as THREE from "three";
+import { Clash, ClashElementInfo, ClashStatus, SelectionSummary } from "@/types/ifc";
+import { ClashCancelledError, ClashElement, detectClashes } from "@/lib/three";
+import { bcfStore } from "@/lib/bcf/bcfStore";
+import { clashesToCsv, exportClashesToXlsx } from "@/lib/export/clashExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+import type { SceneCameraControl } from "../scene";
+
+// 간섭 검토 대상 집합 (모델 전체 / IFC 타입 / 검토 시작 시점의 선택)
+export type ClashSetSource =
+  | { kind: "model"; slot: number }
+  | { kind: "types"; typeCodes: number[] }
+  | { kind: "selection"; keys: number[] };
+
+export interface ClashTestSettings {
+  setA: ClashSetSource;
+  setB: ClashSetSource;
+  clearance: number; // 여유 거리 (m), 0이면 하드 간섭만
+}
+
+interface UseClashesOptions {
+  model: THREE.Group | null;
+  cameraControlRef: React.RefObject<SceneCameraControl | null>;
+  getGlobalIds: (expressIDs: number[]) => string[];
+  getSelectionSummary: (expressIDs: number[]) => SelectionSummary | null;
+  onSelectElements: (expressIDs: number[]) => void;
+}
+
+// 간섭 위치로 카메라를 옮길 때 최소 거리 (m)
+const MIN_FOCUS_DISTANCE = 2;
+
+/**
+ * 간섭 검토 훅
+ * - 요소 집합은 씬의 메시(userData.expressID/typeCode, 모델 그룹 userData.modelSlot)에서 구성
+ * - 결과는 "A 타입 ↔ B 타입" 그룹 → 거리 순, 상태는 GlobalId 쌍으로 저장되어 다시 검토해도 유지
+ */
+export function useClashes({ model, cameraControlRef, getGlobalIds, getSelectionSummary, onSelectElements }: UseClashesOptions) {
+  // 검토 결과 (결과를 만든 모델이 바뀌면 무효)
+  const [result, setResult] = useState<{ model: THREE.Group; testName: string; clashes: Clash[] } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const activeResult = result && result.model === model ? result : null;
+  const clashes = useMemo(() => activeResult?.clashes ?? [], [activeResult]);
+  const testName = activeResult?.testName ?? null;
+
+  // 씬 메시 → 요소 (요소 키별 메시 목록)
+  const collectElements = useCallback((source: ClashSetSource): ClashElement[] => {
+    if (!model) return [];
+    const typeCodes = source.kind === "types" ? new Set(source.typeCodes) : null;
+    const keys = source.kind === "selection" ? new Set(source.keys) : null;
+    const elements = new Map<number, THREE.Mesh[]>();
+
+    model.traverse(child => {
+      if (!(child instanceof THREE.Mesh) || child.userData.expressID === undefined) return;
+      const key: number = child.userData.expressID;
+      if (source.kind === "model" && child.parent?.userData.modelSlot !== source.slot) return;
+      if (typeCodes && !typeCodes.has(child.userData.typeCode)) return;
+      if (keys && !keys.has(key)) return;
+      const meshes = elements.get(key) || [];
+      meshes.push(child);
+      elements.set(key, meshes);
+    });
+    return Array.from(elements, ([key, meshes]) => ({ key, meshes }));
+  }, [model]);
+
+  const runTest = useCallback(async ({ setA, setB, clearance }: ClashTestSettings, name: string) => {
+    if (!model) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      model.updateMatrixWorld(true);
+      const elementsA = collectElements(setA);
+      const elementsB = collectElements(setB);
+      if (elementsA.length === 0 || elementsB.length === 0) throw new Error("검토할 요소가 없는 집합이 있습니다");
+
+      const hits = await detectClashes(elementsA, elementsB, {
+        clearance,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(total > 0 ? Math.round((done / total) * 100) : 100),
+      });
+
+      // 요소 표시 정보 (타입·이름·GlobalId)
+      const infoCache = new Map<number, ClashElementInfo>();
+      const infoOf = (key: number): ClashElementInfo => {
+        let info = infoCache.get(key);
+        if (!info) {
+          const element = getSelectionSummary([key])?.elements[0];
+          info = { globalId: getGlobalIds([key])[0], type: element?.type ?? "요소", name: element?.name };
+          infoCache.set(key, info);
+        }
+        return info;
+      };
+
+      const results = hits.map(hit => {
+        const elementA = infoOf(hit.keyA);
+        const elementB = infoOf(hit.keyB);
+        return {
+          ...hit,
+          id: `${elementA.globalId ?? hit.keyA}:${elementB.globalId ?? hit.keyB}`,
+          elementA,
+          elementB,
+          group: `${elementA.type} ↔ ${elementB.type}`,
+          status: "new" as ClashStatus,
+        };
+      });
+
+      // 저장된 상태 반영
+      try {
+        const stored = await bcfStore.getClashStatuses(results.map(clash => clash.id));
+        for (const clash of results) clash.status = stored.get(clash.id)?.status ?? "new";
+      } catch (e) {
+        console.warn("간섭 상태 불러오기 실패:", e);
+      }
+
+      results.sort((a, b) => a.group.localeCompare(b.group) || a.distance - b.distance || b.depth - a.depth);
+      setResult({ model, testName: name, clashes: results });
+      setCurrentId(null);
+      console.log(`💥 간섭 검토: ${elementsA.length} × ${elementsB.length} 요소 → ${results.length}건`);
+    } catch (e) {
+      if (!(e instanceof ClashCancelledError)) {
+        console.error("간섭 검토 실패:", e);
+        setError(e instanceof Error ? e.message : "간섭 검토 실패");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  }, [model, collectElements, getGlobalIds, getSelectionSummary]);
+
+  const cancelTest = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clearClashes = useCallback(() => {
+    setResult(null);
+    setCurrentId(null);
+  }, []);
+
+  // 간섭 위치로 이동 (두 요소 선택 + 현재 보는 방향 그대로 간섭 범위에 맞춰 확대)
+  const focusClash = useCallback((clash: Clash) => {
+    setCurrentId(clash.id);
+    onSelectElements([clash.keyA, clash.keyB]);
+
+    const control = cameraControlRef.current;
+    if (!control) return;
+    const camera = control.getCamera();
+    const box = new THREE.Box3(new THREE.Vector3(...clash.box.min), new THREE.Vector3(...clash.box.max));
+    const center = new THREE.Vector3(...clash.point);
+    const direction = new THREE.Vector3(...camera.position).sub(new THREE.Vector3(...camera.target));
+    if (direction.lengthSq() === 0) direction.set(1, 1, 1);
+    const distance = Math.max(box.getSize(new THREE.Vector3()).length() * 2, MIN_FOCUS_DISTANCE);
+    const position = center.clone().add(direction.normalize().multiplyScalar(distance));
+
+    control.setCamera({
+      position: position.toArray() as [number, number, number],
+      target: center.toArray() as [number, number, number],
+      fov: camera.fov,
+    });
+  }, [cameraControlRef, onSelectElements]);
+
+  // 이전/다음 간섭 (목록 순서, 끝에서 처음으로)
+  const stepClash = useCallback((list: Clash[], offset: 1 | -1) => {
+    if (list.length === 0) return;
+    const index = list.findIndex(clash => clash.id === currentId);
+    const next = index < 0 ? (offset > 0 ? 0 : list.length - 1) : (index + offset + list.length) % list.length;
+    focusClash(list[next]);
+  }, [currentId, focusClash]);
+
+  const setClashStatus = useCallback(async (id: string, status: ClashStatus) => {
+    setResult(prev => prev && {
+      ...prev,
+      clashes: prev.clashes.map(clash => (clash.id === id ? { ...clash, status } : clash)),
+    });
+    try {
+      await bcfStore.saveClashStatuses([{ id, status, updatedAt: Date.now() }]);
+    } catch (e) {
+      console.warn("간섭 상태 저장 실패:", e);
+    }
+  }, []);
+
+  const exportClashes = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (clashes.length === 0) return;
+    const input = { clashes, testName: testName ?? undefined };
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_간섭`;
+    if (format === "csv") downloadBlob(csvBlob(clashesToCsv(input)), `${baseName}.csv`);
+    else downloadBlob(exportClashesToXlsx(input), `${baseName}.xlsx`);
+  }, [clashes, testName]);
+
+  return {
+    clashes,
+    testName,
+    isRunning,
+    progress,
+    error,
+    currentId,
+    runTest,
+    cancelTest,
+    clearClashes,
+    focusClash,
+    stepClash,
+    setClashStatus,
+    exportClashes,
+  };
+}
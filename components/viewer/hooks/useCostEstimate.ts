@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import * as THREE from "three";
+import { MaterialItem, QuantityTotals, StoreyInfo } from "@/types/ifc";
+import {
+  PriceListError,
+  StoredPriceData,
+  buildCostEstimate,
+  costBands,
+  createPriceListVersion,
+  loadStoredPriceData,
+  parsePriceCsv,
+  storePriceData,
+} from "@/lib/ifc/costEstimate";
+import { costEstimateToCsv, exportCostEstimateToXlsx, priceListToCsv } from "@/lib/export/costExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+
+/**
+ * 공사비 산출 훅
+ * - 단가표(버전별)와 자재 행 직접 연결은 브라우저에 저장 (모델과 무관)
+ * - 자재 행은 수량표와 같은 목록 (분류 매핑 적용 결과)
+ * - 3D 색상은 켰을 때만 요소별 금액 구간 계산
+ */
+export function useCostEstimate(
+  model: THREE.Group | null,
+  materials: MaterialItem[],
+  storeys: StoreyInfo[],
+  getQuantityTotals: (expressIDs: number[]) => QuantityTotals
+) {
+  const [stored, setStored] = useState(loadStoredPriceData);
+  const [showInScene, setShowInScene] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { lists, activeId, links } = stored;
+
+  const update = useCallback((next: StoredPriceData) => {
+    setStored(next);
+    try {
+      storePriceData(next);
+    } catch (e) {
+      console.warn("단가표 저장 실패:", e);
+    }
+  }, []);
+
+  const activeList = useMemo(() => lists.find(list => list.id === activeId) ?? null, [lists, activeId]);
+
+  const estimate = useMemo(
+    () => (model && activeList ? buildCostEstimate(materials, activeList, links, storeys, getQuantityTotals) : null),
+    [model, activeList, materials, links, storeys, getQuantityTotals]
+  );
+
+  const scene = useMemo(() => (estimate && showInScene ? costBands(estimate.elementCosts) : null), [estimate, showInScene]);
+
+  // 가져오기 (파일 이름이 같은 단가표는 다음 버전으로 추가, 가져온 버전을 바로 적용)
+  const importPriceList = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      const entries = parsePriceCsv(await file.text());
+      const list = createPriceListVersion(lists, file.name.replace(/\.csv$/i, ""), entries, file.name);
+      update({ lists: [...lists, list], activeId: list.id, links });
+      console.log(`💰 단가표 가져오기: ${list.name} v${list.version} (${entries.length}개 항목)`);
+    } catch (e) {
+      console.error("단가표 가져오기 실패:", e);
+      setError(e instanceof PriceListError ? e.message : "단가표 CSV를 읽을 수 없습니다");
+    }
+  }, [update, lists, links]);
+
+  const setActiveList = useCallback((id: string | null) => update({ lists, activeId: id, links }), [update, lists, links]);
+
+  const deleteList = useCallback((id: string) => {
+    update({ lists: lists.filter(list => list.id !== id), activeId: activeId === id ? null : activeId, links });
+  }, [update, lists, activeId, links]);
+
+  // 자재 행 직접 연결 (null이면 자동 연결로 되돌림)
+  const setLink = useCallback((materialId: string, entryKey: string | null) => {
+    const next = { ...links };
+    if (entryKey) next[materialId] = entryKey;
+    else delete next[materialId];
+    update({ lists, activeId, links: next });
+  }, [update, lists, activeId, links]);
+
+  const toggleShowInScene = useCallback(() => setShowInScene(prev => !prev), []);
+
+  const exportEstimate = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (!estimate) return;
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_공사비`;
+    if (format === "csv") downloadBlob(csvBlob(costEstimateToCsv(estimate)), `${baseName}.csv`);
+    else downloadBlob(exportCostEstimateToXlsx(estimate, activeList), `${baseName}.xlsx`);
+  }, [estimate, activeList]);
+
+  const exportPriceList = useCallback((id: string) => {
+    const list = lists.find(l => l.id === id);
+    if (list) downloadBlob(csvBlob(priceListToCsv(list)), `${list.name}_v${list.version}.csv`);
+  }, [lists]);
+
+  return {
+    lists,
+    activeList,
+    links,
+    estimate,
+    error,
+    showInScene,
+    costBands: scene?.bands ?? null,
+    costLimits: scene?.limits ?? [],
+    importPriceList,
+    setActiveList,
+    deleteList,
+    setLink,
+    toggleShowInScene,
+    exportEstimate,
+    exportPriceList,
+  };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { FederatedModel, FederatedModelInfo } from "@/types/ifc";
+
+/**
+ * 통합 모델 표시 상태 관리 훅 (모델별 표시/투명도/정렬)
+ * 모델 목록 자체는 로더가 관리하고, 로드/제거 후 syncModels로 맞춤
+ */
+export function useFederation() {
+  const [federatedModels, setFederatedModels] = useState<FederatedModel[]>([]);
+
+  // 로더의 모델 목록과 맞춤 (이미 있던 모델은 표시 상태 유지)
+  const syncModels = useCallback((infos: FederatedModelInfo[]) => {
+    setFederatedModels(prev => infos.map(info => {
+      const existing = prev.find(m => m.slot === info.slot && m.modelId === info.modelId);
+      return existing
+        ? { ...existing, ...info }
+        : { ...info, visible: true, opacity: 1, offset: [0, 0, 0], rotation: 0 };
+    }));
+  }, []);
+
+  const updateModel = useCallback((slot: number, patch: Partial<FederatedModel>) => {
+    setFederatedModels(prev => prev.map(m => (m.slot === slot ? { ...m, ...patch } : m)));
+  }, []);
+
+  const setModelVisible = useCallback((slot: number, visible: boolean) => {
+    updateModel(slot, { visible });
+  }, [updateModel]);
+
+  const setModelOpacity = useCallback((slot: number, opacity: number) => {
+    updateModel(slot, { opacity: Math.min(1, Math.max(0, opacity)) });
+  }, [updateModel]);
+
+  const setModelAlignment = useCallback((slot: number, alignment: Pick<FederatedModel, "offset" | "rotation">) => {
+    updateModel(slot, alignment);
+  }, [updateModel]);
+
+  return {
+    federatedModels,
+    syncModels,
+    setModelVisible,
+    setModelOpacity,
+    setModelAlignment,
+  };
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import * as THREE from "three";
+import { IdsDocument, IdsElement, IdsElementStatus, IdsParseError, IdsReport, parseIds, validateIds } from "@/lib/ifc/ids";
+import { idsReportToCsv, exportIdsReportToXlsx } from "@/lib/export/idsExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+
+/**
+ * IDS 검사 훅
+ * - IDS 파일을 읽어 두고, 검사하면 불러온 전체 모델의 요소를 사양별로 판정
+ * - 결과는 검사한 모델이 바뀌면 무효, 3D 색상은 선택한 사양(없으면 전체 사양) 기준
+ */
+export function useIdsValidation(model: THREE.Group | null, getIdsElements: () => Promise<IdsElement[]>) {
+  const [ids, setIds] = useState<{ fileName: string; document: IdsDocument } | null>(null);
+  const [result, setResult] = useState<{ model: THREE.Group; report: IdsReport } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeSpec, setActiveSpec] = useState<number | null>(null);
+  const [showInScene, setShowInScene] = useState(true);
+
+  const report = result && result.model === model ? result.report : null;
+
+  const loadIdsFile = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      const document = parseIds(await file.text());
+      setIds({ fileName: file.name, document });
+      setResult(null);
+      setActiveSpec(null);
+      console.log(`📑 IDS 로드: ${document.title} (사양 ${document.specifications.length}개)`);
+    } catch (e) {
+      console.error("IDS 읽기 실패:", e);
+      setError(e instanceof IdsParseError ? e.message : "IDS 파일을 읽을 수 없습니다");
+    }
+  }, []);
+
+  const runValidation = useCallback(async () => {
+    if (!model || !ids) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const elements = await getIdsElements();
+      const info = new Map(elements.map(element => [element.key, element.attributes]));
+      const next = validateIds(ids.document, elements, key => ({ globalId: info.get(key)?.GlobalId, name: info.get(key)?.Name }));
+      setResult({ model, report: next });
+      setShowInScene(true);
+      const failed = next.results.filter(r => r.status === "fail").length;
+      console.log(`📑 IDS 검사: 요소 ${elements.length}개, 사양 ${next.results.length}개 중 실패 ${failed}개`);
+    } catch (e) {
+      console.error("IDS 검사 실패:", e);
+      setError(e instanceof Error ? e.message : "IDS 검사 실패");
+    } finally {
+      setIsChecking(false);
+    }
+  }, [model, ids, getIdsElements]);
+
+  const clearIds = useCallback(() => {
+    setIds(null);
+    setResult(null);
+    setActiveSpec(null);
+    setError(null);
+  }, []);
+
+  const toggleShowInScene = useCallback(() => setShowInScene(prev => !prev), []);
+
+  const exportReport = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (!report) return;
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_IDS검사`;
+    if (format === "csv") downloadBlob(csvBlob(idsReportToCsv(report)), `${baseName}.csv`);
+    else downloadBlob(exportIdsReportToXlsx(report, modelName), `${baseName}.xlsx`);
+  }, [report]);
+
+  // 요소 키 → 통과/실패 (여러 사양에 적용되면 하나라도 실패하면 실패)
+  const idsStatuses = useMemo(() => {
+    if (!report || !showInScene) return null;
+    const results = activeSpec !== null ? report.results.slice(activeSpec, activeSpec + 1) : report.results;
+    const statuses = new Map<number, IdsElementStatus>();
+    for (const r of results) {
+      for (const key of r.passedKeys) if (!statuses.has(key)) statuses.set(key, "pass");
+      for (const failure of r.failures) statuses.set(failure.key, "fail");
+    }
+    return statuses;
+  }, [report, activeSpec, showInScene]);
+
+  return {
+    fileName: ids?.fileName ?? null,
+    document: ids?.document ?? null,
+    report,
+    isChecking,
+    error,
+    activeSpec,
+    setActiveSpec,
+    showInScene,
+    toggleShowInScene,
+    loadIdsFile,
+    runValidation,
+    clearIds,
+    exportReport,
+    idsStatuses,
+  };
+}
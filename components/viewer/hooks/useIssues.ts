@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { BcfComment, BcfTopic, BcfViewpoint, MaterialItem, SavedViewpoint, StoreyInfo } from "@/types/ifc";
+import { bcfStore, getBcfAuthor } from "@/lib/bcf/bcfStore";
+import { BcfVersion, createBcfZip, parseBcfZip } from "@/lib/bcf/bcfZip";
+import { hiddenMaterialsFromVisibility, toBcfVisibility } from "@/lib/bcf/visibility";
+import { downloadBlob } from "@/lib/export/download";
+import type { SceneCameraControl } from "../scene";
+import type { ViewpointState } from "./useViewpoints";
+
+// 새 이슈 입력값
+export interface NewTopicInput {
+  title: string;
+  description?: string;
+  topicType: string;
+  priority?: string;
+  assignedTo?: string;
+}
+
+// 이슈에서 수정 가능한 항목
+export type TopicPatch = Partial<Pick<BcfTopic, "title" | "description" | "topicType" | "status" | "priority" | "assignedTo">>;
+
+interface UseIssuesOptions {
+  modelId: string | null;
+  modelName?: string;
+  cameraControlRef: React.RefObject<SceneCameraControl | null>;
+  viewState: ViewpointState;
+  materials: MaterialItem[];
+  storeys: StoreyInfo[];
+  getGlobalIds: (expressIDs: number[]) => string[];
+  getExpressIDsByGlobalIds: (globalIds: string[]) => number[];
+  onApply: (viewpoint: SavedViewpoint) => void; // 선택/표시 상태 복원
+}
+
+// guid 기준 합치기 (뒤쪽 값 우선)
+const mergeByGuid = <T extends { guid: string }>(a: T[], b: T[]): T[] => {
+  const merged = new Map(a.map(item => [item.guid, item]));
+  for (const item of b) merged.set(item.guid, item);
+  return Array.from(merged.values());
+};
+
+/**
+ * 이슈(BCF 토픽) 관리 훅
+ * 요소는 GlobalId로 저장하므로 같은 모델의 다른 버전 파일에서도 이슈가 연결됨
+ */
+export function useIssues({
+  modelId,
+  modelName,
+  cameraControlRef,
+  viewState,
+  materials,
+  storeys,
+  getGlobalIds,
+  getExpressIDsByGlobalIds,
+  onApply,
+}: UseIssuesOptions) {
+  const [topics, setTopics] = useState<BcfTopic[]>([]);
+
+  useEffect(() => {
+    bcfStore.listTopics().then(setTopics).catch(() => setTopics([]));
+  }, []);
+
+  // 현재 모델과 관련된 이슈 (작성한 모델이거나 GlobalId가 하나라도 일치)
+  const relatedTopicGuids = useMemo(() => {
+    const related = new Set<string>();
+    if (!modelId) return related;
+    for (const topic of topics) {
+      if (topic.modelId === modelId || getExpressIDsByGlobalIds(topic.globalIds).length > 0) {
+        related.add(topic.guid);
+      }
+    }
+    return related;
+  }, [topics, modelId, getExpressIDsByGlobalIds]);
+
+  const storeTopics = useCallback(async (changed: BcfTopic[]) => {
+    await bcfStore.saveTopics(changed);
+    setTopics(prev => mergeByGuid(prev, changed).sort((a, b) => b.createdAt - a.createdAt));
+  }, []);
+
+  // 현재 화면 → BCF 뷰포인트 (카메라, 선택, 표시 상태, 스냅샷)
+  const captureViewpoint = useCallback((): BcfViewpoint | null => {
+    const control = cameraControlRef.current;
+    if (!control) return null;
+    return {
+      guid: crypto.randomUUID(),
+      camera: control.getCamera(),
+      selectedGlobalIds: getGlobalIds(viewState.selectedExpressIDs),
+      visibility: toBcfVisibility(materials, storeys, viewState.hiddenMaterialIds, viewState.selectedStorey, getGlobalIds),
+      snapshot: control.captureSnapshot(),
+    };
+  }, [cameraControlRef, getGlobalIds, viewState, materials, storeys]);
+
+  // 현재 선택으로 이슈 생성
+  const createTopic = useCallback(async (input: NewTopicInput) => {
+    const viewpoint = captureViewpoint();
+    if (!modelId || !viewpoint) return;
+
+    await storeTopics([{
+      guid: crypto.randomUUID(),
+      modelId,
+      title: input.title.trim() || "제목 없음",
+      description: input.description?.trim() || undefined,
+      topicType: input.topicType,
+      status: "Open",
+      priority: input.priority || undefined,
+      assignedTo: input.assignedTo?.trim() || undefined,
+      author: getBcfAuthor() || "익명",
+      createdAt: Date.now(),
+      globalIds: viewpoint.selectedGlobalIds,
+      viewpoints: [viewpoint],
+      comments: [],
+    }]);
+  }, [modelId, captureViewpoint, storeTopics]);
+
+  const updateTopic = useCallback(async (guid: string, patch: TopicPatch) => {
+    const topic = topics.find(t => t.guid === guid);
+    if (!topic) return;
+    await storeTopics([{ ...topic, ...patch, modifiedAt: Date.now(), modifiedAuthor: getBcfAuthor() || undefined }]);
+  }, [topics, storeTopics]);
+
+  // 코멘트 추가 (withViewpoint: 현재 화면을 뷰포인트로 함께 저장)
+  const addComment = useCallback(async (guid: string, text: string, withViewpoint = false) => {
+    const topic = topics.find(t => t.guid === guid);
+    if (!topic || !text.trim()) return;
+
+    const viewpoint = withViewpoint ? captureViewpoint() : null;
+    const comment: BcfComment = {
+      guid: crypto.randomUUID(),
+      author: getBcfAuthor() || "익명",
+      date: Date.now(),
+      text: text.trim(),
+      viewpointGuid: viewpoint?.guid,
+    };
+    await storeTopics([{
+      ...topic,
+      comments: [...topic.comments, comment],
+      viewpoints: viewpoint ? [...topic.viewpoints, viewpoint] : topic.viewpoints,
+      modifiedAt: comment.date,
+      modifiedAuthor: comment.author,
+    }]);
+  }, [topics, captureViewpoint, storeTopics]);
+
+  const deleteTopic = useCallback(async (guid: string) => {
+    await bcfStore.deleteTopic(guid);
+    setTopics(prev => prev.filter(t => t.guid !== guid));
+  }, []);
+
+  // 이슈의 뷰포인트로 이동 (기본: 첫 번째 뷰포인트, 없으면 관련 요소만 선택)
+  const showTopic = useCallback((topic: BcfTopic, viewpointGuid?: string) => {
+    const viewpoint = topic.viewpoints.find(v => v.guid === viewpointGuid) ?? topic.viewpoints[0];
+    if (viewpoint?.camera) cameraControlRef.current?.setCamera(viewpoint.camera);
+
+    onApply({
+      id: viewpoint?.guid ?? topic.guid,
+      modelId: modelId ?? topic.modelId,
+      name: topic.title,
+      createdAt: topic.createdAt,
+      camera: viewpoint?.camera ?? { position: [0, 0, 0], target: [0, 0, 0], fov: 45 },
+      selectedExpressIDs: getExpressIDsByGlobalIds(viewpoint?.selectedGlobalIds.length ? viewpoint.selectedGlobalIds : topic.globalIds),
+      hiddenMaterialIds: viewpoint ? hiddenMaterialsFromVisibility(materials, viewpoint.visibility, getExpressIDsByGlobalIds) : [],
+      selectedStorey: null,
+      xrayMode: viewState.xrayMode,
+      showEdges: viewState.showEdges,
+    });
+  }, [cameraControlRef, onApply, modelId, getExpressIDsByGlobalIds, materials, viewState.xrayMode, viewState.showEdges]);
+
+  const exportBcf = useCallback((version: BcfVersion, guids: string[]) => {
+    const selected = topics.filter(t => guids.includes(t.guid));
+    if (selected.length === 0) return;
+
+    const offset = cameraControlRef.current?.getModelOffset();
+    const baseName = (modelName || "model").replace(/\.[^.]+$/, "");
+    downloadBlob(createBcfZip(selected, version, offset), `${baseName}_issues.bcfzip`);
+  }, [topics, cameraControlRef, modelName]);
+
+  // .bcfzip 가져오기 - 같은 토픽이 있으면 코멘트·뷰포인트를 합침 (가져온 개수 반환)
+  const importBcf = useCallback(async (file: File): Promise<number> => {
+    const offset = cameraControlRef.current?.getModelOffset();
+    const files = await parseBcfZip(await file.arrayBuffer(), offset);
+
+    const imported: BcfTopic[] = files.map(topicFile => {
+      const existing = topics.find(t => t.guid === topicFile.guid);
+      const viewpoints = mergeByGuid(existing?.viewpoints ?? [], topicFile.viewpoints);
+      return {
+        ...topicFile,
+        modelId: existing?.modelId ?? modelId ?? "",
+        globalIds: Array.from(new Set(viewpoints.flatMap(v => v.selectedGlobalIds))),
+        viewpoints,
+        comments: mergeByGuid(existing?.comments ?? [], topicFile.comments).sort((a, b) => a.date - b.date),
+      };
+    });
+    await storeTopics(imported);
+    return imported.length;
+  }, [cameraControlRef, topics, modelId, storeTopics]);
+
+  return {
+    topics,
+    relatedTopicGuids,
+    createTopic,
+    updateTopic,
+    addComment,
+    deleteTopic,
+    showTopic,
+    exportBcf,
+    importBcf,
+  };
+}
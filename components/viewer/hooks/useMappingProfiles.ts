@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useDeferredValue } from "react";
+import * as THREE from "three";
+import { MaterialItem, QuantityTotals } from "@/types/ifc";
+import type { IdsElement } from "@/lib/ifc/ids";
+import {
+  MappingProfile,
+  MappingProfileError,
+  applyMappingProfile,
+  createMappingProfile,
+  loadStoredMappingProfiles,
+  parseMappingProfiles,
+  profileNeedsElements,
+  serializeMappingProfiles,
+  storeMappingProfiles,
+} from "@/lib/ifc/mappingProfile";
+import { downloadBlob } from "@/lib/export/download";
+
+/**
+ * 분류·이름 매핑 프로파일 훅
+ * - 프로파일 목록과 적용 중인 프로파일은 브라우저에 저장 (모델과 무관)
+ * - ObjectType·속성·재료 규칙이 있으면 요소 정보를 모델마다 한 번 조회
+ * - 규칙을 고치는 동안에도 자재 목록을 바로 다시 묶음 (입력은 막지 않도록 지연 적용)
+ */
+export function useMappingProfiles(
+  model: THREE.Group | null,
+  materials: MaterialItem[],
+  getIdsElements: () => Promise<IdsElement[]>,
+  getQuantityTotals: (expressIDs: number[]) => QuantityTotals
+) {
+  const [stored, setStored] = useState(loadStoredMappingProfiles);
+  const [elements, setElements] = useState<{ model: THREE.Group; map: Map<number, IdsElement> } | null>(null);
+  const [elementError, setElementError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { profiles, activeId } = stored;
+
+  const update = useCallback((next: { profiles: MappingProfile[]; activeId: string | null }) => {
+    setStored(next);
+    try {
+      storeMappingProfiles(next.profiles, next.activeId);
+    } catch (e) {
+      console.warn("매핑 프로파일 저장 실패:", e);
+    }
+  }, []);
+
+  const activeProfile = useMemo(() => profiles.find(p => p.id === activeId) ?? null, [profiles, activeId]);
+  const deferredProfile = useDeferredValue(activeProfile);
+  const needsElements = !!deferredProfile && profileNeedsElements(deferredProfile);
+  const elementMap = elements && elements.model === model ? elements.map : null;
+
+  // 요소 정보 조회 (모델이 바뀌면 다시)
+  useEffect(() => {
+    if (!model || !needsElements || elementMap) return;
+    let cancelled = false;
+    getIdsElements()
+      .then(list => {
+        if (cancelled) return;
+        setElements({ model, map: new Map(list.map(element => [element.key, element])) });
+        setElementError(null);
+      })
+      .catch(e => {
+        console.error("매핑용 요소 정보 조회 실패:", e);
+        if (!cancelled) setElementError("요소 정보를 불러오지 못해 ObjectType·속성·재료 규칙은 적용하지 않았습니다");
+      });
+    return () => { cancelled = true; };
+  }, [model, needsElements, elementMap, getIdsElements]);
+
+  const result = useMemo(() => {
+    if (!deferredProfile || materials.length === 0) return null;
+    return applyMappingProfile(materials, deferredProfile, elementMap, getQuantityTotals);
+  }, [deferredProfile, materials, elementMap, getQuantityTotals]);
+
+  const setActiveProfile = useCallback((id: string | null) => update({ profiles, activeId: id }), [update, profiles]);
+
+  const createProfile = useCallback((name: string) => {
+    const profile = createMappingProfile(name.trim() || `프로파일 ${profiles.length + 1}`);
+    update({ profiles: [...profiles, profile], activeId: profile.id });
+  }, [update, profiles]);
+
+  const duplicateProfile = useCallback((id: string) => {
+    const source = profiles.find(p => p.id === id);
+    if (!source) return;
+    const copy = createMappingProfile(`${source.name} 복사본`, source.rules.map(rule => ({ ...rule, id: crypto.randomUUID() })));
+    update({ profiles: [...profiles, copy], activeId: copy.id });
+  }, [update, profiles]);
+
+  const updateProfile = useCallback((profile: MappingProfile) => {
+    const next = { ...profile, updatedAt: new Date().toISOString() };
+    update({ profiles: profiles.map(p => (p.id === profile.id ? next : p)), activeId });
+  }, [update, profiles, activeId]);
+
+  const deleteProfile = useCallback((id: string) => {
+    update({ profiles: profiles.filter(p => p.id !== id), activeId: activeId === id ? null : activeId });
+  }, [update, profiles, activeId]);
+
+  // 가져오기 (같은 id의 프로파일은 덮어씀, 하나만 가져오면 바로 적용)
+  const importProfiles = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseMappingProfiles(await file.text());
+      const ids = new Set(imported.map(p => p.id));
+      update({
+        profiles: [...profiles.filter(p => !ids.has(p.id)), ...imported],
+        activeId: imported.length === 1 ? imported[0].id : activeId,
+      });
+      console.log(`🏷️ 매핑 프로파일 가져오기: ${imported.map(p => p.name).join(", ")}`);
+    } catch (e) {
+      console.error("매핑 프로파일 가져오기 실패:", e);
+      setError(e instanceof MappingProfileError ? e.message : "매핑 프로파일 파일을 읽을 수 없습니다");
+    }
+  }, [update, profiles, activeId]);
+
+  // 내보내기 (id를 주면 해당 프로파일만)
+  const exportProfiles = useCallback((id?: string) => {
+    const list = id ? profiles.filter(p => p.id === id) : profiles;
+    if (list.length === 0) return;
+    const baseName = list.length === 1 ? list[0].name : "매핑프로파일";
+    downloadBlob(new Blob([serializeMappingProfiles(list)], { type: "application/json" }), `${baseName}.json`);
+  }, [profiles]);
+
+  return {
+    profiles,
+    activeProfile,
+    mappedMaterials: result?.materials ?? materials,
+    matchedCount: result?.matchedCount ?? 0,
+    isLoadingElements: !!model && needsElements && !elementMap && !elementError,
+    error: error ?? (needsElements && !elementMap ? elementError : null),
+    setActiveProfile,
+    createProfile,
+    duplicateProfile,
+    updateProfile,
+    deleteProfile,
+    importProfiles,
+    exportProfiles,
+  };
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import * as THREE from "three";
+import { MaterialLayerTakeoff } from "@/lib/ifc/materialTakeoff";
+import { materialLayersToCsv, exportMaterialLayersToXlsx } from "@/lib/export/layerExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+
+export type MaterialLayerScope = "all" | "selection";
+
+/**
+ * 재료별 수량 훅
+ * - 전체 모델 또는 선택한 요소만 집계 (선택 범위일 때만 선택이 바뀌면 다시 집계)
+ */
+export function useMaterialLayers(
+  model: THREE.Group | null,
+  selectedExpressIDs: number[],
+  getMaterialLayerTakeoff: (expressIDs?: number[]) => MaterialLayerTakeoff
+) {
+  const [scope, setScope] = useState<MaterialLayerScope>("all");
+  const scopedIDs = scope === "selection" ? selectedExpressIDs : undefined;
+
+  const takeoff = useMemo(
+    () => (model ? getMaterialLayerTakeoff(scopedIDs) : null),
+    [model, scopedIDs, getMaterialLayerTakeoff]
+  );
+
+  const exportTakeoff = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (!takeoff || takeoff.items.length === 0) return;
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_재료별수량`;
+    if (format === "csv") downloadBlob(csvBlob(materialLayersToCsv(takeoff.items)), `${baseName}.csv`);
+    else downloadBlob(exportMaterialLayersToXlsx(takeoff.items), `${baseName}.xlsx`);
+  }, [takeoff]);
+
+  return { takeoff, scope, setScope, exportTakeoff };
+}
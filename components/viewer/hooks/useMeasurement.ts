@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import * as THREE from "three";
+import { MeasureMode, MeasurePick, Measurement } from "@/types/ifc";
+import { angleAt, closestPointsBetween, polygonArea, polylineLength, projectToPlane } from "@/lib/three";
+
+// 종류별 필요한 점 개수 (null: 완료할 때까지 계속 추가)
+const REQUIRED_PICKS: Record<MeasureMode, number | null> = {
+  distance: 2,
+  polyline: null,
+  angle: 3,
+  area: null,
+  perpendicular: 2,
+  elementDistance: 2,
+};
+
+// 계속 추가하는 종류의 최소 점 개수
+const MIN_PICKS: Partial<Record<MeasureMode, number>> = { polyline: 2, area: 3 };
+
+const toVector = (p: [number, number, number]) => new THREE.Vector3(...p);
+const toTuple = (v: THREE.Vector3) => v.toArray() as [number, number, number];
+
+// 요소의 메시 목록
+const findMeshes = (model: THREE.Group, expressID: number) => {
+  const meshes: THREE.Mesh[] = [];
+  model.traverse(child => {
+    if (child instanceof THREE.Mesh && child.userData.expressID === expressID) meshes.push(child);
+  });
+  return meshes;
+};
+
+// 클릭 지점 → 측정 결과 (요소 간 거리는 model 필요)
+function buildMeasurement(mode: MeasureMode, picks: MeasurePick[], model: THREE.Group | null): Measurement | null {
+  const points = picks.map(p => toVector(p.point));
+  const id = crypto.randomUUID();
+
+  switch (mode) {
+    case "distance":
+      return { id, mode, points: points.map(toTuple), value: points[0].distanceTo(points[1]), unit: "m" };
+    case "polyline":
+      return { id, mode, points: points.map(toTuple), value: polylineLength(points), unit: "m" };
+    case "angle":
+      return { id, mode, points: points.map(toTuple), value: angleAt(points[0], points[1], points[2]), unit: "°" };
+    case "area":
+      return { id, mode, points: points.map(toTuple), value: polygonArea(points), unit: "m²" };
+    case "perpendicular": {
+      // 첫 번째 클릭한 면에서 두 번째 점까지의 수직 거리
+      const normal = picks[0].normal;
+      if (!normal) return null;
+      const foot = projectToPlane(points[1], points[0], toVector(normal));
+      return { id, mode, points: [toTuple(points[1]), toTuple(foot)], value: points[1].distanceTo(foot), unit: "m" };
+    }
+    case "elementDistance": {
+      const [a, b] = picks.map(p => p.expressID);
+      if (!model || a === undefined || b === undefined || a === b) return null;
+      const closest = closestPointsBetween(findMeshes(model, a), findMeshes(model, b));
+      if (!closest) return null;
+      return {
+        id, mode,
+        points: [toTuple(closest.pointA), toTuple(closest.pointB)],
+        value: closest.distance,
+        unit: "m",
+        expressIDs: [a, b],
+      };
+    }
+  }
+}
+
+/**
+ * 측정 도구 상태 관리 훅
+ * Enter: 폴리라인·면적 완료, Esc: 진행 중인 측정 취소 (한 번 더 누르면 측정 모드 종료)
+ */
+export function useMeasurement(model: THREE.Group | null) {
+  const [measureMode, setMeasureModeState] = useState<MeasureMode | null>(null);
+  const [pendingPicks, setPendingPicks] = useState<MeasurePick[]>([]);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+
+  const setMeasureMode = useCallback((mode: MeasureMode | null) => {
+    setMeasureModeState(mode);
+    setPendingPicks([]);
+  }, []);
+
+  const commit = useCallback((mode: MeasureMode, picks: MeasurePick[]) => {
+    const measurement = buildMeasurement(mode, picks, model);
+    if (measurement) setMeasurements(prev => [...prev, measurement]);
+    setPendingPicks([]);
+  }, [model]);
+
+  const addPick = useCallback((pick: MeasurePick) => {
+    if (!measureMode) return;
+    // 요소 간 거리는 요소를, 수직 거리의 첫 점은 면을 클릭해야 함
+    if (measureMode === "elementDistance" && pick.expressID === undefined) return;
+    if (measureMode === "perpendicular" && pendingPicks.length === 0 && !pick.normal) return;
+
+    const picks = [...pendingPicks, pick];
+    if (picks.length === REQUIRED_PICKS[measureMode]) commit(measureMode, picks);
+    else setPendingPicks(picks);
+  }, [measureMode, pendingPicks, commit]);
+
+  // 폴리라인·면적 완료
+  const finishMeasurement = useCallback(() => {
+    if (!measureMode || pendingPicks.length < (MIN_PICKS[measureMode] ?? Infinity)) return;
+    commit(measureMode, pendingPicks);
+  }, [measureMode, pendingPicks, commit]);
+
+  const removeMeasurement = useCallback((id: string) => {
+    setMeasurements(prev => prev.filter(m => m.id !== id));
+  }, []);
+
+  const clearMeasurements = useCallback(() => {
+    setMeasurements([]);
+    setPendingPicks([]);
+  }, []);
+
+  // 리셋 (모델 로드 시)
+  const resetMeasurement = useCallback(() => {
+    setMeasureModeState(null);
+    setPendingPicks([]);
+    setMeasurements([]);
+  }, []);
+
+  // 키보드 단축키
+  useEffect(() => {
+    if (!measureMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "Enter") {
+        finishMeasurement();
+      } else if (e.key === "Escape") {
+        if (pendingPicks.length > 0) setPendingPicks([]);
+        else setMeasureModeState(null);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [measureMode, pendingPicks.length, finishMeasurement]);
+
+  return {
+    measureMode,
+    pendingPicks,
+    measurements,
+    canFinish: !!measureMode && pendingPicks.length >= (MIN_PICKS[measureMode] ?? Infinity),
+    setMeasureMode,
+    addPick,
+    finishMeasurement,
+    removeMeasurement,
+    clearMeasurements,
+    resetMeasurement,
+  };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import { FederatedModel } from "@/types/ifc";
+import { buildModelDiff, ModelDiff, ModelDiffInput, ModelDiffStatus } from "@/lib/ifc/modelDiff";
+
+interface ModelDiffResult {
+  base: FederatedModel;
+  revised: FederatedModel;
+  diff: ModelDiff;
+  baseKeys: number[]; // 이전 모델의 비교 대상 요소 (삭제 외에는 3D에서 숨김)
+}
+
+/**
+ * 버전 비교 상태 관리 훅 (통합 모델에 함께 불러온 두 모델을 비교)
+ * 기본값: 처음 불러온 모델 → 이전, 마지막에 불러온 모델 → 개정
+ * 비교한 모델이 제거되거나 바뀌면 결과를 버림
+ */
+export function useModelDiff(
+  models: FederatedModel[],
+  getModelDiffInput: (slot: number) => Promise<ModelDiffInput | null>
+) {
+  const [chosenSlots, setChosenSlots] = useState<{ base: number; revised: number } | null>(null);
+  const [result, setResult] = useState<ModelDiffResult | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showInScene, setShowInScene] = useState(true);
+
+  const hasModel = (slot: number | undefined) => models.some(m => m.slot === slot);
+  const baseSlot = chosenSlots && hasModel(chosenSlots.base) ? chosenSlots.base : models[0]?.slot ?? null;
+  const revisedSlot = chosenSlots && hasModel(chosenSlots.revised)
+    ? chosenSlots.revised
+    : models.length > 1 ? models[models.length - 1].slot : null;
+
+  // 비교한 두 모델이 그대로 있을 때만 결과 유지
+  const isCurrent = (model: FederatedModel) =>
+    models.some(m => m.slot === model.slot && m.modelId === model.modelId);
+  const activeResult = result && isCurrent(result.base) && isCurrent(result.revised) ? result : null;
+
+  const setSlots = useCallback((base: number, revised: number) => {
+    setChosenSlots({ base, revised });
+  }, []);
+
+  const compare = useCallback(async () => {
+    const base = models.find(m => m.slot === baseSlot);
+    const revised = models.find(m => m.slot === revisedSlot);
+    if (!base || !revised || base.slot === revised.slot) {
+      setError("서로 다른 두 모델을 선택하세요");
+      return;
+    }
+
+    setIsComparing(true);
+    setError(null);
+    try {
+      const [baseInput, revisedInput] = await Promise.all([getModelDiffInput(base.slot), getModelDiffInput(revised.slot)]);
+      if (!baseInput || !revisedInput) throw new Error("비교할 모델을 찾을 수 없습니다");
+
+      const diff = buildModelDiff(baseInput, revisedInput);
+      setResult({ base, revised, diff, baseKeys: baseInput.elements.map(element => element.key) });
+      setShowInScene(true);
+      console.log(`🔀 버전 비교: 추가 ${diff.counts.added}, 삭제 ${diff.counts.removed}, 형상 ${diff.counts.geometry}, 속성 ${diff.counts.properties}, 동일 ${diff.unchanged}`);
+    } catch (e) {
+      console.error("버전 비교 실패:", e);
+      setError(e instanceof Error ? e.message : "버전 비교 실패");
+    } finally {
+      setIsComparing(false);
+    }
+  }, [models, baseSlot, revisedSlot, getModelDiffInput]);
+
+  const clearDiff = useCallback(() => {
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const toggleShowInScene = useCallback(() => setShowInScene(prev => !prev), []);
+
+  // 3D 표시용 - 요소 키 → 변경 종류, 이전 모델에서 숨길 요소 (개정 모델과 겹침)
+  const diffStatuses = useMemo(() => {
+    if (!activeResult) return null;
+    return new Map<number, ModelDiffStatus>(activeResult.diff.entries.map(entry => [entry.key, entry.status]));
+  }, [activeResult]);
+
+  const diffHiddenKeys = useMemo(() => {
+    if (!activeResult || !diffStatuses) return null;
+    return new Set(activeResult.baseKeys.filter(key => diffStatuses.get(key) !== "removed"));
+  }, [activeResult, diffStatuses]);
+
+  const sceneActive = !!activeResult && showInScene;
+
+  return {
+    baseSlot,
+    revisedSlot,
+    setSlots,
+    diff: activeResult?.diff ?? null,
+    comparedModels: activeResult ? { base: activeResult.base, revised: activeResult.revised } : null,
+    isComparing,
+    error,
+    compare,
+    clearDiff,
+    showInScene,
+    toggleShowInScene,
+    diffStatuses: sceneActive ? diffStatuses : null,
+    diffHiddenKeys: sceneActive ? diffHiddenKeys : null,
+  };
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import * as THREE from "three";
+import { HealthReport } from "@/lib/ifc/modelHealth";
+import { healthReportToCsv, exportHealthReportToXlsx } from "@/lib/export/healthExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+
+/**
+ * 모델 점검 훅
+ * - 불러온 전체 모델을 점검하고, 결과는 점검한 모델이 바뀌면 무효
+ */
+export function useModelHealth(model: THREE.Group | null, getModelHealth: () => Promise<HealthReport>) {
+  const [result, setResult] = useState<{ model: THREE.Group; report: HealthReport } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = result && result.model === model ? result.report : null;
+
+  const runCheck = useCallback(async () => {
+    if (!model) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const next = await getModelHealth();
+      setResult({ model, report: next });
+      console.log(`🩺 모델 점검: 요소 ${next.elementCount}개, 문제 항목 ${next.findings.length}개`);
+    } catch (e) {
+      console.error("모델 점검 실패:", e);
+      setError(e instanceof Error ? e.message : "모델 점검 실패");
+    } finally {
+      setIsChecking(false);
+    }
+  }, [model, getModelHealth]);
+
+  const exportReport = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (!report) return;
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_모델점검`;
+    if (format === "csv") downloadBlob(csvBlob(healthReportToCsv(report)), `${baseName}.csv`);
+    else downloadBlob(exportHealthReportToXlsx(report, modelName), `${baseName}.xlsx`);
+  }, [report]);
+
+  return { report, isChecking, error, runCheck, exportReport };
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import * as THREE from "three";
+import { MaterialItem } from "@/types/ifc";
+import {
+  OpeningDeductionSettings,
+  OpeningHost,
+  applyOpeningDeductions,
+  loadStoredDeductionSettings,
+  storeDeductionSettings,
+} from "@/lib/ifc/openings";
+import { openingDeductionsToCsv, exportOpeningDeductionsToXlsx } from "@/lib/export/openingExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
+
+/**
+ * 개구부 공제 훅
+ * - 공제 규칙은 브라우저에 저장 (모델과 무관)
+ * - 자재 행은 수량표와 같은 목록 (분류 매핑 적용 결과)
+ */
+export function useOpeningDeductions(
+  model: THREE.Group | null,
+  materials: MaterialItem[],
+  getOpeningHosts: () => { hosts: Map<number, OpeningHost>; incompleteModels: string[] }
+) {
+  const [settings, setSettings] = useState(loadStoredDeductionSettings);
+
+  const updateSettings = useCallback((patch: Partial<OpeningDeductionSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    try {
+      storeDeductionSettings(next);
+    } catch (e) {
+      console.warn("개구부 공제 규칙 저장 실패:", e);
+    }
+  }, [settings]);
+
+  const hostData = useMemo(() => (model ? getOpeningHosts() : null), [model, getOpeningHosts]);
+  const result = useMemo(
+    () => (hostData ? applyOpeningDeductions(materials, hostData.hosts, settings) : null),
+    [hostData, materials, settings]
+  );
+
+  const exportDeductions = useCallback((format: "csv" | "xlsx", modelName?: string) => {
+    if (!result || result.groups.length === 0) return;
+    const baseName = `${(modelName || "model").replace(/\.ifc$/i, "")}_개구부공제`;
+    if (format === "csv") downloadBlob(csvBlob(openingDeductionsToCsv(result)), `${baseName}.csv`);
+    else downloadBlob(exportOpeningDeductionsToXlsx(result, settings), `${baseName}.xlsx`);
+  }, [result, settings]);
+
+  return {
+    settings,
+    result,
+    incompleteModels: hostData?.incompleteModels ?? [],
+    updateSettings,
+    exportDeductions,
+  };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import * as THREE from "three";
+import { SectionAxis, SectionBox, SectionPlane } from "@/types/ifc";
+
+// IFC 축 → 뷰어 방향 (뷰어는 Y-up: IFC (x, y, z) → (x, z, -y))
+const AXIS_DIRECTIONS: Record<SectionAxis, [number, number, number]> = {
+  x: [1, 0, 0],
+  y: [0, 0, -1],
+  z: [0, 1, 0],
+};
+
+// 박스 최소 두께 (m)
+const MIN_BOX_SIZE = 0.05;
+
+const getModelBounds = (model: THREE.Group) => new THREE.Box3().setFromObject(model);
+
+/**
+ * 단면 평면 / 단면 박스 상태 관리 훅
+ */
+export function useSection(model: THREE.Group | null) {
+  const [sectionPlanes, setSectionPlanes] = useState<SectionPlane[]>([]);
+  const [sectionBox, setSectionBox] = useState<SectionBox | null>(null);
+  const [isPickingFace, setIsPickingFace] = useState(false);
+
+  // 축 방향 평면 추가 (모델 중심을 지나고 축의 아래쪽을 남김)
+  const addAxisPlane = useCallback((axis: SectionAxis) => {
+    if (!model) return;
+    const direction = new THREE.Vector3(...AXIS_DIRECTIONS[axis]);
+    const center = getModelBounds(model).getCenter(new THREE.Vector3());
+    setSectionPlanes(prev => [...prev, {
+      id: crypto.randomUUID(),
+      normal: direction.clone().negate().toArray() as [number, number, number],
+      constant: direction.dot(center),
+      source: axis,
+    }]);
+  }, [model]);
+
+  // 클릭한 면에 맞춘 평면 추가 (면 앞쪽을 잘라냄)
+  const addFacePlane = useCallback((point: THREE.Vector3, faceNormal: THREE.Vector3) => {
+    const normal = faceNormal.clone().normalize().negate();
+    setSectionPlanes(prev => [...prev, {
+      id: crypto.randomUUID(),
+      normal: normal.toArray() as [number, number, number],
+      constant: -normal.dot(point),
+      source: "face",
+    }]);
+    setIsPickingFace(false);
+  }, []);
+
+  const movePlane = useCallback((id: string, constant: number) => {
+    setSectionPlanes(prev => prev.map(p => (p.id === id ? { ...p, constant } : p)));
+  }, []);
+
+  // 남기는 쪽 반전
+  const flipPlane = useCallback((id: string) => {
+    setSectionPlanes(prev => prev.map(p => (p.id === id
+      ? { ...p, normal: p.normal.map(v => -v) as [number, number, number], constant: -p.constant }
+      : p
+    )));
+  }, []);
+
+  const removePlane = useCallback((id: string) => {
+    setSectionPlanes(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  // 단면 박스 켜기/끄기 (처음엔 모델 전체를 감쌈)
+  const toggleSectionBox = useCallback(() => {
+    setSectionBox(prev => {
+      if (prev || !model) return null;
+      const bounds = getModelBounds(model);
+      return {
+        min: bounds.min.toArray() as [number, number, number],
+        max: bounds.max.toArray() as [number, number, number],
+      };
+    });
+  }, [model]);
+
+  // 박스 한 면 이동 (반대쪽 면을 넘지 않도록 제한)
+  const moveBoxFace = useCallback((axis: 0 | 1 | 2, side: "min" | "max", value: number) => {
+    setSectionBox(prev => {
+      if (!prev) return prev;
+      const next: SectionBox = { min: [...prev.min], max: [...prev.max] };
+      if (side === "min") next.min[axis] = Math.min(value, prev.max[axis] - MIN_BOX_SIZE);
+      else next.max[axis] = Math.max(value, prev.min[axis] + MIN_BOX_SIZE);
+      return next;
+    });
+  }, []);
+
+  const toggleFacePicking = useCallback(() => {
+    setIsPickingFace(prev => !prev);
+  }, []);
+
+  // 리셋 (모델 로드 시)
+  const resetSection = useCallback(() => {
+    setSectionPlanes([]);
+    setSectionBox(null);
+    setIsPickingFace(false);
+  }, []);
+
+  return {
+    sectionPlanes,
+    sectionBox,
+    isPickingFace,
+    addAxisPlane,
+    addFacePlane,
+    movePlane,
+    flipPlane,
+    removePlane,
+    toggleSectionBox,
+    moveBoxFace,
+    toggleFacePicking,
+    resetSection,
+  };
+}
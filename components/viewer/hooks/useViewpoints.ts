@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { MaterialItem, SavedViewpoint, StoreyInfo } from "@/types/ifc";
+import { bcfStore, getBcfAuthor } from "@/lib/bcf/bcfStore";
+import { BcfTopicFile, BcfVersion, createBcfZip, parseBcfZip } from "@/lib/bcf/bcfZip";
+import { hiddenMaterialsFromVisibility, toBcfVisibility } from "@/lib/bcf/visibility";
+import { downloadBlob } from "@/lib/export/download";
+import type { SceneCameraControl } from "../scene";
+
+// 뷰포인트에 저장되는 현재 화면 상태
+export interface ViewpointState {
+  selectedExpressIDs: number[];
+  hiddenMaterialIds: Set<string>;
+  selectedStorey: string | null;
+  xrayMode: boolean;
+  showEdges: boolean;
+}
+
+interface UseViewpointsOptions {
+  modelId: string | null;
+  modelName?: string;
+  cameraControlRef: React.RefObject<SceneCameraControl | null>;
+  viewState: ViewpointState;
+  materials: MaterialItem[];
+  storeys: StoreyInfo[];
+  getGlobalIds: (expressIDs: number[]) => string[];
+  getExpressIDsByGlobalIds: (globalIds: string[]) => number[];
+  onApply: (viewpoint: SavedViewpoint) => void; // 선택/표시/토글 상태 복원
+}
+
+/**
+ * 저장된 뷰포인트 관리 훅 (IndexedDB 저장 + BCF 가져오기/내보내기)
+ */
+export function useViewpoints({
+  modelId,
+  modelName,
+  cameraControlRef,
+  viewState,
+  materials,
+  storeys,
+  getGlobalIds,
+  getExpressIDsByGlobalIds,
+  onApply,
+}: UseViewpointsOptions) {
+  const [stored, setStored] = useState<{ modelId: string | null; list: SavedViewpoint[] }>({ modelId: null, list: [] });
+  const viewpoints = useMemo(() => (stored.modelId === modelId ? stored.list : []), [stored, modelId]);
+
+  // 모델이 바뀌면 해당 모델의 뷰포인트 조회
+  useEffect(() => {
+    if (!modelId) return;
+    bcfStore.listViewpoints(modelId)
+      .then(list => setStored({ modelId, list }))
+      .catch(() => setStored({ modelId, list: [] }));
+  }, [modelId]);
+
+  const addViewpoints = useCallback(async (added: SavedViewpoint[]) => {
+    if (!modelId || added.length === 0) return;
+    await bcfStore.saveViewpoints(added);
+    setStored(prev => ({
+      modelId,
+      list: [...(prev.modelId === modelId ? prev.list.filter(v => !added.some(a => a.id === v.id)) : []), ...added],
+    }));
+  }, [modelId]);
+
+  // 현재 화면을 뷰포인트로 저장
+  const saveViewpoint = useCallback(async (name: string) => {
+    const control = cameraControlRef.current;
+    if (!modelId || !control) return;
+
+    await addViewpoints([{
+      id: crypto.randomUUID(),
+      modelId,
+      name: name.trim() || `뷰 ${viewpoints.length + 1}`,
+      createdAt: Date.now(),
+      camera: control.getCamera(),
+      selectedExpressIDs: viewState.selectedExpressIDs,
+      hiddenMaterialIds: Array.from(viewState.hiddenMaterialIds),
+      selectedStorey: viewState.selectedStorey,
+      xrayMode: viewState.xrayMode,
+      showEdges: viewState.showEdges,
+      snapshot: control.captureSnapshot(),
+    }]);
+  }, [modelId, cameraControlRef, viewState, viewpoints.length, addViewpoints]);
+
+  const deleteViewpoint = useCallback(async (id: string) => {
+    await bcfStore.deleteViewpoint(id);
+    setStored(prev => ({ ...prev, list: prev.list.filter(v => v.id !== id) }));
+  }, []);
+
+  const restoreViewpoint = useCallback((viewpoint: SavedViewpoint) => {
+    cameraControlRef.current?.setCamera(viewpoint.camera);
+    onApply(viewpoint);
+  }, [cameraControlRef, onApply]);
+
+  // 뷰포인트 하나를 토픽 하나로 내보내기
+  const exportBcf = useCallback((version: BcfVersion) => {
+    if (viewpoints.length === 0) return;
+
+    const topics: BcfTopicFile[] = viewpoints.map(viewpoint => ({
+      guid: crypto.randomUUID(),
+      title: viewpoint.name,
+      topicType: "Viewpoint",
+      status: "Open",
+      author: getBcfAuthor() || "ifc-viewer",
+      createdAt: viewpoint.createdAt,
+      comments: [],
+      viewpoints: [{
+        guid: viewpoint.id,
+        camera: viewpoint.camera,
+        selectedGlobalIds: getGlobalIds(viewpoint.selectedExpressIDs),
+        visibility: toBcfVisibility(materials, storeys, viewpoint.hiddenMaterialIds, viewpoint.selectedStorey, getGlobalIds),
+        snapshot: viewpoint.snapshot,
+      }],
+    }));
+    const offset = cameraControlRef.current?.getModelOffset();
+    const baseName = (modelName || "model").replace(/\.[^.]+$/, "");
+    downloadBlob(createBcfZip(topics, version, offset), `${baseName}_viewpoints.bcfzip`);
+  }, [viewpoints, materials, storeys, getGlobalIds, cameraControlRef, modelName]);
+
+  // .bcfzip 가져오기 - 모든 토픽의 뷰포인트를 저장 (가져온 개수 반환)
+  const importBcf = useCallback(async (file: File): Promise<number> => {
+    const control = cameraControlRef.current;
+    if (!modelId || !control) return 0;
+
+    const topics = await parseBcfZip(await file.arrayBuffer(), control.getModelOffset());
+    const imported: SavedViewpoint[] = topics.flatMap(topic =>
+      topic.viewpoints.map((viewpoint, index) => ({
+        id: viewpoint.guid,
+        modelId,
+        name: topic.viewpoints.length > 1 ? `${topic.title} (${index + 1})` : topic.title,
+        createdAt: topic.createdAt,
+        camera: viewpoint.camera ?? control.getCamera(),
+        selectedExpressIDs: getExpressIDsByGlobalIds(viewpoint.selectedGlobalIds),
+        hiddenMaterialIds: hiddenMaterialsFromVisibility(materials, viewpoint.visibility, getExpressIDsByGlobalIds),
+        selectedStorey: null,
+        xrayMode: viewState.xrayMode,
+        showEdges: viewState.showEdges,
+        snapshot: viewpoint.snapshot,
+      }))
+    );
+    await addViewpoints(imported);
+    return imported.length;
+  }, [modelId, cameraControlRef, materials, getExpressIDsByGlobalIds, viewState.xrayMode, viewState.showEdges, addViewpoints]);
+
+  return {
+    viewpoints,
+    saveViewpoint,
+    deleteViewpoint,
+    restoreViewpoint,
+    exportBcf,
+    importBcf,
+  };
+}
@@ -40,6 +40,12 @@ export function useVisibility(materials: MaterialItem[], storeys: StoreyInfo[])
     setSelectedStorey(null);
   }, []);
 
+  // 뷰포인트 복원
+  const restoreVisibility = useCallback((materialIds: string[], storeyId: string | null) => {
+    setHiddenMaterialIds(new Set(materialIds));
+    setSelectedStorey(storeyId);
+  }, []);
+
   // 숨겨진 material들의 expressIDs를 모아서 hiddenExpressIDs로 변환
   const hiddenExpressIDs = useMemo(() => {
     if (hiddenMaterialIds.size === 0) return null;
@@ -72,5 +78,6 @@ export function useVisibility(materials: MaterialItem[], storeys: StoreyInfo[])
     handleShowAll,
     handleHideAll,
     resetVisibility,
+    restoreVisibility,
   };
 }
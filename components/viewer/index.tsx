@@ -1,26 +1,54 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { Canvas } from "@react-three/fiber";
 import * as THREE from "three";
 
 // 기능별 컴포넌트
-import { IFCScene } from "./scene";
+import { IFCScene, SceneCameraControl } from "./scene";
 import { Sidebar } from "./sidebar";
 import { ViewerToolbar } from "./toolbar";
 import { FileUpload } from "./upload";
+import { PropertyPanel } from "@/components/properties/PropertyPanel";
 
 // 훅 - 클라이언트 로더만 사용
 import { useIFCLoader } from "@/hooks/useIFCLoader";
 import { useSelection } from "./hooks/useSelection";
 import { useVisibility } from "./hooks/useVisibility";
+import { useViewpoints } from "./hooks/useViewpoints";
+import { useIssues } from "./hooks/useIssues";
+import { useSection } from "./hooks/useSection";
+import { useMeasurement } from "./hooks/useMeasurement";
+import { useFederation } from "./hooks/useFederation";
+import { useModelDiff } from "./hooks/useModelDiff";
+import { useClashes } from "./hooks/useClashes";
+import { useIdsValidation } from "./hooks/useIdsValidation";
+import { useModelHealth } from "./hooks/useModelHealth";
+import { useMappingProfiles } from "./hooks/useMappingProfiles";
+import { useMaterialLayers } from "./hooks/useMaterialLayers";
+import { useOpeningDeductions } from "./hooks/useOpeningDeductions";
+import { useCostEstimate } from "./hooks/useCostEstimate";
 
 // 타입
-import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
+import { MaterialItem, StoreyInfo, IFCSpatialNode, SavedViewpoint, Clash } from "@/types/ifc";
 
 // 성능 통계 컴포넌트 (stats.js 직접 사용)
 import StatsImpl from "stats.js";
 
+// 메시 지오메트리/재질 해제 (모델 교체·제거 시)
+const disposeObject = (object: THREE.Object3D) => {
+  object.traverse((obj) => {
+    if (obj instanceof THREE.Mesh) {
+      obj.geometry?.dispose();
+      if (Array.isArray(obj.material)) {
+        obj.material.forEach(m => m.dispose());
+      } else {
+        obj.material?.dispose();
+      }
+    }
+  });
+};
+
 function StatsPanel({ parentRef }: { parentRef: React.RefObject<HTMLDivElement | null> }) {
   useEffect(() => {
     if (!parentRef.current) return;
@@ -71,7 +99,9 @@ export function IFCViewer() {
   // IFC 로더 (web-ifc 직접 사용)
   const { 
     isLoading, loadingMessage, error, progress, 
-    loadIFC, getElementsByType, getMaterialList, getStoreyList, getSpatialTree, cleanup
+    loadIFC, loadCachedModel, removeModel, getLoadedModels, getElementsByType, getMaterialList, getStoreyList, getSpatialTree,
+    getSelectionSummary, getQuantityTotals, getElementSections, getElementRecords,
+    getModelId, getGlobalIds, getExpressIDsByGlobalIds, getModelDiffInput, getIdsElements, getModelHealth, getMaterialLayerTakeoff, getOpeningHosts, cleanup
   } = useIFCLoader();
 
   // 선택 상태
@@ -80,32 +110,120 @@ export function IFCViewer() {
     handleElementSelect, handleMaterialSelect, handleSelectElements, handleClearSelection
   } = useSelection(getElementsByType);
 
+  // 분류 매핑 (적용 중인 프로파일로 다시 묶은 자재 목록을 수량표·표시/숨김·뷰포인트에 사용)
+  const mapping = useMappingProfiles(model, materials, getIdsElements, getQuantityTotals);
+  const { mappedMaterials } = mapping;
+
   // 표시/숨김 상태
   const {
     hiddenMaterialIds, hiddenExpressIDs, selectedStorey, visibleExpressIDs,
-    setSelectedStorey, handleToggleVisibility, handleShowAll, handleHideAll, resetVisibility
-  } = useVisibility(materials, storeys);
+    setSelectedStorey, handleToggleVisibility, handleShowAll, handleHideAll, resetVisibility, restoreVisibility
+  } = useVisibility(mappedMaterials, storeys);
+
+  // 단면 (평면 + 박스)
+  const {
+    sectionPlanes, sectionBox, isPickingFace,
+    addAxisPlane, addFacePlane, movePlane, flipPlane, removePlane,
+    toggleSectionBox, moveBoxFace, toggleFacePicking, resetSection
+  } = useSection(model);
+
+  // 측정
+  const {
+    measureMode, pendingPicks, measurements, canFinish,
+    setMeasureMode, addPick, finishMeasurement, removeMeasurement, clearMeasurements, resetMeasurement
+  } = useMeasurement(model);
+
+  // 통합 모델 (모델별 표시/투명도/정렬)
+  const {
+    federatedModels, syncModels, setModelVisible, setModelOpacity, setModelAlignment
+  } = useFederation();
+
+  // 버전 비교 (통합 모델 중 두 모델, 비교 중에는 이전 모델에서 삭제된 요소만 표시)
+  const modelDiff = useModelDiff(federatedModels, getModelDiffInput);
+  const { diffHiddenKeys } = modelDiff;
+  const sceneHiddenIDs = useMemo(() => {
+    if (!diffHiddenKeys) return hiddenExpressIDs;
+    return hiddenExpressIDs ? new Set([...hiddenExpressIDs, ...diffHiddenKeys]) : diffHiddenKeys;
+  }, [hiddenExpressIDs, diffHiddenKeys]);
+
+  // IDS 검사 (사양별 통과/실패 요소를 3D 색상으로 표시)
+  const idsValidation = useIdsValidation(model, getIdsElements);
+
+  // 모델 점검 (항목을 누르면 문제 요소 선택)
+  const modelHealth = useModelHealth(model, getModelHealth);
+
+  // 재료별 수량 (레이어·프로파일·구성 재료 단위, 행을 누르면 요소 선택)
+  const materialLayers = useMaterialLayers(model, selectedExpressIDs, getMaterialLayerTakeoff);
+
+  // 개구부 공제 (수량표와 같은 자재 행 기준 벽·슬래브 총면적/순면적)
+  const openingDeductions = useOpeningDeductions(model, mappedMaterials, getOpeningHosts);
+
+  // 공사비 (자재 행 × 단가표, 3D 금액 색상)
+  const costEstimate = useCostEstimate(model, mappedMaterials, storeys, getQuantityTotals);
 
-  // 파일 로드
-  const handleFileLoad = useCallback(async (file: File) => {
+  // 뷰포인트 (카메라는 Canvas 안의 IFCScene이 ref로 제어)
+  const cameraControlRef = useRef<SceneCameraControl | null>(null);
+  const modelId = useMemo(() => (model ? getModelId() : null), [model, getModelId]);
+  const applyViewpoint = useCallback((viewpoint: SavedViewpoint) => {
+    handleSelectElements(viewpoint.selectedExpressIDs);
+    restoreVisibility(viewpoint.hiddenMaterialIds, viewpoint.selectedStorey);
+    setXrayMode(viewpoint.xrayMode);
+    setShowEdges(viewpoint.showEdges);
+  }, [handleSelectElements, restoreVisibility]);
+  const bcfOptions = {
+    modelId,
+    modelName: model?.name,
+    cameraControlRef,
+    viewState: { selectedExpressIDs, hiddenMaterialIds, selectedStorey, xrayMode, showEdges },
+    materials: mappedMaterials,
+    storeys,
+    getGlobalIds,
+    getExpressIDsByGlobalIds,
+    onApply: applyViewpoint,
+  };
+  const {
+    viewpoints, saveViewpoint, deleteViewpoint, restoreViewpoint, exportBcf, importBcf
+  } = useViewpoints(bcfOptions);
+  // 이슈 (BCF 토픽)
+  const issues = useIssues(bcfOptions);
+
+  // 간섭 검토 (간섭으로 이동하면 두 요소를 선택하고 확대, 현재 간섭은 이슈로 등록 가능)
+  const clashes = useClashes({
+    model,
+    cameraControlRef,
+    getGlobalIds,
+    getSelectionSummary,
+    onSelectElements: handleSelectElements,
+  });
+  const { createTopic } = issues;
+  const createClashIssue = useCallback((clash: Clash) => {
+    const gap = clash.kind === "hard" ? `겹침 ${Math.round(clash.depth * 1000)}mm` : `거리 ${Math.round(clash.distance * 1000)}mm`;
+    return createTopic({
+      title: `간섭: ${clash.elementA.name || clash.elementA.type} ↔ ${clash.elementB.name || clash.elementB.type}`,
+      description: `${clash.group} (${gap})\nA: ${clash.elementA.globalId ?? "-"}\nB: ${clash.elementB.globalId ?? "-"}`,
+      topicType: "Clash",
+    });
+  }, [createTopic]);
+
+  // 속성 패널 (선택이 바뀌면 다시 열림)
+  const selectionSummary = useMemo(
+    () => getSelectionSummary(selectedExpressIDs),
+    [getSelectionSummary, selectedExpressIDs]
+  );
+  const [closedPropertySelection, setClosedPropertySelection] = useState<number[] | null>(null);
+  const showPropertyPanel = !!selectionSummary && closedPropertySelection !== selectedExpressIDs;
+
+  // 모델 로드 (파일 또는 캐시, append면 통합 모델에 추가)
+  const loadModel = useCallback(async (load: () => Promise<THREE.Group | null>, append = false) => {
     // 이전 모델 정리
-    if (model) {
-      model.traverse((obj) => {
-        if (obj instanceof THREE.Mesh) {
-          obj.geometry?.dispose();
-          if (Array.isArray(obj.material)) {
-            obj.material.forEach(m => m.dispose());
-          } else {
-            obj.material?.dispose();
-          }
-        }
-      });
+    if (model && !append) {
+      disposeObject(model);
       setModel(null);
     }
 
     console.log(`📁 IFC 로드 시작`);
     
-    const loadedModel = await loadIFC(file);
+    const loadedModel = await load();
     if (loadedModel) {
       // 대용량 파일 체크 (10000개 이상 메시면 윤곽선 자동 OFF)
       let meshCount = 0;
@@ -121,10 +239,38 @@ export function IFCViewer() {
       setMaterials(getMaterialList());
       setStoreys(getStoreyList());
       setSpatialTree(getSpatialTree());
-      handleClearSelection();
+      syncModels(getLoadedModels());
+      if (!append) {
+        handleClearSelection();
+        resetVisibility();
+        resetSection();
+        resetMeasurement();
+      }
+    }
+  }, [getMaterialList, getStoreyList, getSpatialTree, getLoadedModels, syncModels, handleClearSelection, resetVisibility, resetSection, resetMeasurement, model]);
+
+  const handleFileLoad = useCallback((file: File) => loadModel(() => loadIFC(file)), [loadModel, loadIFC]);
+  const handleAddModel = useCallback((file: File) => loadModel(() => loadIFC(file, { append: true }), true), [loadModel, loadIFC]);
+
+  // 통합 모델에서 제거 (마지막 모델이면 초기 화면으로)
+  const handleRemoveModel = useCallback((slot: number) => {
+    const group = model?.children.find(child => child.userData.modelSlot === slot);
+    const root = removeModel(slot);
+    if (group) disposeObject(group);
+
+    setModel(root);
+    setMaterials(getMaterialList());
+    setStoreys(getStoreyList());
+    setSpatialTree(getSpatialTree());
+    syncModels(getLoadedModels());
+    handleClearSelection();
+    if (!root) {
       resetVisibility();
+      resetSection();
+      resetMeasurement();
     }
-  }, [loadIFC, getMaterialList, getStoreyList, getSpatialTree, handleClearSelection, resetVisibility, model]);
+  }, [model, removeModel, getMaterialList, getStoreyList, getSpatialTree, getLoadedModels, syncModels, handleClearSelection, resetVisibility, resetSection, resetMeasurement]);
+  const handleOpenRecent = useCallback((modelId: string) => loadModel(() => loadCachedModel(modelId)), [loadModel, loadCachedModel]);
 
   useEffect(() => {
     return () => cleanup();
@@ -143,7 +289,7 @@ export function IFCViewer() {
       window.dispatchEvent(new Event('resize'));
     }, 50);
     return () => clearTimeout(timer);
-  }, [showSidebar]);
+  }, [showSidebar, showPropertyPanel]);
 
   return (
     <div className={`relative w-full h-full flex ${bgClass}`}>
@@ -151,7 +297,7 @@ export function IFCViewer() {
       {showSidebar && (
         <div className="w-80 flex-shrink-0">
           <Sidebar
-            materials={materials}
+            materials={mappedMaterials}
             selectedMaterialId={selectedMaterialId}
             selectedExpressIDs={selectedExpressIDs}
             onSelectMaterial={handleMaterialSelect}
@@ -165,7 +311,142 @@ export function IFCViewer() {
             storeys={storeys}
             selectedStorey={selectedStorey}
             onSelectStorey={setSelectedStorey}
+            loadElementRecords={getElementRecords}
+            getQuantityTotals={getQuantityTotals}
+            modelName={model?.name}
             spatialTree={spatialTree}
+            modelList={{
+              models: federatedModels,
+              onAddModel: handleAddModel,
+              onRemoveModel: handleRemoveModel,
+              onSetVisible: setModelVisible,
+              onSetOpacity: setModelOpacity,
+              onSetAlignment: setModelAlignment,
+            }}
+            modelDiff={{
+              models: federatedModels,
+              baseSlot: modelDiff.baseSlot,
+              revisedSlot: modelDiff.revisedSlot,
+              onSetSlots: modelDiff.setSlots,
+              diff: modelDiff.diff,
+              comparedModels: modelDiff.comparedModels,
+              isComparing: modelDiff.isComparing,
+              error: modelDiff.error,
+              onCompare: modelDiff.compare,
+              onClear: modelDiff.clearDiff,
+              showInScene: modelDiff.showInScene,
+              onToggleShowInScene: modelDiff.toggleShowInScene,
+            }}
+            viewpointList={{
+              viewpoints,
+              hasModel: !!model,
+              onSaveViewpoint: saveViewpoint,
+              onRestoreViewpoint: restoreViewpoint,
+              onDeleteViewpoint: deleteViewpoint,
+              onImportBcf: importBcf,
+              onExportBcf: exportBcf,
+            }}
+            clashPanel={{
+              models: federatedModels,
+              clashes: clashes.clashes,
+              testName: clashes.testName,
+              isRunning: clashes.isRunning,
+              progress: clashes.progress,
+              error: clashes.error,
+              currentId: clashes.currentId,
+              onRunTest: clashes.runTest,
+              onCancel: clashes.cancelTest,
+              onClear: clashes.clearClashes,
+              onFocusClash: clashes.focusClash,
+              onStepClash: clashes.stepClash,
+              onSetStatus: clashes.setClashStatus,
+              onExport: (format) => clashes.exportClashes(format, model?.name),
+              onCreateIssue: model ? createClashIssue : undefined,
+            }}
+            idsPanel={{
+              hasModel: !!model,
+              fileName: idsValidation.fileName,
+              document: idsValidation.document,
+              report: idsValidation.report,
+              isChecking: idsValidation.isChecking,
+              error: idsValidation.error,
+              activeSpec: idsValidation.activeSpec,
+              onSetActiveSpec: idsValidation.setActiveSpec,
+              showInScene: idsValidation.showInScene,
+              onToggleShowInScene: idsValidation.toggleShowInScene,
+              onLoadIds: idsValidation.loadIdsFile,
+              onRunValidation: idsValidation.runValidation,
+              onClear: idsValidation.clearIds,
+              onExport: (format) => idsValidation.exportReport(format, model?.name),
+            }}
+            healthPanel={{
+              hasModel: !!model,
+              report: modelHealth.report,
+              isChecking: modelHealth.isChecking,
+              error: modelHealth.error,
+              onRunCheck: modelHealth.runCheck,
+              onExport: (format) => modelHealth.exportReport(format, model?.name),
+            }}
+            materialLayerPanel={{
+              hasModel: !!model,
+              takeoff: materialLayers.takeoff,
+              scope: materialLayers.scope,
+              onScopeChange: materialLayers.setScope,
+              onExport: (format) => materialLayers.exportTakeoff(format, model?.name),
+            }}
+            openingPanel={{
+              hasModel: !!model,
+              settings: openingDeductions.settings,
+              result: openingDeductions.result,
+              incompleteModels: openingDeductions.incompleteModels,
+              onUpdateSettings: openingDeductions.updateSettings,
+              onExport: (format) => openingDeductions.exportDeductions(format, model?.name),
+            }}
+            costPanel={{
+              hasModel: !!model,
+              lists: costEstimate.lists,
+              activeList: costEstimate.activeList,
+              links: costEstimate.links,
+              estimate: costEstimate.estimate,
+              error: costEstimate.error,
+              showInScene: costEstimate.showInScene,
+              costLimits: costEstimate.costLimits,
+              onImport: costEstimate.importPriceList,
+              onSetActiveList: costEstimate.setActiveList,
+              onDeleteList: costEstimate.deleteList,
+              onExportList: costEstimate.exportPriceList,
+              onSetLink: costEstimate.setLink,
+              onToggleShowInScene: costEstimate.toggleShowInScene,
+              onExport: (format) => costEstimate.exportEstimate(format, model?.name),
+            }}
+            mappingPanel={{
+              hasModel: !!model,
+              profiles: mapping.profiles,
+              activeProfile: mapping.activeProfile,
+              matchedCount: mapping.matchedCount,
+              isLoadingElements: mapping.isLoadingElements,
+              error: mapping.error,
+              onSetActiveProfile: mapping.setActiveProfile,
+              onCreateProfile: mapping.createProfile,
+              onDuplicateProfile: mapping.duplicateProfile,
+              onUpdateProfile: mapping.updateProfile,
+              onDeleteProfile: mapping.deleteProfile,
+              onImport: mapping.importProfiles,
+              onExport: mapping.exportProfiles,
+            }}
+            issuePanel={{
+              topics: issues.topics,
+              relatedTopicGuids: issues.relatedTopicGuids,
+              hasModel: !!model,
+              selectedCount: selectedExpressIDs.length,
+              onCreateTopic: issues.createTopic,
+              onUpdateTopic: issues.updateTopic,
+              onAddComment: issues.addComment,
+              onDeleteTopic: issues.deleteTopic,
+              onShowTopic: issues.showTopic,
+              onImportBcf: issues.importBcf,
+              onExportBcf: issues.exportBcf,
+            }}
           />
         </div>
       )}
@@ -184,12 +465,33 @@ export function IFCViewer() {
           showEdges={showEdges}
           onToggleEdges={() => setShowEdges(!showEdges)}
           onClearSelection={handleClearSelection}
+          section={{
+            planes: sectionPlanes,
+            hasBox: !!sectionBox,
+            isPickingFace,
+            onAddAxisPlane: addAxisPlane,
+            onToggleFacePicking: toggleFacePicking,
+            onToggleBox: toggleSectionBox,
+            onFlipPlane: flipPlane,
+            onRemovePlane: removePlane,
+            onClear: resetSection,
+          }}
+          measure={{
+            mode: measureMode,
+            pendingCount: pendingPicks.length,
+            canFinish,
+            measurements,
+            onSetMode: setMeasureMode,
+            onFinish: finishMeasurement,
+            onRemove: removeMeasurement,
+            onClear: clearMeasurements,
+          }}
         />
 
         {/* 파일 업로드 */}
         {!model && !isLoading && (
           <div className={`absolute inset-0 flex items-center justify-center z-10 ${bgClass}/90`}>
-            <FileUpload onFileLoad={handleFileLoad} isDarkMode={isDarkMode} />
+            <FileUpload onFileLoad={handleFileLoad} isDarkMode={isDarkMode} onOpenRecent={handleOpenRecent} />
           </div>
         )}
 
@@ -229,6 +531,7 @@ export function IFCViewer() {
             stencil: false, 
             depth: true,
             preserveDrawingBuffer: false,
+            localClippingEnabled: true, // 단면 (재질별 클리핑 평면)
           }}
           frameloop="demand"
           dpr={[1, 1.5]}
@@ -240,10 +543,30 @@ export function IFCViewer() {
             selectedExpressIDs={selectedExpressIDs}
             tableHighlightedIDs={tableHighlightedIDs}
             isDarkMode={isDarkMode}
-            hiddenExpressIDs={hiddenExpressIDs}
+            hiddenExpressIDs={sceneHiddenIDs}
             xrayMode={xrayMode}
             visibleExpressIDs={visibleExpressIDs}
             showEdges={showEdges}
+            cameraControlRef={cameraControlRef}
+            section={{
+              planes: sectionPlanes,
+              box: sectionBox,
+              isPickingFace,
+              onPickFace: addFacePlane,
+              onMovePlane: movePlane,
+              onMoveBoxFace: moveBoxFace,
+            }}
+            measure={{
+              active: measureMode !== null,
+              measurements,
+              pendingPicks,
+              closePending: measureMode === "area",
+              onPick: addPick,
+            }}
+            federation={federatedModels}
+            diffStatuses={modelDiff.diffStatuses}
+            idsStatuses={idsValidation.idsStatuses}
+            costBands={costEstimate.costBands}
           />
         </Canvas>
 
@@ -259,6 +582,17 @@ export function IFCViewer() {
           />
         </div>
       </div>
+
+      {/* 속성 패널 */}
+      {showPropertyPanel && (
+        <div className="flex-shrink-0">
+          <PropertyPanel
+            summary={selectionSummary}
+            onClose={() => setClosedPropertySelection(selectedExpressIDs)}
+            loadElementSections={getElementSections}
+          />
+        </div>
+      )}
     </div>
   );
 }
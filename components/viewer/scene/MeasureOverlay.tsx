@@ -0,0 +1,97 @@
+"use client";
+
+import { Line, Html } from "@react-three/drei";
+import * as THREE from "three";
+import { MeasurePick, Measurement } from "@/types/ifc";
+import { formatMeasureValue } from "@/lib/three";
+import { MEASURE_COLOR, MEASURE_PENDING_COLOR } from "./materials";
+
+export interface MeasureOverlayProps {
+  measurements: Measurement[];
+  pendingPicks: MeasurePick[];
+  closePending: boolean;   // 진행 중인 면적 측정은 닫힌 도형으로 표시
+  pointSize: number;       // 점 표시 크기 (m)
+  markerRef: React.RefObject<THREE.Mesh | null>; // 스냅 미리보기 (IFCScene이 직접 이동)
+}
+
+type Point = [number, number, number];
+
+const midpoint = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+
+const centroid = (points: Point[]): Point => {
+  const sum = points.reduce<Point>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+};
+
+// 라벨 위치 (각도는 꼭짓점, 면적은 중심, 나머지는 가운데 구간의 중점)
+const labelPosition = (measurement: Measurement): Point => {
+  const { points } = measurement;
+  if (measurement.mode === "angle") return points[1];
+  if (measurement.mode === "area") return centroid(points);
+  const i = Math.max(0, Math.floor((points.length - 1) / 2));
+  return midpoint(points[i], points[Math.min(i + 1, points.length - 1)]);
+};
+
+function MeasurePoints({ points, size, color }: { points: Point[]; size: number; color: string }) {
+  return (
+    <>
+      {points.map((point, i) => (
+        <mesh key={i} position={point} renderOrder={1001}>
+          <sphereGeometry args={[size, 12, 8]} />
+          <meshBasicMaterial color={color} depthTest={false} transparent />
+        </mesh>
+      ))}
+    </>
+  );
+}
+
+/**
+ * 측정선·점·값 라벨
+ */
+export function MeasureOverlay({ measurements, pendingPicks, closePending, pointSize, markerRef }: MeasureOverlayProps) {
+  const pendingPoints = pendingPicks.map(p => p.point);
+
+  return (
+    <>
+      {measurements.map(measurement => {
+        const points = measurement.mode === "area" ? [...measurement.points, measurement.points[0]] : measurement.points;
+        return (
+          <group key={measurement.id}>
+            <Line points={points} color={MEASURE_COLOR} lineWidth={2} depthTest={false} transparent renderOrder={1000} />
+            <MeasurePoints points={measurement.points} size={pointSize} color={MEASURE_COLOR} />
+            <Html position={labelPosition(measurement)} center style={{ pointerEvents: "none" }}>
+              <div className="px-1.5 py-0.5 rounded bg-slate-900/85 text-yellow-300 text-xs font-medium whitespace-nowrap tabular-nums">
+                {formatMeasureValue(measurement.value, measurement.unit)}
+              </div>
+            </Html>
+          </group>
+        );
+      })}
+
+      {pendingPoints.length > 0 && (
+        <group>
+          {pendingPoints.length > 1 && (
+            <Line
+              points={closePending && pendingPoints.length > 2 ? [...pendingPoints, pendingPoints[0]] : pendingPoints}
+              color={MEASURE_PENDING_COLOR}
+              lineWidth={1.5}
+              dashed
+              dashSize={pointSize * 4}
+              gapSize={pointSize * 2}
+              depthTest={false}
+              transparent
+              renderOrder={1000}
+            />
+          )}
+          <MeasurePoints points={pendingPoints} size={pointSize} color={MEASURE_PENDING_COLOR} />
+        </group>
+      )}
+
+      {/* 스냅 미리보기 (색상: 꼭짓점/모서리/면) */}
+      <mesh ref={markerRef} visible={false} renderOrder={1002}>
+        <sphereGeometry args={[pointSize * 1.5, 16, 12]} />
+        <meshBasicMaterial depthTest={false} transparent opacity={0.9} />
+      </mesh>
+    </>
+  );
+}
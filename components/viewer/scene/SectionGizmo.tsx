@@ -0,0 +1,171 @@
+"use client";
+
+import { useRef, useMemo } from "react";
+import { ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { SectionBox, SectionPlane } from "@/types/ifc";
+import { SECTION_GIZMO_COLOR } from "./materials";
+
+export interface SectionGizmoProps {
+  planes: SectionPlane[];
+  box: SectionBox | null;
+  bounds: THREE.Box3;   // 모델 범위 (평면 크기·핸들 위치 기준)
+  onMovePlane: (id: string, constant: number) => void;
+  onMoveBoxFace: (axis: 0 | 1 | 2, side: "min" | "max", value: number) => void;
+  onDragChange: (dragging: boolean) => void; // 드래그 중 카메라 조작 중지
+}
+
+const BOX_AXES = [0, 1, 2] as const;
+const BOX_SIDES = ["min", "max"] as const;
+const UNIT_VECTORS = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+const PLANE_FORWARD = new THREE.Vector3(0, 0, 1);
+const UNIT_BOX_EDGES = new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+// 포인터 광선과 축(origin + t·direction)의 최근접점 t
+const closestAxisOffset = (ray: THREE.Ray, origin: THREE.Vector3, direction: THREE.Vector3): number | null => {
+  const w0 = origin.clone().sub(ray.origin);
+  const b = direction.dot(ray.direction);
+  const denom = 1 - b * b;
+  if (denom < 1e-6) return null; // 시선과 축이 평행
+  return (b * ray.direction.dot(w0) - direction.dot(w0)) / denom;
+};
+
+interface DragHandleProps {
+  position: THREE.Vector3;
+  direction: THREE.Vector3;  // 단위 벡터
+  value: number;             // 드래그 시작 시 값 (direction 방향 이동량만큼 증가)
+  size: number;
+  onChange: (value: number) => void;
+  onDragChange: (dragging: boolean) => void;
+}
+
+// 한 축을 따라 끄는 구형 핸들
+function DragHandle({ position, direction, value, size, onChange, onDragChange }: DragHandleProps) {
+  const dragRef = useRef<{ origin: THREE.Vector3; offset: number; value: number } | null>(null);
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const offset = closestAxisOffset(e.ray, position, direction);
+    if (offset === null) return;
+    dragRef.current = { origin: position.clone(), offset, value };
+    (e.target as Element).setPointerCapture(e.pointerId);
+    onDragChange(true);
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    e.stopPropagation();
+    const offset = closestAxisOffset(e.ray, drag.origin, direction);
+    if (offset !== null) onChange(drag.value + offset - drag.offset);
+  };
+
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!dragRef.current) return;
+    e.stopPropagation();
+    dragRef.current = null;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    onDragChange(false);
+  };
+
+  return (
+    <mesh
+      position={position}
+      renderOrder={1000}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <sphereGeometry args={[size, 16, 12]} />
+      <meshBasicMaterial color={SECTION_GIZMO_COLOR} depthTest={false} transparent opacity={0.9} />
+    </mesh>
+  );
+}
+
+interface BoxGizmoProps extends Pick<SectionGizmoProps, "onMoveBoxFace" | "onDragChange"> {
+  box: SectionBox;
+  handleSize: number;
+}
+
+// 단면 박스 윤곽 + 여섯 면의 핸들
+function BoxGizmo({ box, handleSize, onMoveBoxFace, onDragChange }: BoxGizmoProps) {
+  const min = new THREE.Vector3(...box.min);
+  const max = new THREE.Vector3(...box.max);
+  const center = min.clone().add(max).multiplyScalar(0.5);
+
+  return (
+    <group>
+      <lineSegments geometry={UNIT_BOX_EDGES} position={center} scale={max.clone().sub(min)}>
+        <lineBasicMaterial color={SECTION_GIZMO_COLOR} />
+      </lineSegments>
+      {BOX_AXES.map(axis => BOX_SIDES.map(side => {
+        const position = center.clone().setComponent(axis, (side === "min" ? min : max).getComponent(axis));
+        return (
+          <DragHandle
+            key={`${axis}-${side}`}
+            position={position}
+            direction={UNIT_VECTORS[axis]}
+            value={position.getComponent(axis)}
+            size={handleSize}
+            onChange={(value) => onMoveBoxFace(axis, side, value)}
+            onDragChange={onDragChange}
+          />
+        );
+      }))}
+    </group>
+  );
+}
+
+/**
+ * 단면 평면·박스 표시 및 드래그 핸들
+ */
+export function SectionGizmo({ planes, box, bounds, onMovePlane, onMoveBoxFace, onDragChange }: SectionGizmoProps) {
+  const { center, extent, handleSize } = useMemo(() => {
+    const size = bounds.getSize(new THREE.Vector3());
+    const diagonal = Math.max(size.length(), 1);
+    return {
+      center: bounds.getCenter(new THREE.Vector3()),
+      extent: diagonal,
+      handleSize: Math.max(diagonal * 0.008, 0.05),
+    };
+  }, [bounds]);
+
+  return (
+    <>
+      {planes.map(plane => {
+        const normal = new THREE.Vector3(...plane.normal);
+        // 모델 중심을 평면에 투영한 점에 표시
+        const origin = center.clone().addScaledVector(normal, -(normal.dot(center) + plane.constant));
+        const quaternion = new THREE.Quaternion().setFromUnitVectors(PLANE_FORWARD, normal);
+        // 핸들을 -normal 방향으로 t만큼 옮기면 constant가 t만큼 커짐
+        const direction = normal.clone().negate();
+        return (
+          <group key={plane.id}>
+            <mesh position={origin} quaternion={quaternion} renderOrder={2}>
+              <planeGeometry args={[extent, extent]} />
+              <meshBasicMaterial
+                color={SECTION_GIZMO_COLOR}
+                transparent
+                opacity={0.08}
+                side={THREE.DoubleSide}
+                depthWrite={false}
+              />
+            </mesh>
+            <DragHandle
+              position={origin}
+              direction={direction}
+              value={plane.constant}
+              size={handleSize}
+              onChange={(constant) => onMovePlane(plane.id, constant)}
+              onDragChange={onDragChange}
+            />
+          </group>
+        );
+      })}
+
+      {box && (
+        <BoxGizmo box={box} handleSize={handleSize} onMoveBoxFace={onMoveBoxFace} onDragChange={onDragChange} />
+      )}
+    </>
+  );
+}
@@ -1,11 +1,41 @@
 "use client";
 
-import { useRef, useEffect, useCallback } from "react";
-import { useThree, invalidate } from "@react-three/fiber";
+import { useRef, useEffect, useCallback, useMemo } from "react";
+import { useThree, invalidate, ThreeEvent } from "@react-three/fiber";
 import { OrbitControls, PerspectiveCamera } from "@react-three/drei";
 import * as THREE from "three";
-import { highlightMaterial, normalHighlightMaterial } from "./materials";
-import { initBVH, applyBVHToGroup } from "@/lib/three";
+import {
+  highlightMaterial, normalHighlightMaterial, applySectionCap, applyModelOpacity, SNAP_COLORS,
+  diffMaterials, diffUnchangedMaterial, DIFF_MATERIALS, idsMaterials, IDS_MATERIALS, COST_MATERIALS,
+} from "./materials";
+import { SectionGizmo, SectionGizmoProps } from "./SectionGizmo";
+import { MeasureOverlay, MeasureOverlayProps } from "./MeasureOverlay";
+import { initBVH, applyBVHToGroup, snapIntersection } from "@/lib/three";
+import { FederatedModel, MeasurePick, SavedViewpoint, SectionBox, SectionPlane } from "@/types/ifc";
+import type { ModelDiffStatus } from "@/lib/ifc/modelDiff";
+import type { IdsElementStatus } from "@/lib/ifc/ids";
+
+type ViewpointCamera = SavedViewpoint["camera"];
+
+// 뷰포인트 저장/복원용 카메라 제어 (Canvas 밖에서 ref로 사용)
+export interface SceneCameraControl {
+  getCamera: () => ViewpointCamera;
+  setCamera: (camera: ViewpointCamera) => void;
+  captureSnapshot: (maxWidth?: number) => string | undefined; // PNG data URL
+  getModelOffset: () => [number, number, number];             // 모델 중심 이동량
+}
+
+// 단면 상태 + 조작 (Canvas 밖의 useSection과 연결)
+export interface SceneSection extends Pick<SectionGizmoProps, "planes" | "box" | "onMovePlane" | "onMoveBoxFace"> {
+  isPickingFace: boolean;
+  onPickFace: (point: THREE.Vector3, normal: THREE.Vector3) => void;
+}
+
+// 측정 상태 (active면 클릭이 선택 대신 측정점 추가)
+export interface SceneMeasure extends Pick<MeasureOverlayProps, "measurements" | "pendingPicks" | "closePending"> {
+  active: boolean;
+  onPick: (pick: MeasurePick) => void;
+}
 
 export interface IFCSceneProps {
   model: THREE.Group | null;
@@ -17,6 +47,13 @@ export interface IFCSceneProps {
   xrayMode: boolean;
   visibleExpressIDs: Set<number> | null; // 보여줄 expressID들 (층 필터)
   showEdges: boolean; // 윤곽선 표시 여부
+  cameraControlRef?: React.MutableRefObject<SceneCameraControl | null>;
+  section?: SceneSection;
+  measure?: SceneMeasure;
+  federation?: FederatedModel[]; // 모델별 표시/투명도/정렬 (model의 자식 그룹 userData.modelSlot 기준)
+  diffStatuses?: Map<number, ModelDiffStatus> | null; // 버전 비교 색상 (목록에 없는 요소는 흐리게)
+  idsStatuses?: Map<number, IdsElementStatus> | null;  // IDS 검사 색상 (버전 비교 중이면 비교 색상 우선)
+  costBands?: Map<number, number> | null;              // 공사비 색상 구간 (비교·IDS 색상이 있으면 그쪽 우선)
 }
 
 // 클릭 판정 기준
@@ -47,6 +84,29 @@ const greenXrayMaterial = new THREE.MeshBasicMaterial({
   side: THREE.DoubleSide,
 });
 
+const HIGHLIGHT_MATERIALS = [highlightMaterial, normalHighlightMaterial, greenHighlightMaterial, greenXrayMaterial];
+
+// 자신과 상위 그룹이 모두 보이는지 (숨긴 모델 포함)
+const isShown = (object: THREE.Object3D) => {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible) return false;
+  }
+  return true;
+};
+
+// 단면 평면 + 단면 박스 → 클리핑 평면 (normal·p + constant < 0 인 쪽이 잘림)
+const toClippingPlanes = (planes: SectionPlane[], box: SectionBox | null): THREE.Plane[] => {
+  const result = planes.map(p => new THREE.Plane(new THREE.Vector3(...p.normal), p.constant));
+  if (box) {
+    for (let axis = 0; axis < 3; axis++) {
+      const normal = new THREE.Vector3().setComponent(axis, 1);
+      result.push(new THREE.Plane(normal, -box.min[axis]));
+      result.push(new THREE.Plane(normal.clone().negate(), box.max[axis]));
+    }
+  }
+  return result;
+};
+
 export function IFCScene({ 
   model, 
   onElementSelect, 
@@ -56,16 +116,27 @@ export function IFCScene({
   hiddenExpressIDs, 
   xrayMode, 
   visibleExpressIDs,
-  showEdges
+  showEdges,
+  cameraControlRef,
+  section,
+  measure,
+  federation,
+  diffStatuses = null,
+  idsStatuses = null,
+  costBands = null
 }: IFCSceneProps) {
-  const { camera, scene } = useThree();
+  const { camera, scene, gl, size } = useThree();
   const controlsRef = useRef<any>(null);
   
   const meshMapRef = useRef<Map<number, THREE.Mesh[]>>(new Map());
   const originalMaterialsRef = useRef<Map<THREE.Mesh, THREE.Material>>(new Map());
+  const diffMaterialsRef = useRef<Map<THREE.Mesh, THREE.Material>>(new Map()); // 선택 해제 시 원래 재질 대신 되돌릴 비교·IDS 색상
   const edgeLinesRef = useRef<Map<THREE.Mesh, THREE.LineSegments>>(new Map()); // 윤곽선 저장
   const prevSelectedRef = useRef<Set<number>>(new Set());
   const pointerDownRef = useRef<{ time: number; x: number; y: number } | null>(null);
+  const clippingPlanesRef = useRef<THREE.Plane[]>([]); // 모델 재질이 공유하는 클리핑 평면 배열 (내용만 교체)
+  const snapMarkerRef = useRef<THREE.Mesh>(null);
+  const cameraFittedRef = useRef(false); // 통합 모델에 추가할 때는 카메라 유지
 
   // 배경색
   useEffect(() => {
@@ -75,9 +146,22 @@ export function IFCScene({
 
   // 모델 로드 시 - BVH 레이캐스팅 적용
   useEffect(() => {
+    // 빠진 메시(제거한 모델)의 윤곽선 정리
+    const pruneEdgeLines = (meshes: Map<THREE.Mesh, THREE.Material>) => {
+      edgeLinesRef.current.forEach((line, mesh) => {
+        if (meshes.has(mesh)) return;
+        line.removeFromParent();
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+        edgeLinesRef.current.delete(mesh);
+      });
+    };
+
     if (!model) {
       meshMapRef.current.clear();
       originalMaterialsRef.current.clear();
+      pruneEdgeLines(new Map());
+      cameraFittedRef.current = false;
       return;
     }
 
@@ -86,6 +170,7 @@ export function IFCScene({
 
     const meshMap = new Map<number, THREE.Mesh[]>();
     const originalMaterials = new Map<THREE.Mesh, THREE.Material>();
+    const previousOriginals = originalMaterialsRef.current; // 통합 모델에 추가할 때 이미 있던 메시는 하이라이트·비교 색상이 적용되어 있을 수 있음
 
     model.traverse((child) => {
       if (child instanceof THREE.Mesh && child.userData.expressID !== undefined) {
@@ -93,19 +178,28 @@ export function IFCScene({
         const arr = meshMap.get(id) || [];
         arr.push(child);
         meshMap.set(id, arr);
-        originalMaterials.set(child, child.material as THREE.Material);
+        originalMaterials.set(child, previousOriginals.get(child) ?? child.material as THREE.Material);
         child.frustumCulled = true;
       }
     });
 
+    // 단면 클리핑 + 잘린 면 채움 (Canvas에서 localClippingEnabled 설정)
+    const clippingPlanes = clippingPlanesRef.current;
+    new Set([...originalMaterials.values(), ...HIGHLIGHT_MATERIALS, ...DIFF_MATERIALS, ...IDS_MATERIALS, ...COST_MATERIALS]).forEach(material => {
+      material.clippingPlanes = clippingPlanes;
+      applySectionCap(material);
+    });
+
     meshMapRef.current = meshMap;
     originalMaterialsRef.current = originalMaterials;
+    pruneEdgeLines(originalMaterials);
 
     // 🚀 BVH 적용 (레이캐스팅 속도 향상)
     console.log("🔍 BVH 레이캐스팅 적용 중...");
     applyBVHToGroup(model, { verbose: true });
 
-    if (controlsRef.current) {
+    if (controlsRef.current && !cameraFittedRef.current) {
+      cameraFittedRef.current = true;
       const box = new THREE.Box3().setFromObject(model);
       const size = box.getSize(new THREE.Vector3());
       const center = box.getCenter(new THREE.Vector3());
@@ -119,6 +213,86 @@ export function IFCScene({
     invalidate();
   }, [model, camera]);
 
+  // 단면 평면 갱신 (공유 배열의 내용만 바꿔서 재질 재할당 없이 반영)
+  const sectionPlanes = section?.planes;
+  const sectionBox = section?.box ?? null;
+  useEffect(() => {
+    const clippingPlanes = clippingPlanesRef.current;
+    clippingPlanes.length = 0;
+    clippingPlanes.push(...toClippingPlanes(sectionPlanes ?? [], sectionBox));
+    invalidate();
+  }, [sectionPlanes, sectionBox]);
+
+  const modelBounds = useMemo(() => (model ? new THREE.Box3().setFromObject(model) : null), [model]);
+
+  // 측정점 표시 크기 (모델 크기 기준)
+  const measurePointSize = useMemo(
+    () => (modelBounds ? Math.max(modelBounds.getSize(new THREE.Vector3()).length() * 0.003, 0.02) : 0.05),
+    [modelBounds]
+  );
+
+  // 측정 모드 종료 시 스냅 미리보기 숨김
+  const isMeasuring = !!measure?.active;
+  useEffect(() => {
+    if (!isMeasuring && snapMarkerRef.current) {
+      snapMarkerRef.current.visible = false;
+      invalidate();
+    }
+  }, [isMeasuring]);
+
+  // 핸들 드래그 중에는 카메라 회전 중지
+  const handleSectionDrag = useCallback((dragging: boolean) => {
+    if (controlsRef.current) controlsRef.current.enabled = !dragging;
+  }, []);
+
+  // 카메라 제어 등록
+  useEffect(() => {
+    if (!cameraControlRef) return;
+    const perspective = camera as THREE.PerspectiveCamera;
+
+    cameraControlRef.current = {
+      getCamera: () => {
+        const target = controlsRef.current?.target ?? new THREE.Vector3();
+        return {
+          position: perspective.position.toArray() as [number, number, number],
+          target: target.toArray() as [number, number, number],
+          fov: perspective.fov,
+          aspect: perspective.aspect,
+        };
+      },
+      setCamera: ({ position, target, fov }) => {
+        perspective.position.set(...position);
+        perspective.fov = fov;
+        perspective.updateProjectionMatrix();
+        if (controlsRef.current) {
+          controlsRef.current.target.set(...target);
+          controlsRef.current.update();
+        } else {
+          perspective.lookAt(...target);
+        }
+        invalidate();
+      },
+      captureSnapshot: (maxWidth = 640) => {
+        // preserveDrawingBuffer가 꺼져 있으므로 직접 렌더링한 직후 복사
+        gl.render(scene, camera);
+        const source = gl.domElement;
+        const scale = Math.min(1, maxWidth / source.width);
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(source.width * scale);
+        canvas.height = Math.round(source.height * scale);
+        const context = canvas.getContext("2d");
+        if (!context) return undefined;
+        context.drawImage(source, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL("image/png");
+      },
+      getModelOffset: () => (model ? model.position.toArray() as [number, number, number] : [0, 0, 0]),
+    };
+
+    return () => {
+      cameraControlRef.current = null;
+    };
+  }, [cameraControlRef, camera, scene, gl, model]);
+
   // 숨김 처리
   useEffect(() => {
     if (!model) return;
@@ -145,6 +319,30 @@ export function IFCScene({
     invalidate();
   }, [model, hiddenExpressIDs, visibleExpressIDs]);
 
+  // 통합 모델 - 모델별 표시/투명도/정렬 (정렬값은 IFC 좌표 → 뷰어 좌표 x, z, -y)
+  useEffect(() => {
+    if (!model || !federation) return;
+    const originalMaterials = originalMaterialsRef.current;
+
+    model.children.forEach(group => {
+      const state = federation.find(m => m.slot === group.userData.modelSlot);
+      if (!state) return;
+
+      const [x, y, z] = state.offset;
+      group.visible = state.visible;
+      group.position.set(x, z, -y);
+      group.rotation.set(0, THREE.MathUtils.degToRad(state.rotation), 0);
+
+      const materials = new Set<THREE.Material>();
+      group.traverse(child => {
+        const material = child instanceof THREE.Mesh ? originalMaterials.get(child) : undefined;
+        if (material) materials.add(material);
+      });
+      materials.forEach(material => applyModelOpacity(material, state.opacity));
+    });
+    invalidate();
+  }, [model, federation]);
+
   // 윤곽선 처리 (비동기 청크 방식으로 UI 블로킹 방지)
   useEffect(() => {
     if (!model) return;
@@ -182,7 +380,9 @@ export function IFCScene({
           const mesh = meshesToProcess[i];
           try {
             const edges = new THREE.EdgesGeometry(mesh.geometry, 0.1); // 0.1도 = 모든 엣지 표시
-            const line = new THREE.LineSegments(edges, edgeMaterial.clone());
+            const lineMaterial = edgeMaterial.clone();
+            lineMaterial.clippingPlanes = clippingPlanesRef.current;
+            const line = new THREE.LineSegments(edges, lineMaterial);
             line.userData.isEdgeLine = true;
             mesh.add(line);
             edgeLines.set(mesh, line);
@@ -222,10 +422,40 @@ export function IFCScene({
     };
   }, [model, showEdges, isDarkMode]);
 
+  // 버전 비교 / IDS 검사 / 공사비 색상 (선택된 요소는 하이라이트 유지, 선택 해제 시 이 색상으로 복원)
+  useEffect(() => {
+    const diffMaterialMap = new Map<THREE.Mesh, THREE.Material>();
+    const originalMaterials = originalMaterialsRef.current;
+    if (diffStatuses) {
+      originalMaterials.forEach((_, mesh) => {
+        const status = diffStatuses.get(mesh.userData.expressID);
+        diffMaterialMap.set(mesh, status ? diffMaterials[status] : diffUnchangedMaterial);
+      });
+    } else if (idsStatuses) {
+      originalMaterials.forEach((_, mesh) => {
+        const status = idsStatuses.get(mesh.userData.expressID);
+        diffMaterialMap.set(mesh, status ? idsMaterials[status] : diffUnchangedMaterial);
+      });
+    } else if (costBands) {
+      originalMaterials.forEach((_, mesh) => {
+        const band = costBands.get(mesh.userData.expressID);
+        diffMaterialMap.set(mesh, band !== undefined ? COST_MATERIALS[band] : diffUnchangedMaterial);
+      });
+    }
+
+    const selected = prevSelectedRef.current;
+    originalMaterials.forEach((original, mesh) => {
+      if (!selected.has(mesh.userData.expressID)) mesh.material = diffMaterialMap.get(mesh) ?? original;
+    });
+    diffMaterialsRef.current = diffMaterialMap;
+    invalidate();
+  }, [model, diffStatuses, idsStatuses, costBands]);
+
   // 선택 하이라이트 (파란색: 3D 선택, 초록색: 테이블 강조)
   useEffect(() => {
     const meshMap = meshMapRef.current;
     const originalMaterials = originalMaterialsRef.current;
+    const diffMaterialMap = diffMaterialsRef.current;
     const prevSelected = prevSelectedRef.current;
     const currentSelected = new Set(selectedExpressIDs);
     const tableHighlightedSet = new Set(tableHighlightedIDs);
@@ -236,7 +466,7 @@ export function IFCScene({
         const meshes = meshMap.get(id);
         if (meshes) {
           meshes.forEach(mesh => {
-            const original = originalMaterials.get(mesh);
+            const original = diffMaterialMap.get(mesh) ?? originalMaterials.get(mesh);
             if (original) {
               mesh.material = original;
               mesh.renderOrder = 0;
@@ -275,6 +505,15 @@ export function IFCScene({
     };
   }, []);
 
+  // 윤곽선·숨긴 요소/모델·단면으로 잘린 부분은 건너뛰고 처음 보이는 메시
+  const findVisibleHit = useCallback((intersections: THREE.Intersection[]) => {
+    const clippingPlanes = clippingPlanesRef.current;
+    return intersections.find(i =>
+      i.object instanceof THREE.Mesh && isShown(i.object) &&
+      clippingPlanes.every(p => p.distanceToPoint(i.point) >= 0)
+    );
+  }, []);
+
   const handlePointerUp = useCallback((event: any) => {
     const down = pointerDownRef.current;
     if (!down) return;
@@ -285,8 +524,37 @@ export function IFCScene({
     const distance = Math.sqrt(Math.pow(x - down.x, 2) + Math.pow(y - down.y, 2));
 
     if (timeDiff < CLICK_TIME_THRESHOLD && distance < CLICK_DISTANCE_THRESHOLD) {
-      const obj = event.object;
-      
+      const hit = findVisibleHit(event.intersections);
+      const obj = hit?.object;
+
+      // 면 정렬 단면: 클릭한 면의 법선 (카메라 쪽을 향하도록)
+      if (section?.isPickingFace) {
+        if (hit?.face) {
+          const normal = hit.face.normal.clone().transformDirection(hit.object.matrixWorld);
+          if (normal.dot(event.ray.direction) > 0) normal.negate();
+          section.onPickFace(hit.point.clone(), normal);
+        }
+        pointerDownRef.current = null;
+        return;
+      }
+
+      // 측정: 스냅한 점을 측정점으로 추가
+      if (measure?.active) {
+        if (hit) {
+          const snap = snapIntersection(hit, camera, size);
+          measure.onPick({
+            point: snap.point.toArray() as [number, number, number],
+            normal: snap.normal.toArray() as [number, number, number],
+            snap: snap.kind,
+            expressID: hit.object.userData.expressID,
+          });
+        }
+        pointerDownRef.current = null;
+        return;
+      }
+
+      if (!hit) onElementSelect(null);
+
       // 디버그: 클릭된 객체 정보
       if (obj instanceof THREE.Mesh) {
         console.log("🖱️ 클릭된 객체:", {
@@ -313,9 +581,35 @@ export function IFCScene({
     }
 
     pointerDownRef.current = null;
-  }, [onElementSelect]);
+  }, [onElementSelect, section, measure, findVisibleHit, camera, size]);
+
+  // 측정 중 스냅 미리보기
+  const handlePointerMove = useCallback((event: ThreeEvent<PointerEvent>) => {
+    const marker = snapMarkerRef.current;
+    if (!measure?.active || !marker) return;
+    const hit = findVisibleHit(event.intersections);
+    marker.visible = !!hit;
+    if (hit) {
+      const snap = snapIntersection(hit, camera, size);
+      marker.position.copy(snap.point);
+      (marker.material as THREE.MeshBasicMaterial).color.setHex(SNAP_COLORS[snap.kind]);
+    }
+    invalidate();
+  }, [measure?.active, findVisibleHit, camera, size]);
+
+  const handlePointerOut = useCallback(() => {
+    if (snapMarkerRef.current?.visible) {
+      snapMarkerRef.current.visible = false;
+      invalidate();
+    }
+  }, []);
 
   const handleMissed = useCallback(() => {
+    // 측정 중에는 빈 곳을 클릭해도 선택 유지
+    if (measure?.active) {
+      pointerDownRef.current = null;
+      return;
+    }
     const down = pointerDownRef.current;
     if (down) {
       const timeDiff = Date.now() - down.time;
@@ -326,7 +620,7 @@ export function IFCScene({
     }
     onElementSelect(null);
     pointerDownRef.current = null;
-  }, [onElementSelect]);
+  }, [onElementSelect, measure?.active]);
 
   return (
     <>
@@ -348,9 +642,32 @@ export function IFCScene({
           object={model}
           onPointerDown={handlePointerDown}
           onPointerUp={handlePointerUp}
+          onPointerMove={measure?.active ? handlePointerMove : undefined}
+          onPointerOut={measure?.active ? handlePointerOut : undefined}
           onPointerMissed={handleMissed}
         />
       )}
+
+      {section && modelBounds && (
+        <SectionGizmo
+          planes={section.planes}
+          box={section.box}
+          bounds={modelBounds}
+          onMovePlane={section.onMovePlane}
+          onMoveBoxFace={section.onMoveBoxFace}
+          onDragChange={handleSectionDrag}
+        />
+      )}
+
+      {measure && (
+        <MeasureOverlay
+          measurements={measure.measurements}
+          pendingPicks={measure.pendingPicks}
+          closePending={measure.closePending}
+          pointSize={measurePointSize}
+          markerRef={snapMarkerRef}
+        />
+      )}
     </>
   );
 }
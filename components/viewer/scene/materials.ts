@@ -3,6 +3,8 @@
  * 투명도나 색상을 수정하려면 이 파일만 수정하세요!
  */
 import * as THREE from "three";
+import type { ModelDiffStatus } from "@/lib/ifc/modelDiff";
+import type { IdsElementStatus } from "@/lib/ifc/ids";
 
 // ============================================
 // 🎨 선택 요소 스타일 설정
@@ -27,3 +29,118 @@ export const normalHighlightMaterial = new THREE.MeshBasicMaterial({
   side: THREE.DoubleSide,
   depthTest: true,
 });
+
+// ============================================
+// ✂️ 단면 스타일 설정
+// ============================================
+export const SECTION_GIZMO_COLOR = 0xf97316; // 단면 평면·박스 (Tailwind orange-500)
+export const SECTION_CAP_COLOR = new THREE.Color(0x94a3b8); // 잘린 면 채움 (Tailwind slate-400)
+
+// 잘린 면 채움 - 단면이 있을 때 닫힌 메시의 안쪽(뒷면)을 단색으로 칠함
+// (재질은 DoubleSide여야 하며, 반투명 재질은 그대로 둠 - 모델 투명도를 낮추면 채움도 같이 반투명)
+export function applySectionCap(material: THREE.Material) {
+  if (material.transparent || material.userData.sectionCap) return;
+  material.userData.sectionCap = true;
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.sectionCapColor = { value: SECTION_CAP_COLOR };
+    shader.fragmentShader = shader.fragmentShader
+      .replace("void main() {", "uniform vec3 sectionCapColor;\nvoid main() {")
+      .replace(
+        "#include <dithering_fragment>",
+        `#include <dithering_fragment>
+        #if NUM_CLIPPING_PLANES > 0
+          if ( !gl_FrontFacing ) gl_FragColor = vec4( sectionCapColor, diffuseColor.a );
+        #endif`
+      );
+  };
+  material.customProgramCacheKey = () => "section-cap";
+  material.needsUpdate = true;
+}
+
+/**
+ * 통합 모델 투명도 적용 (원래 투명도에 곱함, 반투명이면 뒤 모델이 보이도록 깊이 쓰기 끔)
+ */
+export function applyModelOpacity(material: THREE.Material, opacity: number) {
+  if (material.userData.baseOpacity === undefined) {
+    material.userData.baseOpacity = material.opacity;
+    material.userData.baseTransparent = material.transparent;
+  }
+  const transparent = material.userData.baseTransparent || opacity < 1;
+  if (material.transparent !== transparent) {
+    material.transparent = transparent;
+    material.needsUpdate = true;
+  }
+  material.opacity = material.userData.baseOpacity * opacity;
+  material.depthWrite = opacity >= 1;
+}
+
+// ============================================
+// 🔀 버전 비교 스타일 설정
+// ============================================
+export const DIFF_COLORS: Record<ModelDiffStatus, number> = {
+  added: 0x22c55e,      // 추가 - 초록 (Tailwind green-500)
+  removed: 0xef4444,    // 삭제 - 빨강 (Tailwind red-500)
+  geometry: 0xf97316,   // 형상 변경 - 주황 (Tailwind orange-500)
+  properties: 0xa855f7, // 속성 변경 - 보라 (Tailwind purple-500)
+};
+export const DIFF_UNCHANGED_OPACITY = 0.12; // 바뀌지 않은 요소 (흐리게)
+
+export const diffMaterials = Object.fromEntries(
+  Object.entries(DIFF_COLORS).map(([status, color]) => [
+    status,
+    new THREE.MeshLambertMaterial({ color, side: THREE.DoubleSide }),
+  ])
+) as Record<ModelDiffStatus, THREE.MeshLambertMaterial>;
+
+export const diffUnchangedMaterial = new THREE.MeshLambertMaterial({
+  color: 0x94a3b8,
+  transparent: true,
+  opacity: DIFF_UNCHANGED_OPACITY,
+  depthWrite: false,
+  side: THREE.DoubleSide,
+});
+
+export const DIFF_MATERIALS: THREE.Material[] = [...Object.values(diffMaterials), diffUnchangedMaterial];
+
+// ============================================
+// 📑 IDS 검사 스타일 설정 (적용 대상이 아닌 요소는 diffUnchangedMaterial로 흐리게)
+// ============================================
+export const IDS_COLORS: Record<IdsElementStatus, number> = {
+  pass: 0x22c55e, // 통과 - 초록 (Tailwind green-500)
+  fail: 0xef4444, // 실패 - 빨강 (Tailwind red-500)
+};
+
+export const idsMaterials = Object.fromEntries(
+  Object.entries(IDS_COLORS).map(([status, color]) => [
+    status,
+    new THREE.MeshLambertMaterial({ color, side: THREE.DoubleSide }),
+  ])
+) as Record<IdsElementStatus, THREE.MeshLambertMaterial>;
+
+export const IDS_MATERIALS: THREE.Material[] = Object.values(idsMaterials);
+
+// ============================================
+// 💰 공사비 스타일 설정 (금액 5분위, 단가가 없는 요소는 diffUnchangedMaterial로 흐리게)
+// ============================================
+export const COST_COLORS: number[] = [
+  0x22c55e, // 하위 20% - 초록 (Tailwind green-500)
+  0x84cc16, // lime-500
+  0xeab308, // yellow-500
+  0xf97316, // orange-500
+  0xef4444, // 상위 20% - 빨강 (Tailwind red-500)
+];
+
+export const COST_MATERIALS: THREE.MeshLambertMaterial[] = COST_COLORS.map(
+  color => new THREE.MeshLambertMaterial({ color, side: THREE.DoubleSide })
+);
+
+// ============================================
+// 📏 측정 스타일 설정
+// ============================================
+export const MEASURE_COLOR = "#facc15"; // 측정선·라벨 (Tailwind yellow-400)
+export const MEASURE_PENDING_COLOR = "#fde68a"; // 진행 중인 측정 (Tailwind amber-200)
+export const SNAP_COLORS = {
+  vertex: 0xef4444, // 꼭짓점 - 빨강
+  edge: 0x22c55e,   // 모서리 - 초록
+  face: 0x3b82f6,   // 면 - 파랑
+} as const;
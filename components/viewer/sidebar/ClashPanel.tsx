@@ -0,0 +1,433 @@
+"use client";
+
+import { useState, useMemo, memo } from "react";
+import { Zap, ChevronLeft, ChevronRight, Download, Loader2, MessageSquarePlus, Square, X } from "lucide-react";
+import { Clash, CLASH_STATUSES, ClashStatus, FederatedModel, MaterialItem } from "@/types/ifc";
+import type { ClashSetSource, ClashTestSettings } from "../hooks/useClashes";
+
+export interface ClashPanelProps {
+  models: FederatedModel[];
+  materials: MaterialItem[];
+  selectedExpressIDs: number[];
+  clashes: Clash[];
+  testName: string | null;
+  isRunning: boolean;
+  progress: number;
+  error: string | null;
+  currentId: string | null;
+  onRunTest: (settings: ClashTestSettings, name: string) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onFocusClash: (clash: Clash) => void;
+  onStepClash: (list: Clash[], offset: 1 | -1) => void;
+  onSetStatus: (id: string, status: ClashStatus) => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  onCreateIssue?: (clash: Clash) => void;
+  isDarkMode?: boolean;
+}
+
+type SetKind = ClashSetSource["kind"];
+
+// 집합 편집 상태 (종류를 바꿔도 다른 종류의 값은 유지)
+interface SetDraft {
+  kind: SetKind;
+  slot: number | null;
+  typeCodes: number[];
+  keys: number[];
+}
+
+const SET_KIND_LABELS: Record<SetKind, string> = {
+  model: "모델",
+  types: "타입",
+  selection: "선택",
+};
+
+const STATUS_COLORS: Record<ClashStatus, string> = {
+  new: "bg-red-500",
+  approved: "bg-amber-500",
+  resolved: "bg-green-500",
+};
+
+const EMPTY_DRAFT: SetDraft = { kind: "types", slot: null, typeCodes: [], keys: [] };
+
+const formatMm = (value: number) => `${Math.round(value * 1000)}mm`;
+
+/**
+ * 간섭 검토 (두 요소 집합의 하드·여유 거리 간섭, 그룹별 목록과 상태 관리)
+ */
+export const ClashPanel = memo(function ClashPanel({
+  models,
+  materials,
+  selectedExpressIDs,
+  clashes,
+  testName,
+  isRunning,
+  progress,
+  error,
+  currentId,
+  onRunTest,
+  onCancel,
+  onClear,
+  onFocusClash,
+  onStepClash,
+  onSetStatus,
+  onExport,
+  onCreateIssue,
+  isDarkMode = true,
+}: ClashPanelProps) {
+  const [drafts, setDrafts] = useState<[SetDraft, SetDraft]>([EMPTY_DRAFT, EMPTY_DRAFT]);
+  const [clearanceMm, setClearanceMm] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<ClashStatus | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode ? "bg-slate-700 border-slate-600 text-white" : "bg-slate-100 border-slate-300 text-slate-900",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+    sectionTitle: isDarkMode ? "text-slate-300" : "text-slate-600",
+  };
+
+  // 수량 목록의 IFC 타입 (요소 수 포함)
+  const typeOptions = useMemo(() => {
+    const types = new Map<number, { typeCode: number; typeName: string; count: number }>();
+    for (const item of materials) {
+      const entry = types.get(item.typeCode) || { typeCode: item.typeCode, typeName: item.typeName, count: 0 };
+      entry.count += item.count;
+      types.set(item.typeCode, entry);
+    }
+    return Array.from(types.values()).sort((a, b) => a.typeName.localeCompare(b.typeName));
+  }, [materials]);
+
+  const typeNames = useMemo(() => new Map(typeOptions.map(t => [t.typeCode, t.typeName])), [typeOptions]);
+
+  const filteredClashes = useMemo(
+    () => clashes.filter(clash => !statusFilter || clash.status === statusFilter),
+    [clashes, statusFilter]
+  );
+
+  // 그룹별 (훅에서 그룹 → 거리 순으로 정렬되어 있음)
+  const groups = useMemo(() => {
+    const grouped = new Map<string, Clash[]>();
+    for (const clash of filteredClashes) {
+      const list = grouped.get(clash.group) || [];
+      list.push(clash);
+      grouped.set(clash.group, list);
+    }
+    return Array.from(grouped);
+  }, [filteredClashes]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<ClashStatus, number> = { new: 0, approved: 0, resolved: 0 };
+    for (const clash of clashes) counts[clash.status]++;
+    return counts;
+  }, [clashes]);
+
+  const currentIndex = filteredClashes.findIndex(clash => clash.id === currentId);
+  const currentClash = clashes.find(clash => clash.id === currentId) ?? null;
+
+  const updateDraft = (index: 0 | 1, patch: Partial<SetDraft>) => {
+    setDrafts(prev => {
+      const next: [SetDraft, SetDraft] = [prev[0], prev[1]];
+      next[index] = { ...prev[index], ...patch };
+      return next;
+    });
+  };
+
+  // 편집 상태 → 검토 대상 (비어 있으면 null)
+  const toSource = (draft: SetDraft): ClashSetSource | null => {
+    if (draft.kind === "model") {
+      const slot = draft.slot ?? models[0]?.slot;
+      return slot === undefined ? null : { kind: "model", slot };
+    }
+    if (draft.kind === "types") return draft.typeCodes.length > 0 ? { kind: "types", typeCodes: draft.typeCodes } : null;
+    return draft.keys.length > 0 ? { kind: "selection", keys: draft.keys } : null;
+  };
+
+  const describeSource = (source: ClashSetSource) => {
+    if (source.kind === "model") return models.find(m => m.slot === source.slot)?.name ?? "모델";
+    if (source.kind === "selection") return `선택 ${source.keys.length}개`;
+    const names = source.typeCodes.map(code => typeNames.get(code) ?? `${code}`);
+    return names.length > 2 ? `${names.slice(0, 2).join("·")} 외 ${names.length - 2}` : names.join("·");
+  };
+
+  const sourceA = toSource(drafts[0]);
+  const sourceB = toSource(drafts[1]);
+  const canRun = !!sourceA && !!sourceB && clearanceMm >= 0 && !isRunning;
+
+  const handleRun = () => {
+    if (!sourceA || !sourceB) return;
+    const clearance = Math.max(0, clearanceMm) / 1000;
+    const name = `${describeSource(sourceA)} ↔ ${describeSource(sourceB)}${clearance > 0 ? `, 여유 ${clearanceMm}mm` : ""}`;
+    setStatusFilter(null);
+    setCollapsedGroups(new Set());
+    onRunTest({ setA: sourceA, setB: sourceB, clearance }, name);
+  };
+
+  const toggleGroup = (group: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+  };
+
+  const setEditor = (index: 0 | 1) => {
+    const draft = drafts[index];
+    return (
+      <div className={`p-2 rounded border ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-1.5">
+          <span className={`text-xs font-semibold ${theme.sectionTitle}`}>{index === 0 ? "A" : "B"}</span>
+          <div className="flex gap-0.5 ml-auto">
+            {(Object.keys(SET_KIND_LABELS) as SetKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => updateDraft(index, { kind })}
+                className={`px-2 py-0.5 text-xs rounded ${
+                  draft.kind === kind ? "bg-blue-600 text-white" : `${theme.buttonBg} ${theme.textMuted}`
+                }`}
+              >
+                {SET_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {draft.kind === "model" && (
+          <select
+            value={draft.slot ?? models[0]?.slot ?? ""}
+            onChange={(e) => updateDraft(index, { slot: Number(e.target.value) })}
+            className={`w-full px-2 py-1 text-sm rounded border truncate ${theme.input}`}
+          >
+            {models.map(model => (
+              <option key={model.slot} value={model.slot}>{model.name}</option>
+            ))}
+          </select>
+        )}
+
+        {draft.kind === "types" && (
+          <div className="max-h-32 overflow-y-auto space-y-0.5">
+            {typeOptions.length === 0 && <p className={`text-xs ${theme.textSubtle}`}>수량 정보가 없습니다</p>}
+            {typeOptions.map(type => (
+              <label key={type.typeCode} className={`flex items-center gap-2 px-1 py-0.5 rounded text-xs cursor-pointer ${theme.itemHover}`}>
+                <input
+                  type="checkbox"
+                  checked={draft.typeCodes.includes(type.typeCode)}
+                  onChange={(e) => updateDraft(index, {
+                    typeCodes: e.target.checked
+                      ? [...draft.typeCodes, type.typeCode]
+                      : draft.typeCodes.filter(code => code !== type.typeCode),
+                  })}
+                  className="rounded"
+                />
+                <span className={`flex-1 truncate ${theme.text}`}>{type.typeName}</span>
+                <span className={`tabular-nums ${theme.textSubtle}`}>{type.count.toLocaleString()}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {draft.kind === "selection" && (
+          <div className="flex items-center gap-2">
+            <span className={`flex-1 text-xs ${draft.keys.length ? theme.text : theme.textSubtle}`}>
+              {draft.keys.length ? `요소 ${draft.keys.length.toLocaleString()}개` : "비어 있음"}
+            </span>
+            <button
+              onClick={() => updateDraft(index, { keys: selectedExpressIDs })}
+              disabled={selectedExpressIDs.length === 0}
+              className={`px-2 py-0.5 text-xs rounded ${theme.buttonBg} ${theme.textMuted} disabled:opacity-40`}
+            >
+              현재 선택 ({selectedExpressIDs.length}) 가져오기
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 + 검토 조건 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border} max-h-[60%] overflow-y-auto`}>
+        <div className="flex items-center gap-2 mb-3">
+          <Zap className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>간섭 검토</h2>
+        </div>
+
+        <div className="space-y-2">
+          {setEditor(0)}
+          {setEditor(1)}
+          <label className={`flex items-center gap-2 text-xs ${theme.textMuted}`}>
+            여유 거리
+            <input
+              type="number"
+              min={0}
+              step={10}
+              value={clearanceMm}
+              onChange={(e) => setClearanceMm(Math.max(0, Number(e.target.value) || 0))}
+              className={`w-20 px-2 py-1 text-sm rounded border text-right ${theme.input}`}
+            />
+            mm
+            <span className={theme.textSubtle}>(0이면 하드 간섭만)</span>
+          </label>
+        </div>
+
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className={`w-full mt-3 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded ${theme.buttonBg} ${theme.text}`}
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            검토 중 {progress}%
+            <Square className="w-3 h-3 ml-1" />
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!canRun}
+            className="w-full mt-3 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40"
+          >
+            <Zap className="w-4 h-4" />
+            검토 실행
+          </button>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {testName && (
+        <div className="flex-1 min-h-0 flex flex-col">
+          {/* 요약 + 상태 필터 + 이동 */}
+          <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+            <div className="flex items-center justify-between mb-2">
+              <p className={`text-xs truncate ${theme.textMuted}`} title={testName}>
+                {testName} · {clashes.length.toLocaleString()}건
+              </p>
+              <div className="flex items-center gap-0.5 flex-shrink-0">
+                {(["csv", "xlsx"] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    disabled={clashes.length === 0}
+                    title={`${format.toUpperCase()} 내보내기`}
+                    className={`flex items-center gap-0.5 px-1.5 py-1 text-xs rounded ${theme.textMuted} hover:text-blue-400 disabled:opacity-40`}
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+                <button onClick={onClear} title="검토 결과 지우기" className={`p-1 rounded ${theme.textMuted} hover:text-red-400`}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-1.5">
+              {(Object.keys(CLASH_STATUSES) as ClashStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                  className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs border ${
+                    statusFilter === status ? "border-blue-500" : theme.border
+                  } ${theme.itemHover}`}
+                >
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[status]}`} />
+                  <span className={`flex-1 text-left ${theme.textMuted}`}>{CLASH_STATUSES[status]}</span>
+                  <span className={`font-medium tabular-nums ${theme.text}`}>{statusCounts[status]}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 mt-2">
+              <button
+                onClick={() => onStepClash(filteredClashes, -1)}
+                disabled={filteredClashes.length === 0}
+                title="이전 간섭"
+                className={`p-1 rounded ${theme.buttonBg} ${theme.textMuted} disabled:opacity-40`}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className={`flex-1 text-center text-xs tabular-nums ${theme.textMuted}`}>
+                {currentIndex >= 0 ? currentIndex + 1 : "-"} / {filteredClashes.length}
+              </span>
+              <button
+                onClick={() => onStepClash(filteredClashes, 1)}
+                disabled={filteredClashes.length === 0}
+                title="다음 간섭"
+                className={`p-1 rounded ${theme.buttonBg} ${theme.textMuted} disabled:opacity-40`}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+
+            {/* 현재 간섭 상태 변경 / 이슈 등록 */}
+            {currentClash && (
+              <div className="flex items-center gap-1 mt-2">
+                {(Object.keys(CLASH_STATUSES) as ClashStatus[]).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => onSetStatus(currentClash.id, status)}
+                    className={`flex-1 px-2 py-1 text-xs rounded ${
+                      currentClash.status === status ? "bg-blue-600 text-white" : `${theme.buttonBg} ${theme.textMuted}`
+                    }`}
+                  >
+                    {CLASH_STATUSES[status]}
+                  </button>
+                ))}
+                {onCreateIssue && (
+                  <button
+                    onClick={() => onCreateIssue(currentClash)}
+                    title="이 간섭으로 이슈 등록"
+                    className={`p-1 rounded ${theme.buttonBg} ${theme.textMuted} hover:text-blue-400`}
+                  >
+                    <MessageSquarePlus className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* 그룹별 간섭 목록 */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {clashes.length === 0 && <p className={`p-2 text-sm ${theme.textMuted}`}>간섭이 없습니다</p>}
+            {groups.map(([group, list]) => (
+              <div key={group} className="mb-1">
+                <button
+                  onClick={() => toggleGroup(group)}
+                  className={`w-full flex items-center gap-1 px-2 py-1 rounded text-xs font-semibold ${theme.sectionTitle} ${theme.itemHover}`}
+                >
+                  <ChevronRight className={`w-3 h-3 transition-transform ${collapsedGroups.has(group) ? "" : "rotate-90"}`} />
+                  <span className="flex-1 text-left truncate">{group}</span>
+                  <span className="tabular-nums">{list.length}</span>
+                </button>
+                {!collapsedGroups.has(group) && list.map(clash => (
+                  <button
+                    key={`${clash.keyA}_${clash.keyB}`}
+                    onClick={() => onFocusClash(clash)}
+                    title={`${clash.elementA.globalId ?? ""} ↔ ${clash.elementB.globalId ?? ""}`}
+                    className={`w-full flex items-center gap-2 pl-6 pr-2 py-1 rounded text-left text-xs ${
+                      clash.id === currentId ? theme.selected : theme.itemHover
+                    }`}
+                  >
+                    <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[clash.status]}`} />
+                    <span className={`flex-1 min-w-0 truncate ${theme.text}`}>
+                      {clash.elementA.name || clash.elementA.type} ↔ {clash.elementB.name || clash.elementB.type}
+                    </span>
+                    <span className={`flex-shrink-0 tabular-nums ${theme.textSubtle}`}>
+                      {clash.kind === "hard" ? `겹침 ${formatMm(clash.depth)}` : formatMm(clash.distance)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useRef, memo } from "react";
+import { Coins, Download, Upload, Trash2, ChevronRight } from "lucide-react";
+import { CostEstimate, CostRollup, PriceLinks, PriceList, PRICE_UNITS, isPricedUnit, priceEntryKey } from "@/lib/ifc/costEstimate";
+import { COST_COLORS } from "../scene/materials";
+
+export interface CostPanelProps {
+  hasModel: boolean;
+  lists: PriceList[];
+  activeList: PriceList | null;
+  links: PriceLinks;
+  estimate: CostEstimate | null;
+  error: string | null;
+  showInScene: boolean;
+  costLimits: number[];
+  onImport: (file: File) => void;
+  onSetActiveList: (id: string | null) => void;
+  onDeleteList: (id: string) => void;
+  onExportList: (id: string) => void;
+  onSetLink: (materialId: string, entryKey: string | null) => void;
+  onToggleShowInScene: () => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+const formatWon = (value: number) => `${Math.round(value).toLocaleString()}원`;
+const formatQuantity = (value: number, unit: string) => `${value.toLocaleString(undefined, { maximumFractionDigits: unit === "개" ? 0 : 2 })}${unit}`;
+const toCssColor = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+/**
+ * 공사비 (단가표 연결, 자재 행 금액, 카테고리·층별 합계, 3D 금액 색상)
+ */
+export const CostPanel = memo(function CostPanel({
+  hasModel,
+  lists,
+  activeList,
+  links,
+  estimate,
+  error,
+  showInScene,
+  costLimits,
+  onImport,
+  onSetActiveList,
+  onDeleteList,
+  onExportList,
+  onSetLink,
+  onToggleShowInScene,
+  onExport,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: CostPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [rollupView, setRollupView] = useState<"category" | "storey">("category");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode
+      ? "bg-slate-700 border-slate-600 text-white"
+      : "bg-slate-100 border-slate-300 text-slate-900",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+    bar: isDarkMode ? "bg-slate-700" : "bg-slate-200",
+  };
+
+  const selectedSet = new Set(selectedExpressIDs);
+  const unsupportedUnits = Array.from(new Set((activeList?.entries ?? []).map(entry => entry.unit).filter(unit => !isPricedUnit(unit))));
+  const rollups: CostRollup[] = estimate ? (rollupView === "category" ? estimate.byCategory : estimate.byStorey) : [];
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 + 단가표 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <Coins className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>공사비</h2>
+        </div>
+        <p className={`text-sm ${theme.textMuted}`}>
+          단가표 CSV를 가져와 자재 행에 연결하고 수량 × 단가로 공사비를 계산합니다
+        </p>
+
+        <div className="mt-3 flex items-center gap-1">
+          <select
+            value={activeList?.id ?? ""}
+            onChange={(e) => onSetActiveList(e.target.value || null)}
+            className={`flex-1 min-w-0 px-2 py-1 border rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 ${theme.input}`}
+          >
+            <option value="">단가표 없음</option>
+            {lists.map(list => (
+              <option key={list.id} value={list.id}>
+                {list.name} v{list.version} · {new Date(list.importedAt).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            title="단가표 CSV 가져오기 (같은 이름이면 새 버전)"
+            className={`p-1.5 rounded ${theme.buttonBg} ${theme.textMuted}`}
+          >
+            <Upload className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => activeList && onExportList(activeList.id)}
+            disabled={!activeList}
+            title="단가표 CSV 내보내기"
+            className={`p-1.5 rounded ${theme.buttonBg} ${theme.textMuted} disabled:opacity-40`}
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => activeList && onDeleteList(activeList.id)}
+            disabled={!activeList}
+            title="단가표 버전 삭제"
+            className={`p-1.5 rounded ${theme.buttonBg} ${theme.textMuted} hover:text-red-400 disabled:opacity-40`}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        <p className={`mt-1 text-xs ${theme.textSubtle}`}>
+          열: 코드, 카테고리, 품명, 규격, 단위, 단가 (또는 재료비·노무비·경비) · 품명·규격에 * 사용 가능
+        </p>
+        {unsupportedUnits.length > 0 && (
+          <p className="mt-2 text-xs text-amber-400">
+            단위 {unsupportedUnits.join(", ")} 항목은 수량으로 환산할 수 없어 금액을 계산하지 않습니다 ({PRICE_UNITS.join(", ")}만 계산)
+          </p>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {hasModel && estimate && (
+        <>
+          {/* 합계 + 3D 색상 + 내보내기 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border} space-y-2`}>
+            <div className="flex items-center gap-3 text-xs tabular-nums">
+              <span className={`text-sm font-medium ${theme.text}`}>{formatWon(estimate.total)}</span>
+              {estimate.unpricedCount > 0 && (
+                <span className="text-amber-500">단가 없음 {estimate.unpricedCount.toLocaleString()}행</span>
+              )}
+              <div className="flex items-center gap-0.5 ml-auto">
+                {(["csv", "xlsx"] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    title={`공사비 ${format.toUpperCase()} 내보내기`}
+                    className={`flex items-center gap-0.5 px-1.5 py-1 rounded ${theme.textMuted} hover:text-blue-400`}
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className={`flex items-center gap-2 text-xs ${theme.textMuted}`}>
+              <input type="checkbox" checked={showInScene} onChange={onToggleShowInScene} />
+              3D 모델에 요소별 금액 색상 표시
+            </label>
+            {showInScene && costLimits.length > 0 && (
+              <div className="flex items-center gap-1 text-[10px] tabular-nums">
+                {COST_COLORS.map((color, i) => (
+                  <div key={color} className="flex-1 min-w-0" title={`~${formatWon(costLimits[i])}`}>
+                    <div className="h-1.5 rounded" style={{ backgroundColor: toCssColor(color) }} />
+                    <span className={`block truncate ${theme.textSubtle}`}>~{formatWon(costLimits[i])}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 카테고리별 / 층별 합계 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border}`}>
+            <div className="flex items-center gap-1 mb-1.5">
+              {([["category", "카테고리별"], ["storey", "층별"]] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setRollupView(view)}
+                  className={`px-2 py-0.5 text-xs rounded ${rollupView === view ? "bg-blue-600 text-white" : `${theme.buttonBg} ${theme.textMuted}`}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {rollups.map(({ label, amount }) => (
+                <div key={label} className="text-xs">
+                  <div className="flex items-center justify-between gap-2 tabular-nums">
+                    <span className={`truncate ${theme.text}`}>{label}</span>
+                    <span className={theme.textMuted}>{formatWon(amount)}</span>
+                  </div>
+                  <div className={`h-1 rounded ${theme.bar}`}>
+                    <div
+                      className="h-1 rounded bg-blue-500"
+                      style={{ width: `${estimate.total ? (amount / estimate.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 자재 행별 금액 (펼치면 단가 항목 직접 연결) */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {estimate.lines.length === 0 && (
+              <p className={`py-8 text-center text-sm ${theme.textMuted}`}>자재 행이 없습니다</p>
+            )}
+            {estimate.lines.map(line => {
+              const isExpanded = expanded === line.materialId;
+              const isSelected = line.expressIDs.length > 0 && line.expressIDs.every(id => selectedSet.has(id));
+              return (
+                <div key={line.materialId} className="mb-1">
+                  <div className={`flex items-center gap-2 px-2 py-1.5 rounded ${isSelected ? theme.selected : theme.itemHover}`}>
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : line.materialId)}
+                      className={theme.textMuted}
+                      title="단가 항목 연결"
+                    >
+                      <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+                    </button>
+                    <button onClick={() => onSelectElements(line.expressIDs)} className="flex-1 min-w-0 text-left" title="요소 모두 선택">
+                      <span className={`block text-sm truncate ${theme.text}`}>
+                        {line.typeName} <span className={theme.textSubtle}>{line.spec}</span>
+                      </span>
+                      <span className={`block text-xs tabular-nums truncate ${line.unitMismatch ? "text-amber-500" : theme.textSubtle}`}>
+                        {line.entry && line.unitMismatch
+                          ? `${line.entry.name} · 단위 ${line.unit} 환산 불가`
+                          : line.entry
+                          ? `${formatQuantity(line.quantity, line.unit)} × ${line.entry.unitPrice.toLocaleString()} · ${line.entry.name}${line.linkType === "manual" ? " (직접)" : ""}`
+                          : `${line.category} · 단가 없음`}
+                      </span>
+                    </button>
+                    <span className={`text-xs tabular-nums ${line.entry && !line.unitMismatch ? theme.text : theme.textSubtle}`}>
+                      {line.entry && !line.unitMismatch ? formatWon(line.amount) : "-"}
+                    </span>
+                  </div>
+
+                  {isExpanded && activeList && (
+                    <div className="pl-7 pr-1 pb-2">
+                      <select
+                        value={links[line.materialId] ?? ""}
+                        onChange={(e) => onSetLink(line.materialId, e.target.value || null)}
+                        className={`w-full px-2 py-1 border rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 ${theme.input}`}
+                      >
+                        <option value="">자동 연결 (카테고리·품명·규격 일치)</option>
+                        {activeList.entries.map(entry => (
+                          <option key={entry.id} value={priceEntryKey(entry)}>
+                            {[entry.code, entry.name, entry.spec].filter(Boolean).join(" · ")} ({entry.unitPrice.toLocaleString()}원/{entry.unit}{isPricedUnit(entry.unit) ? "" : ", 환산 불가"})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, memo } from "react";
+import { Stethoscope, Download, Loader2, ChevronRight, CircleX, TriangleAlert, Info, CircleCheck } from "lucide-react";
+import { HEALTH_SEVERITY_LABELS, HealthReport, HealthSeverity } from "@/lib/ifc/modelHealth";
+
+export interface HealthPanelProps {
+  hasModel: boolean;
+  report: HealthReport | null;
+  isChecking: boolean;
+  error: string | null;
+  onRunCheck: () => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+// 항목별 문제 요소 최대 표시 수
+const MAX_LISTED_ITEMS = 200;
+
+const SeverityIcon = ({ severity }: { severity: HealthSeverity }) =>
+  severity === "error" ? <CircleX className="w-4 h-4 text-red-500 flex-shrink-0" />
+    : severity === "warning" ? <TriangleAlert className="w-4 h-4 text-amber-500 flex-shrink-0" />
+    : <Info className="w-4 h-4 text-blue-400 flex-shrink-0" />;
+
+/**
+ * 모델 점검 (공간 구조 누락, GlobalId, 형상 없음, 체적 0, 중복 배치, 프록시 요소)
+ */
+export const HealthPanel = memo(function HealthPanel({
+  hasModel,
+  report,
+  isChecking,
+  error,
+  onRunCheck,
+  onExport,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: HealthPanelProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+  };
+
+  const selectedSet = new Set(selectedExpressIDs);
+  const multiModel = report ? new Set(report.findings.map(finding => finding.slot)).size > 1 : false;
+  const counts = report && (["error", "warning", "info"] as const).map(severity => ({
+    severity,
+    count: report.findings.filter(finding => finding.severity === severity).length,
+  }));
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <Stethoscope className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>모델 점검</h2>
+        </div>
+        <p className={`text-sm ${theme.textMuted}`}>
+          공간 구조 누락, GlobalId 누락·중복, 형상 없음, 체적 0 메시, 중복 배치, 프록시 요소를 찾습니다
+        </p>
+        <button
+          onClick={onRunCheck}
+          disabled={!hasModel || isChecking}
+          className="w-full mt-2 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40"
+        >
+          {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Stethoscope className="w-4 h-4" />}
+          {isChecking ? "점검 중..." : report ? "다시 점검" : "점검"}
+        </button>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        {report && report.incompleteModels.length > 0 && (
+          <p className="mt-2 text-xs text-amber-400">
+            {report.incompleteModels.join(", ")}: 이전 캐시로 열어 공간 구조·형상 없음·읽기 오류 항목은 점검하지 않았습니다 (캐시 삭제 후 원본을 다시 열면 점검)
+          </p>
+        )}
+      </div>
+
+      {report && counts && (
+        <>
+          {/* 요약 + 내보내기 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border} flex items-center gap-3 text-xs`}>
+            <span className={theme.textMuted}>요소 {report.elementCount.toLocaleString()}</span>
+            {counts.map(({ severity, count }) => count > 0 && (
+              <span key={severity} className={severity === "error" ? "text-red-500" : severity === "warning" ? "text-amber-500" : "text-blue-400"}>
+                {HEALTH_SEVERITY_LABELS[severity]} {count}
+              </span>
+            ))}
+            <div className="flex items-center gap-0.5 ml-auto">
+              {(["csv", "xlsx"] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  disabled={report.findings.length === 0}
+                  title={`보고서 ${format.toUpperCase()} 내보내기`}
+                  className={`flex items-center gap-0.5 px-1.5 py-1 rounded ${theme.textMuted} hover:text-blue-400 disabled:opacity-40`}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 항목별 결과 (선택하면 문제 요소 전체 선택, 펼치면 요소 목록) */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {report.findings.length === 0 && (
+              <p className={`flex items-center justify-center gap-1.5 py-8 text-sm ${theme.textMuted}`}>
+                <CircleCheck className="w-4 h-4 text-green-500" />
+                발견된 문제가 없습니다
+              </p>
+            )}
+            {report.findings.map((finding, index) => {
+              const isExpanded = expanded === index;
+              return (
+                <div key={index} className="mb-1">
+                  <div className={`flex items-center gap-2 px-2 py-1.5 rounded ${theme.itemHover}`}>
+                    <button onClick={() => setExpanded(isExpanded ? null : index)} className={theme.textMuted} title="문제 요소">
+                      <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+                    </button>
+                    <SeverityIcon severity={finding.severity} />
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : index)}
+                      className="flex-1 min-w-0 text-left"
+                      title={finding.description}
+                    >
+                      <span className={`block text-sm truncate ${theme.text}`}>
+                        {finding.title} <span className={theme.textSubtle}>{finding.items.length.toLocaleString()}</span>
+                      </span>
+                      {multiModel && <span className={`block text-xs truncate ${theme.textSubtle}`}>{finding.modelName}</span>}
+                    </button>
+                    {finding.keys.length > 0 && (
+                      <button
+                        onClick={() => onSelectElements(finding.keys)}
+                        title="문제 요소 모두 선택"
+                        className={`px-1.5 py-0.5 text-xs rounded ${theme.buttonBg} ${theme.textMuted}`}
+                      >
+                        선택
+                      </button>
+                    )}
+                  </div>
+
+                  {isExpanded && (
+                    <div className="pl-8 pr-2 pb-2 space-y-0.5">
+                      <p className={`pb-1 text-xs ${theme.textMuted}`}>{finding.description}</p>
+                      {finding.items.slice(0, MAX_LISTED_ITEMS).map((item, i) => (
+                        <button
+                          key={i}
+                          onClick={() => item.key !== undefined && onSelectElements([item.key])}
+                          disabled={item.key === undefined}
+                          className={`w-full px-2 py-1 rounded text-left text-xs ${
+                            item.key !== undefined && selectedSet.has(item.key) ? theme.selected : theme.itemHover
+                          }`}
+                        >
+                          <span className={`block truncate ${theme.text}`}>{item.label}</span>
+                          {item.detail && <span className={`block truncate ${theme.textSubtle}`}>{item.detail}</span>}
+                        </button>
+                      ))}
+                      {finding.items.length > MAX_LISTED_ITEMS && (
+                        <p className={`px-2 pt-1 text-xs ${theme.textSubtle}`}>
+                          외 {(finding.items.length - MAX_LISTED_ITEMS).toLocaleString()}개 (보고서로 내보내 확인)
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
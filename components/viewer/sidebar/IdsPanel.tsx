@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useRef, memo } from "react";
+import {
+  ClipboardCheck, Upload, Download, Loader2, Eye, EyeOff, X,
+  ChevronRight, CircleCheck, CircleX, CircleMinus, TriangleAlert,
+} from "lucide-react";
+import { describeFacet, IdsDocument, IdsReport, IdsSpecificationStatus } from "@/lib/ifc/ids";
+import { IDS_STATUS_LABELS } from "@/lib/export/idsExport";
+
+export interface IdsPanelProps {
+  hasModel: boolean;
+  fileName: string | null;
+  document: IdsDocument | null;
+  report: IdsReport | null;
+  isChecking: boolean;
+  error: string | null;
+  activeSpec: number | null;
+  onSetActiveSpec: (index: number | null) => void;
+  showInScene: boolean;
+  onToggleShowInScene: () => void;
+  onLoadIds: (file: File) => void;
+  onRunValidation: () => void;
+  onClear: () => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+// 사양별 실패 요소 최대 표시 수
+const MAX_LISTED_FAILURES = 200;
+
+const CARDINALITY_LABELS = {
+  required: "필수",
+  optional: "선택",
+  prohibited: "금지",
+} as const;
+
+const StatusIcon = ({ status }: { status: IdsSpecificationStatus }) =>
+  status === "pass" ? <CircleCheck className="w-4 h-4 text-green-500 flex-shrink-0" />
+    : status === "fail" ? <CircleX className="w-4 h-4 text-red-500 flex-shrink-0" />
+    : <CircleMinus className="w-4 h-4 text-slate-500 flex-shrink-0" />;
+
+/**
+ * IDS 검사 (IDS 파일의 사양별 적용·통과·실패 요소, 실패 사유)
+ */
+export const IdsPanel = memo(function IdsPanel({
+  hasModel,
+  fileName,
+  document,
+  report,
+  isChecking,
+  error,
+  activeSpec,
+  onSetActiveSpec,
+  showInScene,
+  onToggleShowInScene,
+  onLoadIds,
+  onRunValidation,
+  onClear,
+  onExport,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: IdsPanelProps) {
+  const [expandedSpec, setExpandedSpec] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+    sectionTitle: isDarkMode ? "text-slate-300" : "text-slate-600",
+  };
+
+  const selectedSet = new Set(selectedExpressIDs);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onLoadIds(file);
+  };
+
+  const counts = report && {
+    pass: report.results.filter(r => r.status === "pass").length,
+    fail: report.results.filter(r => r.status === "fail").length,
+    skipped: report.results.filter(r => r.status === "skipped").length,
+  };
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-blue-500" />
+            <h2 className={`font-semibold text-lg ${theme.text}`}>IDS 검사</h2>
+          </div>
+          <div className="flex gap-1">
+            <button onClick={() => fileInputRef.current?.click()} title="IDS 파일 열기" className={`p-1.5 rounded ${theme.buttonBg}`}>
+              <Upload className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            {document && (
+              <button onClick={onClear} title="IDS 닫기" className={`p-1.5 rounded ${theme.buttonBg} ${theme.textMuted} hover:text-red-400`}>
+                <X className="w-4 h-4" />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".ids,.xml" onChange={handleFile} className="hidden" />
+          </div>
+        </div>
+
+        {document ? (
+          <>
+            <p className={`text-sm font-medium truncate ${theme.text}`} title={document.description}>{document.title}</p>
+            <p className={`text-xs truncate ${theme.textSubtle}`} title={fileName ?? undefined}>
+              {fileName} · 사양 {document.specifications.length}개{document.author ? ` · ${document.author}` : ""}
+            </p>
+            <button
+              onClick={onRunValidation}
+              disabled={!hasModel || isChecking}
+              className="w-full mt-2 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40"
+            >
+              {isChecking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardCheck className="w-4 h-4" />}
+              {isChecking ? "검사 중..." : report ? "다시 검사" : "검사"}
+            </button>
+          </>
+        ) : (
+          <p className={`text-sm ${theme.textMuted}`}>IDS(.ids) 파일을 열어 불러온 모델이 요구 정보를 갖추었는지 검사합니다</p>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {report && counts && (
+        <>
+          {/* 요약 + 3D 색상 + 내보내기 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border} flex items-center gap-3 text-xs`}>
+            <span className="text-green-500">{IDS_STATUS_LABELS.pass} {counts.pass}</span>
+            <span className="text-red-500">{IDS_STATUS_LABELS.fail} {counts.fail}</span>
+            {counts.skipped > 0 && <span className={theme.textSubtle}>{IDS_STATUS_LABELS.skipped} {counts.skipped}</span>}
+            <div className="flex items-center gap-0.5 ml-auto">
+              <button
+                onClick={onToggleShowInScene}
+                title={showInScene ? "3D 검사 색상 끄기" : "3D 검사 색상 켜기"}
+                className={`p-1 rounded ${showInScene ? "text-blue-400" : theme.textSubtle}`}
+              >
+                {showInScene ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              </button>
+              {(["csv", "xlsx"] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  title={`보고서 ${format.toUpperCase()} 내보내기`}
+                  className={`flex items-center gap-0.5 px-1.5 py-1 rounded ${theme.textMuted} hover:text-blue-400`}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 사양별 결과 (누르면 3D 색상을 그 사양만으로, 펼치면 조건·실패 요소) */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {report.results.map((result, index) => {
+              const expanded = expandedSpec === index;
+              const failedKeys = result.failures.map(failure => failure.key);
+              return (
+                <div key={index} className={`mb-1 rounded border ${activeSpec === index ? "border-blue-500" : "border-transparent"}`}>
+                  <div className={`flex items-center gap-2 px-2 py-1.5 rounded ${theme.itemHover}`}>
+                    <button onClick={() => setExpandedSpec(expanded ? null : index)} className={theme.textMuted} title="조건·실패 요소">
+                      <ChevronRight className={`w-3.5 h-3.5 transition-transform ${expanded ? "rotate-90" : ""}`} />
+                    </button>
+                    <button
+                      onClick={() => onSetActiveSpec(activeSpec === index ? null : index)}
+                      title={activeSpec === index ? "전체 사양 색상 보기" : "이 사양만 3D 색상 표시"}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    >
+                      <StatusIcon status={result.status} />
+                      <span className="flex-1 min-w-0">
+                        <span className={`block text-sm truncate ${theme.text}`}>{result.specification.name}</span>
+                        <span className={`block text-xs ${theme.textSubtle}`}>
+                          적용 {result.applicableCount} · 통과 {result.passedKeys.length} · 실패 {result.failures.length}
+                        </span>
+                      </span>
+                    </button>
+                    {failedKeys.length > 0 && (
+                      <button
+                        onClick={() => onSelectElements(failedKeys)}
+                        title="실패 요소 모두 선택"
+                        className={`px-1.5 py-0.5 text-xs rounded ${theme.buttonBg} ${theme.textMuted}`}
+                      >
+                        선택
+                      </button>
+                    )}
+                  </div>
+
+                  {expanded && (
+                    <div className="pl-8 pr-2 pb-2 space-y-2">
+                      {result.specification.description && (
+                        <p className={`text-xs ${theme.textMuted}`}>{result.specification.description}</p>
+                      )}
+                      {result.warnings.map(warning => (
+                        <p key={warning} className="flex items-start gap-1 text-xs text-amber-400">
+                          <TriangleAlert className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+                          {warning}
+                        </p>
+                      ))}
+                      <div className="text-xs space-y-0.5">
+                        <p className={`font-semibold ${theme.sectionTitle}`}>적용</p>
+                        {result.specification.applicability.map((facet, i) => (
+                          <p key={i} className={theme.textMuted}>{describeFacet(facet)}</p>
+                        ))}
+                        <p className={`font-semibold pt-1 ${theme.sectionTitle}`}>요구</p>
+                        {result.specification.requirements.length === 0 && <p className={theme.textSubtle}>없음</p>}
+                        {result.specification.requirements.map((requirement, i) => (
+                          <p key={i} className={theme.textMuted} title={requirement.instructions}>
+                            <span className={theme.textSubtle}>[{CARDINALITY_LABELS[requirement.cardinality]}]</span> {describeFacet(requirement)}
+                          </p>
+                        ))}
+                      </div>
+
+                      {result.failures.length > 0 && (
+                        <div className="space-y-0.5">
+                          {result.failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                            <button
+                              key={failure.key}
+                              onClick={() => onSelectElements([failure.key])}
+                              className={`w-full px-2 py-1 rounded text-left text-xs ${
+                                selectedSet.has(failure.key) ? theme.selected : theme.itemHover
+                              }`}
+                            >
+                              <span className={`block truncate ${theme.text}`}>{failure.name || failure.globalId || failure.entity}</span>
+                              {failure.reasons.map((reason, i) => (
+                                <span key={i} className="block text-red-400">{reason}</span>
+                              ))}
+                            </button>
+                          ))}
+                          {result.failures.length > MAX_LISTED_FAILURES && (
+                            <p className={`px-2 pt-1 text-xs ${theme.textSubtle}`}>
+                              외 {(result.failures.length - MAX_LISTED_FAILURES).toLocaleString()}개 (보고서로 내보내 확인)
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
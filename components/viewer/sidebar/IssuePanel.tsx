@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useRef, useCallback, useMemo, memo } from "react";
+import { MessageSquare, Plus, Trash2, Upload, Download, Eye, Camera, User, X } from "lucide-react";
+import { BcfTopic, BCF_TOPIC_STATUSES, BCF_TOPIC_TYPES } from "@/types/ifc";
+import { BcfVersion } from "@/lib/bcf/bcfZip";
+import { getBcfAuthor, setBcfAuthor } from "@/lib/bcf/bcfStore";
+import type { NewTopicInput, TopicPatch } from "../hooks/useIssues";
+
+export interface IssuePanelProps {
+  topics: BcfTopic[];
+  relatedTopicGuids: Set<string>;
+  hasModel: boolean;
+  selectedCount: number;
+  onCreateTopic: (input: NewTopicInput) => Promise<void>;
+  onUpdateTopic: (guid: string, patch: TopicPatch) => Promise<void>;
+  onAddComment: (guid: string, text: string, withViewpoint?: boolean) => Promise<void>;
+  onDeleteTopic: (guid: string) => Promise<void>;
+  onShowTopic: (topic: BcfTopic, viewpointGuid?: string) => void;
+  onImportBcf: (file: File) => Promise<number>;
+  onExportBcf: (version: BcfVersion, guids: string[]) => void;
+  isDarkMode?: boolean;
+}
+
+const PRIORITIES = ["High", "Normal", "Low"];
+
+const STATUS_COLORS: Record<string, string> = {
+  "Open": "bg-red-500/20 text-red-400",
+  "In Progress": "bg-amber-500/20 text-amber-400",
+  "Resolved": "bg-green-500/20 text-green-400",
+  "Closed": "bg-slate-500/20 text-slate-400",
+};
+
+const EMPTY_FORM: NewTopicInput = { title: "", description: "", topicType: "Issue", priority: "Normal", assignedTo: "" };
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString("ko-KR", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+const statusLabel = (status: string) => BCF_TOPIC_STATUSES[status] || status;
+
+export const IssuePanel = memo(function IssuePanel({
+  topics,
+  relatedTopicGuids,
+  hasModel,
+  selectedCount,
+  onCreateTopic,
+  onUpdateTopic,
+  onAddComment,
+  onDeleteTopic,
+  onShowTopic,
+  onImportBcf,
+  onExportBcf,
+  isDarkMode = true,
+}: IssuePanelProps) {
+  const [author, setAuthor] = useState(getBcfAuthor);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [onlyRelated, setOnlyRelated] = useState(true);
+  const [form, setForm] = useState<NewTopicInput | null>(null);
+  const [expandedGuid, setExpandedGuid] = useState<string | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [commentWithView, setCommentWithView] = useState(false);
+  const [bcfVersion, setBcfVersion] = useState<BcfVersion>("2.1");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode
+      ? "bg-slate-700 border-slate-600 text-white placeholder-slate-500"
+      : "bg-slate-100 border-slate-300 text-slate-900 placeholder-slate-400",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    panelBg: isDarkMode ? "bg-slate-900/50" : "bg-slate-50",
+  };
+  const inputClass = `w-full px-2.5 py-1.5 text-sm rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${theme.input}`;
+
+  const visibleTopics = useMemo(() => topics.filter(topic =>
+    (statusFilter === "all" || topic.status === statusFilter) &&
+    (!onlyRelated || relatedTopicGuids.has(topic.guid))
+  ), [topics, statusFilter, onlyRelated, relatedTopicGuids]);
+
+  const handleAuthorChange = useCallback((value: string) => {
+    setAuthor(value);
+    setBcfAuthor(value);
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!form) return;
+    await onCreateTopic(form);
+    setForm(null);
+  }, [form, onCreateTopic]);
+
+  const handleComment = useCallback(async (guid: string) => {
+    await onAddComment(guid, commentText, commentWithView);
+    setCommentText("");
+    setCommentWithView(false);
+  }, [commentText, commentWithView, onAddComment]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const count = await onImportBcf(file);
+      setMessage(count > 0 ? `이슈 ${count}개를 가져왔습니다` : "가져올 이슈가 없습니다");
+    } catch (err) {
+      setMessage(`BCF 가져오기 실패: ${err instanceof Error ? err.message : err}`);
+    }
+  }, [onImportBcf]);
+
+  const handleDelete = useCallback(async (topic: BcfTopic) => {
+    if (!confirm(`"${topic.title}" 이슈를 삭제할까요?`)) return;
+    await onDeleteTopic(topic.guid);
+  }, [onDeleteTopic]);
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border} space-y-3`}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-blue-500" />
+            <h2 className={`font-semibold text-lg ${theme.text}`}>이슈</h2>
+          </div>
+          <div className="flex gap-1">
+            <button onClick={() => fileInputRef.current?.click()} title="BCF 가져오기" className={`p-1.5 rounded ${theme.buttonBg}`}>
+              <Upload className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <button
+              onClick={() => onExportBcf(bcfVersion, visibleTopics.map(t => t.guid))}
+              disabled={visibleTopics.length === 0}
+              title={`표시된 이슈를 BCF ${bcfVersion}로 내보내기`}
+              className={`p-1.5 rounded disabled:opacity-40 ${theme.buttonBg}`}
+            >
+              <Download className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <select
+              value={bcfVersion}
+              onChange={(e) => setBcfVersion(e.target.value as BcfVersion)}
+              title="BCF 버전"
+              className={`px-1.5 text-xs rounded border ${theme.input}`}
+            >
+              <option value="2.1">2.1</option>
+              <option value="3.0">3.0</option>
+            </select>
+            <input ref={fileInputRef} type="file" accept=".bcfzip,.bcf,.zip" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+
+        {/* 작성자 */}
+        <div className="flex items-center gap-2">
+          <User className={`w-4 h-4 flex-shrink-0 ${theme.textMuted}`} />
+          <input
+            type="text"
+            value={author}
+            onChange={(e) => handleAuthorChange(e.target.value)}
+            placeholder="작성자 이름"
+            className={inputClass}
+          />
+        </div>
+
+        {/* 필터 */}
+        <div className="flex items-center gap-2">
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className={`flex-1 px-2 py-1 text-xs rounded border ${theme.input}`}>
+            <option value="all">전체 상태</option>
+            {Object.entries(BCF_TOPIC_STATUSES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label className={`flex items-center gap-1 text-xs ${theme.textMuted}`}>
+            <input type="checkbox" checked={onlyRelated} onChange={(e) => setOnlyRelated(e.target.checked)} />
+            현재 모델만
+          </label>
+        </div>
+
+        {/* 새 이슈 */}
+        {form ? (
+          <div className={`p-3 rounded-lg space-y-2 ${theme.panelBg}`}>
+            <div className="flex items-center justify-between">
+              <span className={`text-xs ${theme.textMuted}`}>선택 요소 {selectedCount}개 · 현재 화면 스냅샷 포함</span>
+              <button onClick={() => setForm(null)} className={theme.textMuted}><X className="w-4 h-4" /></button>
+            </div>
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="제목"
+              className={inputClass}
+              autoFocus
+            />
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="설명"
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+            <div className="flex gap-2">
+              <select value={form.topicType} onChange={(e) => setForm({ ...form, topicType: e.target.value })} className={inputClass}>
+                {Object.entries(BCF_TOPIC_TYPES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <select value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} className={inputClass}>
+                {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={form.assignedTo}
+              onChange={(e) => setForm({ ...form, assignedTo: e.target.value })}
+              placeholder="담당자"
+              className={inputClass}
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!form.title.trim()}
+              className="w-full py-1.5 text-sm rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40"
+            >
+              이슈 등록
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            disabled={!hasModel}
+            className="w-full flex items-center justify-center gap-1 py-1.5 text-sm rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" />
+            {selectedCount > 0 ? `선택 요소 ${selectedCount}개로 이슈 만들기` : "현재 화면으로 이슈 만들기"}
+          </button>
+        )}
+        {message && <p className={`text-xs ${theme.textMuted}`}>{message}</p>}
+      </div>
+
+      {/* 목록 */}
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {visibleTopics.length === 0 ? (
+          <div className={`flex flex-col items-center justify-center py-12 ${theme.textSubtle}`}>
+            <MessageSquare className="w-12 h-12 mb-3 opacity-50" />
+            <p>등록된 이슈가 없습니다</p>
+          </div>
+        ) : (
+          visibleTopics.map(topic => {
+            const isExpanded = expandedGuid === topic.guid;
+            const snapshot = topic.viewpoints.find(v => v.snapshot)?.snapshot;
+            return (
+              <div key={topic.guid} className={`border-b ${theme.border}`}>
+                <div
+                  onClick={() => setExpandedGuid(isExpanded ? null : topic.guid)}
+                  className={`flex items-start gap-2 px-4 py-2.5 cursor-pointer ${theme.itemHover}`}
+                >
+                  <span className={`flex-shrink-0 mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_COLORS[topic.status] || STATUS_COLORS.Closed}`}>
+                    {statusLabel(topic.status)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${theme.text}`} title={topic.title}>{topic.title}</p>
+                    <p className={`text-xs ${theme.textSubtle}`}>
+                      {BCF_TOPIC_TYPES[topic.topicType] || topic.topicType}
+                      {topic.assignedTo && ` · ${topic.assignedTo}`}
+                      {` · 요소 ${topic.globalIds.length}`}
+                      {topic.comments.length > 0 && ` · 코멘트 ${topic.comments.length}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onShowTopic(topic); }}
+                    disabled={!hasModel}
+                    title="이슈 위치로 이동"
+                    className={`p-1 rounded disabled:opacity-40 ${theme.textMuted} hover:text-blue-400`}
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {isExpanded && (
+                  <div className={`px-4 pb-3 space-y-2 ${theme.panelBg}`}>
+                    {snapshot && (
+                      <div
+                        onClick={() => hasModel && onShowTopic(topic)}
+                        className="w-full h-32 rounded bg-cover bg-center cursor-pointer mt-2"
+                        style={{ backgroundImage: `url(${snapshot})` }}
+                      />
+                    )}
+                    {topic.description && <p className={`text-sm whitespace-pre-wrap ${theme.text}`}>{topic.description}</p>}
+                    <p className={`text-xs ${theme.textSubtle}`}>
+                      {topic.author} · {formatDate(topic.createdAt)}
+                      {topic.priority && ` · ${topic.priority}`}
+                    </p>
+
+                    <div className="flex gap-2">
+                      <select
+                        value={topic.status}
+                        onChange={(e) => onUpdateTopic(topic.guid, { status: e.target.value })}
+                        className={inputClass}
+                      >
+                        {Object.entries(BCF_TOPIC_STATUSES).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                        {!BCF_TOPIC_STATUSES[topic.status] && <option value={topic.status}>{topic.status}</option>}
+                      </select>
+                      <input
+                        type="text"
+                        defaultValue={topic.assignedTo}
+                        onBlur={(e) => {
+                          if (e.target.value !== (topic.assignedTo ?? "")) onUpdateTopic(topic.guid, { assignedTo: e.target.value || undefined });
+                        }}
+                        placeholder="담당자"
+                        className={inputClass}
+                      />
+                    </div>
+
+                    {/* 코멘트 */}
+                    {topic.comments.map(comment => (
+                      <div key={comment.guid} className={`text-sm border-l-2 pl-2 ${theme.border}`}>
+                        <p className={`text-xs ${theme.textSubtle}`}>
+                          {comment.author} · {formatDate(comment.date)}
+                          {comment.viewpointGuid && (
+                            <button
+                              onClick={() => onShowTopic(topic, comment.viewpointGuid)}
+                              disabled={!hasModel}
+                              title="코멘트 화면으로 이동"
+                              className="ml-1 align-middle hover:text-blue-400"
+                            >
+                              <Camera className="w-3 h-3 inline" />
+                            </button>
+                          )}
+                        </p>
+                        <p className={`whitespace-pre-wrap ${theme.text}`}>{comment.text}</p>
+                      </div>
+                    ))}
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === "Enter") handleComment(topic.guid); }}
+                        placeholder="코멘트 입력"
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => setCommentWithView(!commentWithView)}
+                        disabled={!hasModel}
+                        title="현재 화면 첨부"
+                        className={`p-1.5 rounded disabled:opacity-40 ${commentWithView ? "bg-blue-500 text-white" : `${theme.buttonBg} ${theme.textMuted}`}`}
+                      >
+                        <Camera className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => handleDelete(topic)}
+                        className={`flex items-center gap-1 text-xs ${theme.textMuted} hover:text-red-400`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        삭제
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+});
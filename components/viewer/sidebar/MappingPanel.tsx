@@ -0,0 +1,274 @@
+"use client";
+
+import { useRef, memo } from "react";
+import { Tags, Upload, Download, Plus, Copy, Trash2, ArrowUp, ArrowDown, X, Loader2 } from "lucide-react";
+import {
+  MAPPING_FIELD_LABELS,
+  MAPPING_UNITS,
+  MappingProfile,
+  MappingRule,
+  MappingRuleField,
+  createMappingRule,
+} from "@/lib/ifc/mappingProfile";
+
+export interface MappingPanelProps {
+  hasModel: boolean;
+  profiles: MappingProfile[];
+  activeProfile: MappingProfile | null;
+  matchedCount: number;
+  isLoadingElements: boolean;
+  error: string | null;
+  onSetActiveProfile: (id: string | null) => void;
+  onCreateProfile: (name: string) => void;
+  onDuplicateProfile: (id: string) => void;
+  onUpdateProfile: (profile: MappingProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: (id?: string) => void;
+  isDarkMode?: boolean;
+}
+
+// 조건 입력 안내
+const PATTERN_PLACEHOLDERS: Record<MappingRuleField, string> = {
+  ifcClass: "IfcWall, IfcFlow*",
+  objectType: "*외벽*",
+  property: "값 (비우면 속성만 있으면 적용)",
+  material: "*콘크리트*",
+};
+
+/**
+ * 분류·이름 매핑 (규칙 → 카테고리·품명·단위, 프로파일 저장·가져오기·내보내기)
+ */
+export const MappingPanel = memo(function MappingPanel({
+  hasModel,
+  profiles,
+  activeProfile,
+  matchedCount,
+  isLoadingElements,
+  error,
+  onSetActiveProfile,
+  onCreateProfile,
+  onDuplicateProfile,
+  onUpdateProfile,
+  onDeleteProfile,
+  onImport,
+  onExport,
+  isDarkMode = true,
+}: MappingPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode
+      ? "bg-slate-700 border-slate-600 text-white placeholder-slate-500"
+      : "bg-slate-100 border-slate-300 text-slate-900 placeholder-slate-400",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    card: isDarkMode ? "bg-slate-900/40 border-slate-700" : "bg-slate-50 border-slate-200",
+  };
+  const inputClass = `w-full min-w-0 px-2 py-1 border rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 ${theme.input}`;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onImport(file);
+  };
+
+  const setRules = (rules: MappingRule[]) => activeProfile && onUpdateProfile({ ...activeProfile, rules });
+  const updateRule = (index: number, patch: Partial<MappingRule>) =>
+    activeProfile && setRules(activeProfile.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  const moveRule = (index: number, offset: number) => {
+    if (!activeProfile) return;
+    const rules = [...activeProfile.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    setRules(rules);
+  };
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Tags className="w-5 h-5 text-blue-500" />
+            <h2 className={`font-semibold text-lg ${theme.text}`}>분류 매핑</h2>
+          </div>
+          <div className="flex gap-1">
+            <button onClick={() => fileInputRef.current?.click()} title="프로파일 가져오기 (JSON)" className={`p-1.5 rounded ${theme.buttonBg}`}>
+              <Upload className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <button
+              onClick={() => onExport()}
+              disabled={profiles.length === 0}
+              title="전체 프로파일 내보내기 (JSON)"
+              className={`p-1.5 rounded ${theme.buttonBg} disabled:opacity-40`}
+            >
+              <Download className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+          </div>
+        </div>
+        <p className={`text-sm ${theme.textMuted}`}>
+          규칙에 맞는 요소의 카테고리·품명·단위를 바꿔 수량표를 다시 묶습니다
+        </p>
+
+        {/* 프로파일 선택 */}
+        <div className="flex items-center gap-1 mt-3">
+          <select
+            value={activeProfile?.id ?? ""}
+            onChange={(e) => onSetActiveProfile(e.target.value || null)}
+            className={`flex-1 min-w-0 px-2 py-1.5 border rounded text-sm focus:outline-none ${theme.input}`}
+          >
+            <option value="">기본 분류 (매핑 안 함)</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <button onClick={() => onCreateProfile("")} title="새 프로파일" className={`p-1.5 rounded ${theme.buttonBg}`}>
+            <Plus className={`w-4 h-4 ${theme.textMuted}`} />
+          </button>
+          {activeProfile && (
+            <>
+              <button onClick={() => onDuplicateProfile(activeProfile.id)} title="복제" className={`p-1.5 rounded ${theme.buttonBg}`}>
+                <Copy className={`w-4 h-4 ${theme.textMuted}`} />
+              </button>
+              <button onClick={() => onExport(activeProfile.id)} title="이 프로파일 내보내기" className={`p-1.5 rounded ${theme.buttonBg}`}>
+                <Download className={`w-4 h-4 ${theme.textMuted}`} />
+              </button>
+              <button
+                onClick={() => confirm(`"${activeProfile.name}" 프로파일을 삭제할까요?`) && onDeleteProfile(activeProfile.id)}
+                title="삭제"
+                className={`p-1.5 rounded ${theme.buttonBg} ${theme.textMuted} hover:text-red-400`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+
+        {activeProfile && hasModel && (
+          <p className={`mt-2 flex items-center gap-1.5 text-xs ${theme.textMuted}`}>
+            {isLoadingElements && <Loader2 className="w-3 h-3 animate-spin" />}
+            {isLoadingElements ? "요소 정보 불러오는 중..." : `규칙 적용 요소 ${matchedCount.toLocaleString()}개`}
+          </p>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {/* 규칙 (위에서부터 처음 맞는 규칙 하나만 적용) */}
+      {activeProfile && (
+        <div className="flex-1 min-h-0 overflow-y-auto p-3 space-y-2">
+          <input
+            key={activeProfile.id}
+            defaultValue={activeProfile.name}
+            onBlur={(e) => {
+              const name = e.target.value.trim();
+              if (name && name !== activeProfile.name) onUpdateProfile({ ...activeProfile, name });
+              else e.target.value = activeProfile.name;
+            }}
+            placeholder="프로파일 이름"
+            className={`w-full px-2 py-1.5 border rounded text-sm font-medium focus:outline-none focus:ring-1 focus:ring-blue-500 ${theme.input}`}
+          />
+
+          {activeProfile.rules.map((rule, index) => (
+            <div key={rule.id} className={`p-2 rounded border space-y-1.5 ${theme.card}`}>
+              <div className="flex items-center gap-1">
+                <span className={`w-5 text-xs tabular-nums ${theme.textSubtle}`}>{index + 1}</span>
+                <select
+                  value={rule.field}
+                  onChange={(e) => updateRule(index, { field: e.target.value as MappingRuleField })}
+                  className={`flex-1 ${inputClass}`}
+                >
+                  {(Object.keys(MAPPING_FIELD_LABELS) as MappingRuleField[]).map(field => (
+                    <option key={field} value={field}>{MAPPING_FIELD_LABELS[field]}</option>
+                  ))}
+                </select>
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} title="위로" className={`p-1 ${theme.textMuted} disabled:opacity-30`}>
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === activeProfile.rules.length - 1}
+                  title="아래로"
+                  className={`p-1 ${theme.textMuted} disabled:opacity-30`}
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setRules(activeProfile.rules.filter((_, i) => i !== index))}
+                  title="규칙 삭제"
+                  className={`p-1 ${theme.textMuted} hover:text-red-400`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {rule.field === "property" && (
+                <div className="grid grid-cols-2 gap-1">
+                  <input
+                    value={rule.propertySet ?? ""}
+                    onChange={(e) => updateRule(index, { propertySet: e.target.value })}
+                    placeholder="속성 세트 (Pset_*)"
+                    className={inputClass}
+                  />
+                  <input
+                    value={rule.propertyName ?? ""}
+                    onChange={(e) => updateRule(index, { propertyName: e.target.value })}
+                    placeholder="속성 이름"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <input
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                placeholder={PATTERN_PLACEHOLDERS[rule.field]}
+                className={inputClass}
+              />
+
+              <div className="grid grid-cols-[1fr_1fr_64px] gap-1">
+                <input
+                  value={rule.category ?? ""}
+                  onChange={(e) => updateRule(index, { category: e.target.value })}
+                  placeholder="카테고리"
+                  className={inputClass}
+                />
+                <input
+                  value={rule.displayName ?? ""}
+                  onChange={(e) => updateRule(index, { displayName: e.target.value })}
+                  placeholder="품명"
+                  className={inputClass}
+                />
+                <select
+                  value={rule.unit ?? ""}
+                  onChange={(e) => updateRule(index, { unit: e.target.value || undefined })}
+                  title="단위"
+                  className={inputClass}
+                >
+                  <option value="">단위</option>
+                  {MAPPING_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                </select>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={() => setRules([...activeProfile.rules, createMappingRule()])}
+            className={`w-full flex items-center justify-center gap-1 px-3 py-1.5 text-sm rounded ${theme.buttonBg} ${theme.textMuted}`}
+          >
+            <Plus className="w-4 h-4" />
+            규칙 추가
+          </button>
+          <p className={`text-xs ${theme.textSubtle}`}>
+            위에서부터 처음 맞는 규칙 하나만 적용됩니다. 조건은 대소문자를 구분하지 않고 * · ? 와일드카드를 쓸 수 있으며,
+            IFC 클래스 이름은 하위 클래스까지 포함합니다 (IfcWall → IfcWallStandardCase). 비운 칸은 기본 분류를 그대로 씁니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,157 @@
+"use client";
+
+import { memo } from "react";
+import { Layers, Download } from "lucide-react";
+import { formatLayerThickness, MATERIAL_LAYER_KIND_LABELS, MaterialLayerTakeoff } from "@/lib/ifc/materialTakeoff";
+import type { MaterialLayerScope } from "../hooks/useMaterialLayers";
+
+export interface MaterialLayerPanelProps {
+  hasModel: boolean;
+  takeoff: MaterialLayerTakeoff | null;
+  scope: MaterialLayerScope;
+  onScopeChange: (scope: MaterialLayerScope) => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+const SCOPE_LABELS: Record<MaterialLayerScope, string> = {
+  all: "전체 모델",
+  selection: "선택 요소",
+};
+
+/**
+ * 재료별 수량 (IfcMaterial 레이어·프로파일·구성 재료 단위 면적·체적·길이)
+ */
+export const MaterialLayerPanel = memo(function MaterialLayerPanel({
+  hasModel,
+  takeoff,
+  scope,
+  onScopeChange,
+  onExport,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: MaterialLayerPanelProps) {
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+    segmentActive: isDarkMode ? "bg-slate-600 text-white" : "bg-white text-slate-900 shadow-sm",
+    segment: isDarkMode ? "bg-slate-700" : "bg-slate-200",
+  };
+
+  // 행의 요소가 모두 선택되어 있으면 강조
+  const selectedSet = new Set(selectedExpressIDs);
+  const isRowSelected = (ids: number[]) => ids.length > 0 && ids.every(id => selectedSet.has(id));
+
+  const items = takeoff?.items ?? [];
+  const totalVolume = items.reduce((sum, item) => sum + item.volume, 0);
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <Layers className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>재료별 수량</h2>
+        </div>
+        <p className={`text-sm ${theme.textMuted}`}>
+          레이어 세트·프로파일 세트·구성 재료를 재료 하나씩 풀어 면적·체적·길이를 집계합니다
+        </p>
+
+        <div className={`flex mt-3 p-0.5 rounded ${theme.segment}`}>
+          {(Object.keys(SCOPE_LABELS) as MaterialLayerScope[]).map(value => (
+            <button
+              key={value}
+              onClick={() => onScopeChange(value)}
+              className={`flex-1 px-2 py-1 text-xs rounded ${scope === value ? theme.segmentActive : theme.textMuted}`}
+            >
+              {SCOPE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+
+        {takeoff && takeoff.incompleteModels.length > 0 && (
+          <p className="mt-2 text-xs text-amber-400">
+            {takeoff.incompleteModels.join(", ")}: 이전 캐시로 열어 재료 구성이 없어 제외했습니다 (캐시 삭제 후 원본을 다시 열면 집계)
+          </p>
+        )}
+        {takeoff && takeoff.withoutMaterial.length > 0 && (
+          <p className={`mt-2 flex items-center gap-1.5 text-xs ${theme.textMuted}`}>
+            재료가 없는 요소 {takeoff.withoutMaterial.length.toLocaleString()}개
+            <button
+              onClick={() => onSelectElements(takeoff.withoutMaterial)}
+              className={`px-1.5 py-0.5 rounded ${theme.buttonBg}`}
+            >
+              선택
+            </button>
+          </p>
+        )}
+      </div>
+
+      {hasModel && (
+        <>
+          {/* 요약 + 내보내기 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border} flex items-center gap-3 text-xs`}>
+            <span className={theme.textMuted}>재료 {items.length.toLocaleString()}행</span>
+            <span className={`tabular-nums ${theme.textMuted}`}>체적 {totalVolume.toFixed(2)}m³</span>
+            <div className="flex items-center gap-0.5 ml-auto">
+              {(["csv", "xlsx"] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  disabled={items.length === 0}
+                  title={`재료별 수량 ${format.toUpperCase()} 내보내기`}
+                  className={`flex items-center gap-0.5 px-1.5 py-1 rounded ${theme.textMuted} hover:text-blue-400 disabled:opacity-40`}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 재료 + 두께 행 (선택하면 해당 요소 선택) */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {items.length === 0 && (
+              <p className={`py-8 text-center text-sm ${theme.textMuted}`}>
+                {scope === "selection" && selectedExpressIDs.length === 0 ? "선택한 요소가 없습니다" : "재료가 연결된 요소가 없습니다"}
+              </p>
+            )}
+            {items.map(item => (
+              <button
+                key={item.id}
+                onClick={() => onSelectElements(item.expressIDs)}
+                title={item.setNames.join(", ") || undefined}
+                className={`w-full mb-0.5 px-2 py-1.5 rounded text-left ${isRowSelected(item.expressIDs) ? theme.selected : theme.itemHover}`}
+              >
+                <span className="flex items-center gap-1.5">
+                  <span className={`flex-1 min-w-0 text-sm truncate ${theme.text}`}>{item.material}</span>
+                  {item.thickness !== undefined && (
+                    <span className={`text-xs tabular-nums ${theme.textMuted}`}>{formatLayerThickness(item.thickness)}mm</span>
+                  )}
+                  <span className={`px-1 rounded text-[10px] ${theme.buttonBg} ${theme.textMuted}`}>{MATERIAL_LAYER_KIND_LABELS[item.kind]}</span>
+                </span>
+                <span className={`block text-xs tabular-nums truncate ${theme.textSubtle}`}>
+                  {[
+                    `${item.count.toLocaleString()}개`,
+                    item.area ? `면적 ${item.area.toFixed(2)}m²` : null,
+                    item.volume ? `체적 ${item.volume.toFixed(3)}m³` : null,
+                    item.length ? `길이 ${item.length.toFixed(2)}m` : null,
+                  ].filter(Boolean).join(" · ")}
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
@@ -1,8 +1,13 @@
 "use client";
 
 import { useState, useMemo, memo, useCallback, useEffect } from "react";
-import { ChevronDown, ChevronRight, Package, Search, Eye, EyeOff } from "lucide-react";
-import { MaterialItem, StoreyInfo } from "@/types/ifc";
+import { ChevronDown, ChevronRight, Package, Search, Eye, EyeOff, Loader2, Download } from "lucide-react";
+import { MaterialItem, QuantityTotals, StoreyInfo } from "@/types/ifc";
+import type { IFCPropertyData } from "@/lib/ifc/propertyDB";
+import { materialItemQuantity, subsetMaterialItem } from "@/lib/ifc/takeoff";
+import { materialsToCsv, exportMaterialsToXlsx } from "@/lib/export/materialExport";
+import { csvBlob } from "@/lib/export/csv";
+import { downloadBlob } from "@/lib/export/download";
 import { StoreyFilter } from "./StoreyFilter";
 
 export interface MaterialTableProps {
@@ -19,8 +24,28 @@ export interface MaterialTableProps {
   storeys?: StoreyInfo[];
   selectedStorey?: string | null;
   onSelectStorey?: (storeyId: string | null) => void;
+  loadElementRecords?: (expressIDs: number[]) => Promise<IFCPropertyData[]>; // 행 펼침 시 요소 목록 조회
+  getQuantityTotals?: (expressIDs: number[]) => QuantityTotals; // 필터된 요소의 수량 재집계
+  modelName?: string; // 내보내기 파일 이름
 }
 
+// 행 펼침 시 표시할 최대 요소 수
+const MAX_EXPANDED_ELEMENTS = 50;
+
+// 단위별 수량 표시 (개는 정수, 나머지는 소수 1자리)
+const formatQuantity = (value: number, unit: string) =>
+  unit === "개" ? `${Math.round(value)}${unit}` : `${value.toFixed(1)}${unit}`;
+
+// 여러 행의 단위별 합계 ("12.3m² · 4.0m · 5개")
+const summarizeByUnit = (items: MaterialItem[]): string => {
+  const sums = new Map<string, number>();
+  for (const item of items) {
+    const { value, unit } = materialItemQuantity(item);
+    sums.set(unit, (sums.get(unit) || 0) + value);
+  }
+  return Array.from(sums.entries()).map(([unit, value]) => formatQuantity(value, unit)).join(" · ");
+};
+
 export const MaterialTable = memo(function MaterialTable({ 
   materials, 
   selectedMaterialId,
@@ -34,12 +59,18 @@ export const MaterialTable = memo(function MaterialTable({
   onHideAll,
   storeys = [],
   selectedStorey = null,
-  onSelectStorey
+  onSelectStorey,
+  loadElementRecords,
+  getQuantityTotals,
+  modelName
 }: MaterialTableProps) {
-  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set(["구조", "건축", "기타"]));
+  const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set()); // 매핑 프로파일의 카테고리도 처음엔 펼침
   const [searchTerm, setSearchTerm] = useState("");
   const [tableHighlightId, setTableHighlightId] = useState<string | null>(null); // 테이블에서 클릭한 행 (3D 선택과 별개)
   const [tableInitiatedSelection, setTableInitiatedSelection] = useState(false); // 테이블에서 시작된 선택 (필터링 안 함)
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null); // 요소 목록을 펼친 행
+  const [expandedRecords, setExpandedRecords] = useState<IFCPropertyData[] | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
 
   // 3D에서 선택 변경 감지 (테이블에서 시작된 선택 리셋)
   useEffect(() => {
@@ -53,6 +84,12 @@ export const MaterialTable = memo(function MaterialTable({
     }
   }, [selectedExpressIDs.length, selectedMaterialId]);
 
+  // 일부 요소만 남긴 자재 행 (요소별 수량으로 재집계)
+  const subsetMaterial = useCallback(
+    (m: MaterialItem, ids: number[]) => subsetMaterialItem(m, ids, getQuantityTotals),
+    [getQuantityTotals]
+  );
+
   // 선택된 층의 expressIDs
   const storeyExpressIDs = useMemo(() => {
     if (!selectedStorey) return null;
@@ -72,14 +109,10 @@ export const MaterialTable = memo(function MaterialTable({
         // 해당 층에 포함된 expressIDs만 필터링
         const filteredIDs = m.expressIDs.filter(id => storeyExpressIDs.has(id));
         if (filteredIDs.length === 0) return null;
-        return {
-          ...m,
-          expressIDs: filteredIDs,
-          count: filteredIDs.length,
-        } as MaterialItem;
+        return subsetMaterial(m, filteredIDs);
       })
       .filter((m): m is MaterialItem => m !== null);
-  }, [materials, storeyExpressIDs]);
+  }, [materials, storeyExpressIDs, subsetMaterial]);
 
   // 3D 선택된 요소 필터링 (3D에서 요소 선택 시 해당 자재만 표시)
   // 테이블에서 시작된 선택인 경우 필터링 안 함
@@ -91,16 +124,11 @@ export const MaterialTable = memo(function MaterialTable({
         // 선택된 expressIDs만 필터링
         const filteredIDs = m.expressIDs.filter(id => selectedIDsSet.has(id));
         if (filteredIDs.length === 0) return null;
-        return {
-          ...m,
-          expressIDs: filteredIDs,
-          count: filteredIDs.length,
-          // 면적도 선택된 요소 기준으로 재계산
-          totalArea: m.totalArea ? (m.totalArea * filteredIDs.length / m.expressIDs.length) : undefined,
-        } as MaterialItem;
+        // 수량도 선택된 요소 기준으로 재계산
+        return subsetMaterial(m, filteredIDs);
       })
       .filter((m): m is MaterialItem => m !== null);
-  }, [storeyFilteredMaterials, selectedExpressIDs, selectedIDsSet, tableInitiatedSelection]);
+  }, [storeyFilteredMaterials, selectedExpressIDs, selectedIDsSet, tableInitiatedSelection, subsetMaterial]);
 
   // 검색 + 카테고리 그룹화
   const groupedMaterials = useMemo(() => {
@@ -118,7 +146,7 @@ export const MaterialTable = memo(function MaterialTable({
   }, [filteredMaterials, searchTerm]);
 
   const toggleCategory = useCallback((category: string) => {
-    setExpandedCategories(prev => {
+    setCollapsedCategories(prev => {
       const next = new Set(prev);
       if (next.has(category)) next.delete(category);
       else next.add(category);
@@ -126,11 +154,58 @@ export const MaterialTable = memo(function MaterialTable({
     });
   }, []);
 
+  // 행 펼침/접기 (요소 이름·GlobalId는 속성 DB에서 필요할 때만 조회)
+  const toggleItemElements = useCallback(async (item: MaterialItem) => {
+    if (!loadElementRecords) return;
+    if (expandedItemId === item.id) {
+      setExpandedItemId(null);
+      setExpandedRecords(null);
+      return;
+    }
+    setExpandedItemId(item.id);
+    setExpandedRecords(null);
+    try {
+      const records = await loadElementRecords(item.expressIDs.slice(0, MAX_EXPANDED_ELEMENTS));
+      setExpandedRecords(records);
+    } catch {
+      setExpandedRecords([]);
+    }
+  }, [loadElementRecords, expandedItemId]);
+
+  // 내보내기 (화면과 같은 층 필터·검색·숨김 적용)
+  const handleExport = useCallback((format: "xlsx" | "csv") => {
+    setShowExportMenu(false);
+    const rows = Array.from(groupedMaterials.values()).flat().filter(m => !hiddenMaterialIds.has(m.id));
+    const storey = storeys.find(s => s.id === selectedStorey);
+    const filterLabel = [
+      storey ? `층: ${storey.name}` : null,
+      searchTerm ? `검색: ${searchTerm}` : null,
+      hiddenMaterialIds.size > 0 ? `숨김 ${hiddenMaterialIds.size}종 제외` : null,
+      selectedExpressIDs.length > 0 && !tableInitiatedSelection ? `선택 요소 ${selectedExpressIDs.length}개` : null,
+    ].filter(Boolean).join(" / ");
+
+    const input = {
+      materials: rows,
+      storeys: storey ? [storey] : storeys,
+      getQuantityTotals,
+      modelName,
+      filterLabel: filterLabel || undefined,
+    };
+    const baseName = (modelName || "model").replace(/\.[^.]+$/, "");
+    if (format === "xlsx") {
+      downloadBlob(exportMaterialsToXlsx(input), `${baseName}_수량.xlsx`);
+    } else {
+      downloadBlob(csvBlob(materialsToCsv(input)), `${baseName}_수량.csv`);
+    }
+  }, [groupedMaterials, hiddenMaterialIds, storeys, selectedStorey, searchTerm, selectedExpressIDs.length, tableInitiatedSelection, getQuantityTotals, modelName]);
+
   const totalArea = useMemo(() => filteredMaterials.reduce((sum, m) => sum + (m.totalArea || 0), 0), [filteredMaterials]);
   const visibleArea = useMemo(() => 
     filteredMaterials.filter(m => !hiddenMaterialIds.has(m.id)).reduce((sum, m) => sum + (m.totalArea || 0), 0), 
     [filteredMaterials, hiddenMaterialIds]
   );
+  const totalVolume = useMemo(() => filteredMaterials.reduce((sum, m) => sum + (m.totalVolume || 0), 0), [filteredMaterials]);
+  const totalLength = useMemo(() => filteredMaterials.reduce((sum, m) => sum + (m.totalLength || 0), 0), [filteredMaterials]);
 
   const theme = {
     bg: isDarkMode ? "bg-slate-800" : "bg-white",
@@ -169,6 +244,21 @@ export const MaterialTable = memo(function MaterialTable({
           </div>
           {filteredMaterials.length > 0 && (
             <div className="flex gap-1">
+              <div className="relative">
+                <button onClick={() => setShowExportMenu(!showExportMenu)} title="내보내기" className={`p-1.5 rounded ${theme.buttonBg}`}>
+                  <Download className={`w-4 h-4 ${theme.textMuted}`} />
+                </button>
+                {showExportMenu && (
+                  <div className={`absolute right-0 top-full mt-1 z-20 w-32 rounded-lg border shadow-lg overflow-hidden ${theme.bg} ${theme.border}`}>
+                    <button onClick={() => handleExport("xlsx")} className={`w-full px-3 py-2 text-left text-sm ${theme.itemText} ${theme.itemHover}`}>
+                      Excel (.xlsx)
+                    </button>
+                    <button onClick={() => handleExport("csv")} className={`w-full px-3 py-2 text-left text-sm ${theme.itemText} ${theme.itemHover}`}>
+                      CSV (.csv)
+                    </button>
+                  </div>
+                )}
+              </div>
               <button onClick={onShowAll} title="전체 표시" className={`p-1.5 rounded ${theme.buttonBg}`}>
                 <Eye className={`w-4 h-4 ${theme.textMuted}`} />
               </button>
@@ -205,7 +295,7 @@ export const MaterialTable = memo(function MaterialTable({
         <div></div>
         <div>품명</div>
         <div className="text-center">규격</div>
-        <div className="text-right">면적/수량</div>
+        <div className="text-right">수량</div>
       </div>
 
       {/* 본문 */}
@@ -238,28 +328,32 @@ export const MaterialTable = memo(function MaterialTable({
                   onClick={() => toggleCategory(category)}
                   className={`w-full flex items-center gap-2 px-3 py-2 ${theme.categoryBg} transition-colors sticky top-0`}
                 >
-                  {expandedCategories.has(category) ? (
+                  {!collapsedCategories.has(category) ? (
                     <ChevronDown className={`w-4 h-4 ${theme.textMuted}`} />
                   ) : (
                     <ChevronRight className={`w-4 h-4 ${theme.textMuted}`} />
                   )}
                   <span className={`font-medium text-sm ${theme.text}`}>{category}</span>
                   <span className={`text-xs ml-auto ${theme.textSubtle}`}>
-                    {items.length}종 / {items.reduce((s, i) => s + (i.totalArea || 0), 0).toFixed(1)}m²
+                    {items.length}종 / {summarizeByUnit(items)}
                   </span>
                 </button>
 
-                {expandedCategories.has(category) && items.map((item) => {
+                {!collapsedCategories.has(category) && items.map((item) => {
                   const isHidden = hiddenMaterialIds.has(item.id);
                   const isTableHighlighted = tableHighlightId === item.id; // 테이블에서 클릭한 행 (초록색)
                   const isBlueSelected = selectedMaterialId === item.id; // 기존 파란색 선택
+                  const isExpanded = expandedItemId === item.id;
 
-                  // 면적 표시 (m²) 또는 수량
-                  const areaValue = item.totalArea || 0;
-                  const hasArea = areaValue > 0.01; // 0.01m² 이상만 면적 표시
-                  const displayValue = hasArea 
-                    ? `${areaValue.toFixed(1)}m²`
-                    : `${item.count}개`;
+                  // 집계 단위 기준 수량 (툴팁에 면적/체적/길이 전체 표시)
+                  const itemQuantity = materialItemQuantity(item);
+                  const displayValue = formatQuantity(itemQuantity.value, itemQuantity.unit);
+                  const quantityTitle = [
+                    `${item.count}개`,
+                    item.totalArea ? `면적 ${item.totalArea.toFixed(2)}m²` : null,
+                    item.totalVolume ? `체적 ${item.totalVolume.toFixed(3)}m³` : null,
+                    item.totalLength ? `길이 ${item.totalLength.toFixed(2)}m` : null,
+                  ].filter(Boolean).join(" / ");
 
                   // 스타일 결정: 테이블 클릭(초록) > 기존 선택(파랑)
                   let rowStyle = "border-l-2 border-transparent";
@@ -298,8 +392,8 @@ export const MaterialTable = memo(function MaterialTable({
                   };
 
                   return (
+                    <div key={item.id}>
                     <div
-                      key={item.id}
                       onClick={handleRowClick}
                       className={`grid grid-cols-[28px_1fr_80px_70px] gap-1 px-3 py-2 items-center cursor-pointer ${theme.itemHover}
                         ${rowStyle}
@@ -311,16 +405,54 @@ export const MaterialTable = memo(function MaterialTable({
                       >
                         {isHidden ? <EyeOff className="w-3.5 h-3.5 text-slate-500" /> : <Eye className="w-3.5 h-3.5 text-blue-500" />}
                       </button>
-                      <div className={`text-sm truncate ${textColor}`}>
-                        {item.typeName}
+                      <div className={`flex items-center gap-1 text-sm min-w-0 ${textColor}`}>
+                        {loadElementRecords && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); toggleItemElements(item); }}
+                            title="요소 목록"
+                            className="flex-shrink-0"
+                          >
+                            {isExpanded ? (
+                              <ChevronDown className={`w-3.5 h-3.5 ${theme.textMuted}`} />
+                            ) : (
+                              <ChevronRight className={`w-3.5 h-3.5 ${theme.textMuted}`} />
+                            )}
+                          </button>
+                        )}
+                        <span className="truncate">{item.typeName}</span>
                       </div>
                       <div className={`text-xs text-center ${theme.textSubtle} truncate`} title={item.spec}>
                         {item.spec}
                       </div>
-                      <div className={`text-xs text-right font-medium tabular-nums ${valueColor}`}>
+                      <div className={`text-xs text-right font-medium tabular-nums ${valueColor}`} title={quantityTitle}>
                         {displayValue}
                       </div>
                     </div>
+
+                    {/* 요소 목록 (이름 / GlobalId) */}
+                    {isExpanded && (
+                      <div className={`pl-10 pr-3 pb-2 text-xs ${theme.textMuted}`}>
+                        {!expandedRecords ? (
+                          <div className="flex items-center gap-1.5 py-1">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            <span>불러오는 중...</span>
+                          </div>
+                        ) : (
+                          <>
+                            {expandedRecords.map(record => (
+                              <div key={record.expressID} className="flex justify-between gap-2 py-0.5">
+                                <span className={`truncate ${theme.itemText}`}>{record.name || `#${record.expressID}`}</span>
+                                <span className={`font-mono flex-shrink-0 ${theme.textSubtle}`}>{record.globalId || "-"}</span>
+                              </div>
+                            ))}
+                            {item.count > MAX_EXPANDED_ELEMENTS && (
+                              <div className={`py-0.5 ${theme.textSubtle}`}>외 {item.count - MAX_EXPANDED_ELEMENTS}개</div>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                    </div>
                   );
                 })}
               </div>
@@ -340,6 +472,18 @@ export const MaterialTable = memo(function MaterialTable({
             <span className={theme.textMuted}>총 면적</span>
             <span className={`font-medium tabular-nums ${theme.text}`}>{visibleArea.toFixed(1)} / {totalArea.toFixed(1)}m²</span>
           </div>
+          {totalVolume > 0 && (
+            <div className="flex justify-between text-sm mt-1">
+              <span className={theme.textMuted}>총 체적</span>
+              <span className={`font-medium tabular-nums ${theme.text}`}>{totalVolume.toFixed(2)}m³</span>
+            </div>
+          )}
+          {totalLength > 0 && (
+            <div className="flex justify-between text-sm mt-1">
+              <span className={theme.textMuted}>총 길이</span>
+              <span className={`font-medium tabular-nums ${theme.text}`}>{totalLength.toFixed(1)}m</span>
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useMemo, memo } from "react";
+import { GitCompareArrows, ArrowLeftRight, Eye, EyeOff, Loader2, X } from "lucide-react";
+import { FederatedModel } from "@/types/ifc";
+import { MODEL_DIFF_STATUSES, ModelDiff, ModelDiffEntry, ModelDiffStatus } from "@/lib/ifc/modelDiff";
+import { DIFF_COLORS } from "../scene/materials";
+
+export interface ModelDiffPanelProps {
+  models: FederatedModel[];
+  baseSlot: number | null;
+  revisedSlot: number | null;
+  onSetSlots: (base: number, revised: number) => void;
+  diff: ModelDiff | null;
+  comparedModels: { base: FederatedModel; revised: FederatedModel } | null;
+  isComparing: boolean;
+  error: string | null;
+  onCompare: () => void;
+  onClear: () => void;
+  showInScene: boolean;
+  onToggleShowInScene: () => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+const DIFF_STATUS_LABELS: Record<ModelDiffStatus, string> = {
+  added: "추가",
+  removed: "삭제",
+  geometry: "형상 변경",
+  properties: "속성 변경",
+};
+
+// 변경 요소 목록 최대 표시 수
+const MAX_LISTED_ENTRIES = 200;
+
+const cssColor = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+// 증감 수량 (개는 정수, 나머지는 소수 1자리, 부호 포함)
+const formatDelta = (value: number, unit: string) => {
+  const text = unit === "개" ? `${Math.round(value)}` : value.toFixed(1);
+  return `${value > 0 ? "+" : ""}${text}${unit}`;
+};
+
+/**
+ * 버전 비교 (이전/개정 모델의 추가·삭제·변경 요소와 수량 증감)
+ */
+export const ModelDiffPanel = memo(function ModelDiffPanel({
+  models,
+  baseSlot,
+  revisedSlot,
+  onSetSlots,
+  diff,
+  comparedModels,
+  isComparing,
+  error,
+  onCompare,
+  onClear,
+  showInScene,
+  onToggleShowInScene,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: ModelDiffPanelProps) {
+  const [statusFilter, setStatusFilter] = useState<ModelDiffStatus | null>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode ? "bg-slate-700 border-slate-600 text-white" : "bg-slate-100 border-slate-300 text-slate-900",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+    sectionTitle: isDarkMode ? "text-slate-300" : "text-slate-600",
+  };
+
+  const selectedSet = useMemo(() => new Set(selectedExpressIDs), [selectedExpressIDs]);
+
+  const filteredEntries = useMemo(
+    () => (diff ? diff.entries.filter(entry => !statusFilter || entry.status === statusFilter) : []),
+    [diff, statusFilter]
+  );
+
+  const selectEntries = (entries: ModelDiffEntry[]) => onSelectElements(entries.map(entry => entry.key));
+
+  const canCompare = baseSlot !== null && revisedSlot !== null && baseSlot !== revisedSlot && !isComparing;
+
+  const modelSelect = (label: string, value: number | null, onChange: (slot: number) => void) => (
+    <label className={`flex-1 min-w-0 text-xs ${theme.textSubtle}`}>
+      {label}
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={`w-full mt-0.5 px-2 py-1 text-sm rounded border truncate ${theme.input}`}
+      >
+        {models.map(model => (
+          <option key={model.slot} value={model.slot}>{model.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <GitCompareArrows className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>버전 비교</h2>
+        </div>
+
+        {models.length < 2 ? (
+          <p className={`text-sm ${theme.textMuted}`}>
+            비교하려면 모델 목록의 추가 버튼으로 이전·개정 IFC를 함께 불러오세요
+          </p>
+        ) : (
+          <>
+            <div className="flex items-end gap-1.5">
+              {modelSelect("이전", baseSlot, slot => revisedSlot !== null && onSetSlots(slot, revisedSlot))}
+              <button
+                onClick={() => baseSlot !== null && revisedSlot !== null && onSetSlots(revisedSlot, baseSlot)}
+                title="이전/개정 바꾸기"
+                className={`p-1.5 mb-0.5 rounded ${theme.buttonBg} ${theme.textMuted}`}
+              >
+                <ArrowLeftRight className="w-3.5 h-3.5" />
+              </button>
+              {modelSelect("개정", revisedSlot, slot => baseSlot !== null && onSetSlots(baseSlot, slot))}
+            </div>
+            <button
+              onClick={onCompare}
+              disabled={!canCompare}
+              className="w-full mt-2 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-40"
+            >
+              {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompareArrows className="w-4 h-4" />}
+              {isComparing ? "비교 중..." : "비교"}
+            </button>
+          </>
+        )}
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+
+      {diff && comparedModels && (
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {/* 요약 + 색상 범례 (누르면 목록 필터) */}
+          <div className={`p-4 border-b ${theme.border}`}>
+            <div className="flex items-center justify-between mb-2">
+              <p className={`text-xs truncate ${theme.textMuted}`} title={`${comparedModels.base.name} → ${comparedModels.revised.name}`}>
+                {comparedModels.base.name} → {comparedModels.revised.name}
+              </p>
+              <div className="flex items-center gap-0.5 flex-shrink-0">
+                <button
+                  onClick={onToggleShowInScene}
+                  title={showInScene ? "3D 비교 색상 끄기" : "3D 비교 색상 켜기"}
+                  className={`p-1 rounded ${showInScene ? "text-blue-400" : theme.textSubtle}`}
+                >
+                  {showInScene ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+                <button onClick={onClear} title="비교 결과 지우기" className={`p-1 rounded ${theme.textMuted} hover:text-red-400`}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">
+              {MODEL_DIFF_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(statusFilter === status ? null : status)}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded text-sm border ${
+                    statusFilter === status ? "border-blue-500" : theme.border
+                  } ${theme.itemHover}`}
+                >
+                  <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: cssColor(DIFF_COLORS[status]) }} />
+                  <span className={`flex-1 text-left ${theme.textMuted}`}>{DIFF_STATUS_LABELS[status]}</span>
+                  <span className={`font-medium tabular-nums ${theme.text}`}>{diff.counts[status].toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+            <p className={`mt-2 text-xs ${theme.textSubtle}`}>변경 없음 {diff.unchanged.toLocaleString()}개</p>
+          </div>
+
+          {/* 카테고리별 건수 (행을 누르면 해당 요소 선택) */}
+          {diff.categories.length > 0 && (
+            <div className={`p-4 border-b ${theme.border}`}>
+              <h3 className={`text-xs font-semibold mb-2 ${theme.sectionTitle}`}>카테고리별</h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className={theme.textSubtle}>
+                    <th className="text-left font-normal pb-1">카테고리</th>
+                    {MODEL_DIFF_STATUSES.map(status => (
+                      <th key={status} className="text-right font-normal pb-1" title={DIFF_STATUS_LABELS[status]}>
+                        <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: cssColor(DIFF_COLORS[status]) }} />
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.categories.map(({ category, counts }) => (
+                    <tr
+                      key={category}
+                      onClick={() => selectEntries(filteredEntries.filter(entry => entry.category === category))}
+                      className={`cursor-pointer ${theme.itemHover}`}
+                    >
+                      <td className={`py-0.5 ${theme.text}`}>{category}</td>
+                      {MODEL_DIFF_STATUSES.map(status => (
+                        <td key={status} className={`py-0.5 text-right tabular-nums ${counts[status] ? theme.text : theme.textSubtle}`}>
+                          {counts[status] || "-"}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* 수량 증감 (수량검토 탭의 행 기준) */}
+          <div className={`p-4 border-b ${theme.border}`}>
+            <h3 className={`text-xs font-semibold mb-2 ${theme.sectionTitle}`}>수량 증감</h3>
+            {diff.quantities.length === 0 ? (
+              <p className={`text-xs ${theme.textSubtle}`}>수량 변화 없음</p>
+            ) : (
+              <div className="space-y-1">
+                {diff.quantities.map(row => (
+                  <div key={row.id} className="flex items-center gap-2 text-xs">
+                    <div className="flex-1 min-w-0">
+                      <p className={`truncate ${theme.text}`} title={`${row.typeName} ${row.spec}`}>
+                        {row.typeName} <span className={theme.textSubtle}>{row.spec}</span>
+                      </p>
+                      <p className={theme.textSubtle}>
+                        {row.baseCount} → {row.revisedCount}개
+                      </p>
+                    </div>
+                    <span className={`font-medium tabular-nums ${row.delta > 0 ? "text-green-400" : row.delta < 0 ? "text-red-400" : theme.textMuted}`}>
+                      {formatDelta(row.delta, row.unit)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 변경 요소 목록 */}
+          <div className="p-4">
+            <h3 className={`text-xs font-semibold mb-2 ${theme.sectionTitle}`}>
+              변경 요소 {statusFilter ? `· ${DIFF_STATUS_LABELS[statusFilter]}` : ""} ({filteredEntries.length.toLocaleString()})
+            </h3>
+            <div className="space-y-0.5">
+              {filteredEntries.slice(0, MAX_LISTED_ENTRIES).map(entry => (
+                <button
+                  key={`${entry.status}_${entry.globalId}`}
+                  onClick={() => onSelectElements([entry.key])}
+                  title={entry.changedProperties?.length ? `바뀐 속성: ${entry.changedProperties.join(", ")}` : entry.globalId}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs ${
+                    selectedSet.has(entry.key) ? theme.selected : theme.itemHover
+                  }`}
+                >
+                  <span className="w-2 h-2 rounded-sm flex-shrink-0" style={{ backgroundColor: cssColor(DIFF_COLORS[entry.status]) }} />
+                  <span className={`flex-1 min-w-0 truncate ${theme.text}`}>{entry.name || entry.globalId}</span>
+                  <span className={`flex-shrink-0 ${theme.textSubtle}`}>{entry.category}</span>
+                </button>
+              ))}
+              {filteredEntries.length > MAX_LISTED_ENTRIES && (
+                <p className={`px-2 pt-1 text-xs ${theme.textSubtle}`}>
+                  외 {(filteredEntries.length - MAX_LISTED_ENTRIES).toLocaleString()}개 (카테고리를 눌러 한꺼번에 선택)
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useRef, useCallback, memo } from "react";
+import { Boxes, Plus, Eye, EyeOff, Move3d, X } from "lucide-react";
+import { FederatedModel } from "@/types/ifc";
+
+export interface ModelListProps {
+  models: FederatedModel[];
+  onAddModel: (file: File) => void;
+  onRemoveModel: (slot: number) => void;
+  onSetVisible: (slot: number, visible: boolean) => void;
+  onSetOpacity: (slot: number, opacity: number) => void;
+  onSetAlignment: (slot: number, alignment: Pick<FederatedModel, "offset" | "rotation">) => void;
+  isDarkMode?: boolean;
+}
+
+const AXES = ["X", "Y", "Z"] as const;
+
+/**
+ * 통합 모델 목록 (건축/구조/MEP 등 여러 IFC를 함께 검토)
+ */
+export const ModelList = memo(function ModelList({
+  models,
+  onAddModel,
+  onRemoveModel,
+  onSetVisible,
+  onSetOpacity,
+  onSetAlignment,
+  isDarkMode = true,
+}: ModelListProps) {
+  const [alignSlot, setAlignSlot] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode ? "bg-slate-700 border-slate-600 text-white" : "bg-slate-100 border-slate-300 text-slate-900",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+  };
+
+  const handleFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) onAddModel(file);
+  }, [onAddModel]);
+
+  if (models.length === 0) return null;
+
+  return (
+    <div className={`flex-shrink-0 border-b ${theme.border}`}>
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <div className="flex items-center gap-2">
+          <Boxes className="w-4 h-4 text-blue-500" />
+          <span className={`text-sm font-semibold ${theme.text}`}>모델 {models.length}</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="모델 추가 (통합)"
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded ${theme.buttonBg} ${theme.textMuted}`}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          추가
+        </button>
+        <input ref={fileInputRef} type="file" accept=".ifc" onChange={handleFile} className="hidden" />
+      </div>
+
+      <div className="max-h-56 overflow-y-auto pb-2">
+        {models.map(model => {
+          const isAligning = alignSlot === model.slot;
+          return (
+            <div key={`${model.slot}_${model.modelId}`} className={`group px-4 py-1.5 ${theme.itemHover}`}>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onSetVisible(model.slot, !model.visible)}
+                  title={model.visible ? "숨기기" : "보이기"}
+                  className={`p-0.5 rounded ${model.visible ? "text-blue-400" : theme.textSubtle}`}
+                >
+                  {model.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm truncate ${model.visible ? theme.text : theme.textSubtle}`} title={model.name}>
+                    {model.name}
+                  </p>
+                  <p className={`text-xs ${theme.textSubtle}`}>{model.elementCount.toLocaleString()}개 요소</p>
+                </div>
+                <button
+                  onClick={() => setAlignSlot(isAligning ? null : model.slot)}
+                  title="위치 정렬"
+                  className={`p-1 rounded ${isAligning ? "text-blue-400" : theme.textMuted}`}
+                >
+                  <Move3d className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onRemoveModel(model.slot)}
+                  title="모델 제거"
+                  className={`p-1 rounded opacity-0 group-hover:opacity-100 ${theme.textMuted} hover:text-red-400`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              {/* 투명도 */}
+              <div className="flex items-center gap-2 pl-7 mt-1">
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(model.opacity * 100)}
+                  onChange={(e) => onSetOpacity(model.slot, Number(e.target.value) / 100)}
+                  disabled={!model.visible}
+                  title="투명도"
+                  className="flex-1 h-1 accent-blue-500 disabled:opacity-40"
+                />
+                <span className={`w-9 text-right text-xs tabular-nums ${theme.textMuted}`}>{Math.round(model.opacity * 100)}%</span>
+              </div>
+
+              {/* 정렬 (IFC 좌표 - Z가 수직) */}
+              {isAligning && (
+                <div className="grid grid-cols-4 gap-1 pl-7 mt-1.5">
+                  {AXES.map((axis, i) => (
+                    <label key={axis} className={`text-[10px] ${theme.textSubtle}`}>
+                      {axis} (m)
+                      <input
+                        type="number"
+                        step={0.1}
+                        value={model.offset[i]}
+                        onChange={(e) => {
+                          const offset = [...model.offset] as FederatedModel["offset"];
+                          offset[i] = Number(e.target.value) || 0;
+                          onSetAlignment(model.slot, { offset, rotation: model.rotation });
+                        }}
+                        className={`w-full px-1 py-0.5 text-xs rounded border ${theme.input}`}
+                      />
+                    </label>
+                  ))}
+                  <label className={`text-[10px] ${theme.textSubtle}`}>
+                    회전 (°)
+                    <input
+                      type="number"
+                      step={1}
+                      value={model.rotation}
+                      onChange={(e) => onSetAlignment(model.slot, { offset: model.offset, rotation: Number(e.target.value) || 0 })}
+                      className={`w-full px-1 py-0.5 text-xs rounded border ${theme.input}`}
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, memo } from "react";
+import { DoorOpen, Download, ChevronRight } from "lucide-react";
+import {
+  OPENING_HOST_LABELS,
+  OPENING_SKIP_LABELS,
+  OpeningDeductionResult,
+  OpeningDeductionSettings,
+  openingElementLabel,
+} from "@/lib/ifc/openings";
+
+export interface OpeningPanelProps {
+  hasModel: boolean;
+  settings: OpeningDeductionSettings;
+  result: OpeningDeductionResult | null;
+  incompleteModels: string[];
+  onUpdateSettings: (patch: Partial<OpeningDeductionSettings>) => void;
+  onExport: (format: "csv" | "xlsx") => void;
+  selectedExpressIDs: number[];
+  onSelectElements: (expressIDs: number[]) => void;
+  isDarkMode?: boolean;
+}
+
+// 자재 행별 요소 최대 표시 수
+const MAX_LISTED_HOSTS = 200;
+
+const formatArea = (value: number) => `${value.toFixed(2)}m²`;
+
+/**
+ * 개구부 공제 (벽·슬래브 총면적 / 공제 / 순면적, 요소별로 뺀 문·창)
+ */
+export const OpeningPanel = memo(function OpeningPanel({
+  hasModel,
+  settings,
+  result,
+  incompleteModels,
+  onUpdateSettings,
+  onExport,
+  selectedExpressIDs,
+  onSelectElements,
+  isDarkMode = true,
+}: OpeningPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode
+      ? "bg-slate-700 border-slate-600 text-white"
+      : "bg-slate-100 border-slate-300 text-slate-900",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    selected: isDarkMode ? "bg-blue-500/20" : "bg-blue-50",
+  };
+
+  const selectedSet = new Set(selectedExpressIDs);
+  const toggles: { key: "deductWalls" | "deductSlabs" | "deductEmpty"; label: string }[] = [
+    { key: "deductWalls", label: "벽" },
+    { key: "deductSlabs", label: "슬래브" },
+    { key: "deductEmpty", label: "문·창 없는 개구부" },
+  ];
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 + 공제 규칙 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center gap-2 mb-3">
+          <DoorOpen className="w-5 h-5 text-blue-500" />
+          <h2 className={`font-semibold text-lg ${theme.text}`}>개구부 공제</h2>
+        </div>
+        <p className={`text-sm ${theme.textMuted}`}>
+          벽·슬래브의 개구부(IfcRelVoidsElement)와 문·창(IfcRelFillsElement)으로 총면적과 순면적을 계산합니다
+        </p>
+
+        <div className="mt-3 space-y-1.5 text-xs">
+          <label className={`flex items-center gap-2 ${theme.textMuted}`}>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={settings.minArea}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value) && value >= 0) onUpdateSettings({ minArea: value });
+              }}
+              className={`w-16 px-1.5 py-1 border rounded text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 ${theme.input}`}
+            />
+            m² 이하 개구부는 공제하지 않음
+          </label>
+          <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 ${theme.textMuted}`}>
+            <span>공제 대상</span>
+            {toggles.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-1">
+                <input type="checkbox" checked={settings[key]} onChange={(e) => onUpdateSettings({ [key]: e.target.checked })} />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {incompleteModels.length > 0 && (
+          <p className="mt-2 text-xs text-amber-400">
+            {incompleteModels.join(", ")}: 이전 캐시로 열어 개구부 정보가 없어 제외했습니다 (캐시 삭제 후 원본을 다시 열면 계산)
+          </p>
+        )}
+        {result && result.unknownSizeCount > 0 && (
+          <p className={`mt-2 text-xs ${theme.textMuted}`}>
+            크기를 알 수 없는 개구부 {result.unknownSizeCount.toLocaleString()}개는 공제하지 않았습니다 (문·창 크기, 개구부 Qto 없음)
+          </p>
+        )}
+      </div>
+
+      {hasModel && result && (
+        <>
+          {/* 합계 + 내보내기 */}
+          <div className={`flex-shrink-0 px-4 py-2 border-b ${theme.border} flex items-center gap-3 text-xs tabular-nums`}>
+            <span className={theme.textMuted}>총 {formatArea(result.grossArea)}</span>
+            <span className="text-amber-500">공제 {formatArea(result.deductedArea)}</span>
+            <span className={theme.text}>순 {formatArea(result.netArea)}</span>
+            <div className="flex items-center gap-0.5 ml-auto">
+              {(["csv", "xlsx"] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => onExport(format)}
+                  disabled={result.groups.length === 0}
+                  title={`개구부 공제 ${format.toUpperCase()} 내보내기`}
+                  className={`flex items-center gap-0.5 px-1.5 py-1 rounded ${theme.textMuted} hover:text-blue-400 disabled:opacity-40`}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 자재 행별 결과 (펼치면 개구부가 있는 요소와 뺀 문·창) */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {result.groups.length === 0 && (
+              <p className={`py-8 text-center text-sm ${theme.textMuted}`}>벽·슬래브가 없습니다</p>
+            )}
+            {result.groups.map(group => {
+              const isExpanded = expanded === group.materialId;
+              const withOpenings = group.hosts.filter(host => host.openings.length > 0);
+              return (
+                <div key={group.materialId} className="mb-1">
+                  <div className={`flex items-center gap-2 px-2 py-1.5 rounded ${theme.itemHover}`}>
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : group.materialId)}
+                      disabled={withOpenings.length === 0}
+                      className={`${theme.textMuted} disabled:opacity-30`}
+                      title="개구부가 있는 요소"
+                    >
+                      <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isExpanded ? "rotate-90" : ""}`} />
+                    </button>
+                    <button onClick={() => setExpanded(isExpanded ? null : group.materialId)} className="flex-1 min-w-0 text-left">
+                      <span className={`block text-sm truncate ${theme.text}`}>
+                        {group.typeName} <span className={theme.textSubtle}>{group.spec}</span>
+                      </span>
+                      <span className={`block text-xs tabular-nums truncate ${theme.textSubtle}`}>
+                        총 {formatArea(group.grossArea)} − {formatArea(group.deductedArea)} = {formatArea(group.netArea)}
+                        {group.openingCount > 0 && ` · 개구부 ${group.deductedCount}/${group.openingCount}`}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => onSelectElements(group.hosts.map(host => host.key))}
+                      title="요소 모두 선택"
+                      className={`px-1.5 py-0.5 text-xs rounded ${theme.buttonBg} ${theme.textMuted}`}
+                    >
+                      선택
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="pl-7 pr-1 pb-2 space-y-1">
+                      {withOpenings.slice(0, MAX_LISTED_HOSTS).map(host => (
+                        <div key={host.key}>
+                          <button
+                            onClick={() => onSelectElements([host.key])}
+                            className={`w-full px-2 py-1 rounded text-left text-xs ${selectedSet.has(host.key) ? theme.selected : theme.itemHover}`}
+                          >
+                            <span className={`block truncate ${theme.text}`}>
+                              {openingElementLabel(host.key, host.typeCode, host.name)}
+                              <span className={theme.textSubtle}> {OPENING_HOST_LABELS[host.kind]}</span>
+                            </span>
+                            <span className={`block tabular-nums truncate ${theme.textSubtle}`}>
+                              {formatArea(host.grossArea)}{host.grossSource === "qto" ? " (Qto)" : ""} − {formatArea(host.deductedArea)} = {formatArea(host.netArea)}
+                            </span>
+                          </button>
+                          {host.openings.map(opening => {
+                            const target = opening.filling?.expressID ?? host.key;
+                            return (
+                              <button
+                                key={opening.openingId}
+                                onClick={() => onSelectElements([target])}
+                                className={`w-full flex items-center gap-2 pl-5 pr-2 py-0.5 rounded text-left text-xs ${selectedSet.has(target) ? theme.selected : theme.itemHover}`}
+                              >
+                                <span className={`flex-1 min-w-0 truncate ${opening.deducted ? theme.text : theme.textSubtle}`}>
+                                  {opening.filling
+                                    ? openingElementLabel(opening.filling.expressID, opening.filling.typeCode, opening.filling.name)
+                                    : "빈 개구부"}
+                                  {opening.width !== undefined && opening.height !== undefined && (
+                                    <span className={theme.textSubtle}> {opening.width.toFixed(2)}×{opening.height.toFixed(2)}</span>
+                                  )}
+                                </span>
+                                <span className={`tabular-nums ${theme.textMuted}`}>{opening.area ? formatArea(opening.area) : "-"}</span>
+                                <span className={`w-20 text-right truncate ${opening.deducted ? "text-amber-500" : theme.textSubtle}`}>
+                                  {opening.deducted ? "공제" : opening.skipReason && OPENING_SKIP_LABELS[opening.skipReason]}
+                                </span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      ))}
+                      {withOpenings.length > MAX_LISTED_HOSTS && (
+                        <p className={`px-2 pt-1 text-xs ${theme.textSubtle}`}>
+                          외 {(withOpenings.length - MAX_LISTED_HOSTS).toLocaleString()}개 (내보내 확인)
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
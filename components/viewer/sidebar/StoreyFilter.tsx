@@ -4,6 +4,9 @@ import { memo } from "react";
 import { Layers } from "lucide-react";
 import { StoreyInfo } from "@/types/ifc";
 
+// 층 높이 표시 (+3.600 m)
+const formatElevation = (elevation: number) => `${elevation >= 0 ? "+" : ""}${elevation.toFixed(3)} m`;
+
 interface StoreyFilterProps {
   storeys: StoreyInfo[];
   selectedStorey: string | null;
@@ -36,7 +39,7 @@ export const StoreyFilter = memo(function StoreyFilter({
         <option value="">전체 층</option>
         {storeys.map((storey) => (
           <option key={storey.id} value={storey.id}>
-            {storey.name} ({storey.expressIDs?.length || 0}개)
+            {storey.name} · {formatElevation(storey.elevation)} ({storey.expressIDs?.length || 0}개)
           </option>
         ))}
       </select>
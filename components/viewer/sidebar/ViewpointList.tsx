@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useRef, useCallback, memo } from "react";
+import { Camera, Plus, Trash2, Upload, Download, EyeOff, Scan } from "lucide-react";
+import { SavedViewpoint } from "@/types/ifc";
+import { BcfVersion } from "@/lib/bcf/bcfZip";
+
+export interface ViewpointListProps {
+  viewpoints: SavedViewpoint[];
+  hasModel: boolean;
+  onSaveViewpoint: (name: string) => Promise<void>;
+  onRestoreViewpoint: (viewpoint: SavedViewpoint) => void;
+  onDeleteViewpoint: (id: string) => void;
+  onImportBcf: (file: File) => Promise<number>;
+  onExportBcf: (version: BcfVersion) => void;
+  isDarkMode?: boolean;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString("ko-KR", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+export const ViewpointList = memo(function ViewpointList({
+  viewpoints,
+  hasModel,
+  onSaveViewpoint,
+  onRestoreViewpoint,
+  onDeleteViewpoint,
+  onImportBcf,
+  onExportBcf,
+  isDarkMode = true,
+}: ViewpointListProps) {
+  const [name, setName] = useState("");
+  const [bcfVersion, setBcfVersion] = useState<BcfVersion>("2.1");
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const theme = {
+    bg: isDarkMode ? "bg-slate-800" : "bg-white",
+    border: isDarkMode ? "border-slate-700" : "border-slate-200",
+    text: isDarkMode ? "text-white" : "text-slate-900",
+    textMuted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    textSubtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    input: isDarkMode
+      ? "bg-slate-700 border-slate-600 text-white placeholder-slate-500"
+      : "bg-slate-100 border-slate-300 text-slate-900 placeholder-slate-400",
+    itemHover: isDarkMode ? "hover:bg-slate-700/30" : "hover:bg-slate-100",
+    buttonBg: isDarkMode ? "bg-slate-700 hover:bg-slate-600" : "bg-slate-200 hover:bg-slate-300",
+    thumbBg: isDarkMode ? "bg-slate-900" : "bg-slate-100",
+  };
+
+  const handleSave = useCallback(async () => {
+    await onSaveViewpoint(name);
+    setName("");
+  }, [name, onSaveViewpoint]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const count = await onImportBcf(file);
+      setMessage(count > 0 ? `뷰포인트 ${count}개를 가져왔습니다` : "가져올 뷰포인트가 없습니다");
+    } catch (err) {
+      setMessage(`BCF 가져오기 실패: ${err instanceof Error ? err.message : err}`);
+    }
+  }, [onImportBcf]);
+
+  return (
+    <div className={`h-full flex flex-col ${theme.bg} overflow-hidden`}>
+      {/* 헤더 */}
+      <div className={`flex-shrink-0 p-4 border-b ${theme.border}`}>
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Camera className="w-5 h-5 text-blue-500" />
+            <h2 className={`font-semibold text-lg ${theme.text}`}>뷰포인트</h2>
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!hasModel}
+              title="BCF 가져오기"
+              className={`p-1.5 rounded disabled:opacity-40 ${theme.buttonBg}`}
+            >
+              <Upload className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <button
+              onClick={() => onExportBcf(bcfVersion)}
+              disabled={viewpoints.length === 0}
+              title={`BCF ${bcfVersion} 내보내기`}
+              className={`p-1.5 rounded disabled:opacity-40 ${theme.buttonBg}`}
+            >
+              <Download className={`w-4 h-4 ${theme.textMuted}`} />
+            </button>
+            <select
+              value={bcfVersion}
+              onChange={(e) => setBcfVersion(e.target.value as BcfVersion)}
+              title="BCF 버전"
+              className={`px-1.5 text-xs rounded border ${theme.input}`}
+            >
+              <option value="2.1">2.1</option>
+              <option value="3.0">3.0</option>
+            </select>
+            <input ref={fileInputRef} type="file" accept=".bcfzip,.bcf,.zip" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+
+        {/* 현재 뷰 저장 */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter" && hasModel) handleSave(); }}
+            placeholder="뷰포인트 이름"
+            disabled={!hasModel}
+            className={`flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg border focus:outline-none focus:ring-2 focus:ring-blue-500 ${theme.input}`}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!hasModel}
+            title="현재 뷰 저장"
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" />
+            저장
+          </button>
+        </div>
+        {message && <p className={`text-xs mt-2 ${theme.textMuted}`}>{message}</p>}
+      </div>
+
+      {/* 목록 */}
+      <div className="flex-1 min-h-0 overflow-y-auto">
+        {viewpoints.length === 0 ? (
+          <div className={`flex flex-col items-center justify-center py-12 ${theme.textSubtle}`}>
+            <Camera className="w-12 h-12 mb-3 opacity-50" />
+            <p>저장된 뷰포인트가 없습니다</p>
+            <p className="text-xs mt-1">카메라·선택·숨김·층 필터를 함께 저장</p>
+          </div>
+        ) : (
+          viewpoints.map(viewpoint => (
+            <div
+              key={viewpoint.id}
+              onClick={() => onRestoreViewpoint(viewpoint)}
+              className={`group flex items-center gap-3 px-4 py-2 cursor-pointer border-b ${theme.border} ${theme.itemHover}`}
+            >
+              <div
+                className={`w-16 h-10 flex-shrink-0 rounded bg-cover bg-center ${theme.thumbBg}`}
+                style={viewpoint.snapshot ? { backgroundImage: `url(${viewpoint.snapshot})` } : undefined}
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm truncate ${theme.text}`} title={viewpoint.name}>{viewpoint.name}</p>
+                <p className={`flex items-center gap-1.5 text-xs ${theme.textSubtle}`}>
+                  {formatDate(viewpoint.createdAt)}
+                  {viewpoint.selectedExpressIDs.length > 0 && <span>· 선택 {viewpoint.selectedExpressIDs.length}</span>}
+                  {viewpoint.hiddenMaterialIds.length > 0 && <EyeOff className="w-3 h-3" />}
+                  {viewpoint.xrayMode && <Scan className="w-3 h-3" />}
+                </p>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDeleteViewpoint(viewpoint.id); }}
+                title="삭제"
+                className={`p-1 rounded opacity-0 group-hover:opacity-100 ${theme.textMuted} hover:text-red-400`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
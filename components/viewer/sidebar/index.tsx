@@ -1,12 +1,23 @@
 "use client";
 
 import { useState, memo } from "react";
-import { Package, GitBranch } from "lucide-react";
+import { Package, GitBranch, Camera, MessageSquare, GitCompareArrows, Zap, ClipboardCheck, Stethoscope, Tags, Layers, DoorOpen, Coins } from "lucide-react";
 import { MaterialTable, MaterialTableProps } from "./MaterialTable";
 import { ModelTree, ModelTreeProps } from "./ModelTree";
+import { ViewpointList, ViewpointListProps } from "./ViewpointList";
+import { IssuePanel, IssuePanelProps } from "./IssuePanel";
+import { ModelList, ModelListProps } from "./ModelList";
+import { ModelDiffPanel, ModelDiffPanelProps } from "./ModelDiffPanel";
+import { ClashPanel, ClashPanelProps } from "./ClashPanel";
+import { IdsPanel, IdsPanelProps } from "./IdsPanel";
+import { HealthPanel, HealthPanelProps } from "./HealthPanel";
+import { MappingPanel, MappingPanelProps } from "./MappingPanel";
+import { MaterialLayerPanel, MaterialLayerPanelProps } from "./MaterialLayerPanel";
+import { OpeningPanel, OpeningPanelProps } from "./OpeningPanel";
+import { CostPanel, CostPanelProps } from "./CostPanel";
 import { IFCSpatialNode } from "@/types/ifc";
 
-type TabType = "quantity" | "tree";
+type TabType = "quantity" | "tree" | "viewpoints" | "issues" | "diff" | "clash" | "ids" | "health" | "mapping" | "layers" | "openings" | "cost";
 
 export interface SidebarProps extends Omit<MaterialTableProps, 'isDarkMode'> {
   selectedExpressIDs: number[];
@@ -14,6 +25,17 @@ export interface SidebarProps extends Omit<MaterialTableProps, 'isDarkMode'> {
   onTableHighlight?: (expressIDs: number[]) => void;  // 테이블에서 강조된 요소들 (3D 초록색)
   isDarkMode?: boolean;
   spatialTree?: IFCSpatialNode | null;
+  viewpointList?: Omit<ViewpointListProps, 'isDarkMode'>; // 없으면 뷰포인트 탭 숨김
+  issuePanel?: Omit<IssuePanelProps, 'isDarkMode'>;       // 없으면 이슈 탭 숨김
+  modelList?: Omit<ModelListProps, 'isDarkMode'>;         // 통합 모델 목록 (탭 위에 표시)
+  modelDiff?: Omit<ModelDiffPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 비교 탭 숨김
+  clashPanel?: Omit<ClashPanelProps, 'isDarkMode' | 'materials' | 'selectedExpressIDs'>; // 없으면 간섭 탭 숨김
+  idsPanel?: Omit<IdsPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 IDS 탭 숨김
+  healthPanel?: Omit<HealthPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 점검 탭 숨김
+  mappingPanel?: Omit<MappingPanelProps, 'isDarkMode'>; // 없으면 분류 탭 숨김
+  materialLayerPanel?: Omit<MaterialLayerPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 재료 탭 숨김
+  openingPanel?: Omit<OpeningPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 공제 탭 숨김
+  costPanel?: Omit<CostPanelProps, 'isDarkMode' | 'selectedExpressIDs' | 'onSelectElements'>; // 없으면 공사비 탭 숨김
 }
 
 export const Sidebar = memo(function Sidebar({
@@ -31,7 +53,21 @@ export const Sidebar = memo(function Sidebar({
   storeys = [],
   selectedStorey = null,
   onSelectStorey,
-  spatialTree = null
+  loadElementRecords,
+  getQuantityTotals,
+  modelName,
+  spatialTree = null,
+  viewpointList,
+  issuePanel,
+  modelList,
+  modelDiff,
+  clashPanel,
+  idsPanel,
+  healthPanel,
+  mappingPanel,
+  materialLayerPanel,
+  openingPanel,
+  costPanel
 }: SidebarProps) {
   const [activeTab, setActiveTab] = useState<TabType>("quantity");
 
@@ -44,22 +80,114 @@ export const Sidebar = memo(function Sidebar({
 
   return (
     <div className={`h-full flex flex-col ${theme.bg} border-r ${theme.border}`}>
+      {modelList && <ModelList {...modelList} isDarkMode={isDarkMode} />}
+
       {/* 탭 헤더 */}
-      <div className={`flex-shrink-0 flex border-b ${theme.border}`}>
+      <div className={`flex-shrink-0 flex overflow-x-auto border-b ${theme.border}`}>
         <button
           onClick={() => setActiveTab("quantity")}
-          className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${activeTab === "quantity" ? theme.tabActive : theme.tabInactive}`}
+          className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "quantity" ? theme.tabActive : theme.tabInactive}`}
         >
           <Package className="w-4 h-4" />
           수량검토
         </button>
         <button
           onClick={() => setActiveTab("tree")}
-          className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${activeTab === "tree" ? theme.tabActive : theme.tabInactive}`}
+          className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "tree" ? theme.tabActive : theme.tabInactive}`}
         >
           <GitBranch className="w-4 h-4" />
           모델트리
         </button>
+        {viewpointList && (
+          <button
+            onClick={() => setActiveTab("viewpoints")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "viewpoints" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Camera className="w-4 h-4" />
+            뷰포인트
+          </button>
+        )}
+        {issuePanel && (
+          <button
+            onClick={() => setActiveTab("issues")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "issues" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <MessageSquare className="w-4 h-4" />
+            이슈
+          </button>
+        )}
+        {modelDiff && (
+          <button
+            onClick={() => setActiveTab("diff")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "diff" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <GitCompareArrows className="w-4 h-4" />
+            비교
+          </button>
+        )}
+        {clashPanel && (
+          <button
+            onClick={() => setActiveTab("clash")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "clash" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Zap className="w-4 h-4" />
+            간섭
+          </button>
+        )}
+        {idsPanel && (
+          <button
+            onClick={() => setActiveTab("ids")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "ids" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            IDS
+          </button>
+        )}
+        {healthPanel && (
+          <button
+            onClick={() => setActiveTab("health")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "health" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Stethoscope className="w-4 h-4" />
+            점검
+          </button>
+        )}
+        {mappingPanel && (
+          <button
+            onClick={() => setActiveTab("mapping")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "mapping" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Tags className="w-4 h-4" />
+            분류
+          </button>
+        )}
+        {materialLayerPanel && (
+          <button
+            onClick={() => setActiveTab("layers")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "layers" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Layers className="w-4 h-4" />
+            재료
+          </button>
+        )}
+        {openingPanel && (
+          <button
+            onClick={() => setActiveTab("openings")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "openings" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <DoorOpen className="w-4 h-4" />
+            공제
+          </button>
+        )}
+        {costPanel && (
+          <button
+            onClick={() => setActiveTab("cost")}
+            className={`flex-1 flex items-center justify-center gap-1 px-1.5 py-3 text-sm whitespace-nowrap font-medium transition-colors ${activeTab === "cost" ? theme.tabActive : theme.tabInactive}`}
+          >
+            <Coins className="w-4 h-4" />
+            공사비
+          </button>
+        )}
       </div>
 
       {/* 탭 콘텐츠 */}
@@ -79,15 +207,73 @@ export const Sidebar = memo(function Sidebar({
             storeys={storeys}
             selectedStorey={selectedStorey}
             onSelectStorey={onSelectStorey}
+            loadElementRecords={loadElementRecords}
+            getQuantityTotals={getQuantityTotals}
+            modelName={modelName}
           />
-        ) : (
+        ) : activeTab === "tree" ? (
           <ModelTree
             spatialTree={spatialTree}
             selectedExpressIDs={selectedExpressIDs}
             onSelectElements={onSelectElements}
             isDarkMode={isDarkMode}
           />
-        )}
+        ) : activeTab === "viewpoints" && viewpointList ? (
+          <ViewpointList {...viewpointList} isDarkMode={isDarkMode} />
+        ) : activeTab === "issues" && issuePanel ? (
+          <IssuePanel {...issuePanel} isDarkMode={isDarkMode} />
+        ) : activeTab === "diff" && modelDiff ? (
+          <ModelDiffPanel
+            {...modelDiff}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "clash" && clashPanel ? (
+          <ClashPanel
+            {...clashPanel}
+            materials={materials}
+            selectedExpressIDs={selectedExpressIDs}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "ids" && idsPanel ? (
+          <IdsPanel
+            {...idsPanel}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "health" && healthPanel ? (
+          <HealthPanel
+            {...healthPanel}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "mapping" && mappingPanel ? (
+          <MappingPanel {...mappingPanel} isDarkMode={isDarkMode} />
+        ) : activeTab === "layers" && materialLayerPanel ? (
+          <MaterialLayerPanel
+            {...materialLayerPanel}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "openings" && openingPanel ? (
+          <OpeningPanel
+            {...openingPanel}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : activeTab === "cost" && costPanel ? (
+          <CostPanel
+            {...costPanel}
+            selectedExpressIDs={selectedExpressIDs}
+            onSelectElements={onSelectElements}
+            isDarkMode={isDarkMode}
+          />
+        ) : null}
       </div>
     </div>
   );
@@ -5,6 +5,7 @@ import { useCallback, useRef, useState } from "react";
 import * as OBC from "@thatopen/components";
 import { MaterialItem, StoreyInfo } from "../types";
 import { getCategoryKoreanName, getUnitForCategory } from "../utils/categoryMap";
+import { getIfcTypeCode } from "@/lib/ifc/typeRegistry";
 
 interface ClassificationGroup {
   name: string;
@@ -107,7 +108,7 @@ export function useClassifier(componentsRef: React.RefObject<OBC.Components | nu
               if (totalCount > 0) {
                 const koreanName = getCategoryKoreanName(groupName);
                 const unit = getUnitForCategory(koreanName);
-                const typeCode = categoryNameToTypeCode(groupName);
+                const typeCode = getIfcTypeCode(groupName) ?? 0;
                 
                 materials.push({
                   id: `mat_${materialIndex++}`,
@@ -252,33 +253,3 @@ export function useClassifier(componentsRef: React.RefObject<OBC.Components | nu
     clearClassification,
   };
 }
-
-// 카테고리 이름에서 IFC 타입 코드 추정
-function categoryNameToTypeCode(categoryName: string): number {
-  const typeCodeMap: { [key: string]: number } = {
-    IFCWALL: 3512223829,
-    IFCWALLSTANDARDCASE: 2058353004,
-    IFCSLAB: 1529196076,
-    IFCCOLUMN: 843113511,
-    IFCBEAM: 753842376,
-    IFCDOOR: 395920057,
-    IFCWINDOW: 3304561284,
-    IFCSTAIR: 4252922144,
-    IFCSTAIRFLIGHT: 4124788165,
-    IFCROOF: 2016517767,
-    IFCRAILING: 2262370178,
-    IFCCOVERING: 1973544240,
-    IFCCURTAINWALL: 3495092785,
-    IFCFURNISHINGELEMENT: 1091909220,
-    IFCBUILDINGELEMENTPROXY: 1095909175,
-    IFCMEMBER: 1073191201,
-    IFCPLATE: 3171933400,
-    IFCFOOTING: 900683007,
-    IFCPILE: 1687234759,
-    IFCSPACE: 3856911033,
-    IFCBUILDINGSTOREY: 3124254112,
-  };
-  
-  const upperName = categoryName.toUpperCase();
-  return typeCodeMap[upperName] || 0;
-}
@@ -5,7 +5,8 @@ import * as THREE from "three";
 import * as OBC from "@thatopen/components";
 import * as OBCF from "@thatopen/components-front";
 import { SelectedObjectInfo, SelectionState } from "../types";
-import { getCategoryKoreanName } from "../utils/categoryMap";
+import { getCategoryFromTypeCode } from "../utils/categoryMap";
+import { getIfcCategory } from "@/lib/ifc/typeRegistry";
 
 interface UseSelectionProps {
   componentsRef: React.RefObject<OBC.Components | null>;
@@ -127,8 +128,8 @@ export function useSelection({ componentsRef, worldRef, typeToExpressIDsRef, onS
           const info: SelectedObjectInfo = {
             expressID: clickedId,
             typeCode: foundTypeCode,
-            typeName: getCategoryKoreanName(`IFC${foundTypeCode}`),
-            category: '기타',
+            typeName: getCategoryFromTypeCode(foundTypeCode),
+            category: getIfcCategory(foundTypeCode),
           };
           onSelect?.(info, relatedIds);
         }, 50); // 50ms 디바운스
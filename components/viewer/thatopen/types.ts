@@ -78,51 +78,5 @@ export interface SelectionState {
   tableHighlightedIDs: number[];
 }
 
-// IFC 카테고리 매핑
-export const IFC_CATEGORY_MAP: Record<string, string> = {
-  'IFCWALL': '벽',
-  'IFCWALLSTANDARDCASE': '벽',
-  'IFCSLAB': '슬라브',
-  'IFCCOLUMN': '기둥',
-  'IFCBEAM': '보',
-  'IFCDOOR': '문',
-  'IFCWINDOW': '창문',
-  'IFCSTAIR': '계단',
-  'IFCSTAIRFLIGHT': '계단',
-  'IFCRAILING': '난간',
-  'IFCROOF': '지붕',
-  'IFCCOVERING': '마감재',
-  'IFCFURNISHINGELEMENT': '가구',
-  'IFCBUILDINGELEMENTPROXY': '부재',
-  'IFCMEMBER': '부재',
-  'IFCPLATE': '판',
-  'IFCFOOTING': '기초',
-  'IFCPILE': '파일',
-  'IFCCURTAINWALL': '커튼월',
-  'IFCSPACE': '공간',
-  'IFCBUILDINGSTOREY': '층',
-  'IFCBUILDING': '건물',
-  'IFCSITE': '대지',
-  'IFCPROJECT': '프로젝트',
-};
-
-// 카테고리별 단위
-export const CATEGORY_UNIT_MAP: Record<string, string> = {
-  '벽': 'm²',
-  '슬라브': 'm²',
-  '지붕': 'm²',
-  '마감재': 'm²',
-  '커튼월': 'm²',
-  '기둥': '개',
-  '보': 'm',
-  '문': '개',
-  '창문': '개',
-  '계단': '개',
-  '난간': 'm',
-  '가구': '개',
-  '판': 'm²',
-  '부재': '개',
-  '기초': '개',
-  '파일': '개',
-  '공간': 'm²',
-};
+// 카테고리별 단위 (레거시 뷰어와 공유)
+export { CATEGORY_UNIT_MAP } from "@/types/ifc";
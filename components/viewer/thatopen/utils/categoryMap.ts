@@ -1,13 +1,22 @@
 // IFC 카테고리 매핑 유틸리티
 
-import { IFC_CATEGORY_MAP, CATEGORY_UNIT_MAP } from "../types";
+import * as WebIFC from "web-ifc";
+import { CATEGORY_UNIT_MAP } from "../types";
+import {
+  registerIfcSchema,
+  getIfcTypeInfoByName,
+  getIfcKoreanName,
+  IfcSchemaModule,
+} from "@/lib/ifc/typeRegistry";
+
+// That Open 경로는 web-ifc를 정적으로 불러오므로 바로 등록
+registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
 
 /**
- * IFC 카테고리 이름을 한글로 변환
+ * IFC 카테고리 이름을 한글로 변환 (하위 타입은 상위 타입 이름을 따름)
  */
 export function getCategoryKoreanName(ifcCategory: string): string {
-  const upper = ifcCategory.toUpperCase();
-  return IFC_CATEGORY_MAP[upper] || ifcCategory;
+  return getIfcTypeInfoByName(ifcCategory)?.koreanName ?? ifcCategory;
 }
 
 /**
@@ -47,33 +56,5 @@ export function getCategoryFromMaterialName(name: string): string {
  * IFC 타입 코드에서 한글 카테고리 추출
  */
 export function getCategoryFromTypeCode(typeCode: number): string {
-  // IFC 타입 코드 범위에 따른 분류 (web-ifc 기준)
-  const typeCodeMap: Record<number, string> = {
-    // 벽 관련
-    3512223829: '벽',           // IFCWALL
-    2058353004: '벽',           // IFCWALLSTANDARDCASE
-    // 슬라브
-    1529196076: '슬라브',       // IFCSLAB
-    // 기둥
-    843113511: '기둥',          // IFCCOLUMN
-    // 보
-    753842376: '보',            // IFCBEAM
-    // 문
-    395920057: '문',            // IFCDOOR
-    // 창문
-    3304561284: '창문',         // IFCWINDOW
-    // 계단
-    4252922144: '계단',         // IFCSTAIR
-    4124788165: '계단',         // IFCSTAIRFLIGHT
-    // 지붕
-    2016517767: '지붕',         // IFCROOF
-    // 난간
-    2262370178: '난간',         // IFCRAILING
-    // 마감재
-    1973544240: '마감재',       // IFCCOVERING
-    // 커튼월
-    3495092785: '커튼월',       // IFCCURTAINWALL
-  };
-  
-  return typeCodeMap[typeCode] || '기타';
+  return getIfcKoreanName(typeCode);
 }
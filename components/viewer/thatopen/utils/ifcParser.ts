@@ -2,34 +2,35 @@
 
 import * as WebIFC from "web-ifc";
 import { MaterialItem, StoreyInfo, IFCSpatialNode } from "../types";
-import { getCategoryKoreanName, getUnitForCategory } from "./categoryMap";
+import { getUnitForCategory } from "./categoryMap";
+import { getIfcKoreanName } from "@/lib/ifc/typeRegistry";
 
 // IFC 타입 코드 상수
 const IFC_TYPES = {
-  IFCWALL: 3512223829,
-  IFCWALLSTANDARDCASE: 2058353004,
-  IFCSLAB: 1529196076,
-  IFCCOLUMN: 843113511,
-  IFCBEAM: 753842376,
-  IFCDOOR: 395920057,
-  IFCWINDOW: 3304561284,
-  IFCSTAIR: 4252922144,
-  IFCSTAIRFLIGHT: 4124788165,
-  IFCROOF: 2016517767,
-  IFCRAILING: 2262370178,
-  IFCCOVERING: 1973544240,
-  IFCCURTAINWALL: 3495092785,
-  IFCFURNISHINGELEMENT: 1091909220,
-  IFCBUILDINGELEMENTPROXY: 1095909175,
-  IFCMEMBER: 1073191201,
-  IFCPLATE: 3171933400,
-  IFCFOOTING: 900683007,
-  IFCPILE: 1687234759,
-  IFCSPACE: 3856911033,
-  IFCBUILDINGSTOREY: 3124254112,
-  IFCBUILDING: 4031249490,
-  IFCSITE: 4097777520,
-  IFCPROJECT: 103090709,
+  IFCWALL: WebIFC.IFCWALL,
+  IFCWALLSTANDARDCASE: WebIFC.IFCWALLSTANDARDCASE,
+  IFCSLAB: WebIFC.IFCSLAB,
+  IFCCOLUMN: WebIFC.IFCCOLUMN,
+  IFCBEAM: WebIFC.IFCBEAM,
+  IFCDOOR: WebIFC.IFCDOOR,
+  IFCWINDOW: WebIFC.IFCWINDOW,
+  IFCSTAIR: WebIFC.IFCSTAIR,
+  IFCSTAIRFLIGHT: WebIFC.IFCSTAIRFLIGHT,
+  IFCROOF: WebIFC.IFCROOF,
+  IFCRAILING: WebIFC.IFCRAILING,
+  IFCCOVERING: WebIFC.IFCCOVERING,
+  IFCCURTAINWALL: WebIFC.IFCCURTAINWALL,
+  IFCFURNISHINGELEMENT: WebIFC.IFCFURNISHINGELEMENT,
+  IFCBUILDINGELEMENTPROXY: WebIFC.IFCBUILDINGELEMENTPROXY,
+  IFCMEMBER: WebIFC.IFCMEMBER,
+  IFCPLATE: WebIFC.IFCPLATE,
+  IFCFOOTING: WebIFC.IFCFOOTING,
+  IFCPILE: WebIFC.IFCPILE,
+  IFCSPACE: WebIFC.IFCSPACE,
+  IFCBUILDINGSTOREY: WebIFC.IFCBUILDINGSTOREY,
+  IFCBUILDING: WebIFC.IFCBUILDING,
+  IFCSITE: WebIFC.IFCSITE,
+  IFCPROJECT: WebIFC.IFCPROJECT,
 };
 
 // 지오메트리가 있는 IFC 타입들
@@ -98,8 +99,7 @@ export async function extractMaterials(
       totalElements += ids.size();
       console.log(`  📋 타입코드 ${typeCode}: ${ids.size()}개`);
       
-      const typeName = getTypeNameFromCode(typeCode);
-      const koreanName = getCategoryKoreanName(typeName);
+      const koreanName = getIfcKoreanName(typeCode);
       const expressIDs: number[] = [];
       
       for (let i = 0; i < ids.size(); i++) {
@@ -253,16 +253,6 @@ export function getElementProperties(
   }
 }
 
-/**
- * 타입 코드에서 타입 이름 반환
- */
-function getTypeNameFromCode(typeCode: number): string {
-  for (const [name, code] of Object.entries(IFC_TYPES)) {
-    if (code === typeCode) return name;
-  }
-  return `TYPE_${typeCode}`;
-}
-
 /**
  * web-ifc 정리
  */
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Ruler, Spline, DraftingCompass, Pentagon, ArrowDownToLine, ArrowLeftRight, Check, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MeasureMode, Measurement } from "@/types/ifc";
+import { formatMeasureValue } from "@/lib/three";
+
+export interface MeasureMenuProps {
+  mode: MeasureMode | null;
+  pendingCount: number;
+  canFinish: boolean;
+  measurements: Measurement[];
+  onSetMode: (mode: MeasureMode | null) => void;
+  onFinish: () => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const MODES: { mode: MeasureMode; label: string; icon: typeof Ruler }[] = [
+  { mode: "distance", label: "거리", icon: Ruler },
+  { mode: "polyline", label: "연속 길이", icon: Spline },
+  { mode: "angle", label: "각도", icon: DraftingCompass },
+  { mode: "area", label: "면적", icon: Pentagon },
+  { mode: "perpendicular", label: "면 수직 거리", icon: ArrowDownToLine },
+  { mode: "elementDistance", label: "요소 간 거리", icon: ArrowLeftRight },
+];
+
+const MODE_LABELS = Object.fromEntries(MODES.map(m => [m.mode, m.label])) as Record<MeasureMode, string>;
+
+// 현재 단계 안내
+const getPrompt = (mode: MeasureMode, pendingCount: number): string => {
+  switch (mode) {
+    case "distance":
+      return pendingCount === 0 ? "시작점을 클릭하세요" : "끝점을 클릭하세요";
+    case "polyline":
+      return pendingCount < 2 ? "점을 차례로 클릭하세요" : "계속 클릭하거나 Enter로 완료";
+    case "angle":
+      return ["첫 번째 점을 클릭하세요", "꼭짓점을 클릭하세요", "두 번째 점을 클릭하세요"][pendingCount] ?? "";
+    case "area":
+      return pendingCount < 3 ? "영역의 꼭짓점을 차례로 클릭하세요" : "계속 클릭하거나 Enter로 완료";
+    case "perpendicular":
+      return pendingCount === 0 ? "기준 면을 클릭하세요" : "거리를 잴 점을 클릭하세요";
+    case "elementDistance":
+      return pendingCount === 0 ? "첫 번째 요소를 클릭하세요" : "두 번째 요소를 클릭하세요";
+  }
+};
+
+interface Props extends MeasureMenuProps {
+  isDarkMode: boolean;
+  buttonClass: string;
+  panelClass: string;
+}
+
+/**
+ * 툴바 측정 버튼 + 드롭다운 (측정 종류, 진행 안내, 측정 목록)
+ */
+export function MeasureMenu({
+  mode,
+  pendingCount,
+  canFinish,
+  measurements,
+  onSetMode,
+  onFinish,
+  onRemove,
+  onClear,
+  isDarkMode,
+  buttonClass,
+  panelClass,
+}: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isActive = mode !== null;
+
+  const textClass = isDarkMode ? "text-slate-300" : "text-slate-700";
+  const mutedClass = isDarkMode ? "text-slate-500" : "text-slate-400";
+  const itemClass = isDarkMode ? "hover:bg-slate-700 text-slate-300" : "hover:bg-slate-100 text-slate-700";
+  const activeItemClass = "bg-blue-500/20 text-blue-400";
+  const borderClass = isDarkMode ? "border-slate-700" : "border-slate-200";
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        title="측정"
+        className={`${buttonClass} gap-2 ${isActive ? "!bg-blue-500/20 !text-blue-400 !border-blue-500/50" : ""}`}
+      >
+        <Ruler className="w-4 h-4" />
+        <span className="text-xs font-medium">측정{measurements.length > 0 ? ` ${measurements.length}` : ""}</span>
+      </Button>
+
+      {isOpen && (
+        <div className={`absolute right-0 top-full mt-2 w-60 p-2 rounded-lg border shadow-lg space-y-1 ${panelClass}`}>
+          {/* 측정 종류 */}
+          <div className="grid grid-cols-2 gap-1">
+            {MODES.map(({ mode: item, label, icon: Icon }) => (
+              <button
+                key={item}
+                onClick={() => onSetMode(mode === item ? null : item)}
+                className={`flex items-center gap-1.5 px-2 py-1.5 text-xs rounded ${mode === item ? activeItemClass : itemClass}`}
+              >
+                <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+                <span className="truncate">{label}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* 진행 안내 */}
+          {mode && (
+            <div className={`flex items-center gap-2 px-2 py-1.5 text-xs ${textClass}`}>
+              <span className="flex-1">{getPrompt(mode, pendingCount)}</span>
+              {canFinish && (
+                <button onClick={onFinish} title="완료 (Enter)" className="p-1 rounded bg-blue-500 hover:bg-blue-600 text-white">
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
+          {mode && (
+            <p className={`px-2 text-[10px] ${mutedClass}`}>스냅: 빨강 꼭짓점 · 초록 모서리 · 파랑 면 · Esc 취소</p>
+          )}
+
+          {/* 측정 목록 */}
+          {measurements.length > 0 && (
+            <div className={`pt-1 mt-1 border-t ${borderClass} max-h-60 overflow-y-auto`}>
+              {measurements.map((measurement, i) => (
+                <div key={measurement.id} className={`flex items-center gap-1 px-2 py-1 text-xs ${textClass}`}>
+                  <span className={`w-5 ${mutedClass}`}>{i + 1}</span>
+                  <span className="flex-1 truncate">{MODE_LABELS[measurement.mode]}</span>
+                  <span className="font-medium tabular-nums">{formatMeasureValue(measurement.value, measurement.unit)}</span>
+                  <button onClick={() => onRemove(measurement.id)} title="삭제" className={`p-1 rounded ${itemClass}`}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={onClear} className={`w-full px-2 py-1.5 text-xs rounded ${itemClass}`}>
+                측정 모두 삭제
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
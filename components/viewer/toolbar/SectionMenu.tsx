@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Scissors, MousePointerClick, SquareDashed, FlipHorizontal2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SectionAxis, SectionPlane } from "@/types/ifc";
+
+export interface SectionMenuProps {
+  planes: SectionPlane[];
+  hasBox: boolean;
+  isPickingFace: boolean;
+  onAddAxisPlane: (axis: SectionAxis) => void;
+  onToggleFacePicking: () => void;
+  onToggleBox: () => void;
+  onFlipPlane: (id: string) => void;
+  onRemovePlane: (id: string) => void;
+  onClear: () => void;
+}
+
+const AXES: SectionAxis[] = ["x", "y", "z"];
+
+const PLANE_LABELS: Record<SectionPlane["source"], string> = {
+  x: "X 단면",
+  y: "Y 단면",
+  z: "Z 단면 (수평)",
+  face: "면 정렬 단면",
+};
+
+interface Props extends SectionMenuProps {
+  isDarkMode: boolean;
+  buttonClass: string;
+  panelClass: string;
+}
+
+/**
+ * 툴바 단면 버튼 + 드롭다운 (축 평면, 면 정렬 평면, 단면 박스)
+ */
+export function SectionMenu({
+  planes,
+  hasBox,
+  isPickingFace,
+  onAddAxisPlane,
+  onToggleFacePicking,
+  onToggleBox,
+  onFlipPlane,
+  onRemovePlane,
+  onClear,
+  isDarkMode,
+  buttonClass,
+  panelClass,
+}: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isActive = planes.length > 0 || hasBox || isPickingFace;
+
+  const textClass = isDarkMode ? "text-slate-300" : "text-slate-700";
+  const mutedClass = isDarkMode ? "text-slate-500" : "text-slate-400";
+  const itemClass = isDarkMode ? "hover:bg-slate-700 text-slate-300" : "hover:bg-slate-100 text-slate-700";
+  const activeItemClass = "bg-blue-500/20 text-blue-400";
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        title="단면"
+        className={`${buttonClass} gap-2 ${isActive ? "!bg-blue-500/20 !text-blue-400 !border-blue-500/50" : ""}`}
+      >
+        <Scissors className="w-4 h-4" />
+        <span className="text-xs font-medium">단면{planes.length > 0 ? ` ${planes.length}` : ""}</span>
+      </Button>
+
+      {isOpen && (
+        <div className={`absolute right-0 top-full mt-2 w-56 p-2 rounded-lg border shadow-lg space-y-1 ${panelClass}`}>
+          {/* 축 평면 추가 */}
+          <div className="flex gap-1">
+            {AXES.map(axis => (
+              <button
+                key={axis}
+                onClick={() => onAddAxisPlane(axis)}
+                title={`${axis.toUpperCase()}축 단면 추가`}
+                className={`flex-1 py-1.5 text-xs font-medium rounded ${itemClass}`}
+              >
+                + {axis.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onToggleFacePicking}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded ${isPickingFace ? activeItemClass : itemClass}`}
+          >
+            <MousePointerClick className="w-4 h-4" />
+            {isPickingFace ? "단면을 만들 면을 클릭하세요" : "면에 맞춰 단면 추가"}
+          </button>
+
+          <button
+            onClick={onToggleBox}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 text-xs rounded ${hasBox ? activeItemClass : itemClass}`}
+          >
+            <SquareDashed className="w-4 h-4" />
+            단면 박스 {hasBox ? "끄기" : "켜기"}
+          </button>
+
+          {/* 평면 목록 */}
+          {planes.length > 0 && (
+            <div className={`pt-1 mt-1 border-t ${isDarkMode ? "border-slate-700" : "border-slate-200"}`}>
+              {planes.map(plane => (
+                <div key={plane.id} className={`flex items-center gap-1 px-2 py-1 text-xs ${textClass}`}>
+                  <span className="flex-1 truncate">{PLANE_LABELS[plane.source]}</span>
+                  <button onClick={() => onFlipPlane(plane.id)} title="방향 반전" className={`p-1 rounded ${itemClass}`}>
+                    <FlipHorizontal2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => onRemovePlane(plane.id)} title="삭제" className={`p-1 rounded ${itemClass}`}>
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {(planes.length > 0 || hasBox) && (
+            <p className={`px-2 py-1 text-xs ${mutedClass}`}>주황색 핸들을 끌어 단면 위치를 조절합니다</p>
+          )}
+          {isActive && (
+            <button onClick={onClear} className={`w-full px-2 py-1.5 text-xs rounded ${itemClass}`}>
+              단면 모두 해제
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { SectionMenu, SectionMenuProps } from "./SectionMenu";
+import { MeasureMenu, MeasureMenuProps } from "./MeasureMenu";
 
 // 개발 모드 확인
 const isDev = process.env.NODE_ENV === 'development';
@@ -36,6 +38,8 @@ export interface ViewerToolbarProps {
   onToggleEdges: () => void;
   onClearSelection?: () => void;
   onExportFrag?: () => void;
+  section?: SectionMenuProps; // 없으면 단면 버튼 숨김
+  measure?: MeasureMenuProps; // 없으면 측정 버튼 숨김
 }
 
 export function ViewerToolbar({ 
@@ -54,7 +58,9 @@ export function ViewerToolbar({
   showEdges,
   onToggleEdges,
   onClearSelection,
-  onExportFrag
+  onExportFrag,
+  section,
+  measure
 }: ViewerToolbarProps) {
   // showSidebar가 있으면 ThatOpen 뷰어, showTable이 있으면 Legacy 뷰어
   const isThatOpenViewer = showSidebar !== undefined;
@@ -124,6 +130,16 @@ export function ViewerToolbar({
               <span className="text-xs font-medium">윤곽선</span>
             </Button>
 
+            {/* 측정 */}
+            {measure && (
+              <MeasureMenu {...measure} isDarkMode={isDarkMode} buttonClass={buttonClass} panelClass={panelClass} />
+            )}
+
+            {/* 단면 */}
+            {section && (
+              <SectionMenu {...section} isDarkMode={isDarkMode} buttonClass={buttonClass} panelClass={panelClass} />
+            )}
+
             {/* X-Ray 모드 */}
             <Button 
               variant="ghost" 
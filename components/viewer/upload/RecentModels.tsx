@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Clock, Trash2, HardDrive } from "lucide-react";
+import { CachedModelEntry, MAX_CACHE_BYTES, modelCache } from "@/lib/ifc/modelCache";
+
+export interface RecentModelsProps {
+  onOpen: (modelId: string) => void;
+  isDarkMode?: boolean;
+}
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString("ko-KR", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" });
+
+// 캐시된 최근 모델 목록 (원본 파일 없이 바로 열기 / 캐시 삭제)
+export function RecentModels({ onOpen, isDarkMode = true }: RecentModelsProps) {
+  const [entries, setEntries] = useState<CachedModelEntry[]>([]);
+
+  useEffect(() => {
+    modelCache.list().then(setEntries).catch(() => setEntries([]));
+  }, []);
+
+  const handleRemove = useCallback(async (modelId: string) => {
+    await modelCache.remove(modelId).catch(() => {});
+    setEntries(await modelCache.list().catch(() => []));
+  }, []);
+
+  const handleClear = useCallback(async () => {
+    if (!confirm("캐시된 모델을 모두 삭제할까요?")) return;
+    await modelCache.clear().catch(() => {});
+    setEntries([]);
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  const totalSize = entries.reduce((sum, e) => sum + e.cacheSize, 0);
+
+  const theme = {
+    card: isDarkMode ? "bg-slate-800/50 border-slate-700" : "bg-white/80 border-slate-300",
+    title: isDarkMode ? "text-white" : "text-slate-800",
+    muted: isDarkMode ? "text-slate-400" : "text-slate-500",
+    subtle: isDarkMode ? "text-slate-500" : "text-slate-400",
+    row: isDarkMode ? "hover:bg-slate-700/50" : "hover:bg-slate-100",
+  };
+
+  return (
+    <div className={`w-96 mt-4 rounded-xl border backdrop-blur-sm ${theme.card}`}>
+      <div className={`flex items-center justify-between px-4 py-2.5 border-b ${isDarkMode ? "border-slate-700" : "border-slate-200"}`}>
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-blue-500" />
+          <span className={`text-sm font-medium ${theme.title}`}>최근 모델</span>
+        </div>
+        <button onClick={handleClear} className={`text-xs ${theme.muted} hover:text-red-400`}>
+          캐시 비우기
+        </button>
+      </div>
+
+      <div className="max-h-60 overflow-y-auto">
+        {entries.map(entry => (
+          <div
+            key={entry.modelId}
+            onClick={() => onOpen(entry.modelId)}
+            className={`group flex items-center gap-3 px-4 py-2 cursor-pointer ${theme.row}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm truncate ${theme.title}`} title={entry.fileName}>{entry.fileName}</p>
+              <p className={`text-xs ${theme.subtle}`}>
+                {formatDate(entry.lastOpenedAt)} · {entry.elementCount.toLocaleString()}개 요소 · {formatMB(entry.fileSize)}
+              </p>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); handleRemove(entry.modelId); }}
+              title="캐시에서 삭제"
+              className={`p-1 rounded opacity-0 group-hover:opacity-100 ${theme.muted} hover:text-red-400`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className={`flex items-center gap-1.5 px-4 py-2 text-xs border-t ${isDarkMode ? "border-slate-700" : "border-slate-200"} ${theme.subtle}`}>
+        <HardDrive className="w-3.5 h-3.5" />
+        캐시 사용량 {formatMB(totalSize)} / {formatMB(MAX_CACHE_BYTES)}
+      </div>
+    </div>
+  );
+}
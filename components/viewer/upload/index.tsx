@@ -4,14 +4,16 @@ import { useCallback, useState } from "react";
 import { Upload, FileUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { RecentModels } from "./RecentModels";
 
 export interface FileUploadProps {
   onFileLoad: (file: File) => void;
   compact?: boolean;
   isDarkMode?: boolean;
+  onOpenRecent?: (modelId: string) => void; // 캐시된 최근 모델 열기
 }
 
-export function FileUpload({ onFileLoad, compact = false, isDarkMode = true }: FileUploadProps) {
+export function FileUpload({ onFileLoad, compact = false, isDarkMode = true, onOpenRecent }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFile = useCallback((file: File) => {
@@ -69,25 +71,28 @@ export function FileUpload({ onFileLoad, compact = false, isDarkMode = true }: F
   };
 
   return (
-    <Card
-      className={`w-96 p-8 text-center cursor-pointer border-2 border-dashed transition-all duration-200 backdrop-blur-sm ${isDragging ? `${theme.cardDrag} scale-105` : theme.card}`}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      onClick={() => document.getElementById("file-input")?.click()}
-    >
-      <div className="flex flex-col items-center gap-4">
-        <div className={`w-16 h-16 rounded-full flex items-center justify-center transition-colors ${isDragging ? theme.iconDrag : theme.icon}`}>
-          <Upload className="w-8 h-8" />
-        </div>
-        <div>
-          <h3 className={`font-semibold text-lg ${theme.title}`}>IFC / FRAG 파일 업로드</h3>
-          <p className={`text-sm mt-1 ${theme.subtitle}`}>파일을 드래그하거나 클릭하여 선택하세요</p>
+    <div className="flex flex-col items-center">
+      <Card
+        className={`w-96 p-8 text-center cursor-pointer border-2 border-dashed transition-all duration-200 backdrop-blur-sm ${isDragging ? `${theme.cardDrag} scale-105` : theme.card}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={() => document.getElementById("file-input")?.click()}
+      >
+        <div className="flex flex-col items-center gap-4">
+          <div className={`w-16 h-16 rounded-full flex items-center justify-center transition-colors ${isDragging ? theme.iconDrag : theme.icon}`}>
+            <Upload className="w-8 h-8" />
+          </div>
+          <div>
+            <h3 className={`font-semibold text-lg ${theme.title}`}>IFC / FRAG 파일 업로드</h3>
+            <p className={`text-sm mt-1 ${theme.subtitle}`}>파일을 드래그하거나 클릭하여 선택하세요</p>
+          </div>
+          <Button variant="outline" className={`mt-2 ${theme.button}`}>파일 선택</Button>
+          <p className={`text-xs ${isDarkMode ? "text-slate-500" : "text-slate-400"}`}>지원 형식: .ifc, .glb, .gltf</p>
         </div>
-        <Button variant="outline" className={`mt-2 ${theme.button}`}>파일 선택</Button>
-        <p className={`text-xs ${isDarkMode ? "text-slate-500" : "text-slate-400"}`}>지원 형식: .ifc, .glb, .gltf</p>
-      </div>
-      <input id="file-input" type="file" accept=".ifc,.frag,.glb,.gltf" className="hidden" onChange={handleFileInput} />
-    </Card>
+        <input id="file-input" type="file" accept=".ifc,.frag,.glb,.gltf" className="hidden" onChange={handleFileInput} />
+      </Card>
+      {onOpenRecent && <RecentModels onOpen={onOpenRecent} isDarkMode={isDarkMode} />}
+    </div>
   );
 }
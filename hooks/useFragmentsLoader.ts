@@ -3,21 +3,7 @@
 import { useCallback, useRef, useState } from "react";
 import * as THREE from "three";
 import * as OBC from "@thatopen/components";
-import { MaterialItem, StoreyInfo, IFCSpatialNode, IFC_TYPE_NAMES } from "@/types/ifc";
-
-// IFC 타입 카테고리 매핑
-const TYPE_CATEGORIES: Record<number, string> = {
-  3512223829: "구조", // IfcWall
-  1281925730: "구조", // IfcWallStandardCase
-  2979338954: "구조", // IfcBeam
-  3649129432: "구조", // IfcColumn
-  3124254112: "구조", // IfcSlab
-  4278956645: "설비", // IfcFlowTerminal
-  3304561284: "개구부", // IfcWindow
-  395920057: "개구부",  // IfcDoor
-  1529196076: "마감", // IfcCovering
-  1509553395: "가구", // IfcFurnishingElement
-};
+import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
 
 export interface UseFragmentsLoaderReturn {
   isLoading: boolean;
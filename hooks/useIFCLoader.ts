@@ -2,15 +2,25 @@
 
 import { useState, useCallback, useRef } from "react";
 import * as THREE from "three";
-import { MaterialItem, StoreyInfo, IFCSpatialNode, ElementDimensions, IFC_TYPE_NAMES, IFC_SPATIAL_TYPES, IFCPropertyInfo } from "@/types/ifc";
-
-const TYPE_CATEGORIES: Record<number, string> = {
-  45: "구조", 46: "구조", 1529196076: "구조", 843113511: "구조",
-  753842376: "구조", 900683007: "구조",
-  395920057: "건축", 3304561284: "건축", 331165859: "건축",
-  2016517767: "건축", 2262370178: "건축", 1973544240: "건축",
-  263784265: "가구", 3171933400: "기타", 1073191201: "기타",
-};
+import { MaterialItem, StoreyInfo, IFCSpatialNode, ElementDimensions, ElementQuantities, ElementMaterialLayer, ElementOpenings, QuantityTotals, IFC_SPATIAL_TYPES, IFCPropertyInfo, IFCPropertySection, SelectionSummary, FederatedModelInfo } from "@/types/ifc";
+import { buildPropertyIndex, buildPropertyRecord, getElementMaterialLayers, getElementPropertySections, getElementQuantitySections, PropertyIndex, SectionCache } from "@/lib/ifc/propertyExtractor";
+import { computeGeometryQuantities, quantitiesFromQto, quantityForUnit, resolveElementQuantities, sumQuantities } from "@/lib/ifc/takeoff";
+import { IFCPropertyData, PropertyDB, PROPERTY_RECORD_VERSION } from "@/lib/ifc/propertyDB";
+import { streamPropertiesToDB } from "@/lib/ifc/propertyStreamer";
+import { computeModelId } from "@/lib/ifc/modelId";
+import { CachedMesh, CachedModelData, modelCache } from "@/lib/ifc/modelCache";
+import { applyTypeLabels, extractStoreys, getTypeName, parseSpatialStructure } from "@/lib/ifc/modelExtractor";
+import { getIfcEntityName, getIfcKoreanName, getIfcTypeInfo, IfcSchemaModule, loadIfcTypeRegistry, registerIfcSchema } from "@/lib/ifc/typeRegistry";
+import {
+  mergeMaterialLists, mergeSpatialTrees, mergeStoreysByElevation,
+  rekeyMaterials, rekeySpatialTree, rekeyStoreys, splitElementKey, toElementKey,
+} from "@/lib/ifc/federation";
+import { DiffElement, GeometrySignature, ModelDiffInput } from "@/lib/ifc/modelDiff";
+import { IdsElement, toIdsElement } from "@/lib/ifc/ids";
+import { buildMaterialLayerTakeoff, MaterialLayerTakeoff } from "@/lib/ifc/materialTakeoff";
+import { getLengthUnitScale } from "@/lib/ifc/units";
+import { collectElementOpenings, getOpeningHostKind, OpeningHost, rekeyElementOpenings } from "@/lib/ifc/openings";
+import { buildHealthReport, collectModelHealth, HealthElement, HealthLoadIssue, HealthReport, ModelHealthData, recordLoadIssue } from "@/lib/ifc/modelHealth";
 
 type IfcAPI = {
   Init(): Promise<void>;
@@ -18,7 +28,7 @@ type IfcAPI = {
   OpenModel(data: Uint8Array): number;
   CloseModel(modelID: number): void;
   GetLine(modelID: number, expressID: number, flatten?: boolean): unknown;
-  GetLineIDsWithType(modelID: number, type: number): { size(): number; get(index: number): number };
+  GetLineIDsWithType(modelID: number, type: number, includeInherited?: boolean): { size(): number; get(index: number): number };
   StreamAllMeshes(modelID: number, callback: (mesh: FlatMesh) => void): void;
   GetGeometry(modelID: number, geometryExpressID: number): IfcGeometry;
   GetVertexArray(ptr: number, size: number): Float32Array;
@@ -43,32 +53,73 @@ interface IfcGeometry {
   GetIndexDataSize(): number;
 }
 
-interface MeshBuildData {
-  expressID: number;
-  typeCode: number;
-  positions: Float32Array;
-  normals: Float32Array;
-  indices: Uint32Array;
-  color: { x: number; y: number; z: number; w: number };
-  transformation: number[];
+// append: 현재 모델을 유지하고 통합 모델에 추가
+interface LoadOptions {
+  append?: boolean;
 }
 
+// 로드/제거 결과는 모든 모델을 담은 루트 그룹 (자식 그룹 하나가 모델 하나, userData.modelSlot)
 interface UseIFCLoaderReturn {
   isLoading: boolean;
   loadingMessage: string;
   error: string | null;
   progress: number;
-  loadIFC: (file: File) => Promise<THREE.Group | null>;
+  loadIFC: (file: File, options?: LoadOptions) => Promise<THREE.Group | null>;
+  loadCachedModel: (modelId: string, options?: LoadOptions) => Promise<THREE.Group | null>;
+  removeModel: (slot: number) => THREE.Group | null;
+  getLoadedModels: () => FederatedModelInfo[];
   getElementsByType: (typeCode: number) => number[];
   getMaterialList: () => MaterialItem[];
   getStoreyList: () => StoreyInfo[];
   getSpatialTree: () => IFCSpatialNode | null;
+  getSelectionSummary: (expressIDs: number[]) => SelectionSummary | null;
+  getQuantityTotals: (expressIDs: number[]) => QuantityTotals;
+  getElementSections: (expressID: number) => Promise<IFCPropertySection[]>;
+  getElementRecords: (expressIDs: number[]) => Promise<IFCPropertyData[]>;
+  getModelId: () => string | null;
+  getGlobalIds: (expressIDs: number[]) => string[];
+  getExpressIDsByGlobalIds: (globalIds: string[]) => number[];
+  getModelDiffInput: (slot: number) => Promise<ModelDiffInput | null>;
+  getIdsElements: () => Promise<IdsElement[]>;
+  getModelHealth: () => Promise<HealthReport>;
+  getMaterialLayerTakeoff: (expressIDs?: number[]) => MaterialLayerTakeoff;
+  getOpeningHosts: () => { hosts: Map<number, OpeningHost>; incompleteModels: string[] };
   cleanup: () => void;
 }
 
+// 요소별 정보는 요소 키(모델 슬롯 + expressID) 기준
 const typeToExpressIDs = new Map<number, number[]>();
 const elementDimensions = new Map<number, ElementDimensions>();
 const elementProperties = new Map<number, IFCPropertyInfo>();
+const elementTypeCodes = new Map<number, number>();
+const elementNames = new Map<number, { name?: string; description?: string }>();
+const elementQuantities = new Map<number, ElementQuantities>();
+const elementGlobalIds = new Map<number, string>();
+const globalIdToExpressID = new Map<number, Map<string, number>>(); // 슬롯 → GlobalId → 요소 키 (버전·연결 모델은 GlobalId가 겹침)
+const elementGeometry = new Map<number, GeometrySignature>(); // 버전 비교용 형상 요약
+const elementMaterialLayers = new Map<number, ElementMaterialLayer[]>(); // 재료별 수량용 재료 구성
+const elementOpenings = new Map<number, ElementOpenings>(); // 벽·슬래브 개구부 (개구부 공제용)
+
+// 통합 모델에 로드된 모델별 상태 (Map 순서 = 로드 순서)
+interface LoadedModel extends FederatedModelInfo {
+  group: THREE.Group;
+  ifcModelID: number | null; // web-ifc에 열린 모델 (원본 없이 캐시로 복원하면 null)
+  propertyIndex: PropertyIndex | null;
+  propertyDB: PropertyDB;
+  propertyDBReady: boolean;
+  materials: MaterialItem[];
+  storeys: StoreyInfo[];
+  spatialTree: IFCSpatialNode | null;
+  health: ModelHealthData | null; // 로드 시 수집한 점검 자료 (이전 캐시로 복원하면 null)
+  hasMaterialLayers: boolean;     // 재료 구성 수집 여부 (이전 캐시로 복원하면 false)
+  hasOpenings: boolean;           // 개구부 수집 여부 (이전 캐시로 복원하면 false)
+}
+
+const loadedModels = new Map<number, LoadedModel>();
+let nextSlot = 0;
+let federationOffset: THREE.Vector3 | null = null; // 첫 모델의 중심 이동량 (모든 모델이 좌표를 공유)
+
+// 전체 모델을 합친 결과
 let cachedMaterials: MaterialItem[] = [];
 let cachedStoreys: StoreyInfo[] = [];
 let cachedSpatialTree: IFCSpatialNode | null = null;
@@ -78,28 +129,216 @@ const LARGE_FILE_THRESHOLD = 30;
 // 속성 분석 스킵 기준 (관계 개수)
 const PROPERTY_ANALYSIS_LIMIT = 10000;
 
-const getIfcName = (props: any): string => {
-  if (props.Name?.value) return props.Name.value;
-  if (props.LongName?.value) return props.LongName.value;
-  return `#${props.expressID}`;
+// 로드 결과 캐시 초기화
+const resetModelState = () => {
+  typeToExpressIDs.clear();
+  elementDimensions.clear();
+  elementProperties.clear();
+  elementTypeCodes.clear();
+  elementNames.clear();
+  elementQuantities.clear();
+  elementGlobalIds.clear();
+  globalIdToExpressID.clear();
+  elementGeometry.clear();
+  elementMaterialLayers.clear();
+  elementOpenings.clear();
+  loadedModels.forEach(model => model.propertyDB.close());
+  loadedModels.clear();
+  nextSlot = 0;
+  federationOffset = null;
+  cachedMaterials = [];
+  cachedStoreys = [];
+  cachedSpatialTree = null;
 };
 
-const getTypeName = (typeCode: number): string => {
-  switch (typeCode) {
-    case IFC_SPATIAL_TYPES.IFCPROJECT: return "IfcProject";
-    case IFC_SPATIAL_TYPES.IFCSITE: return "IfcSite";
-    case IFC_SPATIAL_TYPES.IFCBUILDING: return "IfcBuilding";
-    case IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY: return "IfcBuildingStorey";
-    case IFC_SPATIAL_TYPES.IFCSPACE: return "IfcSpace";
-    default: return IFC_TYPE_NAMES[typeCode] || `Type_${typeCode}`;
+// 모델 하나의 요소 정보 제거 (통합 모델에서 뺄 때)
+const removeModelState = (slot: number) => {
+  const inSlot = (key: number) => splitElementKey(key).slot === slot;
+  const elementMaps: Map<number, unknown>[] = [
+    elementDimensions, elementProperties, elementTypeCodes, elementNames, elementQuantities, elementGlobalIds, elementGeometry, elementMaterialLayers, elementOpenings,
+  ];
+  for (const map of elementMaps) {
+    for (const key of map.keys()) if (inSlot(key)) map.delete(key);
+  }
+  globalIdToExpressID.delete(slot);
+  for (const [typeCode, keys] of typeToExpressIDs) {
+    const rest = keys.filter(key => !inSlot(key));
+    if (rest.length > 0) typeToExpressIDs.set(typeCode, rest);
+    else typeToExpressIDs.delete(typeCode);
   }
 };
 
+// 모델별 자재/층/공간 트리 합치기 (층은 높이 기준)
+const rebuildFederation = () => {
+  const models = Array.from(loadedModels.values());
+  cachedMaterials = mergeMaterialLists(models.map(m => m.materials), ids => sumQuantities(ids, elementQuantities));
+  cachedStoreys = mergeStoreysByElevation(models.map(m => m.storeys));
+  cachedSpatialTree = mergeSpatialTrees(models.map(m => ({ name: m.name, tree: m.spatialTree })));
+};
+
+// 모든 모델 그룹을 담은 새 루트 (씬이 모델 변경을 감지하도록 매번 새로 만듦)
+const buildFederationRoot = (): THREE.Group => {
+  const root = new THREE.Group();
+  const models = Array.from(loadedModels.values());
+  root.name = models.map(m => m.name).join(" + ");
+  if (federationOffset) root.position.copy(federationOffset);
+  models.forEach(model => root.add(model.group));
+  return root;
+};
+
+// 통합 모델에 추가 (첫 모델이면 그 중심을 원점으로)
+const registerModel = (model: LoadedModel): THREE.Group => {
+  model.group.userData.modelSlot = model.slot;
+  if (!federationOffset) federationOffset = getCenterOffset(model.group);
+  loadedModels.set(model.slot, model);
+  rebuildFederation();
+  return buildFederationRoot();
+};
+
+// 속성 DB 레코드의 expressID를 요소 키로
+const toKeyedRecord = (slot: number, record: IFCPropertyData): IFCPropertyData => {
+  if (slot === 0) return record;
+  const key = (id: number) => toElementKey(slot, id);
+  const { containedIn, contains } = record.relationships;
+  return {
+    ...record,
+    expressID: key(record.expressID),
+    relationships: {
+      containedIn: containedIn !== undefined ? key(containedIn) : undefined,
+      contains: contains?.map(key),
+    },
+  };
+};
+
+// 지오메트리 데이터로 Three.js 메시 그룹 생성 (청크 처리, 요소 치수 계산 포함)
+const buildMeshGroup = async (
+  meshBuildDataList: CachedMesh[],
+  name: string,
+  slot: number,
+  isLargeFile: boolean,
+  onProgress: (done: number, total: number) => void
+): Promise<THREE.Group> => {
+  const materialCache = new Map<string, THREE.MeshLambertMaterial>();
+  const getMaterial = (r: number, g: number, b: number, a: number) => {
+    const key = `${r.toFixed(2)}_${g.toFixed(2)}_${b.toFixed(2)}_${a.toFixed(2)}`;
+    if (!materialCache.has(key)) {
+      materialCache.set(key, new THREE.MeshLambertMaterial({
+        color: new THREE.Color(r, g, b),
+        transparent: a < 1,
+        opacity: a,
+        side: THREE.DoubleSide,
+      }));
+    }
+    return materialCache.get(key)!;
+  };
+
+  const group = new THREE.Group();
+  group.name = name;
+  
+  const totalMeshes = meshBuildDataList.length;
+  const chunkSize = isLargeFile ? 30 : 100; // 대용량일 때 더 작은 청크
+  
+  for (let i = 0; i < totalMeshes; i += chunkSize) {
+    const end = Math.min(i + chunkSize, totalMeshes);
+    
+    for (let j = i; j < end; j++) {
+      const data = meshBuildDataList[j];
+      const key = toElementKey(slot, data.expressID);
+      
+      const bufferGeo = new THREE.BufferGeometry();
+      bufferGeo.setAttribute("position", new THREE.BufferAttribute(data.positions, 3));
+      bufferGeo.setAttribute("normal", new THREE.BufferAttribute(data.normals, 3));
+      bufferGeo.setIndex(new THREE.BufferAttribute(data.indices, 1));
+
+      const material = getMaterial(data.color.x, data.color.y, data.color.z, data.color.w);
+      const mesh = new THREE.Mesh(bufferGeo, material);
+      
+      const matrix = new THREE.Matrix4();
+      matrix.fromArray(data.transformation);
+      mesh.applyMatrix4(matrix);
+      
+      mesh.userData.expressID = key;
+      mesh.userData.typeCode = data.typeCode;
+
+      bufferGeo.computeBoundingBox();
+      if (bufferGeo.boundingBox) {
+        const box = bufferGeo.boundingBox.clone();
+        box.applyMatrix4(matrix);
+        const size = box.getSize(new THREE.Vector3());
+        const dims = [size.x, size.y, size.z].sort((a, b) => b - a);
+        const area = dims[0] * dims[1];
+        
+        addGeometrySignature(key, box, data.positions.length / 3, data.indices.length / 3);
+
+        const existing = elementDimensions.get(key);
+        if (existing) {
+          elementDimensions.set(key, {
+            width: Math.max(existing.width, Math.round(size.x * 1000)),
+            height: Math.max(existing.height, Math.round(size.y * 1000)),
+            depth: Math.max(existing.depth, Math.round(size.z * 1000)),
+            area: (existing.area || 0) + area,
+          });
+        } else {
+          elementDimensions.set(key, {
+            width: Math.round(size.x * 1000),
+            height: Math.round(size.y * 1000),
+            depth: Math.round(size.z * 1000),
+            area,
+          });
+        }
+      }
+
+      group.add(mesh);
+    }
+
+    // UI 업데이트 + 브라우저 제어권 양보 (대용량일 때 더 자주)
+    onProgress(end, totalMeshes);
+    await new Promise(resolve => setTimeout(resolve, isLargeFile ? 10 : 0));
+  }
+
+  return group;
+};
+
+// 요소 형상 요약에 메시 하나 추가 (경계 상자는 모델 좌표, 요소의 메시 전체를 합침)
+const addGeometrySignature = (key: number, box: THREE.Box3, vertexCount: number, triangleCount: number) => {
+  const existing = elementGeometry.get(key);
+  if (!existing) {
+    elementGeometry.set(key, { min: box.min.toArray(), max: box.max.toArray(), vertexCount, triangleCount });
+    return;
+  }
+  for (let axis = 0; axis < 3; axis++) {
+    existing.min[axis] = Math.min(existing.min[axis], box.min.getComponent(axis));
+    existing.max[axis] = Math.max(existing.max[axis], box.max.getComponent(axis));
+  }
+  existing.vertexCount += vertexCount;
+  existing.triangleCount += triangleCount;
+};
+
+// GlobalId ↔ expressID 매핑 등록 (BCF 등 외부 도구와 요소 연결용)
+const registerGlobalId = (expressID: number, globalId: string | undefined) => {
+  if (!globalId) return;
+  elementGlobalIds.set(expressID, globalId);
+  const { slot } = splitElementKey(expressID);
+  let slotIds = globalIdToExpressID.get(slot);
+  if (!slotIds) {
+    slotIds = new Map();
+    globalIdToExpressID.set(slot, slotIds);
+  }
+  slotIds.set(globalId, expressID);
+};
+
+// 모델 중심을 원점으로 옮기는 이동량
+const getCenterOffset = (group: THREE.Group): THREE.Vector3 => {
+  if (group.children.length === 0) return new THREE.Vector3();
+  const box = new THREE.Box3().setFromObject(group);
+  return box.getCenter(new THREE.Vector3()).negate();
+};
+
 const buildSpecFromProperties = (props: IFCPropertyInfo, typeCode: number): string => {
   const parts: string[] = [];
   
   if (props.isExternal !== undefined) {
-    const typeName = IFC_TYPE_NAMES[typeCode] || "";
+    const typeName = getIfcKoreanName(typeCode);
     if (typeName === "벽" || typeName.includes("벽")) {
       parts.push(props.isExternal ? "외벽" : "내벽");
     } else if (typeName === "슬라브" || typeName === "바닥") {
@@ -127,134 +366,187 @@ export function useIFCLoader(): UseIFCLoaderReturn {
   const [progress, setProgress] = useState(0);
 
   const ifcApiRef = useRef<IfcAPI | null>(null);
-  const modelIDRef = useRef<number | null>(null);
 
-  const parseSpatialStructure = useCallback((ifcApi: IfcAPI, modelID: number): IFCSpatialNode | null => {
-    try {
-      const aggregatesMap = new Map<number, number[]>();
-      const aggregatesIds = ifcApi.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCRELAGGREGATES);
-      
-      for (let i = 0; i < aggregatesIds.size(); i++) {
-        const relId = aggregatesIds.get(i);
-        try {
-          const rel = ifcApi.GetLine(modelID, relId, false) as any;
-          const parentId = rel.RelatingObject?.value;
-          const relatedObjects = rel.RelatedObjects;
-          
-          if (parentId && relatedObjects) {
-            const children: number[] = [];
-            for (let j = 0; j < relatedObjects.length; j++) {
-              if (relatedObjects[j]?.value) children.push(relatedObjects[j].value);
-            }
-            const existing = aggregatesMap.get(parentId) || [];
-            aggregatesMap.set(parentId, [...existing, ...children]);
-          }
-        } catch {}
-      }
-
-      const containsMap = new Map<number, number[]>();
-      const containsIds = ifcApi.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCRELCONTAINEDINSPATIALSTRUCTURE);
-      
-      for (let i = 0; i < containsIds.size(); i++) {
-        const relId = containsIds.get(i);
-        try {
-          const rel = ifcApi.GetLine(modelID, relId, false) as any;
-          const spatialId = rel.RelatingStructure?.value;
-          const relatedElements = rel.RelatedElements;
-          
-          if (spatialId && relatedElements) {
-            const elements: number[] = [];
-            for (let j = 0; j < relatedElements.length; j++) {
-              if (relatedElements[j]?.value) elements.push(relatedElements[j].value);
-            }
-            const existing = containsMap.get(spatialId) || [];
-            containsMap.set(spatialId, [...existing, ...elements]);
-          }
-        } catch {}
+  // 열려 있는 web-ifc 모델을 모두 닫고 모델 상태 초기화
+  const closeAllModels = useCallback(() => {
+    const ifcApi = ifcApiRef.current;
+    loadedModels.forEach(({ ifcModelID }) => {
+      if (ifcApi && ifcModelID !== null) {
+        try { ifcApi.CloseModel(ifcModelID); } catch {}
       }
+    });
+    resetModelState();
+  }, []);
 
-      const projectIds = ifcApi.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCPROJECT);
-      if (projectIds.size() === 0) return null;
-
-      const buildNode = (expressID: number): IFCSpatialNode => {
-        let name = `#${expressID}`;
-        let typeCode = 0;
-        
-        try {
-          const props = ifcApi.GetLine(modelID, expressID, false) as any;
-          name = getIfcName(props);
-          typeCode = props.type || 0;
-        } catch {}
-
-        return {
-          expressID,
-          name,
-          type: getTypeName(typeCode),
-          typeCode,
-          children: (aggregatesMap.get(expressID) || []).map(id => buildNode(id)),
-          elements: containsMap.get(expressID) || [],
-        };
-      };
-
-      return buildNode(projectIds.get(0));
-    } catch {
-      return null;
+  // web-ifc 초기화 (최초 1회, 통합 모델은 같은 API에 여러 모델을 엶)
+  const initIfcApi = useCallback(async (): Promise<IfcAPI> => {
+    let ifcApi = ifcApiRef.current;
+    if (!ifcApi) {
+      const WebIFC = await import("web-ifc");
+      registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
+      ifcApi = new WebIFC.IfcAPI() as unknown as IfcAPI;
+      ifcApi.SetWasmPath("/wasm/");
+      await ifcApi.Init();
+      ifcApiRef.current = ifcApi;
     }
+    return ifcApi;
   }, []);
 
-  const loadIFC = useCallback(async (file: File): Promise<THREE.Group | null> => {
+  // 로드 시작 (append가 아니면 기존 모델 정리) → 새 모델 슬롯
+  const beginLoad = useCallback((append: boolean): number => {
     setIsLoading(true);
     setError(null);
     setProgress(5);
-    setLoadingMessage("라이브러리 로딩...");
-    
-    // 캐시 초기화
-    typeToExpressIDs.clear();
-    elementDimensions.clear();
-    elementProperties.clear();
-    cachedMaterials = [];
-    cachedStoreys = [];
-    cachedSpatialTree = null;
+    if (!append) closeAllModels();
+    return nextSlot++;
+  }, [closeAllModels]);
 
-    try {
-      const WebIFC = await import("web-ifc");
+  // 로드 실패 시 추가하던 모델의 요소 정보만 정리
+  const failLoad = useCallback((slot: number, err: unknown, fallback: string) => {
+    removeModelState(slot);
+    if (loadedModels.size === 0) resetModelState();
+    setError(err instanceof Error ? err.message : fallback);
+    setIsLoading(false);
+  }, []);
 
-      setProgress(10);
-      setLoadingMessage("WASM 초기화...");
-      
-      let ifcApi = ifcApiRef.current;
-      if (!ifcApi) {
-        ifcApi = new WebIFC.IfcAPI() as unknown as IfcAPI;
-        ifcApi.SetWasmPath("/wasm/");
-        await ifcApi.Init();
-        ifcApiRef.current = ifcApi;
+  // 캐시된 파싱 결과로 모델 복원 (OpenModel/StreamAllMeshes 생략)
+  // 속성 DB가 없으면 원본 파일이 있을 때만 모델을 열어 다시 저장
+  const restoreCachedModel = useCallback(async (
+    cached: CachedModelData,
+    name: string,
+    slot: number,
+    fileData?: ArrayBuffer
+  ): Promise<THREE.Group> => {
+    setProgress(30);
+    setLoadingMessage("캐시에서 모델 복원 중...");
+    await loadIfcTypeRegistry();
+
+    const key = (expressID: number) => toElementKey(slot, expressID);
+    let hasMaterialLayers = false;
+    let hasOpenings = false;
+    for (const { expressID, typeCode, globalId, name: elementName, description, quantities, materialLayers, openings } of cached.elements) {
+      if (quantities) elementQuantities.set(key(expressID), quantities);
+      if (materialLayers) {
+        elementMaterialLayers.set(key(expressID), materialLayers);
+        hasMaterialLayers = true;
+      }
+      if (openings) {
+        elementOpenings.set(key(expressID), rekeyElementOpenings(openings, key));
+        hasOpenings = true;
       }
+      registerGlobalId(key(expressID), globalId);
+      const existing = typeToExpressIDs.get(typeCode) || [];
+      existing.push(key(expressID));
+      typeToExpressIDs.set(typeCode, existing);
+      elementTypeCodes.set(key(expressID), typeCode);
+      elementNames.set(key(expressID), { name: elementName, description });
+    }
 
-      setProgress(15);
-      setLoadingMessage("파일 읽는 중...");
-      
-      if (modelIDRef.current !== null) {
-        try { ifcApi.CloseModel(modelIDRef.current); } catch {}
+    const totalBytes = cached.meshes.reduce((sum, m) => sum + m.positions.byteLength, 0);
+    const group = await buildMeshGroup(cached.meshes, name, slot, totalBytes / 1024 / 1024 > LARGE_FILE_THRESHOLD, (done, total) => {
+      setProgress(30 + Math.floor((done / total) * 55));
+      setLoadingMessage(`3D 메시 생성 중... (${done}/${total})`);
+    });
+
+    const model: LoadedModel = {
+      slot,
+      modelId: cached.modelId,
+      name,
+      elementCount: cached.elements.length,
+      group,
+      ifcModelID: null,
+      propertyIndex: null,
+      propertyDB: new PropertyDB(),
+      propertyDBReady: false,
+      materials: applyTypeLabels(rekeyMaterials(cached.materials, key)), // 이전 캐시의 "타입 123" 등도 현재 레지스트리 이름으로
+      storeys: rekeyStoreys(cached.storeys, slot),
+      spatialTree: cached.spatialTree && rekeySpatialTree(cached.spatialTree, key),
+      health: cached.health ?? null,
+      hasMaterialLayers,
+      hasOpenings,
+    };
+
+    setProgress(88);
+    setLoadingMessage("속성 DB 확인 중...");
+    try {
+      await model.propertyDB.init(cached.modelId);
+      // 원본 파일이 없으면 이전 버전 DB라도 그대로 사용
+      const status = await model.propertyDB.getStatus();
+      model.propertyDBReady = !!status?.complete;
+      if ((!model.propertyDBReady || status?.version !== PROPERTY_RECORD_VERSION) && fileData) {
+        const ifcApi = await initIfcApi();
+        const modelID = ifcApi.OpenModel(new Uint8Array(fileData));
+        model.ifcModelID = modelID;
+        await streamPropertiesToDB(
+          ifcApi, modelID, cached.modelId,
+          cached.elements.map(({ expressID }) => expressID),
+          cached.spatialTree,
+          {
+            db: model.propertyDB,
+            onProgress: (stored, total) => {
+              setProgress(88 + Math.floor((stored / Math.max(total, 1)) * 9));
+              setLoadingMessage(`속성 DB 저장 중... (${stored}/${total})`);
+            },
+          }
+        );
+        model.propertyDBReady = true;
       }
+    } catch (e) {
+      console.warn("속성 DB 복원 실패:", e);
+    }
 
+    setProgress(97);
+    setLoadingMessage("모델 정렬 중...");
+    return registerModel(model);
+  }, [initIfcApi]);
+
+  const loadIFC = useCallback(async (file: File, { append = false }: LoadOptions = {}): Promise<THREE.Group | null> => {
+    const slot = beginLoad(append);
+    setLoadingMessage("파일 읽는 중...");
+
+    try {
       const data = await file.arrayBuffer();
       const fileSizeMB = data.byteLength / 1024 / 1024;
       const isLargeFile = fileSizeMB > LARGE_FILE_THRESHOLD;
       
       console.log(`📁 파일: ${file.name}, 크기: ${fileSizeMB.toFixed(2)}MB, 대용량: ${isLargeFile}`);
+
+      const modelKey = await computeModelId(data);
+      if (Array.from(loadedModels.values()).some(m => m.modelId === modelKey)) {
+        throw new Error("이미 불러온 모델입니다");
+      }
+
+      // 같은 내용의 파일을 파싱한 적이 있으면 캐시에서 복원
+      const cached = await modelCache.load(modelKey).catch(() => null);
+      if (cached) {
+        console.log(`💾 캐시 적중: ${cached.entry.fileName}`);
+        const root = await restoreCachedModel(cached.data, file.name, slot, data);
+        setProgress(100);
+        setLoadingMessage("완료!");
+        setIsLoading(false);
+        return root;
+      }
+
+      setProgress(10);
+      setLoadingMessage("WASM 초기화...");
+      
+      const ifcApi = await initIfcApi();
       
       setProgress(20);
       setLoadingMessage("모델 파싱 중...");
       
       const modelID = ifcApi.OpenModel(new Uint8Array(data));
-      modelIDRef.current = modelID;
+      const key = (expressID: number) => toElementKey(slot, expressID);
+      const propertyDB = new PropertyDB();
+      let propertyDBReady = false;
 
       // ========== 1단계: 지오메트리 데이터 수집 ==========
       setProgress(25);
       setLoadingMessage("지오메트리 수집 중...");
       
-      const meshBuildDataList: MeshBuildData[] = [];
+      const meshBuildDataList: CachedMesh[] = [];
       const tempTypeData: { expressID: number; typeCode: number }[] = [];
+      const loadIssues: HealthLoadIssue[] = []; // 읽지 못한 라인 (모델 점검에 표시)
 
       ifcApi.StreamAllMeshes(modelID, (flatMesh) => {
         const expressID = flatMesh.expressID;
@@ -263,7 +555,14 @@ export function useIFCLoader(): UseIFCLoaderReturn {
         try {
           const props = ifcApi!.GetLine(modelID, expressID, false) as any;
           typeCode = props.type || 0;
-        } catch {}
+          registerGlobalId(key(expressID), props.GlobalId?.value);
+          elementNames.set(key(expressID), {
+            name: props.Name?.value || undefined,
+            description: props.Description?.value || undefined,
+          });
+        } catch (e) {
+          recordLoadIssue(loadIssues, "요소 속성", e, expressID);
+        }
 
         tempTypeData.push({ expressID, typeCode });
 
@@ -309,84 +608,10 @@ export function useIFCLoader(): UseIFCLoaderReturn {
       // ========== 2단계: Three.js 메시 생성 (청크 처리) ==========
       setProgress(35);
       
-      const materialCache = new Map<string, THREE.MeshLambertMaterial>();
-      const getMaterial = (r: number, g: number, b: number, a: number) => {
-        const key = `${r.toFixed(2)}_${g.toFixed(2)}_${b.toFixed(2)}_${a.toFixed(2)}`;
-        if (!materialCache.has(key)) {
-          materialCache.set(key, new THREE.MeshLambertMaterial({
-            color: new THREE.Color(r, g, b),
-            transparent: a < 1,
-            opacity: a,
-            side: THREE.DoubleSide,
-          }));
-        }
-        return materialCache.get(key)!;
-      };
-
-      const group = new THREE.Group();
-      group.name = file.name;
-      
-      const totalMeshes = meshBuildDataList.length;
-      const chunkSize = isLargeFile ? 30 : 100; // 대용량일 때 더 작은 청크
-      
-      for (let i = 0; i < totalMeshes; i += chunkSize) {
-        const end = Math.min(i + chunkSize, totalMeshes);
-        
-        for (let j = i; j < end; j++) {
-          const data = meshBuildDataList[j];
-          
-          const bufferGeo = new THREE.BufferGeometry();
-          bufferGeo.setAttribute("position", new THREE.BufferAttribute(data.positions, 3));
-          bufferGeo.setAttribute("normal", new THREE.BufferAttribute(data.normals, 3));
-          bufferGeo.setIndex(new THREE.BufferAttribute(data.indices, 1));
-
-          const material = getMaterial(data.color.x, data.color.y, data.color.z, data.color.w);
-          const mesh = new THREE.Mesh(bufferGeo, material);
-          
-          const matrix = new THREE.Matrix4();
-          matrix.fromArray(data.transformation);
-          mesh.applyMatrix4(matrix);
-          
-          mesh.userData.expressID = data.expressID;
-          mesh.userData.typeCode = data.typeCode;
-
-          bufferGeo.computeBoundingBox();
-          if (bufferGeo.boundingBox) {
-            const box = bufferGeo.boundingBox.clone();
-            box.applyMatrix4(matrix);
-            const size = box.getSize(new THREE.Vector3());
-            const dims = [size.x, size.y, size.z].sort((a, b) => b - a);
-            const area = dims[0] * dims[1];
-            
-            const existing = elementDimensions.get(data.expressID);
-            if (existing) {
-              elementDimensions.set(data.expressID, {
-                width: Math.max(existing.width, Math.round(size.x * 1000)),
-                height: Math.max(existing.height, Math.round(size.y * 1000)),
-                depth: Math.max(existing.depth, Math.round(size.z * 1000)),
-                area: (existing.area || 0) + area,
-              });
-            } else {
-              elementDimensions.set(data.expressID, {
-                width: Math.round(size.x * 1000),
-                height: Math.round(size.y * 1000),
-                depth: Math.round(size.z * 1000),
-                area,
-              });
-            }
-          }
-
-          group.add(mesh);
-        }
-
-        // UI 업데이트 + 브라우저 제어권 양보
-        const meshProgress = 35 + Math.floor((end / totalMeshes) * 35);
-        setProgress(meshProgress);
-        setLoadingMessage(`3D 메시 생성 중... (${end}/${totalMeshes})`);
-        
-        // 브라우저에 제어권 양보 (대용량일 때 더 자주)
-        await new Promise(resolve => setTimeout(resolve, isLargeFile ? 10 : 0));
-      }
+      const group = await buildMeshGroup(meshBuildDataList, file.name, slot, isLargeFile, (done, total) => {
+        setProgress(35 + Math.floor((done / total) * 35));
+        setLoadingMessage(`3D 메시 생성 중... (${done}/${total})`);
+      });
 
       console.log(`✅ 메시 생성 완료: ${group.children.length}개`);
 
@@ -442,11 +667,13 @@ export function useIFCLoader(): UseIFCLoaderReturn {
               for (const relObj of relatedObjects) {
                 const expressID = typeof relObj === 'number' ? relObj : relObj?.expressID;
                 if (!expressID) continue;
-                const existing = elementProperties.get(expressID) || {};
-                elementProperties.set(expressID, { ...existing, ...propInfo });
+                const existing = elementProperties.get(key(expressID)) || {};
+                elementProperties.set(key(expressID), { ...existing, ...propInfo });
               }
             }
-          } catch {}
+          } catch (e) {
+            recordLoadIssue(loadIssues, "속성 관계", e, relDefinesIds.get(i));
+          }
           
           // 1000개마다 UI 업데이트
           if (i % 1000 === 0) {
@@ -455,34 +682,97 @@ export function useIFCLoader(): UseIFCLoaderReturn {
           }
         }
         
-        console.log(`📋 속성 추출 완료: ${elementProperties.size}개`);
+        console.log(`📋 속성 추출 완료: ${limit}개 관계`);
       }
 
       // ========== 4단계: 공간 구조 분석 ==========
       setProgress(85);
       setLoadingMessage("공간 구조 분석 중...");
 
-      cachedSpatialTree = parseSpatialStructure(ifcApi, modelID);
-
-      if (cachedSpatialTree) {
-        const extractStoreys = (node: IFCSpatialNode): StoreyInfo[] => {
-          const storeys: StoreyInfo[] = [];
-          if (node.typeCode === IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY) {
-            storeys.push({
-              id: `storey_${node.expressID}`,
-              name: node.name,
-              elevation: 0,
-              expressIDs: node.elements,
-            });
-          }
-          for (const child of node.children) {
-            storeys.push(...extractStoreys(child));
+      // 캐시에는 파일의 expressID 그대로 저장, 통합 모델에는 요소 키로 변환해서 등록
+      const spatialTree = parseSpatialStructure(ifcApi, modelID);
+      const storeys = extractStoreys(ifcApi, modelID, spatialTree);
+      console.log(`🏢 층 정보: ${storeys.length}개`);
+
+      // 모델 점검 자료 (공간 구조 누락, 형상 없는 요소, 읽기 오류)
+      let health: ModelHealthData | null = null;
+      try {
+        health = collectModelHealth(ifcApi, modelID, tempTypeData.map(({ expressID }) => expressID), spatialTree, loadIssues);
+        console.log(`🩺 점검 자료: 요소 ${health.productCount}개, 공간 구조 누락 ${health.uncontained.length}개, 형상 없음 ${health.withoutGeometry.length}개, 읽기 오류 ${loadIssues.length}건`);
+      } catch (e) {
+        console.warn("모델 점검 자료 수집 실패:", e);
+      }
+
+      // ========== 4-1단계: 속성 DB 저장 ==========
+      // 요소 속성/Pset/포함 관계를 IndexedDB에 저장 (같은 파일은 이전 저장분 재사용)
+      setProgress(88);
+      setLoadingMessage("속성 DB 저장 중...");
+
+      try {
+        const result = await streamPropertiesToDB(
+          ifcApi, modelID, modelKey,
+          tempTypeData.map(({ expressID }) => expressID),
+          spatialTree,
+          {
+            db: propertyDB,
+            onProgress: (stored, total) => {
+              setProgress(88 + Math.floor((stored / Math.max(total, 1)) * 4));
+              setLoadingMessage(`속성 DB 저장 중... (${stored}/${total})`);
+            },
           }
-          return storeys;
-        };
-        cachedStoreys = extractStoreys(cachedSpatialTree);
-        console.log(`🏢 층 정보: ${cachedStoreys.length}개`);
+        );
+        propertyDBReady = true;
+        console.log(`🗄️ 속성 DB: ${result.count}개 ${result.reused ? "(재사용)" : "저장"}`);
+      } catch (e) {
+        console.warn("속성 DB 저장 실패, 직접 조회로 대체:", e);
+      }
+
+      // ========== 4-2단계: 수량 산출 ==========
+      // IfcElementQuantity 값 우선, 없으면 메시에서 면적/체적/길이 계산
+      setProgress(90);
+      setLoadingMessage("수량 산출 중...");
+
+      const propertyIndex = buildPropertyIndex(ifcApi, modelID);
+      const meshesByElement = new Map<number, CachedMesh[]>();
+      for (const mesh of meshBuildDataList) {
+        const list = meshesByElement.get(mesh.expressID) || [];
+        list.push(mesh);
+        meshesByElement.set(mesh.expressID, list);
+      }
+
+      const qtoCache: SectionCache = new Map();
+      let takeoffCount = 0;
+      for (const [expressID, meshes] of meshesByElement) {
+        const qto = quantitiesFromQto(getElementQuantitySections(ifcApi, modelID, propertyIndex, expressID, qtoCache));
+        elementQuantities.set(key(expressID), resolveElementQuantities(qto, computeGeometryQuantities(meshes)));
+
+        if (++takeoffCount % 1000 === 0) {
+          setLoadingMessage(`수량 산출 중... (${takeoffCount}/${meshesByElement.size})`);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      console.log(`📐 수량 산출: ${meshesByElement.size}개 요소`);
+
+      // 재료 구성 (레이어·프로파일·구성 세트, 같은 재료 정의는 한 번만 해석)
+      const lengthScale = getLengthUnitScale(ifcApi, modelID);
+      const materialLayerCache = new Map<number, ElementMaterialLayer[]>();
+      for (const { expressID } of tempTypeData) {
+        try {
+          elementMaterialLayers.set(key(expressID), getElementMaterialLayers(ifcApi, modelID, propertyIndex, expressID, lengthScale, materialLayerCache));
+        } catch (e) {
+          console.warn(`재료 구성 추출 실패 (#${expressID}):`, e);
+          elementMaterialLayers.set(key(expressID), []);
+        }
+      }
+      console.log(`🧱 재료 구성: ${materialLayerCache.size}개 재료 정의`);
+
+      // 벽·슬래브 개구부 (개구부가 없는 벽·슬래브도 빈 목록으로 기록, 읽기 오류는 점검 자료 loadIssues에 추가)
+      const openingsByHost = collectElementOpenings(ifcApi, modelID, propertyIndex, loadIssues, qtoCache);
+      for (const { expressID, typeCode } of tempTypeData) {
+        if (!getOpeningHostKind(typeCode)) continue;
+        elementOpenings.set(key(expressID), rekeyElementOpenings(openingsByHost.get(expressID) ?? { openings: [] }, key));
       }
+      console.log(`🚪 개구부: ${openingsByHost.size}개 요소`);
 
       // ========== 5단계: 자재 목록 생성 ==========
       setProgress(92);
@@ -490,8 +780,9 @@ export function useIFCLoader(): UseIFCLoaderReturn {
 
       for (const { expressID, typeCode } of tempTypeData) {
         const existing = typeToExpressIDs.get(typeCode) || [];
-        existing.push(expressID);
+        existing.push(key(expressID));
         typeToExpressIDs.set(typeCode, existing);
+        elementTypeCodes.set(key(expressID), typeCode);
       }
 
       const getSpecFromElement = (expressID: number, typeCode: number): string => {
@@ -509,75 +800,163 @@ export function useIFCLoader(): UseIFCLoaderReturn {
       };
 
       const materialMap = new Map<string, { 
-        typeCode: number; spec: string; dimensions: ElementDimensions;
-        totalArea: number; expressIDs: number[] 
+        typeCode: number; spec: string; dimensions: ElementDimensions; expressIDs: number[] 
       }>();
 
       for (const { expressID, typeCode } of tempTypeData) {
-        const dim = elementDimensions.get(expressID);
+        const elementKey = key(expressID);
+        const dim = elementDimensions.get(elementKey);
         if (!dim) continue;
         
-        const spec = getSpecFromElement(expressID, typeCode);
-        const key = `${typeCode}_${spec}`;
+        const spec = getSpecFromElement(elementKey, typeCode);
+        const materialKey = `${typeCode}_${spec}`;
         
-        const existing = materialMap.get(key);
+        const existing = materialMap.get(materialKey);
         if (existing) {
-          existing.expressIDs.push(expressID);
-          existing.totalArea += dim.area || 0;
+          existing.expressIDs.push(elementKey);
         } else {
-          materialMap.set(key, {
-            typeCode, spec, dimensions: dim,
-            totalArea: dim.area || 0, expressIDs: [expressID],
-          });
+          materialMap.set(materialKey, { typeCode, spec, dimensions: dim, expressIDs: [elementKey] });
         }
       }
 
-      materialMap.forEach((data, key) => {
-        cachedMaterials.push({
-          id: key,
+      const materials: MaterialItem[] = [];
+      materialMap.forEach((data, materialKey) => {
+        const { koreanName: typeName, category, unit } = getIfcTypeInfo(data.typeCode);
+        const totals = sumQuantities(data.expressIDs, elementQuantities);
+        materials.push({
+          id: materialKey,
           typeCode: data.typeCode,
-          typeName: IFC_TYPE_NAMES[data.typeCode] || `타입 ${data.typeCode}`,
-          category: TYPE_CATEGORIES[data.typeCode] || "기타",
+          typeName,
+          category,
           spec: data.spec,
           count: data.expressIDs.length,
-          unit: "개",
-          totalArea: data.totalArea,
+          unit,
+          quantity: quantityForUnit(totals, unit),
+          totalArea: totals.area,
+          totalVolume: totals.volume,
+          totalLength: totals.length,
           expressIDs: data.expressIDs,
           dimensions: data.dimensions,
         });
       });
       
-      cachedMaterials.sort((a, b) => 
+      materials.sort((a, b) => 
         a.category.localeCompare(b.category) || 
         a.typeName.localeCompare(b.typeName) ||
         a.spec.localeCompare(b.spec)
       );
 
-      // ========== 6단계: 모델 정렬 ==========
+      // ========== 6단계: 파싱 결과 캐시 저장 ==========
+      setProgress(95);
+      setLoadingMessage("모델 캐시 저장 중...");
+
+      try {
+        await modelCache.save({
+          modelId: modelKey,
+          meshes: meshBuildDataList,
+          elements: tempTypeData.map(({ expressID, typeCode }) => {
+            const openings = elementOpenings.get(key(expressID));
+            return {
+              expressID, typeCode, globalId: elementGlobalIds.get(key(expressID)),
+              ...elementNames.get(key(expressID)), quantities: elementQuantities.get(key(expressID)),
+              materialLayers: elementMaterialLayers.get(key(expressID)),
+              openings: openings && rekeyElementOpenings(openings, id => splitElementKey(id).expressID),
+            };
+          }),
+          materials: rekeyMaterials(materials, id => splitElementKey(id).expressID),
+          storeys,
+          spatialTree,
+          health: health ?? undefined,
+        }, file);
+      } catch (e) {
+        console.warn("모델 캐시 저장 실패:", e);
+      }
+
+      // ========== 7단계: 통합 모델에 등록 (첫 모델 중심 기준 정렬) ==========
       setProgress(97);
       setLoadingMessage("모델 정렬 중...");
 
-      if (group.children.length > 0) {
-        const box = new THREE.Box3().setFromObject(group);
-        const center = box.getCenter(new THREE.Vector3());
-        group.position.set(-center.x, -center.y, -center.z);
-      }
+      const root = registerModel({
+        slot,
+        modelId: modelKey,
+        name: file.name,
+        elementCount: tempTypeData.length,
+        group,
+        ifcModelID: modelID,
+        propertyIndex,
+        propertyDB,
+        propertyDBReady,
+        materials,
+        storeys: rekeyStoreys(storeys, slot),
+        spatialTree: spatialTree && rekeySpatialTree(spatialTree, key),
+        health,
+        hasMaterialLayers: true,
+        hasOpenings: true,
+      });
 
       setProgress(100);
       setLoadingMessage("완료!");
       
-      console.log(`🎉 로드 완료: ${group.children.length} 메시, ${cachedMaterials.length} 자재, ${cachedStoreys.length} 층`);
+      console.log(`🎉 로드 완료: ${group.children.length} 메시, ${materials.length} 자재, ${storeys.length} 층 (통합 모델 ${loadedModels.size}개)`);
       
       setIsLoading(false);
-      return group;
+      return root;
       
     } catch (err) {
       console.error("IFC 로드 에러:", err);
-      setError(err instanceof Error ? err.message : "IFC 로드 실패");
+      failLoad(slot, err, "IFC 로드 실패");
+      return null;
+    }
+  }, [beginLoad, failLoad, initIfcApi, restoreCachedModel]);
+
+  // 최근 모델 목록에서 열기 (원본 파일 없이 캐시만으로 복원)
+  const loadCachedModel = useCallback(async (modelId: string, { append = false }: LoadOptions = {}): Promise<THREE.Group | null> => {
+    const slot = beginLoad(append);
+    setLoadingMessage("캐시 읽는 중...");
+
+    try {
+      if (Array.from(loadedModels.values()).some(m => m.modelId === modelId)) {
+        throw new Error("이미 불러온 모델입니다");
+      }
+      const cached = await modelCache.load(modelId);
+      if (!cached) throw new Error("캐시된 모델을 찾을 수 없습니다");
+
+      const root = await restoreCachedModel(cached.data, cached.entry.fileName, slot);
+      setProgress(100);
+      setLoadingMessage("완료!");
       setIsLoading(false);
+      return root;
+    } catch (err) {
+      console.error("캐시 로드 에러:", err);
+      failLoad(slot, err, "캐시 로드 실패");
+      return null;
+    }
+  }, [beginLoad, failLoad, restoreCachedModel]);
+
+  // 통합 모델에서 모델 하나 제거 (마지막 모델이면 null)
+  const removeModel = useCallback((slot: number): THREE.Group | null => {
+    const model = loadedModels.get(slot);
+    if (model) {
+      const ifcApi = ifcApiRef.current;
+      if (ifcApi && model.ifcModelID !== null) {
+        try { ifcApi.CloseModel(model.ifcModelID); } catch {}
+      }
+      model.propertyDB.close();
+      model.group.removeFromParent();
+      loadedModels.delete(slot);
+      removeModelState(slot);
+    }
+    if (loadedModels.size === 0) {
+      resetModelState();
       return null;
     }
-  }, [parseSpatialStructure]);
+    rebuildFederation();
+    return buildFederationRoot();
+  }, []);
+
+  const getLoadedModels = useCallback((): FederatedModelInfo[] => (
+    Array.from(loadedModels.values()).map(({ slot, modelId, name, elementCount }) => ({ slot, modelId, name, elementCount }))
+  ), []);
 
   const getElementsByType = useCallback((typeCode: number): number[] => {
     return typeToExpressIDs.get(typeCode) || [];
@@ -587,21 +966,239 @@ export function useIFCLoader(): UseIFCLoaderReturn {
   const getStoreyList = useCallback((): StoreyInfo[] => cachedStoreys, []);
   const getSpatialTree = useCallback((): IFCSpatialNode | null => cachedSpatialTree, []);
 
-  const cleanup = useCallback(() => {
-    if (ifcApiRef.current && modelIDRef.current !== null) {
-      try { ifcApiRef.current.CloseModel(modelIDRef.current); } catch {}
+  // 선택된 요소들의 요약 (가장 많은 타입 기준, 요소 이름 포함)
+  const getSelectionSummary = useCallback((expressIDs: number[]): SelectionSummary | null => {
+    if (expressIDs.length === 0 || elementTypeCodes.size === 0) return null;
+
+    const typeCounts = new Map<number, number>();
+    for (const id of expressIDs) {
+      const typeCode = elementTypeCodes.get(id) || 0;
+      typeCounts.set(typeCode, (typeCounts.get(typeCode) || 0) + 1);
+    }
+    const [typeCode] = Array.from(typeCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+    const type = typeCounts.size > 1 ? `${getTypeName(typeCode)} 외` : getTypeName(typeCode);
+
+    const elements = expressIDs.map(expressID => {
+      const { name, description } = elementNames.get(expressID) || {};
+      const elementTypeCode = elementTypeCodes.get(expressID) || 0;
+      return { expressID, type: getTypeName(elementTypeCode), typeCode: elementTypeCode, name, description, properties: [] };
+    });
+
+    const totals = sumQuantities(expressIDs, elementQuantities);
+    const dimensions = {
+      totalArea: totals.area || undefined,
+      totalVolume: totals.volume || undefined,
+      totalLength: totals.length || undefined,
+    };
+
+    return { type, typeCode, count: expressIDs.length, elements, dimensions };
+  }, []);
+
+  // 요소 목록의 면적/체적/길이 합계 (층·선택 필터 적용된 자재 행 재집계용)
+  const getQuantityTotals = useCallback((expressIDs: number[]): QuantityTotals => {
+    return sumQuantities(expressIDs, elementQuantities);
+  }, []);
+
+  // 요소 하나의 Pset/Qto/타입/재료 섹션 (속성 패널에서 펼칠 때 조회)
+  // 속성 DB에 저장되어 있으면 DB에서, 아니면 모델에서 직접 추출
+  // (요소 키로 모델을 찾아 그 모델의 DB 또는 web-ifc 모델에서 조회)
+  const getElementSections = useCallback(async (elementKey: number): Promise<IFCPropertySection[]> => {
+    const { slot, expressID } = splitElementKey(elementKey);
+    const model = loadedModels.get(slot);
+    if (!model) return [];
+
+    if (model.propertyDBReady) {
+      try {
+        const record = await model.propertyDB.getProperty(expressID);
+        if (record?.sections) return record.sections;
+      } catch {}
+    }
+
+    const ifcApi = ifcApiRef.current;
+    const modelID = model.ifcModelID;
+    if (!ifcApi || modelID === null) return [];
+    if (!model.propertyIndex) model.propertyIndex = buildPropertyIndex(ifcApi, modelID);
+    return getElementPropertySections(ifcApi, modelID, model.propertyIndex, expressID);
+  }, []);
+
+  // 여러 요소의 속성 레코드 (자재 목록에서 요소 펼칠 때 조회, expressID는 요소 키로 변환)
+  const getElementRecords = useCallback(async (elementKeys: number[]): Promise<IFCPropertyData[]> => {
+    const idsBySlot = new Map<number, number[]>();
+    for (const elementKey of elementKeys) {
+      const { slot, expressID } = splitElementKey(elementKey);
+      const ids = idsBySlot.get(slot) || [];
+      ids.push(expressID);
+      idsBySlot.set(slot, ids);
+    }
+
+    const loadModelRecords = async (model: LoadedModel, expressIDs: number[]): Promise<IFCPropertyData[]> => {
+      if (model.propertyDBReady) {
+        try {
+          const records = await model.propertyDB.getProperties(expressIDs);
+          if (records.length > 0) return records;
+        } catch {}
+      }
+
+      const ifcApi = ifcApiRef.current;
+      const modelID = model.ifcModelID;
+      if (!ifcApi || modelID === null) return [];
+      if (!model.propertyIndex) model.propertyIndex = buildPropertyIndex(ifcApi, modelID);
+      const records: IFCPropertyData[] = [];
+      for (const expressID of expressIDs) {
+        const record = buildPropertyRecord(ifcApi, modelID, model.propertyIndex, expressID, {});
+        if (record) records.push(record);
+      }
+      return records;
+    };
+
+    const records: IFCPropertyData[] = [];
+    for (const [slot, expressIDs] of idsBySlot) {
+      const model = loadedModels.get(slot);
+      if (!model) continue;
+      const modelRecords = await loadModelRecords(model, expressIDs);
+      records.push(...modelRecords.map(record => toKeyedRecord(slot, record)));
+    }
+    return records;
+  }, []);
+
+  // 뷰포인트/이슈 저장 기준 모델 (통합 모델이면 처음 로드한 모델)
+  const getModelId = useCallback((): string | null => loadedModels.values().next().value?.modelId ?? null, []);
+
+  // expressID → GlobalId (GlobalId가 없는 요소는 제외)
+  const getGlobalIds = useCallback((expressIDs: number[]): string[] => {
+    const result: string[] = [];
+    for (const id of expressIDs) {
+      const globalId = elementGlobalIds.get(id);
+      if (globalId) result.push(globalId);
+    }
+    return result;
+  }, []);
+
+  // GlobalId → 요소 키 (같은 GlobalId가 여러 모델에 있으면 모두, 로드한 모델에 없는 GlobalId는 제외)
+  const getExpressIDsByGlobalIds = useCallback((globalIds: string[]): number[] => {
+    const result: number[] = [];
+    for (const slotIds of globalIdToExpressID.values()) {
+      for (const globalId of globalIds) {
+        const id = slotIds.get(globalId);
+        if (id !== undefined) result.push(id);
+      }
+    }
+    return result;
+  }, []);
+
+  // 버전 비교 입력 (모델 하나의 요소 + 자재 목록, 속성은 속성 DB 또는 열린 모델에서 조회)
+  const getModelDiffInput = useCallback(async (slot: number): Promise<ModelDiffInput | null> => {
+    const model = loadedModels.get(slot);
+    if (!model) return null;
+
+    const keys = Array.from(elementTypeCodes.keys()).filter(key => splitElementKey(key).slot === slot);
+    const records = new Map((await getElementRecords(keys)).map(record => [record.expressID, record]));
+
+    const elements: DiffElement[] = [];
+    for (const key of keys) {
+      const globalId = elementGlobalIds.get(key);
+      if (!globalId) continue;
+      const record = records.get(key);
+      const names = elementNames.get(key);
+      elements.push({
+        key,
+        globalId,
+        typeCode: elementTypeCodes.get(key) || 0,
+        name: record?.name ?? names?.name,
+        description: record?.description ?? names?.description,
+        objectType: record?.objectType,
+        geometry: elementGeometry.get(key),
+        properties: record?.properties,
+      });
+    }
+    return { elements, materials: model.materials };
+  }, [getElementRecords]);
+
+  // IDS 검사 대상 (전체 모델의 요소, IFC 클래스 이름은 타입 레지스트리에서 조회)
+  const getIdsElements = useCallback(async (): Promise<IdsElement[]> => {
+    const keys = Array.from(elementTypeCodes.keys());
+    if (keys.length === 0) return [];
+    await loadIfcTypeRegistry();
+    const records = new Map((await getElementRecords(keys)).map(record => [record.expressID, record]));
+
+    return keys.map(key => {
+      const record = records.get(key);
+      const names = elementNames.get(key);
+      return toIdsElement(key, getIfcEntityName(elementTypeCodes.get(key) || 0), {
+        expressID: key,
+        globalId: elementGlobalIds.get(key),
+        name: names?.name,
+        description: names?.description,
+        properties: {},
+        relationships: {},
+        ...record,
+      });
+    });
+  }, [getElementRecords]);
+
+  // 모델 점검 (형상 요약·GlobalId는 로드된 요소에서, 공간 구조·형상 없음·읽기 오류는 로드 시 수집 자료에서)
+  const getModelHealth = useCallback(async (): Promise<HealthReport> => {
+    await loadIfcTypeRegistry();
+
+    const elementsBySlot = new Map<number, HealthElement[]>();
+    for (const [key, typeCode] of elementTypeCodes) {
+      const { slot } = splitElementKey(key);
+      const elements = elementsBySlot.get(slot) || [];
+      elements.push({ key, typeCode, globalId: elementGlobalIds.get(key), name: elementNames.get(key)?.name, geometry: elementGeometry.get(key) });
+      elementsBySlot.set(slot, elements);
+    }
+
+    return buildHealthReport(
+      Array.from(loadedModels.values()).map(model => ({
+        slot: model.slot,
+        name: model.name,
+        elements: elementsBySlot.get(model.slot) || [],
+        data: model.health,
+        toKey: (expressID: number) => toElementKey(model.slot, expressID),
+      })),
+      getIfcEntityName
+    );
+  }, []);
+
+  // 재료별 수량 (요소 목록을 주면 그 요소만, 재료 구성이 없는 이전 캐시 모델은 제외하고 이름만 알림)
+  const getMaterialLayerTakeoff = useCallback((expressIDs?: number[]): MaterialLayerTakeoff => {
+    const models = Array.from(loadedModels.values());
+    const incompleteSlots = new Set(models.filter(model => !model.hasMaterialLayers).map(model => model.slot));
+    const keys = (expressIDs ?? Array.from(elementTypeCodes.keys())).filter(key => !incompleteSlots.has(splitElementKey(key).slot));
+    return {
+      ...buildMaterialLayerTakeoff(keys, elementMaterialLayers, elementQuantities),
+      incompleteModels: models.filter(model => incompleteSlots.has(model.slot)).map(model => model.name),
+    };
+  }, []);
+
+  // 개구부 공제 대상 벽·슬래브 (벽·슬래브가 있는데 개구부를 수집하지 않은 이전 캐시 모델은 이름만 알림)
+  const getOpeningHosts = useCallback((): { hosts: Map<number, OpeningHost>; incompleteModels: string[] } => {
+    const hosts = new Map<number, OpeningHost>();
+    const incompleteSlots = new Set<number>();
+    for (const [key, typeCode] of elementTypeCodes) {
+      const kind = getOpeningHostKind(typeCode);
+      if (!kind) continue;
+      const data = elementOpenings.get(key);
+      if (!data) {
+        incompleteSlots.add(splitElementKey(key).slot);
+        continue;
+      }
+      hosts.set(key, { key, typeCode, name: elementNames.get(key)?.name, kind, area: elementQuantities.get(key)?.area ?? 0, data });
     }
-    modelIDRef.current = null;
-    typeToExpressIDs.clear();
-    elementDimensions.clear();
-    elementProperties.clear();
-    cachedMaterials = [];
-    cachedStoreys = [];
-    cachedSpatialTree = null;
+    const incompleteModels = Array.from(loadedModels.values())
+      .filter(model => !model.hasOpenings && incompleteSlots.has(model.slot))
+      .map(model => model.name);
+    return { hosts, incompleteModels };
   }, []);
 
+  const cleanup = useCallback(() => {
+    closeAllModels();
+  }, [closeAllModels]);
+
   return {
     isLoading, loadingMessage, error, progress,
-    loadIFC, getElementsByType, getMaterialList, getStoreyList, getSpatialTree, cleanup,
+    loadIFC, loadCachedModel, removeModel, getLoadedModels, getElementsByType, getMaterialList, getStoreyList, getSpatialTree,
+    getSelectionSummary, getQuantityTotals, getElementSections, getElementRecords,
+    getModelId, getGlobalIds, getExpressIDsByGlobalIds, getModelDiffInput, getIdsElements, getModelHealth, getMaterialLayerTakeoff, getOpeningHosts, cleanup,
   };
 }
@@ -3,6 +3,8 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import * as THREE from "three";
 import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
+import { applyTypeLabels } from "@/lib/ifc/modelExtractor";
+import { loadIfcTypeRegistry } from "@/lib/ifc/typeRegistry";
 
 interface ParsedMesh {
   expressID: number;
@@ -90,7 +92,7 @@ export function useIFCWorkerLoader(): UseIFCWorkerLoaderReturn {
         setLoadingMessage("파일 읽는 중...");
         const arrayBuffer = await file.arrayBuffer();
 
-        worker.onmessage = (event) => {
+        worker.onmessage = async (event) => {
           const { type, data, progress: workerProgress, message, error: workerError } = event.data;
           
           if (type === 'progress') {
@@ -103,8 +105,9 @@ export function useIFCWorkerLoader(): UseIFCWorkerLoaderReturn {
             
             const group = createThreeGroup(data.meshes, file.name);
             
-            // 캐시 저장
-            cachedMaterials = data.materials;
+            // 캐시 저장 (자재 이름·카테고리는 타입 레지스트리 기준)
+            await loadIfcTypeRegistry();
+            cachedMaterials = applyTypeLabels(data.materials);
             cachedStoreys = data.storeys;
             cachedSpatialTree = data.spatialTree;
             
@@ -239,21 +242,6 @@ function createThreeGroup(meshes: ParsedMesh[], fileName: string): THREE.Group {
 // Worker 코드 (인라인)
 function getWorkerCode(): string {
   return `
-    const IFC_TYPE_NAMES = {
-      45: "벽", 46: "벽", 1529196076: "슬라브", 843113511: "기둥",
-      753842376: "보", 395920057: "문", 3304561284: "창문", 331165859: "계단",
-      2016517767: "지붕", 2262370178: "난간", 263784265: "가구",
-      3171933400: "판", 1073191201: "부재", 1973544240: "피복", 900683007: "기초",
-    };
-
-    const TYPE_CATEGORIES = {
-      45: "구조", 46: "구조", 1529196076: "구조", 843113511: "구조",
-      753842376: "구조", 900683007: "구조",
-      395920057: "건축", 3304561284: "건축", 331165859: "건축",
-      2016517767: "건축", 2262370178: "건축", 1973544240: "건축",
-      263784265: "가구", 3171933400: "기타", 1073191201: "기타",
-    };
-
     const IFC_SPATIAL_TYPES = {
       IFCPROJECT: 103090709,
       IFCSITE: 4097777520,
@@ -326,7 +314,7 @@ function getWorkerCode(): string {
             [IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY]: "IfcBuildingStorey",
             [IFC_SPATIAL_TYPES.IFCSPACE]: "IfcSpace",
           };
-          return names[typeCode] || IFC_TYPE_NAMES[typeCode] || 'Type_' + typeCode;
+          return names[typeCode] || 'Type_' + typeCode;
         }
 
         function buildNode(expressID) {
@@ -503,8 +491,8 @@ function getWorkerCode(): string {
           materialMap.set(key, {
             id: key,
             typeCode: typeCode,
-            typeName: IFC_TYPE_NAMES[typeCode] || '타입 ' + typeCode,
-            category: TYPE_CATEGORIES[typeCode] || '기타',
+            typeName: '타입 ' + typeCode, // 이름·카테고리는 메인 스레드에서 타입 레지스트리로 지정
+            category: '기타',
             spec: spec,
             count: ids.length,
             unit: '개',
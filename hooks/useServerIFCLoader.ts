@@ -2,43 +2,111 @@
 
 import { useCallback, useRef, useState } from "react";
 import * as THREE from "three";
-import { MaterialItem, StoreyInfo, IFCSpatialNode, IFC_TYPE_NAMES } from "@/types/ifc";
-
-interface ProcessedMesh {
-  expressID: number;
-  typeCode: number;
-  positions: number[];
-  normals: number[];
-  indices: number[];
-  color: [number, number, number, number];
-  transform: number[];
+import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
+import { decodeModelPayloadStream, ModelPayloadHeader } from "@/lib/ifc/modelPayload";
+import type { ConversionJob, ConversionJobPhase } from "@/lib/server/conversionJobs";
+
+// 서버 변환 단계별 메시지
+const PHASE_MESSAGES: Record<ConversionJobPhase, string> = {
+  parsing: "서버에서 IFC 파싱 중...",
+  geometry: "서버에서 지오메트리 변환 중...",
+  metadata: "층·자재 정보 정리 중...",
+  encoding: "변환 결과 생성 중...",
+  storing: "변환 결과 저장 중...",
+};
+
+// 진행률 구간 (업로드 0~10, 서버 변환 10~60, 수신·메시 생성 60~90)
+const CONVERT_START = 10;
+const CONVERT_END = 60;
+const BUILD_END = 90;
+
+class ConversionAbortedError extends Error {
+  constructor() {
+    super("변환이 취소되었습니다");
+    this.name = "ConversionAbortedError";
+  }
 }
 
-interface ProcessedModel {
-  id: string;
-  fileName: string;
-  meshCount: number;
-  meshes: ProcessedMesh[];
-  materials: MaterialInfo[];
-  storeys: StoreyInfo[];
-  spatialTree: IFCSpatialNode | null;
-}
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  try {
+    const errorData = await response.json();
+    // 파일이 너무 큰 경우 클라이언트 처리 권장
+    if (errorData.suggestion === "client") {
+      return new Error(`${errorData.error}\n\n💡 클라이언트 처리 모드를 사용하세요.`);
+    }
+    return new Error(errorData.error || fallback);
+  } catch {
+    return new Error(fallback);
+  }
+};
+
+/**
+ * 파일 업로드 → 변환 작업 등록
+ */
+const submitFile = async (file: File, signal: AbortSignal): Promise<ConversionJob> => {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch("/api/convert", {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response, "서버 처리 실패");
+
+  const result = await response.json();
+  if (!result.success || !result.job) {
+    throw new Error("서버에서 유효한 응답을 받지 못했습니다");
+  }
+  return result.job;
+};
+
+/**
+ * 변환 작업이 끝날 때까지 SSE로 진행 상황 수신 (끝난 상태의 작업으로 resolve)
+ */
+const waitForJob = (
+  jobId: string,
+  onUpdate: (job: ConversionJob) => void,
+  signal: AbortSignal
+): Promise<ConversionJob> =>
+  new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/convert/jobs/${jobId}/events`);
+
+    const finish = () => {
+      source.close();
+      signal.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new ConversionAbortedError());
+    };
+    signal.addEventListener("abort", onAbort);
+
+    source.addEventListener("job", event => {
+      const job: ConversionJob = JSON.parse((event as MessageEvent<string>).data);
+      onUpdate(job);
+      if (job.status === "done" || job.status === "failed" || job.status === "cancelled") {
+        finish();
+        resolve(job);
+      }
+    });
 
-interface MaterialInfo {
-  id: string;
-  typeCode: number;
-  typeName: string;
-  category: string;
-  count: number;
-  expressIDs: number[];
-  dimensions: string;
-}
+    // 연결이 잠깐 끊기면 EventSource가 다시 연결, 완전히 닫히면 실패
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        finish();
+        reject(new Error("서버 변환 진행 상황 연결이 끊어졌습니다"));
+      }
+    };
+  });
 
 export function useServerIFCLoader() {
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
+  const [job, setJob] = useState<ConversionJob | null>(null);
 
   // 데이터 캐시
   const typeMapRef = useRef<Map<number, number[]>>(new Map());
@@ -46,155 +114,224 @@ export function useServerIFCLoader() {
   const storeysRef = useRef<StoreyInfo[]>([]);
   const spatialTreeRef = useRef<IFCSpatialNode | null>(null);
 
-  const loadIFC = useCallback(async (file: File): Promise<THREE.Group | null> => {
-    setIsLoading(true);
-    setError(null);
-    setProgress(0);
-    setLoadingMessage("서버에 파일 업로드 중...");
+  // 현재 작업 (취소·재시도용)
+  const jobRef = useRef<{ job: ConversionJob; file: File } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-    try {
-      // 1. 서버에 파일 업로드
-      const formData = new FormData();
-      formData.append("file", file);
-
-      setProgress(10);
-      setLoadingMessage("서버에서 IFC 처리 중...");
-
-      const response = await fetch("/api/convert", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        // 파일이 너무 큰 경우 클라이언트 처리 권장
-        if (errorData.suggestion === "client") {
-          throw new Error(`${errorData.error}\n\n💡 클라이언트 처리 모드를 사용하세요.`);
-        }
-        throw new Error(errorData.error || "서버 처리 실패");
-      }
+  const trackJob = useCallback((next: ConversionJob) => {
+    if (jobRef.current) jobRef.current.job = next;
+    setJob(next);
 
-      setProgress(50);
-      setLoadingMessage("처리된 모델 수신 중...");
+    if (next.status === "queued") {
+      setLoadingMessage("서버 변환 대기 중...");
+    } else if (next.status === "running" && next.phase) {
+      setLoadingMessage(PHASE_MESSAGES[next.phase]);
+    }
+    setProgress(Math.round(CONVERT_START + next.progress * (CONVERT_END - CONVERT_START)));
+  }, []);
 
-      const result = await response.json();
-      
-      if (!result.success || !result.model) {
-        throw new Error("서버에서 유효한 응답을 받지 못했습니다");
-      }
+  /**
+   * 작업 완료를 기다린 뒤 변환 결과를 받아 Three.js Group 생성
+   */
+  const buildFromJob = useCallback(async (
+    submitted: ConversionJob,
+    file: File,
+    signal: AbortSignal
+  ): Promise<THREE.Group> => {
+    trackJob(submitted);
+    const finished = submitted.status === "done"
+      ? submitted
+      : await waitForJob(submitted.id, trackJob, signal);
+
+    if (finished.status === "cancelled") throw new ConversionAbortedError();
+    if (finished.status === "failed") {
+      throw new Error(`서버에서 IFC 처리 실패: ${finished.error ?? "알 수 없는 오류"}`);
+    }
+
+    setProgress(CONVERT_END);
+    setLoadingMessage("처리된 모델 수신 중...");
+
+    const response = await fetch(`/api/convert?id=${finished.modelId}`, { signal });
+    if (!response.ok) throw await readError(response, "변환 결과를 받지 못했습니다");
+    if (!response.body) {
+      throw new Error("서버에서 유효한 응답을 받지 못했습니다");
+    }
 
-      const processedModel: ProcessedModel = result.model;
-      console.log(`📦 서버 처리 완료 (캐시: ${result.cached}): ${processedModel.meshCount}개 메시`);
-
-      setProgress(60);
-      setLoadingMessage("3D 모델 생성 중...");
-
-      // 2. Three.js Group 생성
-      const group = new THREE.Group();
-      group.name = processedModel.fileName;
-
-      const typeMap = new Map<number, number[]>();
-
-      // 메시 생성 (청크 단위로)
-      const CHUNK_SIZE = 500;
-      const meshes = processedModel.meshes;
-      
-      for (let i = 0; i < meshes.length; i += CHUNK_SIZE) {
-        const chunk = meshes.slice(i, i + CHUNK_SIZE);
-        
-        for (const meshData of chunk) {
-          const geometry = new THREE.BufferGeometry();
-          
-          geometry.setAttribute(
-            "position",
-            new THREE.Float32BufferAttribute(meshData.positions, 3)
-          );
-          geometry.setAttribute(
-            "normal",
-            new THREE.Float32BufferAttribute(meshData.normals, 3)
-          );
-          geometry.setIndex(meshData.indices);
-          
-          const [r, g, b, a] = meshData.color;
-          const material = new THREE.MeshLambertMaterial({
-            color: new THREE.Color(r, g, b),
-            transparent: a < 1,
-            opacity: a,
-            side: THREE.DoubleSide,
-          });
-
-          const mesh = new THREE.Mesh(geometry, material);
-          
-          // 변환 행렬 적용
-          const matrix = new THREE.Matrix4();
-          matrix.fromArray(meshData.transform);
-          mesh.applyMatrix4(matrix);
-          
-          // userData 설정
-          mesh.userData.expressID = meshData.expressID;
-          mesh.userData.typeCode = meshData.typeCode;
-          
-          group.add(mesh);
-
-          // 타입별 매핑
-          if (meshData.typeCode) {
-            const arr = typeMap.get(meshData.typeCode) || [];
-            if (!arr.includes(meshData.expressID)) {
-              arr.push(meshData.expressID);
-            }
-            typeMap.set(meshData.typeCode, arr);
+    // 바이너리 스트림을 받는 대로 Three.js 메시 생성
+    const group = new THREE.Group();
+    group.name = file.name;
+
+    const typeMap = new Map<number, number[]>();
+    const geometries: THREE.BufferGeometry[] = [];
+    let header = null as ModelPayloadHeader | null;
+    let meshesBuilt = 0;
+
+    await decodeModelPayloadStream(response.body, {
+      onHeader: h => {
+        header = h;
+        setLoadingMessage(`3D 모델 생성 중... (${h.meshCount}개 메시)`);
+      },
+      onGeometry: g => {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute("position", new THREE.BufferAttribute(g.positions, 3));
+        geometry.setAttribute("normal", new THREE.BufferAttribute(g.normals, 3));
+        geometry.setIndex(new THREE.BufferAttribute(g.indices, 1));
+        geometries[g.index] = geometry;
+      },
+      onMesh: meshData => {
+        const [r, g, b, a] = meshData.color;
+        const material = new THREE.MeshLambertMaterial({
+          color: new THREE.Color(r, g, b),
+          transparent: a < 1,
+          opacity: a,
+          side: THREE.DoubleSide,
+        });
+
+        // 중복 제거된 지오메트리는 여러 메시가 공유
+        const mesh = new THREE.Mesh(geometries[meshData.geometry], material);
+
+        // 변환 행렬 적용
+        const matrix = new THREE.Matrix4();
+        matrix.fromArray(meshData.transform as number[]);
+        mesh.applyMatrix4(matrix);
+
+        // userData 설정
+        mesh.userData.expressID = meshData.expressID;
+        mesh.userData.typeCode = meshData.typeCode;
+
+        group.add(mesh);
+
+        // 타입별 매핑
+        if (meshData.typeCode) {
+          const arr = typeMap.get(meshData.typeCode) || [];
+          if (!arr.includes(meshData.expressID)) {
+            arr.push(meshData.expressID);
           }
+          typeMap.set(meshData.typeCode, arr);
         }
 
         // 진행률 업데이트
-        const meshProgress = Math.round(60 + (i / meshes.length) * 30);
-        setProgress(meshProgress);
-        
-        // UI 블로킹 방지
-        await new Promise(r => setTimeout(r, 0));
-      }
+        meshesBuilt++;
+        if (header && header.meshCount > 0 && meshesBuilt % 200 === 0) {
+          setProgress(Math.round(CONVERT_END + (meshesBuilt / header.meshCount) * (BUILD_END - CONVERT_END)));
+        }
+      },
+    });
+
+    if (!header) {
+      throw new Error("서버에서 유효한 응답을 받지 못했습니다");
+    }
+    const processedModel: ModelPayloadHeader = header;
+    console.log(
+      `📦 서버 처리 완료 (캐시: ${finished.cached}): ` +
+      `${processedModel.meshCount}개 메시, 지오메트리 ${processedModel.geometryCount}개`
+    );
+
+    setProgress(BUILD_END);
+    setLoadingMessage("자재 정보 처리 중...");
 
-      setProgress(90);
-      setLoadingMessage("자재 정보 처리 중...");
-
-      // 타입 맵 저장
-      typeMapRef.current = typeMap;
-
-      // 자재 목록 변환
-      materialsRef.current = processedModel.materials.map((m): MaterialItem => ({
-        id: m.id,
-        typeCode: m.typeCode,
-        typeName: m.typeName,
-        category: m.category,
-        count: m.count,
-        expressIDs: m.expressIDs,
-        dimensions: undefined,
-        unit: "EA",
-        spec: "-",
-      }));
-
-      // 층 정보 변환
-      storeysRef.current = processedModel.storeys;
-
-      // 공간 구조
-      spatialTreeRef.current = processedModel.spatialTree;
-
-      setProgress(100);
-      setLoadingMessage("완료!");
-      
-      console.log(`✅ 모델 생성 완료: ${group.children.length}개 메시`);
-      
-      return group;
+    // 타입 맵 저장
+    typeMapRef.current = typeMap;
 
+    // 자재 목록 (규격별)
+    materialsRef.current = processedModel.materials;
+
+    // 층 정보 변환
+    storeysRef.current = processedModel.storeys;
+
+    // 공간 구조
+    spatialTreeRef.current = processedModel.spatialTree;
+
+    setProgress(100);
+    setLoadingMessage("완료!");
+
+    console.log(`✅ 모델 생성 완료: ${group.children.length}개 메시`);
+
+    return group;
+  }, [trackJob]);
+
+  // 작업 실행 공통 처리 (로딩 상태, 오류, 취소)
+  const runJob = useCallback(async (
+    start: (signal: AbortSignal) => Promise<THREE.Group>
+  ): Promise<THREE.Group | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await start(controller.signal);
     } catch (err) {
-      console.error("서버 IFC 로드 실패:", err);
-      setError(err instanceof Error ? err.message : "알 수 없는 오류");
+      if (err instanceof ConversionAbortedError || controller.signal.aborted) {
+        console.log("⏹️ 서버 변환 취소");
+        setError("변환이 취소되었습니다");
+      } else {
+        console.error("서버 IFC 로드 실패:", err);
+        setError(err instanceof Error ? err.message : "알 수 없는 오류");
+      }
       return null;
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   }, []);
 
+  const loadIFC = useCallback((file: File): Promise<THREE.Group | null> => {
+    jobRef.current = null;
+    setJob(null);
+    setProgress(0);
+    setLoadingMessage("서버에 파일 업로드 중...");
+
+    return runJob(async signal => {
+      // 1. 서버에 파일 업로드 (변환 작업 등록)
+      const submitted = await submitFile(file, signal);
+
+      // 2. 변환 완료 대기 → 결과 수신
+      jobRef.current = { job: submitted, file };
+      return buildFromJob(submitted, file, signal);
+    });
+  }, [runJob, buildFromJob]);
+
+  /**
+   * 진행 중인 서버 변환 취소 (서버에서 취소할 수 없는 단계면 결과 수신만 중단)
+   */
+  const cancel = useCallback(async () => {
+    const current = jobRef.current?.job;
+    abortRef.current?.abort();
+    if (current?.cancellable) {
+      await fetch(`/api/convert/jobs/${current.id}`, { method: "DELETE" }).catch(() => undefined);
+    }
+  }, []);
+
+  /**
+   * 실패·취소된 변환 다시 실행 (서버에서 작업이 만료되었으면 파일을 다시 업로드)
+   */
+  const retry = useCallback((): Promise<THREE.Group | null> => {
+    const current = jobRef.current;
+    if (!current) return Promise.resolve(null);
+
+    setProgress(CONVERT_START);
+    setLoadingMessage("서버 변환 다시 시작...");
+
+    return runJob(async signal => {
+      const response = await fetch(`/api/convert/jobs/${current.job.id}/retry`, { method: "POST", signal });
+
+      // 서버에서 작업이 만료됨 → 새로 업로드
+      if (response.status === 404) {
+        const submitted = await submitFile(current.file, signal);
+        jobRef.current = { job: submitted, file: current.file };
+        return buildFromJob(submitted, current.file, signal);
+      }
+
+      // 409: 이미 완료됐거나 아직 진행 중인 작업 - 결과 수신부터 다시
+      const result = await response.json();
+      if (!result.job) throw new Error(result.error || "다시 실행할 수 없습니다");
+      return buildFromJob(result.job, current.file, signal);
+    });
+  }, [runJob, buildFromJob]);
+
   const getElementsByType = useCallback((typeCode: number): number[] => {
     return typeMapRef.current.get(typeCode) || [];
   }, []);
@@ -223,7 +360,11 @@ export function useServerIFCLoader() {
     loadingMessage,
     error,
     progress,
+    job,
+    canRetry: !isLoading && !!error && !!job,
     loadIFC,
+    cancel,
+    retry,
     getElementsByType,
     getMaterialList,
     getStoreyList,
@@ -0,0 +1,134 @@
+/**
+ * IndexedDB를 사용한 뷰포인트 / 이슈(BCF 토픽) 저장소
+ * - 뷰포인트: 모델(modelId)별로 저장하므로 같은 파일을 다시 열면 저장한 뷰를 그대로 사용
+ * - 토픽: 요소를 GlobalId로 참조하므로 모델 구분 없이 저장 (수정된 모델 파일에서도 연결)
+ * - 간섭 상태: GlobalId 쌍별로 저장 (다시 검토해도, 개정 모델에서도 승인·해결 상태 유지)
+ */
+
+import { BcfTopic, ClashStatusRecord, SavedViewpoint } from "@/types/ifc";
+
+const DB_NAME = "ifc-bcf";
+const DB_VERSION = 3;
+const VIEWPOINT_STORE_NAME = "viewpoints";
+const TOPIC_STORE_NAME = "topics";
+const CLASH_STORE_NAME = "clashes";
+const AUTHOR_KEY = "ifc-bcf-author";
+
+// 토픽·코멘트 작성자 이름 (브라우저별 저장)
+export const getBcfAuthor = (): string => localStorage.getItem(AUTHOR_KEY) || "";
+export const setBcfAuthor = (author: string) => localStorage.setItem(AUTHOR_KEY, author.trim());
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+class BcfStore {
+  private db: IDBDatabase | null = null;
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(VIEWPOINT_STORE_NAME)) {
+          const store = db.createObjectStore(VIEWPOINT_STORE_NAME, { keyPath: "id" });
+          store.createIndex("modelId", "modelId", { unique: false });
+        }
+        if (!db.objectStoreNames.contains(TOPIC_STORE_NAME)) {
+          const store = db.createObjectStore(TOPIC_STORE_NAME, { keyPath: "guid" });
+          store.createIndex("modelId", "modelId", { unique: false });
+        }
+        if (!db.objectStoreNames.contains(CLASH_STORE_NAME)) {
+          db.createObjectStore(CLASH_STORE_NAME, { keyPath: "id" });
+        }
+      };
+    });
+  }
+
+  // 모델의 뷰포인트 목록 (저장 순서)
+  async listViewpoints(modelId: string): Promise<SavedViewpoint[]> {
+    const db = await this.open();
+    const transaction = db.transaction([VIEWPOINT_STORE_NAME], "readonly");
+    const index = transaction.objectStore(VIEWPOINT_STORE_NAME).index("modelId");
+    const viewpoints = await requestToPromise<SavedViewpoint[]>(index.getAll(modelId));
+    return viewpoints.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveViewpoints(viewpoints: SavedViewpoint[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([VIEWPOINT_STORE_NAME], "readwrite");
+    const store = transaction.objectStore(VIEWPOINT_STORE_NAME);
+    for (const viewpoint of viewpoints) store.put(viewpoint);
+    await transactionDone(transaction);
+  }
+
+  async deleteViewpoint(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([VIEWPOINT_STORE_NAME], "readwrite");
+    transaction.objectStore(VIEWPOINT_STORE_NAME).delete(id);
+    await transactionDone(transaction);
+  }
+
+  // 전체 토픽 (최근 작성 순)
+  async listTopics(): Promise<BcfTopic[]> {
+    const db = await this.open();
+    const transaction = db.transaction([TOPIC_STORE_NAME], "readonly");
+    const topics = await requestToPromise<BcfTopic[]>(transaction.objectStore(TOPIC_STORE_NAME).getAll());
+    return topics.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async saveTopics(topics: BcfTopic[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([TOPIC_STORE_NAME], "readwrite");
+    const store = transaction.objectStore(TOPIC_STORE_NAME);
+    for (const topic of topics) store.put(topic);
+    await transactionDone(transaction);
+  }
+
+  async deleteTopic(guid: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([TOPIC_STORE_NAME], "readwrite");
+    transaction.objectStore(TOPIC_STORE_NAME).delete(guid);
+    await transactionDone(transaction);
+  }
+
+  // 간섭 상태 (id → 상태)
+  async getClashStatuses(ids: string[]): Promise<Map<string, ClashStatusRecord>> {
+    const db = await this.open();
+    const transaction = db.transaction([CLASH_STORE_NAME], "readonly");
+    const store = transaction.objectStore(CLASH_STORE_NAME);
+    const records = await Promise.all(ids.map(id => requestToPromise<ClashStatusRecord | undefined>(store.get(id))));
+    return new Map(records.filter((r): r is ClashStatusRecord => !!r).map(r => [r.id, r]));
+  }
+
+  async saveClashStatuses(records: ClashStatusRecord[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([CLASH_STORE_NAME], "readwrite");
+    const store = transaction.objectStore(CLASH_STORE_NAME);
+    for (const record of records) store.put(record);
+    await transactionDone(transaction);
+  }
+}
+
+// 싱글톤 인스턴스
+export const bcfStore = new BcfStore();
@@ -0,0 +1,345 @@
+/**
+ * BCF 2.1 / 3.0 (.bcfzip) 읽기/쓰기
+ * 토픽 폴더마다 markup.bcf(제목·상태·담당자·코멘트) + 뷰포인트(.bcfv) + 스냅샷(.png)
+ *
+ * 좌표 변환: 뷰어는 Y-up이고 모델 중심을 원점으로 옮겨 표시하므로
+ * IFC 좌표(Z-up) = (x, -z, y) of (뷰어 좌표 - 모델 이동량)
+ */
+
+import { BcfComment, BcfTopic, BcfViewpoint } from "@/types/ifc";
+import { createZip, readZip, ZipFile } from "@/lib/export/zip";
+
+export type BcfVersion = "2.1" | "3.0";
+
+// 파일에 담기는 토픽 (모델 연결 정보 제외)
+export type BcfTopicFile = Omit<BcfTopic, "modelId" | "globalIds">;
+
+type Vec3 = [number, number, number];
+
+const DEFAULT_FOV = 45;
+const DEFAULT_TARGET_DISTANCE = 10;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ========== 좌표 변환 ==========
+
+const viewerToIfc = ([x, y, z]: Vec3, offset: Vec3 = [0, 0, 0]): Vec3 => {
+  const lx = x - offset[0], ly = y - offset[1], lz = z - offset[2];
+  return [lx, -lz, ly];
+};
+
+const ifcToViewer = ([x, y, z]: Vec3, offset: Vec3 = [0, 0, 0]): Vec3 => [
+  x + offset[0],
+  z + offset[1],
+  -y + offset[2],
+];
+
+const normalize = ([x, y, z]: Vec3): Vec3 => {
+  const len = Math.hypot(x, y, z) || 1;
+  return [x / len, y / len, z / len];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+// 카메라 방향에 수직인 위쪽 벡터 (IFC Z축 기준, 수직으로 내려다보면 Y축)
+const upVector = (direction: Vec3): Vec3 => {
+  const right = cross(direction, [0, 0, 1]);
+  if (Math.hypot(...right) < 1e-6) return [0, 1, 0];
+  return normalize(cross(right, direction));
+};
+
+// ========== XML ==========
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`;
+
+const vectorXml = (tag: string, [x, y, z]: Vec3) =>
+  `<${tag}><X>${x}</X><Y>${y}</Y><Z>${z}</Z></${tag}>`;
+
+const componentsXml = (globalIds: string[]) =>
+  globalIds.map(id => `<Component IfcGuid="${escapeXml(id)}"/>`).join("");
+
+const versionXml = (version: BcfVersion) =>
+  version === "2.1"
+    ? `${XML_HEADER}\n<Version VersionId="2.1"><DetailedVersion>2.1</DetailedVersion></Version>`
+    : `${XML_HEADER}\n<Version VersionId="3.0"/>`;
+
+const unique = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter((v): v is string => !!v)));
+
+// BCF 3.0: 사용한 TopicType/Status/Priority/사용자 목록
+const extensionsXml = (topics: BcfTopicFile[]) => {
+  const list = (wrapper: string, tag: string, values: (string | undefined)[]) => {
+    const items = unique(values);
+    return items.length > 0 ? `<${wrapper}>${items.map(v => `<${tag}>${escapeXml(v)}</${tag}>`).join("")}</${wrapper}>` : "";
+  };
+  return `${XML_HEADER}
+<Extensions>${[
+    list("TopicTypes", "TopicType", topics.map(t => t.topicType)),
+    list("TopicStatuses", "TopicStatus", topics.map(t => t.status)),
+    list("Priorities", "Priority", topics.map(t => t.priority)),
+    list("TopicLabels", "TopicLabel", topics.flatMap(t => t.labels ?? [])),
+    list("Users", "User", topics.flatMap(t => [t.author, t.assignedTo, t.modifiedAuthor, ...t.comments.map(c => c.author)])),
+  ].join("")}</Extensions>`;
+};
+
+const isoDate = (time: number) => new Date(time).toISOString();
+
+const optionalXml = (tag: string, value: string | undefined) =>
+  value ? `<${tag}>${escapeXml(value)}</${tag}>` : "";
+
+// 토픽 폴더 안의 뷰포인트 파일 이름 (첫 번째는 BCF 관례대로 viewpoint.bcfv / snapshot.png)
+const viewpointFileNames = (viewpoint: BcfViewpoint, index: number) => ({
+  viewpoint: index === 0 ? "viewpoint.bcfv" : `${viewpoint.guid}.bcfv`,
+  snapshot: viewpoint.snapshot ? (index === 0 ? "snapshot.png" : `${viewpoint.guid}.png`) : undefined,
+});
+
+const commentXml = (comment: BcfComment) =>
+  `<Comment Guid="${comment.guid}"><Date>${isoDate(comment.date)}</Date><Author>${escapeXml(comment.author)}</Author>` +
+  `<Comment>${escapeXml(comment.text)}</Comment>` +
+  (comment.viewpointGuid ? `<Viewpoint Guid="${comment.viewpointGuid}"/>` : "") +
+  "</Comment>";
+
+const markupXml = (topic: BcfTopicFile, version: BcfVersion) => {
+  const labels = topic.labels ?? [];
+  const topicBody = [
+    `<Title>${escapeXml(topic.title)}</Title>`,
+    optionalXml("Priority", topic.priority),
+    version === "2.1"
+      ? labels.map(l => `<Labels>${escapeXml(l)}</Labels>`).join("")
+      : labels.length > 0 ? `<Labels>${labels.map(l => `<Label>${escapeXml(l)}</Label>`).join("")}</Labels>` : "",
+    `<CreationDate>${isoDate(topic.createdAt)}</CreationDate>`,
+    `<CreationAuthor>${escapeXml(topic.author)}</CreationAuthor>`,
+    topic.modifiedAt ? `<ModifiedDate>${isoDate(topic.modifiedAt)}</ModifiedDate>` : "",
+    optionalXml("ModifiedAuthor", topic.modifiedAuthor),
+    topic.dueDate ? `<DueDate>${isoDate(topic.dueDate)}</DueDate>` : "",
+    optionalXml("AssignedTo", topic.assignedTo),
+    optionalXml("Description", topic.description),
+  ].join("");
+
+  const viewpointEntries = topic.viewpoints.map((viewpoint, index) => {
+    const names = viewpointFileNames(viewpoint, index);
+    return `<Viewpoint>${names.viewpoint}</Viewpoint>${names.snapshot ? `<Snapshot>${names.snapshot}</Snapshot>` : ""}`;
+  });
+  const attributes = `Guid="${topic.guid}" TopicType="${escapeXml(topic.topicType)}" TopicStatus="${escapeXml(topic.status)}"`;
+
+  // 2.1: Topic 뒤에 Comment, Viewpoints 반복 / 3.0: Topic 안에 Comments, Viewpoints 묶음
+  if (version === "2.1") {
+    return `${XML_HEADER}
+<Markup><Topic ${attributes}>${topicBody}</Topic>${topic.comments.map(commentXml).join("")}${
+      topic.viewpoints.map((v, i) => `<Viewpoints Guid="${v.guid}">${viewpointEntries[i]}</Viewpoints>`).join("")
+    }</Markup>`;
+  }
+  const comments = topic.comments.length > 0 ? `<Comments>${topic.comments.map(commentXml).join("")}</Comments>` : "";
+  const viewpoints = topic.viewpoints.length > 0
+    ? `<Viewpoints>${topic.viewpoints.map((v, i) => `<ViewPoint Guid="${v.guid}">${viewpointEntries[i]}</ViewPoint>`).join("")}</Viewpoints>`
+    : "";
+  return `${XML_HEADER}
+<Markup><Topic ${attributes}>${topicBody}${comments}${viewpoints}</Topic></Markup>`;
+};
+
+const visualizationXml = (viewpoint: BcfViewpoint, version: BcfVersion, offset?: Vec3) => {
+  const { selectedGlobalIds, visibility, camera } = viewpoint;
+  const selection = selectedGlobalIds.length > 0 ? `<Selection>${componentsXml(selectedGlobalIds)}</Selection>` : "";
+  const exceptions = visibility.exceptions.length > 0 ? `<Exceptions>${componentsXml(visibility.exceptions)}</Exceptions>` : "";
+  const components = `<Components>${selection}<Visibility DefaultVisibility="${visibility.defaultVisibility}">${exceptions}</Visibility></Components>`;
+
+  let cameraXml = "";
+  if (camera) {
+    const position = viewerToIfc(camera.position, offset);
+    const target = viewerToIfc(camera.target, offset);
+    const direction = normalize([target[0] - position[0], target[1] - position[1], target[2] - position[2]]);
+    cameraXml = "<PerspectiveCamera>" +
+      vectorXml("CameraViewPoint", position) +
+      vectorXml("CameraDirection", direction) +
+      vectorXml("CameraUpVector", upVector(direction)) +
+      `<FieldOfView>${camera.fov}</FieldOfView>` +
+      (version === "3.0" ? `<AspectRatio>${camera.aspect ?? 1}</AspectRatio>` : "") +
+      "</PerspectiveCamera>";
+  }
+
+  return `${XML_HEADER}\n<VisualizationInfo Guid="${viewpoint.guid}">${components}${cameraXml}</VisualizationInfo>`;
+};
+
+// ========== 스냅샷 (data URL ↔ PNG 바이트) ==========
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+/**
+ * 토픽 목록을 .bcfzip으로 저장
+ * @param offset 뷰어의 모델 이동량 (centerGroup으로 옮긴 만큼, IFC 좌표 복원용)
+ */
+export function createBcfZip(topics: BcfTopicFile[], version: BcfVersion, offset?: Vec3): Blob {
+  const files: ZipFile[] = [{ path: "bcf.version", data: encoder.encode(versionXml(version)) }];
+  if (version === "3.0") files.push({ path: "extensions.xml", data: encoder.encode(extensionsXml(topics)) });
+
+  for (const topic of topics) {
+    files.push({ path: `${topic.guid}/markup.bcf`, data: encoder.encode(markupXml(topic, version)) });
+    topic.viewpoints.forEach((viewpoint, index) => {
+      const names = viewpointFileNames(viewpoint, index);
+      files.push({ path: `${topic.guid}/${names.viewpoint}`, data: encoder.encode(visualizationXml(viewpoint, version, offset)) });
+      if (viewpoint.snapshot && names.snapshot) {
+        files.push({ path: `${topic.guid}/${names.snapshot}`, data: dataUrlToBytes(viewpoint.snapshot) });
+      }
+    });
+  }
+
+  return new Blob([createZip(files)], { type: "application/octet-stream" });
+}
+
+// ========== 읽기 ==========
+
+const childText = (parent: Element | null | undefined, tag: string): string | undefined =>
+  parent?.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+const readVector = (parent: Element | null | undefined, tag: string): Vec3 | null => {
+  const element = parent?.getElementsByTagName(tag)[0];
+  if (!element) return null;
+  const values = ["X", "Y", "Z"].map(axis => Number(childText(element, axis)));
+  return values.every(Number.isFinite) ? (values as Vec3) : null;
+};
+
+const readGuids = (parent: Element | null | undefined): string[] =>
+  Array.from(parent?.getElementsByTagName("Component") ?? [])
+    .map(component => component.getAttribute("IfcGuid") || "")
+    .filter(Boolean);
+
+const parseXml = (data: Uint8Array) =>
+  new DOMParser().parseFromString(decoder.decode(data), "application/xml");
+
+// viewpoint.bcfv → 카메라/선택/표시 상태
+const parseVisualization = (data: Uint8Array, offset?: Vec3): Pick<BcfViewpoint, "camera" | "selectedGlobalIds" | "visibility"> => {
+  const doc = parseXml(data);
+  const components = doc.getElementsByTagName("Components")[0];
+  const selection = components?.getElementsByTagName("Selection")[0];
+  const visibility = components?.getElementsByTagName("Visibility")[0];
+
+  const cameraElement = doc.getElementsByTagName("PerspectiveCamera")[0] ?? doc.getElementsByTagName("OrthogonalCamera")[0];
+  const position = readVector(cameraElement, "CameraViewPoint");
+  const direction = readVector(cameraElement, "CameraDirection");
+
+  let camera: BcfViewpoint["camera"];
+  if (position && direction) {
+    const viewerPosition = ifcToViewer(position, offset);
+    const viewerDirection = normalize(ifcToViewer(direction));
+    // BCF에는 회전 중심이 없으므로 시선 위에서 모델 중심(원점)에 가장 가까운 점을 타깃으로 사용
+    const along = -(viewerPosition[0] * viewerDirection[0] + viewerPosition[1] * viewerDirection[1] + viewerPosition[2] * viewerDirection[2]);
+    const distance = along > 1 ? along : DEFAULT_TARGET_DISTANCE;
+    camera = {
+      position: viewerPosition,
+      target: [
+        viewerPosition[0] + viewerDirection[0] * distance,
+        viewerPosition[1] + viewerDirection[1] * distance,
+        viewerPosition[2] + viewerDirection[2] * distance,
+      ],
+      fov: Number(childText(cameraElement, "FieldOfView")) || DEFAULT_FOV,
+      aspect: Number(childText(cameraElement, "AspectRatio")) || undefined,
+    };
+  }
+
+  return {
+    camera,
+    selectedGlobalIds: readGuids(selection),
+    visibility: {
+      defaultVisibility: visibility?.getAttribute("DefaultVisibility") !== "false",
+      exceptions: readGuids(visibility?.getElementsByTagName("Exceptions")[0]),
+    },
+  };
+};
+
+const parseDate = (value: string | undefined) => (value ? Date.parse(value) || undefined : undefined);
+
+// 2.1: Topic과 같은 레벨의 <Comment>, 3.0: <Topic><Comments><Comment>
+const parseComments = (markup: Document): BcfComment[] =>
+  Array.from(markup.getElementsByTagName("Comment"))
+    .filter(element => element.hasAttribute("Guid"))
+    .map(element => ({
+      guid: element.getAttribute("Guid") || crypto.randomUUID(),
+      author: childText(element, "Author") || "",
+      date: parseDate(childText(element, "Date")) ?? Date.now(),
+      text: Array.from(element.children).find(c => c.tagName === "Comment")?.textContent?.trim() ?? "",
+      viewpointGuid: element.getElementsByTagName("Viewpoint")[0]?.getAttribute("Guid") || undefined,
+    }));
+
+/**
+ * .bcfzip에서 모든 토픽 읽기 (BCF 2.1 / 3.0)
+ */
+export async function parseBcfZip(buffer: ArrayBuffer, offset?: Vec3): Promise<BcfTopicFile[]> {
+  const files = new Map((await readZip(buffer)).map(f => [f.path, f.data]));
+  const result: BcfTopicFile[] = [];
+
+  for (const [path, data] of files) {
+    if (!path.endsWith("markup.bcf")) continue;
+    const folder = path.slice(0, path.length - "markup.bcf".length);
+    const markup = parseXml(data);
+    const topic = markup.getElementsByTagName("Topic")[0];
+    if (!topic) continue;
+
+    // 2.1: <Viewpoints Guid> 반복, 3.0: <Viewpoints><ViewPoint Guid> 반복
+    const entries = Array.from(markup.getElementsByTagName("ViewPoint"));
+    const viewpointElements = entries.length > 0
+      ? entries
+      : Array.from(markup.getElementsByTagName("Viewpoints")).filter(v => v.hasAttribute("Guid"));
+
+    const viewpoints: BcfViewpoint[] = [];
+    for (const element of viewpointElements) {
+      const viewpointFile = files.get(folder + (childText(element, "Viewpoint") || "viewpoint.bcfv"));
+      if (!viewpointFile) continue;
+      const snapshotName = childText(element, "Snapshot");
+      const snapshot = snapshotName ? files.get(folder + snapshotName) : undefined;
+      viewpoints.push({
+        guid: element.getAttribute("Guid") || crypto.randomUUID(),
+        snapshot: snapshot ? bytesToDataUrl(snapshot, snapshotName?.toLowerCase().endsWith(".jpg") ? "image/jpeg" : "image/png") : undefined,
+        ...parseVisualization(viewpointFile, offset),
+      });
+    }
+
+    const labels = Array.from(topic.getElementsByTagName("Label")).concat(
+      Array.from(topic.getElementsByTagName("Labels")).filter(l => l.children.length === 0)
+    ).map(l => l.textContent?.trim() || "").filter(Boolean);
+
+    result.push({
+      guid: topic.getAttribute("Guid") || crypto.randomUUID(),
+      title: childText(topic, "Title") || folder.replace(/\/$/, ""),
+      description: childText(topic, "Description"),
+      topicType: topic.getAttribute("TopicType") || "Issue",
+      status: topic.getAttribute("TopicStatus") || "Open",
+      priority: childText(topic, "Priority"),
+      assignedTo: childText(topic, "AssignedTo"),
+      labels: labels.length > 0 ? labels : undefined,
+      author: childText(topic, "CreationAuthor") || "",
+      createdAt: parseDate(childText(topic, "CreationDate")) ?? Date.now(),
+      modifiedAt: parseDate(childText(topic, "ModifiedDate")),
+      modifiedAuthor: childText(topic, "ModifiedAuthor"),
+      dueDate: parseDate(childText(topic, "DueDate")),
+      viewpoints,
+      comments: parseComments(markup),
+    });
+  }
+
+  return result.sort((a, b) => a.createdAt - b.createdAt);
+}
@@ -0,0 +1,44 @@
+/**
+ * 뷰어 표시 상태(자재 숨김 + 층 필터) ↔ BCF Visibility 변환
+ */
+
+import { BcfVisibility, MaterialItem, StoreyInfo } from "@/types/ifc";
+
+// 숨긴 자재·층 필터 → BCF Visibility (예외 목록이 짧은 쪽으로 기록)
+export function toBcfVisibility(
+  materials: MaterialItem[],
+  storeys: StoreyInfo[],
+  hiddenMaterialIds: Iterable<string>,
+  selectedStorey: string | null,
+  getGlobalIds: (expressIDs: number[]) => string[]
+): BcfVisibility {
+  const hiddenMaterials = new Set(hiddenMaterialIds);
+  const storey = storeys.find(s => s.id === selectedStorey);
+  const storeyIDs = storey ? new Set(storey.expressIDs) : null;
+
+  const hidden: number[] = [];
+  const visible: number[] = [];
+  for (const material of materials) {
+    for (const id of material.expressIDs) {
+      const isHidden = hiddenMaterials.has(material.id) || (storeyIDs !== null && !storeyIDs.has(id));
+      (isHidden ? hidden : visible).push(id);
+    }
+  }
+
+  return hidden.length <= visible.length
+    ? { defaultVisibility: true, exceptions: getGlobalIds(hidden) }
+    : { defaultVisibility: false, exceptions: getGlobalIds(visible) };
+}
+
+// BCF Visibility → 숨길 자재 (요소가 전부 숨겨진 자재만, 층 필터는 복원하지 않음)
+export function hiddenMaterialsFromVisibility(
+  materials: MaterialItem[],
+  visibility: BcfVisibility,
+  getExpressIDsByGlobalIds: (globalIds: string[]) => number[]
+): string[] {
+  const exceptionIDs = new Set(getExpressIDsByGlobalIds(visibility.exceptions));
+  const isHidden = (id: number) => visibility.defaultVisibility ? exceptionIDs.has(id) : !exceptionIDs.has(id);
+  return materials
+    .filter(m => m.expressIDs.length > 0 && m.expressIDs.every(isHidden))
+    .map(m => m.id);
+}
@@ -0,0 +1,75 @@
+/**
+ * 간섭 목록 내보내기 (CSV / XLSX)
+ * XLSX는 그룹·상태별 요약 시트 + 간섭 목록 시트
+ */
+
+import { Clash, CLASH_STATUSES, ClashStatus } from "@/types/ifc";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+export interface ClashExportInput {
+  clashes: Clash[];
+  testName?: string;   // 검토 조건 설명 (예: "구조 ↔ 기계, 여유 50mm")
+}
+
+const KIND_LABELS: Record<Clash["kind"], string> = {
+  hard: "간섭",
+  clearance: "여유 거리",
+};
+
+const CLASH_HEADER = [
+  "번호", "그룹", "상태", "종류", "거리(mm)", "겹침(mm)",
+  "A 타입", "A 이름", "A GlobalId", "B 타입", "B 이름", "B GlobalId",
+  "X", "Y", "Z",
+];
+
+const mm = (value: number) => Math.round(value * 1000);
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const clashRow = (clash: Clash, index: number): SheetCell[] => [
+  index + 1,
+  clash.group,
+  CLASH_STATUSES[clash.status],
+  KIND_LABELS[clash.kind],
+  mm(clash.distance),
+  clash.kind === "hard" ? mm(clash.depth) : null,
+  clash.elementA.type, clash.elementA.name, clash.elementA.globalId,
+  clash.elementB.type, clash.elementB.name, clash.elementB.globalId,
+  ...clash.point.map(round3),
+];
+
+/**
+ * CSV 문자열: 간섭 하나가 한 행
+ */
+export function clashesToCsv({ clashes }: ClashExportInput): string {
+  return toCsv([CLASH_HEADER, ...clashes.map(clashRow)]);
+}
+
+/**
+ * XLSX: 요약 시트 (그룹별 상태 건수) + 간섭 목록 시트
+ */
+export function exportClashesToXlsx({ clashes, testName }: ClashExportInput): Blob {
+  const statuses = Object.keys(CLASH_STATUSES) as ClashStatus[];
+  const groups = new Map<string, Record<ClashStatus, number>>();
+  for (const clash of clashes) {
+    const counts = groups.get(clash.group) || { new: 0, approved: 0, resolved: 0 };
+    counts[clash.status]++;
+    groups.set(clash.group, counts);
+  }
+
+  const summary: SheetCell[][] = [
+    ["간섭 검토", testName ?? ""],
+    ["작성", new Date().toLocaleString("ko-KR")],
+    [],
+    ["그룹", ...statuses.map(status => CLASH_STATUSES[status]), "합계"],
+  ];
+  for (const [group, counts] of groups) {
+    summary.push([group, ...statuses.map(status => counts[status]), statuses.reduce((sum, s) => sum + counts[s], 0)]);
+  }
+  summary.push(["합계", ...statuses.map(status => clashes.filter(c => c.status === status).length), clashes.length]);
+
+  return createXlsx([
+    { name: "요약", rows: summary, boldRows: [3, summary.length - 1] },
+    { name: "간섭 목록", rows: [CLASH_HEADER, ...clashes.map(clashRow)] },
+  ]);
+}
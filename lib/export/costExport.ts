@@ -0,0 +1,74 @@
+/**
+ * 공사비 내보내기 (CSV / XLSX) 와 단가표 CSV
+ * XLSX는 내역 + 카테고리별 + 층별 시트, 단가표 CSV는 가져오기 형식과 같은 열
+ */
+
+import { CostEstimate, PriceList } from "@/lib/ifc/costEstimate";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+const LINE_HEADER = ["카테고리", "품명", "규격", "요소 수", "단가 코드", "단가 품명", "연결", "단위", "수량", "단가", "금액"];
+const PRICE_HEADER = ["코드", "카테고리", "품명", "규격", "단위", "재료비", "노무비", "경비", "단가"];
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const lineRows = (estimate: CostEstimate): SheetCell[][] =>
+  estimate.lines.map(line => [
+    line.category,
+    line.typeName,
+    line.spec,
+    line.expressIDs.length,
+    line.entry?.code ?? "",
+    line.entry?.name ?? "",
+    line.unitMismatch ? "단위 환산 불가" : line.linkType === "manual" ? "직접" : line.linkType === "auto" ? "자동" : "미연결",
+    line.unit,
+    line.unitMismatch ? null : round(line.quantity, line.unit === "개" ? 0 : 3),
+    line.entry ? line.entry.unitPrice : null,
+    line.entry && !line.unitMismatch ? Math.round(line.amount) : null,
+  ]);
+
+/**
+ * CSV 문자열: 자재 행 하나가 한 행
+ */
+export function costEstimateToCsv(estimate: CostEstimate): string {
+  return toCsv([LINE_HEADER, ...lineRows(estimate), ["합계", "", "", null, "", "", "", "", null, null, Math.round(estimate.total)]]);
+}
+
+/**
+ * XLSX: 내역 시트 + 카테고리별 시트 + 층별 시트
+ */
+export function exportCostEstimateToXlsx(estimate: CostEstimate, priceList: PriceList | null): Blob {
+  const header: SheetCell[][] = [
+    ["단가표", priceList ? `${priceList.name} v${priceList.version}` : ""],
+    ["공사비 합계", Math.round(estimate.total)],
+    [],
+  ];
+  const rollup = (title: string, rows: CostEstimate["byCategory"]): SheetCell[][] => [
+    [title, "금액", "비율(%)"],
+    ...rows.map(({ label, amount }) => [label, Math.round(amount), estimate.total ? round((amount / estimate.total) * 100, 1) : null]),
+  ];
+
+  return createXlsx([
+    { name: "내역", rows: [...header, LINE_HEADER, ...lineRows(estimate)], boldRows: [3] },
+    { name: "카테고리별", rows: rollup("카테고리", estimate.byCategory) },
+    { name: "층별", rows: rollup("층", estimate.byStorey) },
+  ]);
+}
+
+/**
+ * 단가표 → CSV 문자열 (다시 가져올 수 있는 형식)
+ */
+export function priceListToCsv(list: PriceList): string {
+  const rows: SheetCell[][] = list.entries.map(entry => [
+    entry.code ?? "",
+    entry.category ?? "",
+    entry.name,
+    entry.spec ?? "",
+    entry.unit,
+    entry.materialCost ?? null,
+    entry.laborCost ?? null,
+    entry.expenseCost ?? null,
+    entry.unitPrice,
+  ]);
+  return toCsv([PRICE_HEADER, ...rows]);
+}
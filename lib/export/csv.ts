@@ -0,0 +1,58 @@
+/**
+ * CSV 문자열·다운로드용 Blob 생성 (내보내기 공용) / 읽기 (단가표 가져오기)
+ */
+
+import type { SheetCell } from "./xlsx";
+
+const csvEscape = (value: SheetCell) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Excel 한글 표시를 위해 UTF-8 BOM 포함
+export const toCsv = (rows: SheetCell[][]) => "\uFEFF" + rows.map(row => row.map(csvEscape).join(",")).join("\r\n");
+
+// CSV 다운로드용 Blob
+export const csvBlob = (text: string) => new Blob([text], { type: "text/csv;charset=utf-8" });
+
+/**
+ * CSV 문자열 → 행 목록 (따옴표 필드·줄바꿈 포함 필드 지원, BOM·빈 행 제거)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
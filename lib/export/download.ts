@@ -0,0 +1,12 @@
+/**
+ * 브라우저 파일 다운로드 (내보내기 공용)
+ */
+
+// Blob을 파일로 다운로드
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
@@ -0,0 +1,204 @@
+/**
+ * 최소 GLB(glTF 2.0 바이너리) 생성기 (외부 라이브러리 없이 브라우저·Node 공용)
+ * 변환 결과(lib/ifc/modelPayload)의 지오메트리·메시를 그대로 옮김
+ * - 지오메트리 + 색상 조합마다 glTF mesh 하나, 요소 메시마다 변환 행렬을 가진 node 하나
+ * - node.extras에 expressID / typeCode를 남겨 다른 도구에서 IFC 요소와 연결 가능
+ */
+
+import type { PayloadGeometry, PayloadMesh } from "@/lib/ifc/modelPayload";
+
+export interface GlbOptions {
+  sceneName?: string;
+  nodeName?: (mesh: PayloadMesh) => string; // 기본: "#expressID"
+}
+
+// glTF 상수
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+const nonEmpty = <T>(key: string, items: T[]) => (items.length > 0 ? { [key]: items } : {});
+
+// 단위 벡터로 정규화 (양자화 복원 오차·길이 0 법선 보정 - glTF 검증 규칙)
+const normalizeNormals = (normals: Float32Array) => {
+  const out = new Float32Array(normals.length);
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (length > 0) {
+      out[i] = normals[i] / length;
+      out[i + 1] = normals[i + 1] / length;
+      out[i + 2] = normals[i + 2] / length;
+    } else {
+      out[i + 2] = 1;
+    }
+  }
+  return out;
+};
+
+interface BufferViewDef {
+  buffer: number;
+  byteOffset: number;
+  byteLength: number;
+  target: number;
+}
+
+interface AccessorDef {
+  bufferView: number;
+  componentType: number;
+  count: number;
+  type: "SCALAR" | "VEC3";
+  min?: number[];
+  max?: number[];
+}
+
+/**
+ * 지오메트리·메시 → GLB 바이트
+ */
+export function createGlb(
+  geometries: PayloadGeometry[],
+  meshes: PayloadMesh[],
+  options: GlbOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+  let binLength = 0;
+  const bufferViews: BufferViewDef[] = [];
+  const accessors: AccessorDef[] = [];
+
+  const addView = (array: ArrayBufferView, target: number) => {
+    const bytes = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+    bufferViews.push({ buffer: 0, byteOffset: binLength, byteLength: bytes.byteLength, target });
+    chunks.push(bytes);
+    binLength += bytes.byteLength;
+    const padding = align4(binLength) - binLength;
+    if (padding > 0) {
+      chunks.push(new Uint8Array(padding));
+      binLength += padding;
+    }
+    return bufferViews.length - 1;
+  };
+
+  // 지오메트리 → 정점·법선·인덱스 accessor (POSITION은 min/max 필수)
+  const geometryAccessors = new Map<number, { position: number; normal: number; indices: number }>();
+  for (const geometry of geometries) {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    const { positions } = geometry;
+    for (let i = 0; i < positions.length; i++) {
+      const axis = i % 3;
+      if (positions[i] < min[axis]) min[axis] = positions[i];
+      if (positions[i] > max[axis]) max[axis] = positions[i];
+    }
+    const vertexCount = positions.length / 3;
+    if (vertexCount === 0 || geometry.indices.length === 0) continue;
+
+    accessors.push({ bufferView: addView(positions, ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: "VEC3", min, max });
+    accessors.push({ bufferView: addView(normalizeNormals(geometry.normals), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: "VEC3" });
+    accessors.push({
+      bufferView: addView(geometry.indices, ELEMENT_ARRAY_BUFFER),
+      componentType: geometry.indices instanceof Uint32Array ? UNSIGNED_INT : UNSIGNED_SHORT,
+      count: geometry.indices.length,
+      type: "SCALAR",
+    });
+    const base = accessors.length - 3;
+    geometryAccessors.set(geometry.index, { position: base, normal: base + 1, indices: base + 2 });
+  }
+
+  // 색상별 재질, 지오메트리 + 재질 조합별 mesh
+  const materialIndex = new Map<string, number>();
+  const materials: object[] = [];
+  const meshIndex = new Map<string, number>();
+  const gltfMeshes: object[] = [];
+  const nodes: object[] = [];
+
+  for (const mesh of meshes) {
+    const accessor = geometryAccessors.get(mesh.geometry);
+    if (!accessor) continue;
+
+    const [r, g, b, a] = mesh.color;
+    const colorKey = mesh.color.map(c => c.toFixed(4)).join(",");
+    let material = materialIndex.get(colorKey);
+    if (material === undefined) {
+      material = materials.length;
+      materials.push({
+        pbrMetallicRoughness: { baseColorFactor: [r, g, b, a], metallicFactor: 0, roughnessFactor: 1 },
+        alphaMode: a < 1 ? "BLEND" : "OPAQUE",
+        doubleSided: true,
+      });
+      materialIndex.set(colorKey, material);
+    }
+
+    const meshKey = `${mesh.geometry}_${material}`;
+    let gltfMesh = meshIndex.get(meshKey);
+    if (gltfMesh === undefined) {
+      gltfMesh = gltfMeshes.length;
+      gltfMeshes.push({
+        primitives: [{
+          attributes: { POSITION: accessor.position, NORMAL: accessor.normal },
+          indices: accessor.indices,
+          material,
+        }],
+      });
+      meshIndex.set(meshKey, gltfMesh);
+    }
+
+    const matrix = Array.from(mesh.transform);
+    nodes.push({
+      name: options.nodeName?.(mesh) ?? `#${mesh.expressID}`,
+      mesh: gltfMesh,
+      ...(matrix.every((v, i) => v === IDENTITY[i]) ? {} : { matrix }),
+      extras: { expressID: mesh.expressID, typeCode: mesh.typeCode },
+    });
+  }
+
+  // glTF 최상위 배열은 비어 있으면 생략해야 함
+  const gltf = {
+    asset: { version: "2.0", generator: "ifc-mvp" },
+    scene: 0,
+    scenes: [{ name: options.sceneName ?? "IFC", ...nonEmpty("nodes", nodes.map((_, i) => i)) }],
+    ...nonEmpty("nodes", nodes),
+    ...nonEmpty("meshes", gltfMeshes),
+    ...nonEmpty("materials", materials),
+    ...nonEmpty("accessors", accessors),
+    ...nonEmpty("bufferViews", bufferViews),
+    ...(binLength > 0 ? { buffers: [{ byteLength: binLength }] } : {}),
+  };
+
+  // JSON 청크는 공백, BIN 청크는 0으로 4바이트 패딩
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = align4(jsonBytes.byteLength);
+  const totalLength = 12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0);
+
+  const out = new Uint8Array(totalLength);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  out.set(jsonBytes, 20);
+  out.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength);
+
+  if (binLength > 0) {
+    let offset = 20 + jsonLength;
+    view.setUint32(offset, binLength, true);
+    view.setUint32(offset + 4, CHUNK_BIN, true);
+    offset += 8;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,54 @@
+/**
+ * 모델 점검 보고서 내보내기 (CSV / XLSX)
+ * XLSX는 항목별 요약 시트 + 문제 요소 시트
+ */
+
+import { HEALTH_SEVERITY_LABELS, HealthReport } from "@/lib/ifc/modelHealth";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+const ITEM_HEADER = ["모델", "항목", "심각도", "요소", "내용"];
+
+// 문제 요소 한 줄
+const itemRows = (report: HealthReport): SheetCell[][] =>
+  report.findings.flatMap(finding =>
+    finding.items.map(item => [
+      finding.modelName,
+      finding.title,
+      HEALTH_SEVERITY_LABELS[finding.severity],
+      item.label,
+      item.detail ?? "",
+    ])
+  );
+
+/**
+ * CSV 문자열: 문제 요소 하나가 한 행
+ */
+export function healthReportToCsv(report: HealthReport): string {
+  return toCsv([ITEM_HEADER, ...itemRows(report)]);
+}
+
+/**
+ * XLSX: 요약 시트 (항목별 요소 수) + 문제 요소 시트
+ */
+export function exportHealthReportToXlsx(report: HealthReport, modelName?: string): Blob {
+  const summary: SheetCell[][] = [
+    ["모델", modelName ?? ""],
+    ["점검 일시", new Date(report.checkedAt).toLocaleString("ko-KR")],
+    ["점검 요소", report.elementCount],
+    [],
+    ["모델", "항목", "심각도", "요소 수", "설명"],
+    ...report.findings.map(finding => [
+      finding.modelName,
+      finding.title,
+      HEALTH_SEVERITY_LABELS[finding.severity],
+      finding.items.length,
+      finding.description,
+    ]),
+  ];
+
+  return createXlsx([
+    { name: "요약", rows: summary, boldRows: [4] },
+    { name: "문제 요소", rows: [ITEM_HEADER, ...itemRows(report)] },
+  ]);
+}
@@ -0,0 +1,62 @@
+/**
+ * IDS 검사 보고서 내보내기 (CSV / XLSX)
+ * XLSX는 사양별 요약 시트 + 실패 요소 시트
+ */
+
+import type { IdsReport, IdsSpecificationStatus } from "@/lib/ifc/ids";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+export const IDS_STATUS_LABELS: Record<IdsSpecificationStatus, string> = {
+  pass: "통과",
+  fail: "실패",
+  skipped: "검사 안 함",
+};
+
+const FAILURE_HEADER = ["사양", "GlobalId", "클래스", "이름", "사유"];
+
+// 실패 요소 한 줄 (사유가 여러 개면 줄바꿈으로 구분)
+const failureRows = (report: IdsReport): SheetCell[][] =>
+  report.results.flatMap(result =>
+    result.failures.map(failure => [
+      result.specification.name,
+      failure.globalId ?? "",
+      failure.entity,
+      failure.name ?? "",
+      failure.reasons.join("\n"),
+    ])
+  );
+
+/**
+ * CSV 문자열: 실패 요소 하나가 한 행
+ */
+export function idsReportToCsv(report: IdsReport): string {
+  return toCsv([FAILURE_HEADER, ...failureRows(report)]);
+}
+
+/**
+ * XLSX: 요약 시트 (사양별 적용·통과·실패 수) + 실패 요소 시트
+ */
+export function exportIdsReportToXlsx(report: IdsReport, modelName?: string): Blob {
+  const summary: SheetCell[][] = [
+    ["IDS", report.document.title],
+    ["모델", modelName ?? ""],
+    ["검사 일시", new Date(report.checkedAt).toLocaleString("ko-KR")],
+    ["검사 요소", report.elementCount],
+    [],
+    ["사양", "결과", "적용", "통과", "실패", "참고"],
+    ...report.results.map(result => [
+      result.specification.name,
+      IDS_STATUS_LABELS[result.status],
+      result.applicableCount,
+      result.passedKeys.length,
+      result.failures.length,
+      result.warnings.join("\n"),
+    ]),
+  ];
+
+  return createXlsx([
+    { name: "요약", rows: summary, boldRows: [5] },
+    { name: "실패 요소", rows: [FAILURE_HEADER, ...failureRows(report)] },
+  ]);
+}
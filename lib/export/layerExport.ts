@@ -0,0 +1,57 @@
+/**
+ * 재료별 수량 내보내기 (CSV / XLSX)
+ * 재료 + 레이어 두께 한 줄, XLSX는 재료 이름별 합계 시트 포함
+ */
+
+import { MaterialLayerItem } from "@/types/ifc";
+import { formatLayerThickness, MATERIAL_LAYER_KIND_LABELS } from "@/lib/ifc/materialTakeoff";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+const HEADER = ["재료", "구분", "두께(mm)", "세트", "재료 분류", "요소 수", "면적(m²)", "체적(m³)", "길이(m)"];
+
+const round = (value: number, digits: number) =>
+  value ? Math.round(value * 10 ** digits) / 10 ** digits : null;
+
+const itemRows = (items: MaterialLayerItem[]): SheetCell[][] =>
+  items.map(item => [
+    item.material,
+    MATERIAL_LAYER_KIND_LABELS[item.kind],
+    formatLayerThickness(item.thickness),
+    item.setNames.join(", "),
+    item.category ?? "",
+    item.count,
+    round(item.area, 2),
+    round(item.volume, 3),
+    round(item.length, 2),
+  ]);
+
+/**
+ * CSV 문자열: 재료 + 두께 조합 하나가 한 행
+ */
+export function materialLayersToCsv(items: MaterialLayerItem[]): string {
+  return toCsv([HEADER, ...itemRows(items)]);
+}
+
+/**
+ * XLSX: 재료별 수량 시트 + 재료 이름별 합계 시트 (두께가 다른 레이어를 합침)
+ */
+export function exportMaterialLayersToXlsx(items: MaterialLayerItem[]): Blob {
+  const totals = new Map<string, { area: number; volume: number; length: number }>();
+  for (const item of items) {
+    const total = totals.get(item.material) || { area: 0, volume: 0, length: 0 };
+    total.area += item.area;
+    total.volume += item.volume;
+    total.length += item.length;
+    totals.set(item.material, total);
+  }
+  const summary: SheetCell[][] = [
+    ["재료", "면적(m²)", "체적(m³)", "길이(m)"],
+    ...Array.from(totals, ([material, total]) => [material, round(total.area, 2), round(total.volume, 3), round(total.length, 2)]),
+  ];
+
+  return createXlsx([
+    { name: "재료별 수량", rows: [HEADER, ...itemRows(items)] },
+    { name: "재료 합계", rows: summary },
+  ]);
+}
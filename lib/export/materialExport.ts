@@ -0,0 +1,162 @@
+/**
+ * 수량검토 표 내보내기 (CSV / XLSX)
+ * 화면에 보이는 행(층 필터·검색·숨김 반영)을 층별로 나누고 요약 시트를 추가
+ */
+
+import { MaterialItem, QuantityTotals, StoreyInfo } from "@/types/ifc";
+import { subsetMaterialItem } from "@/lib/ifc/takeoff";
+import { createXlsx, SheetCell, SheetData } from "./xlsx";
+import { toCsv } from "./csv";
+
+export interface MaterialExportInput {
+  materials: MaterialItem[];     // 내보낼 행 (검색·숨김·선택 필터 적용 후)
+  storeys: StoreyInfo[];         // 나눌 층 목록 (층 필터가 있으면 해당 층만)
+  getQuantityTotals?: (expressIDs: number[]) => QuantityTotals;
+  modelName?: string;
+  filterLabel?: string;          // 요약 시트에 기록할 필터 설명
+}
+
+interface StoreyBreakdown {
+  name: string;
+  items: MaterialItem[];
+}
+
+const UNASSIGNED_STOREY = "층 미지정";
+
+const ITEM_HEADER = ["구분", "품명", "규격", "개수", "단위", "수량", "면적(m²)", "체적(m³)", "길이(m)"];
+
+const round = (value: number | undefined, digits: number) =>
+  value ? Math.round(value * 10 ** digits) / 10 ** digits : null;
+
+const itemQuantity = (item: MaterialItem) => item.quantity ?? (item.unit === "m²" ? item.totalArea : item.count);
+
+const itemRow = (item: MaterialItem): SheetCell[] => [
+  item.category,
+  item.typeName,
+  item.spec,
+  item.count,
+  item.unit,
+  round(itemQuantity(item), item.unit === "개" ? 0 : 3),
+  round(item.totalArea, 2),
+  round(item.totalVolume, 3),
+  round(item.totalLength, 2),
+];
+
+// 자재 행을 층별로 분할 (어느 층에도 없는 요소는 "층 미지정")
+function splitByStorey(input: MaterialExportInput): StoreyBreakdown[] {
+  const { materials, storeys, getQuantityTotals } = input;
+  if (storeys.length === 0) return [{ name: "전체", items: materials }];
+
+  const storeyOf = new Map<number, number>();
+  storeys.forEach((storey, index) => {
+    for (const id of storey.expressIDs) storeyOf.set(id, index);
+  });
+
+  const buckets: MaterialItem[][] = storeys.map(() => []);
+  const unassigned: MaterialItem[] = [];
+
+  for (const item of materials) {
+    const idsByStorey = new Map<number, number[]>();
+    const rest: number[] = [];
+    for (const id of item.expressIDs) {
+      const index = storeyOf.get(id);
+      if (index === undefined) {
+        rest.push(id);
+      } else {
+        const ids = idsByStorey.get(index) || [];
+        ids.push(id);
+        idsByStorey.set(index, ids);
+      }
+    }
+    idsByStorey.forEach((ids, index) => buckets[index].push(subsetMaterialItem(item, ids, getQuantityTotals)));
+    if (rest.length > 0) unassigned.push(subsetMaterialItem(item, rest, getQuantityTotals));
+  }
+
+  const result = storeys.map((storey, index) => ({ name: storey.name, items: buckets[index] }));
+  if (unassigned.length > 0) result.push({ name: UNASSIGNED_STOREY, items: unassigned });
+  return result.filter(b => b.items.length > 0);
+}
+
+// 요약 시트: 자재 × 층 수량표 + 카테고리·단위별 합계
+function buildSummarySheet(input: MaterialExportInput, breakdowns: StoreyBreakdown[]): SheetData {
+  const rows: SheetCell[][] = [];
+  const boldRows: number[] = [];
+
+  rows.push(["모델", input.modelName || "-"]);
+  rows.push(["출력 일시", new Date().toLocaleString("ko-KR")]);
+  if (input.filterLabel) rows.push(["필터", input.filterLabel]);
+  rows.push([]);
+
+  boldRows.push(rows.length);
+  rows.push(["구분", "품명", "규격", "단위", ...breakdowns.map(b => b.name), "합계"]);
+
+  for (const item of input.materials) {
+    const perStorey = breakdowns.map(b => {
+      const match = b.items.find(i => i.id === item.id);
+      return match ? round(itemQuantity(match), item.unit === "개" ? 0 : 3) : null;
+    });
+    rows.push([item.category, item.typeName, item.spec, item.unit, ...perStorey, round(itemQuantity(item), item.unit === "개" ? 0 : 3)]);
+  }
+
+  // 카테고리 + 단위별 합계
+  const categoryTotals = new Map<string, { category: string; unit: string; count: number; quantity: number }>();
+  for (const item of input.materials) {
+    const key = `${item.category}_${item.unit}`;
+    const total = categoryTotals.get(key) || { category: item.category, unit: item.unit, count: 0, quantity: 0 };
+    total.count += item.count;
+    total.quantity += itemQuantity(item) || 0;
+    categoryTotals.set(key, total);
+  }
+
+  rows.push([]);
+  boldRows.push(rows.length);
+  rows.push(["카테고리별 합계", "", "개수", "단위", "수량"]);
+  categoryTotals.forEach(total => {
+    rows.push([total.category, "", total.count, total.unit, round(total.quantity, total.unit === "개" ? 0 : 3)]);
+  });
+
+  return { name: "요약", rows, boldRows };
+}
+
+/**
+ * XLSX: 요약 시트 + 층별 시트
+ */
+export function exportMaterialsToXlsx(input: MaterialExportInput): Blob {
+  const breakdowns = splitByStorey(input);
+  const sheets: SheetData[] = [
+    buildSummarySheet(input, breakdowns),
+    ...breakdowns.map(b => ({ name: b.name, rows: [ITEM_HEADER, ...b.items.map(itemRow)] })),
+  ];
+  return createXlsx(sheets);
+}
+
+/**
+ * CSV 문자열: 층 열을 추가한 단일 표 (브라우저 다운로드·CLI 공용)
+ */
+export function materialsToCsv(input: MaterialExportInput): string {
+  const rows: SheetCell[][] = [["층", ...ITEM_HEADER]];
+  for (const breakdown of splitByStorey(input)) {
+    for (const item of breakdown.items) rows.push([breakdown.name, ...itemRow(item)]);
+  }
+  return toCsv(rows);
+}
+
+/**
+ * 층별 요약 CSV: 높이, 요소 수, 자재 행 수, 면적·체적 합계
+ */
+export function storeySummaryToCsv(input: MaterialExportInput): string {
+  const elevations = new Map(input.storeys.map(s => [s.name, s.elevation]));
+  const rows: SheetCell[][] = [["층", "높이(m)", "요소 수", "자재 행 수", "면적(m²)", "체적(m³)"]];
+  for (const breakdown of splitByStorey(input)) {
+    const elevation = elevations.get(breakdown.name);
+    rows.push([
+      breakdown.name,
+      elevation === undefined ? null : Math.round(elevation * 1000) / 1000,
+      breakdown.items.reduce((sum, item) => sum + item.count, 0),
+      breakdown.items.length,
+      round(breakdown.items.reduce((sum, item) => sum + (item.totalArea || 0), 0), 2),
+      round(breakdown.items.reduce((sum, item) => sum + (item.totalVolume || 0), 0), 3),
+    ]);
+  }
+  return toCsv(rows);
+}
@@ -0,0 +1,100 @@
+/**
+ * 개구부 공제 내보내기 (CSV / XLSX)
+ * CSV는 개구부 하나가 한 행, XLSX는 자재 행별 요약 + 요소별 + 개구부별 시트
+ */
+
+import {
+  OPENING_HOST_LABELS,
+  OPENING_SKIP_LABELS,
+  OpeningDeductionResult,
+  OpeningDeductionSettings,
+  openingElementLabel,
+} from "@/lib/ifc/openings";
+import { getIfcKoreanName } from "@/lib/ifc/typeRegistry";
+import { splitElementKey } from "@/lib/ifc/federation";
+import { createXlsx, SheetCell } from "./xlsx";
+import { toCsv } from "./csv";
+
+const OPENING_HEADER = ["카테고리", "품명", "규격", "요소", "개구부", "채움 요소", "폭(m)", "높이(m)", "면적(m²)", "공제", "제외 사유"];
+
+const round = (value: number | undefined, digits: number) =>
+  value ? Math.round(value * 10 ** digits) / 10 ** digits : null;
+
+const openingRows = (result: OpeningDeductionResult): SheetCell[][] =>
+  result.groups.flatMap(group =>
+    group.hosts.flatMap(host =>
+      host.openings.map(opening => [
+        group.category,
+        group.typeName,
+        group.spec,
+        openingElementLabel(host.key, host.typeCode, host.name),
+        `#${splitElementKey(opening.openingId).expressID}`,
+        opening.filling ? openingElementLabel(opening.filling.expressID, opening.filling.typeCode, opening.filling.name) : "",
+        round(opening.width, 3),
+        round(opening.height, 3),
+        round(opening.area, 3),
+        opening.deducted ? "공제" : "",
+        opening.skipReason ? OPENING_SKIP_LABELS[opening.skipReason] : "",
+      ])
+    )
+  );
+
+/**
+ * CSV 문자열: 개구부 하나가 한 행
+ */
+export function openingDeductionsToCsv(result: OpeningDeductionResult): string {
+  return toCsv([OPENING_HEADER, ...openingRows(result)]);
+}
+
+/**
+ * XLSX: 요약 시트 (자재 행별 총면적·공제·순면적) + 요소 시트 + 개구부 시트
+ */
+export function exportOpeningDeductionsToXlsx(result: OpeningDeductionResult, settings: OpeningDeductionSettings): Blob {
+  const summary: SheetCell[][] = [
+    ["공제 제외 기준(m²)", settings.minArea],
+    ["벽 공제", settings.deductWalls ? "예" : "아니오"],
+    ["슬래브 공제", settings.deductSlabs ? "예" : "아니오"],
+    ["문·창 없는 개구부 공제", settings.deductEmpty ? "예" : "아니오"],
+    [],
+    ["카테고리", "품명", "규격", "요소 수", "개구부", "공제 개구부", "총면적(m²)", "공제(m²)", "순면적(m²)"],
+    ...result.groups.map(group => [
+      group.category,
+      group.typeName,
+      group.spec,
+      group.hosts.length,
+      group.openingCount,
+      group.deductedCount,
+      round(group.grossArea, 2),
+      round(group.deductedArea, 2),
+      round(group.netArea, 2),
+    ]),
+    ["합계", "", "", null, null, null, round(result.grossArea, 2), round(result.deductedArea, 2), round(result.netArea, 2)],
+  ];
+
+  const hosts: SheetCell[][] = [
+    ["카테고리", "품명", "규격", "요소", "구분", "IFC 타입", "총면적(m²)", "총면적 출처", "공제(m²)", "순면적(m²)", "개구부"],
+    ...result.groups.flatMap(group =>
+      group.hosts
+        .filter(host => host.openings.length > 0)
+        .map(host => [
+          group.category,
+          group.typeName,
+          group.spec,
+          openingElementLabel(host.key, host.typeCode, host.name),
+          OPENING_HOST_LABELS[host.kind],
+          getIfcKoreanName(host.typeCode),
+          round(host.grossArea, 3),
+          host.grossSource === "qto" ? "Qto" : "산출 + 개구부",
+          round(host.deductedArea, 3),
+          round(host.netArea, 3),
+          host.openings.length,
+        ])
+    ),
+  ];
+
+  return createXlsx([
+    { name: "요약", rows: summary, boldRows: [5] },
+    { name: "요소별", rows: hosts },
+    { name: "개구부", rows: [OPENING_HEADER, ...openingRows(result)] },
+  ]);
+}
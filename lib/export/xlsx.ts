@@ -0,0 +1,128 @@
+/**
+ * 최소 XLSX 생성기 (외부 라이브러리/서버 없이 브라우저에서 생성)
+ * SpreadsheetML을 ZIP으로 묶고, 문자열은 inlineStr로 저장
+ */
+
+import { createZip } from "./zip";
+
+export type SheetCell = string | number | null | undefined;
+
+export interface SheetData {
+  name: string;
+  rows: SheetCell[][];
+  boldRows?: number[]; // 굵게 표시할 행 번호 (0부터, 기본: 첫 행)
+}
+
+const encoder = new TextEncoder();
+
+// ========== SpreadsheetML ==========
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0에서 허용되지 않는 제어 문자 제거
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+// 0 → A, 25 → Z, 26 → AA
+const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// 시트 이름 규칙: 31자 이하, []:*?/\ 불가, 중복 불가
+const sanitizeSheetNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, "_").trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const sheetXml = (sheet: SheetData): string => {
+  const boldRows = new Set(sheet.boldRows ?? [0]);
+  const columnCount = Math.max(0, ...sheet.rows.map(r => r.length));
+  const cols = Array.from({ length: columnCount }, (_, i) => {
+    const width = Math.min(50, Math.max(8, ...sheet.rows.map(r => String(r[i] ?? "").length * 1.6)));
+    return `<col min="${i + 1}" max="${i + 1}" width="${width.toFixed(1)}" customWidth="1"/>`;
+  }).join("");
+
+  const rows = sheet.rows.map((row, r) => {
+    const style = boldRows.has(r) ? ` s="1"` : "";
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (value === null || value === undefined || value === "") return "";
+      if (typeof value === "number") {
+        return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : "";
+      }
+      return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join("");
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${cols ? `<cols>${cols}</cols>` : ""}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+/**
+ * 시트 목록으로 XLSX 파일 생성
+ */
+export function createXlsx(sheets: SheetData[]): Blob {
+  const names = sanitizeSheetNames(sheets.map(s => s.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${names.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("\n")}
+<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  const zip = createZip([
+    { path: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+    { path: "_rels/.rels", data: encoder.encode(rootRels) },
+    { path: "xl/workbook.xml", data: encoder.encode(workbook) },
+    { path: "xl/_rels/workbook.xml.rels", data: encoder.encode(workbookRels) },
+    { path: "xl/styles.xml", data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(sheetXml(sheet)) })),
+  ]);
+
+  return new Blob([zip], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
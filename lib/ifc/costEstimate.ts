@@ -0,0 +1,351 @@
+/**
+ * 단가 연결과 공사비 산출 (5D)
+ * - 단가표는 CSV로 가져와 브라우저(localStorage)에 버전별로 저장 (같은 이름으로 다시 가져오면 새 버전)
+ * - 자재 행(분류 매핑 적용 결과)에 단가 항목을 연결: 직접 연결 → 카테고리·품명·규격 조건이 맞는 항목 순
+ *   (매핑 규칙의 카테고리·품명을 단가표 조건으로 쓰면 규칙 단위로 단가가 붙음)
+ * - 금액 = 단가 단위의 수량(면적·체적·길이·개수) × 단가, 카테고리·층별 합계와 요소별 금액(3D 색상)까지 계산
+ */
+
+import { MaterialItem, QuantityTotals, StoreyInfo } from "@/types/ifc";
+import { quantityForUnit } from "./takeoff";
+import { wildcardRegExp } from "./mappingProfile";
+import { parseCsv } from "@/lib/export/csv";
+
+export interface PriceEntry {
+  id: string;
+  code?: string;          // 내역·일위대가 코드
+  category?: string;      // 조건: 카테고리 (와일드카드, 비우면 모두)
+  name: string;           // 조건: 품명 (와일드카드)
+  spec?: string;          // 조건: 규격 (와일드카드, 비우면 모두)
+  unit: string;           // m², m³, m, 개
+  unitPrice: number;      // 합계 단가 (원/단위)
+  materialCost?: number;  // 재료비
+  laborCost?: number;     // 노무비
+  expenseCost?: number;   // 경비
+}
+
+export interface PriceList {
+  id: string;
+  name: string;
+  version: number;        // 같은 이름의 단가표를 가져올 때마다 1씩 증가
+  importedAt: string;
+  fileName?: string;
+  entries: PriceEntry[];
+}
+
+// 자재 행 → 단가 항목 직접 연결 (자재 행 id → 항목 키, 버전이 바뀌어도 유지)
+export type PriceLinks = Record<string, string>;
+
+export interface CostLine {
+  materialId: string;
+  category: string;
+  typeName: string;
+  spec: string;
+  entry: PriceEntry | null;
+  linkType: "manual" | "auto" | null;
+  unit: string;           // 단가 단위 (연결 안 되면 자재 행 단위)
+  quantity: number;
+  amount: number;         // 원 (연결 안 되거나 단위를 환산할 수 없으면 0)
+  unitMismatch: boolean;  // 단가 단위(kg·ton·식 등)를 수량표 수량으로 환산할 수 없음 → 단가 없음으로 집계
+  expressIDs: number[];
+}
+
+export interface CostRollup {
+  label: string;
+  amount: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  total: number;
+  byCategory: CostRollup[];
+  byStorey: CostRollup[];          // 층 높이 순, 층에 속하지 않은 요소는 "층 미지정"
+  elementCosts: Map<number, number>; // 요소 키 → 금액 (단가가 연결된 요소만)
+  unpricedCount: number;           // 단가가 연결되지 않았거나 단위를 환산할 수 없는 자재 행
+}
+
+export class PriceListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceListError";
+  }
+}
+
+const LISTS_KEY = "ifc-price-lists";
+const ACTIVE_LIST_KEY = "ifc-price-active-list";
+const LINKS_KEY = "ifc-price-links";
+const NO_STOREY = "층 미지정";
+
+// 가져오기 CSV 열 이름 (한글/영문)
+const COLUMN_ALIASES: Record<keyof Omit<PriceEntry, "id">, string[]> = {
+  code: ["코드", "code"],
+  category: ["카테고리", "분류", "category"],
+  name: ["품명", "공종", "name", "item"],
+  spec: ["규격", "spec"],
+  unit: ["단위", "unit"],
+  unitPrice: ["단가", "합계단가", "unitprice", "price"],
+  materialCost: ["재료비", "material"],
+  laborCost: ["노무비", "labor"],
+  expenseCost: ["경비", "expense"],
+};
+
+// 수량표 수량으로 금액을 낼 수 있는 단위 (그 외 kg·ton·식·매 등은 연결해도 금액 계산 안 함)
+export const PRICE_UNITS = ["m²", "m³", "m", "개"];
+
+export const isPricedUnit = (unit: string) => PRICE_UNITS.includes(unit);
+
+// 단위 표기 통일 (m2 → m², EA → 개)
+const normalizeUnit = (unit: string): string => {
+  const u = unit.trim().toLowerCase();
+  if (u === "m") return "m";
+  if (u === "m2" || u === "㎡" || u === "m^2") return "m²";
+  if (u === "m3" || u === "㎥" || u === "m^3") return "m³";
+  if (u === "ea" || u === "개소" || u === "본" || u === "조") return "개";
+  return unit.trim();
+};
+
+// "12,500원" → 12500
+const parseAmount = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const cleaned = value.replace(/[,\s원₩]/g, "");
+  if (!cleaned) return undefined;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// 단가 항목 키 (코드가 있으면 코드, 없으면 조건 조합)
+export const priceEntryKey = (entry: PriceEntry): string =>
+  entry.code ? `code:${entry.code}` : `${entry.category ?? ""}\u0000${entry.name}\u0000${entry.spec ?? ""}\u0000${entry.unit}`;
+
+// ============================================
+// CSV 가져오기
+// ============================================
+
+/**
+ * CSV → 단가 항목 (첫 행은 열 이름, 품명·단위·단가(또는 재료비·노무비·경비) 필수)
+ * PRICE_UNITS가 아닌 단위의 항목도 가져오되 금액은 계산하지 않음 (isPricedUnit으로 구분)
+ */
+export function parsePriceCsv(text: string): PriceEntry[] {
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new PriceListError("단가 항목이 없습니다");
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/\s/g, ""));
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as (keyof typeof COLUMN_ALIASES)[]).map(field => [
+      field,
+      header.findIndex(cell => COLUMN_ALIASES[field].includes(cell)),
+    ])
+  ) as Record<keyof typeof COLUMN_ALIASES, number>;
+  if (columns.name < 0) throw new PriceListError("품명 열이 없습니다 (품명 / name)");
+  if (columns.unit < 0) throw new PriceListError("단위 열이 없습니다 (단위 / unit)");
+  if (columns.unitPrice < 0 && columns.materialCost < 0 && columns.laborCost < 0) {
+    throw new PriceListError("단가 열이 없습니다 (단가 또는 재료비·노무비·경비)");
+  }
+
+  const cell = (row: string[], index: number) => (index >= 0 ? row[index]?.trim() || undefined : undefined);
+  return rows.slice(1).map((row, i) => {
+    const name = cell(row, columns.name);
+    const unit = cell(row, columns.unit);
+    if (!name) throw new PriceListError(`${i + 2}행: 품명이 없습니다`);
+    if (!unit) throw new PriceListError(`${i + 2}행: 단위가 없습니다`);
+
+    const materialCost = parseAmount(cell(row, columns.materialCost));
+    const laborCost = parseAmount(cell(row, columns.laborCost));
+    const expenseCost = parseAmount(cell(row, columns.expenseCost));
+    const unitPrice = parseAmount(cell(row, columns.unitPrice))
+      ?? (materialCost ?? 0) + (laborCost ?? 0) + (expenseCost ?? 0);
+
+    return {
+      id: crypto.randomUUID(),
+      code: cell(row, columns.code),
+      category: cell(row, columns.category),
+      name,
+      spec: cell(row, columns.spec),
+      unit: normalizeUnit(unit),
+      unitPrice,
+      materialCost,
+      laborCost,
+      expenseCost,
+    };
+  });
+}
+
+/**
+ * 가져온 항목으로 새 단가표 (같은 이름이 있으면 다음 버전)
+ */
+export function createPriceListVersion(lists: PriceList[], name: string, entries: PriceEntry[], fileName?: string): PriceList {
+  const version = Math.max(0, ...lists.filter(list => list.name === name).map(list => list.version)) + 1;
+  return { id: crypto.randomUUID(), name, version, importedAt: new Date().toISOString(), fileName, entries };
+}
+
+// ============================================
+// 단가 연결 / 공사비
+// ============================================
+
+interface CompiledEntry {
+  entry: PriceEntry;
+  specificity: number; // 조건이 많을수록 우선
+  test: (item: MaterialItem) => boolean;
+}
+
+const compileEntry = (entry: PriceEntry): CompiledEntry => {
+  const name = wildcardRegExp(entry.name);
+  const category = entry.category ? wildcardRegExp(entry.category) : null;
+  const spec = entry.spec ? wildcardRegExp(entry.spec) : null;
+  return {
+    entry,
+    specificity: (category ? 1 : 0) + (spec ? 2 : 0),
+    test: item => name.test(item.typeName) && (!category || category.test(item.category)) && (!spec || spec.test(item.spec)),
+  };
+};
+
+/**
+ * 자재 행에 연결할 단가 항목 (직접 연결 → 조건이 가장 구체적인 항목 → 먼저 나온 항목)
+ */
+export function resolvePriceEntries(
+  materials: MaterialItem[],
+  list: PriceList | null,
+  links: PriceLinks
+): Map<string, { entry: PriceEntry; linkType: "manual" | "auto" }> {
+  const result = new Map<string, { entry: PriceEntry; linkType: "manual" | "auto" }>();
+  if (!list) return result;
+
+  const byKey = new Map(list.entries.map(entry => [priceEntryKey(entry), entry]));
+  const compiled = list.entries.map(compileEntry).sort((a, b) => b.specificity - a.specificity);
+  for (const item of materials) {
+    const linked = links[item.id] && byKey.get(links[item.id]);
+    if (linked) {
+      result.set(item.id, { entry: linked, linkType: "manual" });
+      continue;
+    }
+    const match = compiled.find(({ test }) => test(item));
+    if (match) result.set(item.id, { entry: match.entry, linkType: "auto" });
+  }
+  return result;
+}
+
+const addTo = (map: Map<string, number>, label: string, amount: number) => map.set(label, (map.get(label) || 0) + amount);
+
+/**
+ * 공사비 산출 (자재 행 금액, 카테고리·층별 합계, 요소별 금액)
+ */
+export function buildCostEstimate(
+  materials: MaterialItem[],
+  list: PriceList | null,
+  links: PriceLinks,
+  storeys: StoreyInfo[],
+  getQuantityTotals: (expressIDs: number[]) => QuantityTotals
+): CostEstimate {
+  const resolved = resolvePriceEntries(materials, list, links);
+  const sortedStoreys = [...storeys].sort((a, b) => a.elevation - b.elevation);
+  const storeyOf = new Map<number, string>();
+  for (const storey of sortedStoreys) for (const key of storey.expressIDs) storeyOf.set(key, storey.name);
+
+  const byCategory = new Map<string, number>();
+  const byStorey = new Map<string, number>(sortedStoreys.map(storey => [storey.name, 0]));
+  const elementCosts = new Map<number, number>();
+  const lines: CostLine[] = [];
+  let unpricedCount = 0;
+
+  for (const item of materials) {
+    const match = resolved.get(item.id);
+    const totals = { area: item.totalArea || 0, volume: item.totalVolume || 0, length: item.totalLength || 0, count: item.count };
+    if (!match) {
+      unpricedCount++;
+      lines.push({
+        materialId: item.id, category: item.category, typeName: item.typeName, spec: item.spec,
+        entry: null, linkType: null, unit: item.unit, quantity: quantityForUnit(totals, item.unit), amount: 0,
+        unitMismatch: false, expressIDs: item.expressIDs,
+      });
+      continue;
+    }
+
+    const { entry, linkType } = match;
+    if (!isPricedUnit(entry.unit)) {
+      // 개수로 대신 계산하지 않고 단가 없음으로 표시
+      unpricedCount++;
+      lines.push({
+        materialId: item.id, category: item.category, typeName: item.typeName, spec: item.spec,
+        entry, linkType, unit: entry.unit, quantity: 0, amount: 0, unitMismatch: true, expressIDs: item.expressIDs,
+      });
+      continue;
+    }
+
+    const quantity = quantityForUnit(totals, entry.unit);
+    const amount = quantity * entry.unitPrice;
+    lines.push({
+      materialId: item.id, category: item.category, typeName: item.typeName, spec: item.spec,
+      entry, linkType, unit: entry.unit, quantity, amount, unitMismatch: false, expressIDs: item.expressIDs,
+    });
+    addTo(byCategory, item.category, amount);
+
+    // 요소별 금액 → 층별 합계
+    for (const key of item.expressIDs) {
+      const cost = quantityForUnit(getQuantityTotals([key]), entry.unit) * entry.unitPrice;
+      elementCosts.set(key, (elementCosts.get(key) || 0) + cost);
+      addTo(byStorey, storeyOf.get(key) ?? NO_STOREY, cost);
+    }
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    lines,
+    total,
+    byCategory: Array.from(byCategory, ([label, amount]) => ({ label, amount })).sort((a, b) => b.amount - a.amount),
+    byStorey: Array.from(byStorey, ([label, amount]) => ({ label, amount })).filter(({ label, amount }) => label !== NO_STOREY || amount > 0),
+    elementCosts,
+    unpricedCount,
+  };
+}
+
+/**
+ * 요소별 금액 → 색상 구간 (금액 순 5분위, 0: 가장 낮음)
+ * 구간 경계도 함께 반환 (범례 표시용)
+ */
+export function costBands(elementCosts: Map<number, number>, bandCount = 5): { bands: Map<number, number>; limits: number[] } {
+  const sorted = Array.from(elementCosts.values()).sort((a, b) => a - b);
+  if (sorted.length === 0) return { bands: new Map(), limits: [] };
+  const limits = Array.from({ length: bandCount }, (_, i) =>
+    sorted[Math.max(0, Math.ceil(((i + 1) * sorted.length) / bandCount) - 1)]
+  );
+  const bands = new Map<number, number>();
+  for (const [key, cost] of elementCosts) {
+    const band = limits.findIndex(limit => cost <= limit);
+    bands.set(key, band < 0 ? bandCount - 1 : band);
+  }
+  return { bands, limits };
+}
+
+// ============================================
+// 저장
+// ============================================
+
+export interface StoredPriceData {
+  lists: PriceList[];
+  activeId: string | null;
+  links: PriceLinks;
+}
+
+// 브라우저에 저장된 단가표 (읽을 수 없으면 빈 목록)
+export function loadStoredPriceData(): StoredPriceData {
+  try {
+    const lists = JSON.parse(localStorage.getItem(LISTS_KEY) || "[]") as PriceList[];
+    const links = JSON.parse(localStorage.getItem(LINKS_KEY) || "{}") as PriceLinks;
+    const activeId = localStorage.getItem(ACTIVE_LIST_KEY);
+    return {
+      lists: Array.isArray(lists) ? lists : [],
+      activeId: lists.some(list => list.id === activeId) ? activeId : null,
+      links: links && typeof links === "object" ? links : {},
+    };
+  } catch (e) {
+    console.warn("단가표 읽기 실패:", e);
+    return { lists: [], activeId: null, links: {} };
+  }
+}
+
+export function storePriceData({ lists, activeId, links }: StoredPriceData) {
+  localStorage.setItem(LISTS_KEY, JSON.stringify(lists));
+  localStorage.setItem(LINKS_KEY, JSON.stringify(links));
+  if (activeId) localStorage.setItem(ACTIVE_LIST_KEY, activeId);
+  else localStorage.removeItem(ACTIVE_LIST_KEY);
+}
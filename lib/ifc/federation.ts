@@ -0,0 +1,117 @@
+/**
+ * 통합 모델 (여러 IFC를 함께 로드 - 건축/구조/MEP 협업 검토)
+ * - 요소 키: (모델 슬롯, expressID)를 숫자 하나로 합침 → 모델마다 겹치는 expressID 구분
+ *   첫 모델(슬롯 0)은 키가 expressID와 같아서 단일 모델 동작은 그대로
+ * - 모델별 자재 목록 / 층 / 공간 트리를 요소 키 기준으로 변환하고 합침
+ */
+
+import { IFCSpatialNode, MaterialItem, QuantityTotals, StoreyInfo } from "@/types/ifc";
+import { subsetMaterialItem } from "./takeoff";
+
+// expressID 범위 (IFC 파일의 #번호는 32비트 안) - 슬롯을 그 위 자리에 둠
+const SLOT_SIZE = 2 ** 32;
+
+// 같은 층으로 합칠 높이 차이 (m) - 건축 마감 레벨과 구조 슬래브 레벨 차이 정도
+export const STOREY_MERGE_TOLERANCE = 0.2;
+
+export const toElementKey = (slot: number, expressID: number): number => slot * SLOT_SIZE + expressID;
+
+export const splitElementKey = (key: number): { slot: number; expressID: number } => ({
+  slot: Math.floor(key / SLOT_SIZE),
+  expressID: key % SLOT_SIZE,
+});
+
+type KeyMapper = (id: number) => number;
+
+export function rekeySpatialTree(node: IFCSpatialNode, toKey: KeyMapper): IFCSpatialNode {
+  return {
+    ...node,
+    expressID: toKey(node.expressID),
+    children: node.children.map(child => rekeySpatialTree(child, toKey)),
+    elements: node.elements.map(toKey),
+  };
+}
+
+// 층 id도 모델마다 구분 (첫 모델은 그대로)
+export function rekeyStoreys(storeys: StoreyInfo[], slot: number): StoreyInfo[] {
+  if (slot === 0) return storeys;
+  return storeys.map(storey => ({
+    ...storey,
+    id: `${storey.id}@${slot}`,
+    expressIDs: storey.expressIDs.map(id => toElementKey(slot, id)),
+  }));
+}
+
+export function rekeyMaterials(materials: MaterialItem[], toKey: KeyMapper): MaterialItem[] {
+  return materials.map(item => ({ ...item, expressIDs: item.expressIDs.map(toKey) }));
+}
+
+/**
+ * 모델별 층 목록을 높이 기준으로 합침 (높이 차이가 tolerance 이내면 같은 층)
+ * 합친 층의 id는 가장 먼저 로드한 모델의 층 id, 이름은 서로 다르면 " / "로 연결
+ */
+export function mergeStoreysByElevation(lists: StoreyInfo[][], tolerance = STOREY_MERGE_TOLERANCE): StoreyInfo[] {
+  if (lists.length <= 1) return lists[0] ?? [];
+
+  const sorted = lists
+    .flatMap((storeys, order) => storeys.map(storey => ({ storey, order })))
+    .sort((a, b) => a.storey.elevation - b.storey.elevation || a.order - b.order);
+
+  const groups: { storey: StoreyInfo; order: number }[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && item.storey.elevation - group[0].storey.elevation <= tolerance) group.push(item);
+    else groups.push([item]);
+  }
+
+  return groups.map(group => {
+    const storeys = [...group].sort((a, b) => a.order - b.order).map(item => item.storey);
+    return {
+      id: storeys[0].id,
+      name: Array.from(new Set(storeys.map(s => s.name))).join(" / "),
+      elevation: storeys[0].elevation,
+      expressIDs: storeys.flatMap(s => s.expressIDs),
+    };
+  });
+}
+
+/**
+ * 모델별 자재 목록을 합침 (같은 타입+규격 행은 요소를 모아 수량 재집계)
+ */
+export function mergeMaterialLists(
+  lists: MaterialItem[][],
+  getQuantityTotals: (expressIDs: number[]) => QuantityTotals
+): MaterialItem[] {
+  if (lists.length <= 1) return lists[0] ?? [];
+
+  const merged = new Map<string, MaterialItem>();
+  for (const item of lists.flat()) {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing
+      ? subsetMaterialItem(existing, [...existing.expressIDs, ...item.expressIDs], getQuantityTotals)
+      : item);
+  }
+
+  return Array.from(merged.values()).sort((a, b) =>
+    a.category.localeCompare(b.category) ||
+    a.typeName.localeCompare(b.typeName) ||
+    a.spec.localeCompare(b.spec)
+  );
+}
+
+/**
+ * 여러 모델의 공간 트리를 하나의 루트 아래로 묶음 (모델 트리 표시용)
+ */
+export function mergeSpatialTrees(trees: { name: string; tree: IFCSpatialNode | null }[]): IFCSpatialNode | null {
+  const valid = trees.filter((t): t is { name: string; tree: IFCSpatialNode } => t.tree !== null);
+  if (valid.length <= 1) return valid[0]?.tree ?? null;
+
+  return {
+    expressID: -1,
+    name: "통합 모델",
+    type: "Federation",
+    typeCode: 0,
+    children: valid.map(({ name, tree }) => ({ ...tree, name: `${name} · ${tree.name}` })),
+    elements: [],
+  };
+}
@@ -0,0 +1,552 @@
+/**
+ * IDS (Information Delivery Specification) 1.0 읽기 + 요소 검사
+ * - 사양(specification)마다 적용 조건(applicability)에 맞는 요소를 고르고 요구 조건(requirements)을 검사
+ * - 지원 조건: entity / attribute / property / classification / material (partOf는 건너뛰고 경고로 표시)
+ * - 값: simpleValue 또는 xs:restriction (enumeration, pattern, 범위, 길이)
+ * - 요소 정보는 속성 레코드(IFCPropertyData)의 섹션에서 구성 - 타입에서 상속된 Pset·재료·분류 포함
+ */
+
+import type { IFCProperty } from "@/types/ifc";
+import type { IFCPropertyData } from "./propertyDB";
+import { getElementAttributes } from "./propertyExtractor";
+
+// ============================================
+// IDS 문서
+// ============================================
+
+// 값 조건 (simpleValue 또는 xs:restriction)
+export interface IdsValue {
+  simple?: string;
+  enumeration?: string[];
+  patterns?: string[];
+  minInclusive?: number;
+  maxInclusive?: number;
+  minExclusive?: number;
+  maxExclusive?: number;
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export type IdsCardinality = "required" | "optional" | "prohibited";
+
+export type IdsFacet =
+  | { facet: "entity"; name: IdsValue; predefinedType?: IdsValue }
+  | { facet: "attribute"; name: IdsValue; value?: IdsValue }
+  | { facet: "property"; propertySet: IdsValue; baseName: IdsValue; value?: IdsValue; dataType?: string }
+  | { facet: "classification"; system?: IdsValue; value?: IdsValue }
+  | { facet: "material"; value?: IdsValue }
+  | { facet: "partOf"; entity?: IdsValue; relation?: string };
+
+export type IdsRequirement = IdsFacet & { cardinality: IdsCardinality; instructions?: string };
+
+export interface IdsSpecification {
+  name: string;
+  description?: string;
+  ifcVersions: string[];
+  minOccurs: number;         // 적용 요소 최소 개수 (1 이상이면 적용 요소가 없을 때 실패)
+  maxOccurs: number | null;  // 0이면 적용 요소가 있으면 안 됨, null = 제한 없음
+  applicability: IdsFacet[];
+  requirements: IdsRequirement[];
+}
+
+export interface IdsDocument {
+  title: string;
+  author?: string;
+  version?: string;
+  description?: string;
+  specifications: IdsSpecification[];
+}
+
+// ============================================
+// 검사 대상 요소
+// ============================================
+
+export interface IdsElement {
+  key: number;
+  entity: string;                 // IFC 클래스 (대문자, 예: "IFCWALL")
+  predefinedType?: string;        // 인스턴스 값, 없으면 타입 객체 값
+  attributes: Record<string, string>;
+  properties: { propertySet: string; property: IFCProperty }[];
+  materials: string[];            // 재료 이름 + 재료 세트 이름
+  classifications: { system: string; value: string }[];
+}
+
+export interface IdsFailure {
+  key: number;
+  globalId?: string;
+  name?: string;
+  entity: string;
+  reasons: string[];
+}
+
+export type IdsSpecificationStatus = "pass" | "fail" | "skipped";
+
+// 요소별 결과 (3D 색상용, 적용 대상이 아닌 요소는 없음)
+export type IdsElementStatus = "pass" | "fail";
+
+export interface IdsSpecificationResult {
+  specification: IdsSpecification;
+  status: IdsSpecificationStatus;
+  applicableCount: number;
+  passedKeys: number[];
+  failures: IdsFailure[];
+  warnings: string[];  // 지원하지 않는 조건, 적용 개수 위반 등
+}
+
+export interface IdsReport {
+  document: IdsDocument;
+  elementCount: number;
+  checkedAt: number;
+  results: IdsSpecificationResult[];
+}
+
+export class IdsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdsParseError";
+  }
+}
+
+// 숫자 비교 허용 오차 (IDS 1.0 - 상대 1e-6)
+const NUMBER_TOLERANCE = 1e-6;
+
+// ============================================
+// XML → IDS 문서
+// ============================================
+
+// 네임스페이스 접두어(ids:, xs:)와 무관하게 자식 요소 찾기
+const childElements = (parent: Element | null | undefined, localName: string): Element[] =>
+  Array.from(parent?.children ?? []).filter(child => child.localName === localName);
+
+const childElement = (parent: Element | null | undefined, localName: string): Element | null =>
+  childElements(parent, localName)[0] ?? null;
+
+const childText = (parent: Element | null | undefined, localName: string): string | undefined =>
+  childElement(parent, localName)?.textContent?.trim() || undefined;
+
+const numberAttr = (element: Element, name: string): number | undefined => {
+  const raw = element.getAttribute(name);
+  if (raw === null || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const parseValue = (element: Element | null): IdsValue | undefined => {
+  if (!element) return undefined;
+  const simple = childElement(element, "simpleValue");
+  if (simple) return { simple: simple.textContent?.trim() ?? "" };
+
+  const restriction = childElement(element, "restriction");
+  if (!restriction) return undefined;
+  const values = (name: string) => childElements(restriction, name).map(e => e.getAttribute("value") ?? "");
+  const single = (name: string) => {
+    const e = childElement(restriction, name);
+    return e ? numberAttr(e, "value") : undefined;
+  };
+
+  const value: IdsValue = {
+    enumeration: values("enumeration"),
+    patterns: values("pattern"),
+    minInclusive: single("minInclusive"),
+    maxInclusive: single("maxInclusive"),
+    minExclusive: single("minExclusive"),
+    maxExclusive: single("maxExclusive"),
+    length: single("length"),
+    minLength: single("minLength"),
+    maxLength: single("maxLength"),
+  };
+  if (!value.enumeration?.length) delete value.enumeration;
+  if (!value.patterns?.length) delete value.patterns;
+  return value;
+};
+
+const parseFacet = (element: Element): IdsFacet | null => {
+  const value = (name: string) => parseValue(childElement(element, name));
+  switch (element.localName) {
+    case "entity":
+      return { facet: "entity", name: value("name") ?? { simple: "" }, predefinedType: value("predefinedType") };
+    case "attribute":
+      return { facet: "attribute", name: value("name") ?? { simple: "" }, value: value("value") };
+    case "property":
+      return {
+        facet: "property",
+        propertySet: value("propertySet") ?? { simple: "" },
+        // IDS 0.9는 name, 1.0은 baseName
+        baseName: value("baseName") ?? value("name") ?? { simple: "" },
+        value: value("value"),
+        dataType: element.getAttribute("dataType")?.toUpperCase() || undefined,
+      };
+    case "classification":
+      return { facet: "classification", system: value("system"), value: value("value") };
+    case "material":
+      return { facet: "material", value: value("value") };
+    case "partOf":
+      return {
+        facet: "partOf",
+        entity: parseValue(childElement(childElement(element, "entity"), "name")),
+        relation: element.getAttribute("relation") || undefined,
+      };
+    default:
+      return null;
+  }
+};
+
+// 요구 조건의 필수 여부 (1.0: cardinality, 0.9: minOccurs/maxOccurs 또는 use)
+const parseCardinality = (element: Element): IdsCardinality => {
+  const cardinality = element.getAttribute("cardinality");
+  if (cardinality === "optional" || cardinality === "prohibited") return cardinality;
+  if (cardinality === "required") return "required";
+  if (element.getAttribute("maxOccurs") === "0") return "prohibited";
+  if (element.getAttribute("minOccurs") === "0" || element.getAttribute("use") === "optional") return "optional";
+  return "required";
+};
+
+// 적용 개수 (1.0: applicability의 minOccurs/maxOccurs, 0.9: specification의 minOccurs/maxOccurs 또는 use)
+const parseOccurs = (specification: Element, applicability: Element | null): Pick<IdsSpecification, "minOccurs" | "maxOccurs"> => {
+  const source = applicability?.hasAttribute("minOccurs") || applicability?.hasAttribute("maxOccurs") ? applicability : specification;
+  const use = specification.getAttribute("use");
+  const minOccurs = numberAttr(source, "minOccurs") ?? (use === "required" ? 1 : 0);
+  const maxRaw = source.getAttribute("maxOccurs");
+  const maxOccurs = use === "prohibited" ? 0 : maxRaw === null || maxRaw === "unbounded" ? null : Number(maxRaw);
+  return { minOccurs, maxOccurs: Number.isFinite(maxOccurs) ? maxOccurs : null };
+};
+
+/**
+ * IDS XML 문자열 → IDS 문서
+ */
+export function parseIds(xml: string): IdsDocument {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new IdsParseError("XML 형식이 올바르지 않습니다");
+  const root = doc.documentElement;
+  if (root.localName !== "ids") throw new IdsParseError("IDS 파일이 아닙니다 (루트 요소가 ids가 아님)");
+
+  const info = childElement(root, "info");
+  const specifications = childElements(childElement(root, "specifications"), "specification").map((element, index) => {
+    const applicability = childElement(element, "applicability");
+    const requirements = childElement(element, "requirements");
+    return {
+      name: element.getAttribute("name") || `사양 ${index + 1}`,
+      description: element.getAttribute("description") || undefined,
+      ifcVersions: (element.getAttribute("ifcVersion") || "").split(/\s+/).filter(Boolean),
+      ...parseOccurs(element, applicability),
+      applicability: Array.from(applicability?.children ?? [])
+        .map(parseFacet)
+        .filter((facet): facet is IdsFacet => facet !== null),
+      requirements: Array.from(requirements?.children ?? []).flatMap(child => {
+        const facet = parseFacet(child);
+        return facet ? [{ ...facet, cardinality: parseCardinality(child), instructions: child.getAttribute("instructions") || undefined }] : [];
+      }),
+    };
+  });
+
+  if (specifications.length === 0) throw new IdsParseError("사양(specification)이 없습니다");
+  return {
+    title: childText(info, "title") || "IDS",
+    author: childText(info, "author"),
+    version: childText(info, "version"),
+    description: childText(info, "description"),
+    specifications,
+  };
+}
+
+// ============================================
+// 속성 레코드 → 검사 대상 요소
+// ============================================
+
+/**
+ * 속성 레코드에서 IDS 검사용 요소 구성 (entity는 web-ifc 클래스 이름)
+ */
+export function toIdsElement(key: number, entity: string, record: IFCPropertyData | undefined): IdsElement {
+  const sections = record?.sections ?? [];
+  const attributes = getElementAttributes(sections);
+  if (record?.globalId && !attributes.GlobalId) attributes.GlobalId = record.globalId;
+  if (record?.name && !attributes.Name) attributes.Name = record.name;
+  if (record?.description && !attributes.Description) attributes.Description = record.description;
+  if (record?.objectType && !attributes.ObjectType) attributes.ObjectType = record.objectType;
+
+  const typePredefined = sections
+    .find(s => s.kind === "type")
+    ?.properties.find(p => p.name === "사전정의 타입")?.value;
+
+  const properties: IdsElement["properties"] = [];
+  const materials = new Set<string>();
+  const classifications: IdsElement["classifications"] = [];
+  for (const section of sections) {
+    if (section.kind === "pset" || section.kind === "qto") {
+      for (const property of section.properties) properties.push({ propertySet: section.title, property });
+    } else if (section.kind === "material") {
+      materials.add(section.title);
+      for (const property of section.properties) if (property.value !== null) materials.add(String(property.value));
+    } else if (section.kind === "classification") {
+      for (const property of section.properties) {
+        if (property.value !== null) classifications.push({ system: property.name, value: String(property.value) });
+      }
+    }
+  }
+  materials.delete("재료");
+
+  return {
+    key,
+    entity: entity.toUpperCase(),
+    predefinedType: attributes.PredefinedType ?? (typePredefined !== undefined && typePredefined !== null ? String(typePredefined) : undefined),
+    attributes,
+    properties,
+    materials: Array.from(materials),
+    classifications,
+  };
+}
+
+// ============================================
+// 값 비교
+// ============================================
+
+const toNumber = (value: string | number | boolean): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return null;
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : null;
+};
+
+const numbersEqual = (a: number, b: number) =>
+  Math.abs(a - b) <= NUMBER_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+
+const equalsValue = (actual: string | number | boolean, expected: string) => {
+  if (typeof actual === "boolean") return expected.toUpperCase() === (actual ? "TRUE" : "FALSE");
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (typeof actual === "number" && expectedNumber !== null) return numbersEqual(actual, expectedNumber);
+  if (actualNumber !== null && expectedNumber !== null) return numbersEqual(actualNumber, expectedNumber);
+  return String(actual) === expected;
+};
+
+// xs:pattern은 전체 일치
+const matchesPattern = (text: string, pattern: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "u").test(text);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 값이 IDS 값 조건에 맞는지 (조건이 없으면 항상 참)
+ */
+export function matchesValue(actual: string | number | boolean | null | undefined, condition: IdsValue | undefined): boolean {
+  if (!condition) return true;
+  if (actual === null || actual === undefined) return false;
+  if (condition.simple !== undefined) return equalsValue(actual, condition.simple);
+
+  const text = typeof actual === "boolean" ? (actual ? "TRUE" : "FALSE") : String(actual);
+  if (condition.enumeration && !condition.enumeration.some(expected => equalsValue(actual, expected))) return false;
+  if (condition.patterns && !condition.patterns.some(pattern => matchesPattern(text, pattern))) return false;
+
+  const hasBounds = [condition.minInclusive, condition.maxInclusive, condition.minExclusive, condition.maxExclusive].some(v => v !== undefined);
+  if (hasBounds) {
+    const n = typeof actual === "boolean" ? null : toNumber(actual);
+    if (n === null) return false;
+    if (condition.minInclusive !== undefined && n < condition.minInclusive) return false;
+    if (condition.maxInclusive !== undefined && n > condition.maxInclusive) return false;
+    if (condition.minExclusive !== undefined && n <= condition.minExclusive) return false;
+    if (condition.maxExclusive !== undefined && n >= condition.maxExclusive) return false;
+  }
+  if (condition.length !== undefined && text.length !== condition.length) return false;
+  if (condition.minLength !== undefined && text.length < condition.minLength) return false;
+  if (condition.maxLength !== undefined && text.length > condition.maxLength) return false;
+  return true;
+}
+
+// 이름 조건 (IFC 클래스·Pset 이름 등은 대소문자 구분 없이 비교)
+const matchesName = (actual: string, condition: IdsValue) =>
+  condition.simple !== undefined ? actual.toUpperCase() === condition.simple.toUpperCase() : matchesValue(actual, condition);
+
+/**
+ * 값 조건 표시 문자열 (보고서용)
+ */
+export function describeValue(condition: IdsValue | undefined): string {
+  if (!condition) return "아무 값";
+  if (condition.simple !== undefined) return `"${condition.simple}"`;
+  const parts: string[] = [];
+  if (condition.enumeration) parts.push(condition.enumeration.map(v => `"${v}"`).join(" | "));
+  if (condition.patterns) parts.push(condition.patterns.map(p => `/${p}/`).join(" | "));
+  if (condition.minInclusive !== undefined) parts.push(`≥ ${condition.minInclusive}`);
+  if (condition.minExclusive !== undefined) parts.push(`> ${condition.minExclusive}`);
+  if (condition.maxInclusive !== undefined) parts.push(`≤ ${condition.maxInclusive}`);
+  if (condition.maxExclusive !== undefined) parts.push(`< ${condition.maxExclusive}`);
+  if (condition.length !== undefined) parts.push(`길이 ${condition.length}`);
+  if (condition.minLength !== undefined) parts.push(`길이 ≥ ${condition.minLength}`);
+  if (condition.maxLength !== undefined) parts.push(`길이 ≤ ${condition.maxLength}`);
+  return parts.join(", ") || "아무 값";
+}
+
+// 이름 조건 표시 (단순 값은 따옴표 없이)
+const describeName = (condition: IdsValue | undefined) => condition?.simple ?? describeValue(condition);
+
+/**
+ * 조건 한 줄 설명 (패널·보고서용)
+ */
+export function describeFacet(facet: IdsFacet): string {
+  switch (facet.facet) {
+    case "entity":
+      return `클래스 ${describeName(facet.name)}${facet.predefinedType ? ` (사전정의 타입 ${describeValue(facet.predefinedType)})` : ""}`;
+    case "attribute":
+      return `속성 ${describeName(facet.name)}${facet.value ? ` = ${describeValue(facet.value)}` : ""}`;
+    case "property":
+      return `${describeName(facet.propertySet)}.${describeName(facet.baseName)}${facet.value ? ` = ${describeValue(facet.value)}` : ""}${facet.dataType ? ` [${facet.dataType}]` : ""}`;
+    case "classification":
+      return `분류 ${facet.system ? describeName(facet.system) : ""}${facet.value ? ` ${describeValue(facet.value)}` : ""}`.trim();
+    case "material":
+      return `재료 ${describeValue(facet.value)}`;
+    case "partOf":
+      return `소속 ${facet.relation ?? ""} ${describeName(facet.entity)}`.trim();
+  }
+}
+
+// ============================================
+// 조건 판정
+// ============================================
+
+// found: 검사 대상(속성·분류·재료 등)이 있는지, ok: 조건에 모두 맞는지, reason: 맞지 않을 때 사유
+interface FacetCheck {
+  found: boolean;
+  ok: boolean;
+  reason?: string;
+}
+
+const checkFacet = (facet: IdsFacet, element: IdsElement): FacetCheck | null => {
+  switch (facet.facet) {
+    case "entity": {
+      if (!matchesName(element.entity, facet.name)) {
+        return { found: true, ok: false, reason: `클래스 ${element.entity}이(가) ${describeName(facet.name)}이(가) 아님` };
+      }
+      // USERDEFINED면 ObjectType이 사전정의 타입 역할
+      const predefined = element.predefinedType === "USERDEFINED" ? element.attributes.ObjectType ?? element.predefinedType : element.predefinedType;
+      if (facet.predefinedType && !matchesValue(predefined, facet.predefinedType)) {
+        return { found: true, ok: false, reason: `사전정의 타입 ${predefined ?? "없음"} ≠ ${describeValue(facet.predefinedType)}` };
+      }
+      return { found: true, ok: true };
+    }
+    case "attribute": {
+      const values = Object.entries(element.attributes).filter(([name, value]) => value !== "" && matchesName(name, facet.name));
+      if (values.length === 0) return { found: false, ok: false, reason: `속성 ${describeName(facet.name)} 없음` };
+      const wrong = values.find(([, value]) => !matchesValue(value, facet.value));
+      return wrong
+        ? { found: true, ok: false, reason: `속성 ${wrong[0]} 값 "${wrong[1]}"이(가) ${describeValue(facet.value)}에 맞지 않음` }
+        : { found: true, ok: true };
+    }
+    case "property": {
+      const label = `${describeName(facet.propertySet)}.${describeName(facet.baseName)}`;
+      const matches = element.properties.filter(({ propertySet, property }) =>
+        matchesName(propertySet, facet.propertySet) && matchesName(property.name, facet.baseName) && property.value !== null && property.value !== ""
+      );
+      if (matches.length === 0) return { found: false, ok: false, reason: `속성 ${label} 없음` };
+      for (const { propertySet, property } of matches) {
+        if (facet.dataType && property.type && property.type.toUpperCase() !== facet.dataType) {
+          return { found: true, ok: false, reason: `속성 ${propertySet}.${property.name} 형식 ${property.type} ≠ ${facet.dataType}` };
+        }
+        if (!matchesValue(property.value, facet.value)) {
+          return { found: true, ok: false, reason: `속성 ${propertySet}.${property.name} 값 "${property.value}"이(가) ${describeValue(facet.value)}에 맞지 않음` };
+        }
+      }
+      return { found: true, ok: true };
+    }
+    case "classification": {
+      const systems = element.classifications.filter(c => !facet.system || matchesName(c.system, facet.system));
+      if (systems.length === 0) {
+        return { found: false, ok: false, reason: facet.system ? `분류 체계 ${describeName(facet.system)} 없음` : "분류 없음" };
+      }
+      return systems.some(c => matchesValue(c.value, facet.value))
+        ? { found: true, ok: true }
+        : { found: true, ok: false, reason: `분류 ${systems.map(c => c.value).join(", ")}이(가) ${describeValue(facet.value)}에 맞지 않음` };
+    }
+    case "material": {
+      if (element.materials.length === 0) return { found: false, ok: false, reason: "재료 없음" };
+      return element.materials.some(material => matchesValue(material, facet.value))
+        ? { found: true, ok: true }
+        : { found: true, ok: false, reason: `재료 ${element.materials.join(", ")}이(가) ${describeValue(facet.value)}에 맞지 않음` };
+    }
+    case "partOf":
+      return null; // 공간·집합 관계는 속성 레코드에 클래스 정보가 없어 검사하지 않음
+  }
+};
+
+// 요구 조건 판정 (required: 맞아야 함, optional: 있으면 맞아야 함, prohibited: 맞으면 안 됨)
+const checkRequirement = (requirement: IdsRequirement, check: FacetCheck): string | null => {
+  switch (requirement.cardinality) {
+    case "required":
+      return check.ok ? null : check.reason ?? describeFacet(requirement);
+    case "optional":
+      return !check.found || check.ok ? null : check.reason ?? describeFacet(requirement);
+    case "prohibited":
+      return check.ok ? `금지 조건에 해당: ${describeFacet(requirement)}` : null;
+  }
+};
+
+/**
+ * 사양 하나 검사
+ */
+export function validateSpecification(
+  specification: IdsSpecification,
+  elements: IdsElement[],
+  describeElement: (key: number) => { globalId?: string; name?: string } = () => ({})
+): IdsSpecificationResult {
+  const warnings: string[] = [];
+  const unsupported = [...specification.applicability, ...specification.requirements].filter(facet => facet.facet === "partOf");
+  if (unsupported.length > 0) warnings.push(`지원하지 않는 조건 ${unsupported.length}개 (${unsupported.map(describeFacet).join(", ")})`);
+
+  // 적용 조건에 partOf가 있으면 대상을 정할 수 없으므로 건너뜀
+  if (specification.applicability.some(facet => facet.facet === "partOf") || specification.applicability.length === 0) {
+    if (specification.applicability.length === 0) warnings.push("적용 조건이 없습니다");
+    return { specification, status: "skipped", applicableCount: 0, passedKeys: [], failures: [], warnings };
+  }
+
+  const applicable = elements.filter(element =>
+    specification.applicability.every(facet => checkFacet(facet, element)?.ok)
+  );
+
+  const passedKeys: number[] = [];
+  const failures: IdsFailure[] = [];
+  for (const element of applicable) {
+    const reasons: string[] = [];
+    if (specification.maxOccurs === 0) reasons.push("이 사양에 해당하는 요소가 있으면 안 됨");
+    for (const requirement of specification.requirements) {
+      const check = checkFacet(requirement, element);
+      const reason = check && checkRequirement(requirement, check);
+      if (reason) reasons.push(reason);
+    }
+    if (reasons.length === 0) passedKeys.push(element.key);
+    else failures.push({ key: element.key, entity: element.entity, ...describeElement(element.key), reasons });
+  }
+
+  const tooFew = applicable.length < specification.minOccurs;
+  const tooMany = specification.maxOccurs !== null && specification.maxOccurs > 0 && applicable.length > specification.maxOccurs;
+  if (tooFew) warnings.push(`적용 요소 ${applicable.length}개 - 최소 ${specification.minOccurs}개 필요`);
+  if (tooMany) warnings.push(`적용 요소 ${applicable.length}개 - 최대 ${specification.maxOccurs}개`);
+
+  return {
+    specification,
+    status: failures.length > 0 || tooFew || tooMany ? "fail" : "pass",
+    applicableCount: applicable.length,
+    passedKeys,
+    failures,
+    warnings,
+  };
+}
+
+/**
+ * IDS 문서 전체 검사
+ */
+export function validateIds(
+  document: IdsDocument,
+  elements: IdsElement[],
+  describeElement?: (key: number) => { globalId?: string; name?: string }
+): IdsReport {
+  return {
+    document,
+    elementCount: elements.length,
+    checkedAt: Date.now(),
+    results: document.specifications.map(specification => validateSpecification(specification, elements, describeElement)),
+  };
+}
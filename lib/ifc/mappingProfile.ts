@@ -0,0 +1,281 @@
+/**
+ * 분류·이름 매핑 프로파일
+ * 규칙(IFC 클래스, ObjectType, 속성 값, 재료 이름) → 카테고리·품명·단위로 자재 목록을 다시 묶음
+ * - 요소마다 위에서부터 처음 맞는 규칙 하나만 적용, 맞는 규칙이 없으면 기본 분류 그대로
+ * - 프로파일은 브라우저(localStorage)에 저장하고 JSON으로 주고받음
+ */
+
+import { MaterialItem, QuantityTotals } from "@/types/ifc";
+import type { IdsElement } from "./ids";
+import { quantityForUnit, subsetMaterialItem } from "./takeoff";
+import { getIfcTypeCode, isIfcSubtypeOf } from "./typeRegistry";
+
+export type MappingRuleField = "ifcClass" | "objectType" | "property" | "material";
+
+export interface MappingRule {
+  id: string;
+  field: MappingRuleField;
+  pattern: string;        // 와일드카드 (* ?), 대소문자 무시, 전체 일치 / 속성 규칙은 비우면 값과 무관
+  propertySet?: string;   // 속성 규칙: 속성 세트 이름 (와일드카드, 비우면 모든 세트)
+  propertyName?: string;  // 속성 규칙: 속성 이름
+  category?: string;      // 비우면 기본 카테고리 유지
+  displayName?: string;   // 비우면 기본 품명 유지
+  unit?: string;          // 비우면 기본 단위 유지
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  rules: MappingRule[];
+  updatedAt: string;
+}
+
+export interface MappingResult {
+  materials: MaterialItem[];
+  matchedCount: number; // 규칙이 적용된 요소 수
+}
+
+export const MAPPING_FIELD_LABELS: Record<MappingRuleField, string> = {
+  ifcClass: "IFC 클래스",
+  objectType: "ObjectType",
+  property: "속성 값",
+  material: "재료 이름",
+};
+
+export const MAPPING_UNITS = ["m²", "m³", "m", "개"];
+
+export class MappingProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MappingProfileError";
+  }
+}
+
+const PROFILES_KEY = "ifc-mapping-profiles";
+const ACTIVE_PROFILE_KEY = "ifc-mapping-active-profile";
+const EXPORT_FORMAT = "ifc-mapping-profiles";
+const EXPORT_VERSION = 1;
+
+// ============================================
+// 규칙 판정
+// ============================================
+
+interface CompiledRule {
+  rule: MappingRule;
+  test: (typeCode: number, element: IdsElement | undefined) => boolean;
+}
+
+const hasWildcard = (pattern: string) => /[*?]/.test(pattern);
+
+// 와일드카드 → 정규식 (전체 일치, 대소문자 무시)
+export const wildcardRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.trim().replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "iu");
+
+const compileRule = (rule: MappingRule): CompiledRule => {
+  // 편집 중인 빈 조건은 적용하지 않음 (속성 규칙은 속성 이름만으로 판정)
+  if (rule.field !== "property" && !rule.pattern.trim()) return { rule, test: () => false };
+  if (rule.field === "property" && !rule.propertyName?.trim()) return { rule, test: () => false };
+  const pattern = wildcardRegExp(rule.pattern || "*");
+
+  switch (rule.field) {
+    case "ifcClass": {
+      // 클래스 이름이면 하위 클래스까지 (IfcWall → IfcWallStandardCase 포함)
+      const ancestorCode = hasWildcard(rule.pattern) ? undefined : getIfcTypeCode(rule.pattern.trim());
+      return {
+        rule,
+        test: (typeCode, element) => ancestorCode !== undefined
+          ? isIfcSubtypeOf(typeCode, ancestorCode)
+          : !!element && pattern.test(element.entity),
+      };
+    }
+    case "objectType":
+      return { rule, test: (_, element) => !!element?.attributes.ObjectType && pattern.test(element.attributes.ObjectType) };
+    case "material":
+      return { rule, test: (_, element) => !!element?.materials.some(name => pattern.test(name)) };
+    case "property": {
+      const setPattern = wildcardRegExp(rule.propertySet || "*");
+      const namePattern = wildcardRegExp(rule.propertyName!);
+      return {
+        rule,
+        test: (_, element) => !!element?.properties.some(({ propertySet, property }) =>
+          setPattern.test(propertySet) &&
+          namePattern.test(property.name) &&
+          property.value !== null &&
+          pattern.test(String(property.value))
+        ),
+      };
+    }
+  }
+};
+
+/**
+ * 요소별 IFC 정보(ObjectType·속성·재료)가 필요한 프로파일인지
+ * (IFC 클래스 이름 규칙만 있으면 타입 코드로 판정)
+ */
+export function profileNeedsElements(profile: MappingProfile): boolean {
+  return profile.rules.some(rule =>
+    rule.field !== "ifcClass" || (!!rule.pattern.trim() && (hasWildcard(rule.pattern) || getIfcTypeCode(rule.pattern.trim()) === undefined))
+  );
+}
+
+// ============================================
+// 자재 목록 다시 묶기
+// ============================================
+
+const sortMaterials = (materials: MaterialItem[]) =>
+  materials.sort((a, b) => a.category.localeCompare(b.category) || a.typeName.localeCompare(b.typeName) || a.spec.localeCompare(b.spec));
+
+/**
+ * 프로파일을 자재 목록에 적용
+ * 규칙이 적용된 요소는 (카테고리, 품명, 규격, 단위)가 같으면 IFC 타입이 달라도 한 행으로 합침
+ */
+export function applyMappingProfile(
+  materials: MaterialItem[],
+  profile: MappingProfile,
+  elements: Map<number, IdsElement> | null,
+  getQuantityTotals?: (expressIDs: number[]) => QuantityTotals
+): MappingResult {
+  const rules = profile.rules.map(compileRule);
+  const result: MaterialItem[] = [];
+  const mapped = new Map<string, MaterialItem>();
+  let matchedCount = 0;
+
+  for (const item of materials) {
+    const partitions = new Map<number, number[]>(); // 규칙 순번 (-1: 맞는 규칙 없음) → 요소
+    for (const key of item.expressIDs) {
+      const element = elements?.get(key);
+      const index = rules.findIndex(({ test }) => test(item.typeCode, element));
+      const ids = partitions.get(index) || [];
+      ids.push(key);
+      partitions.set(index, ids);
+    }
+
+    for (const [index, ids] of partitions) {
+      const subset = ids.length === item.expressIDs.length ? item : subsetMaterialItem(item, ids, getQuantityTotals);
+      if (index < 0) {
+        result.push(subset);
+        continue;
+      }
+
+      matchedCount += ids.length;
+      const { rule } = rules[index];
+      const category = rule.category?.trim() || item.category;
+      const typeName = rule.displayName?.trim() || item.typeName;
+      const unit = rule.unit?.trim() || item.unit;
+      const groupKey = `${category}\u0000${typeName}\u0000${item.spec}\u0000${unit}`;
+      const existing = mapped.get(groupKey);
+      if (existing) {
+        existing.expressIDs = [...existing.expressIDs, ...ids];
+        existing.count += ids.length;
+        existing.totalArea = (existing.totalArea || 0) + (subset.totalArea || 0);
+        existing.totalVolume = (existing.totalVolume || 0) + (subset.totalVolume || 0);
+        existing.totalLength = (existing.totalLength || 0) + (subset.totalLength || 0);
+      } else {
+        mapped.set(groupKey, {
+          ...subset,
+          id: `map_${category}_${typeName}_${item.spec}_${unit}`,
+          typeName,
+          category,
+          unit,
+        });
+      }
+    }
+  }
+
+  for (const item of mapped.values()) {
+    const totals = { area: item.totalArea || 0, volume: item.totalVolume || 0, length: item.totalLength || 0, count: item.count };
+    result.push({ ...item, quantity: quantityForUnit(totals, item.unit) });
+  }
+
+  return { materials: sortMaterials(result), matchedCount };
+}
+
+// ============================================
+// 만들기 / 저장 / JSON
+// ============================================
+
+export function createMappingRule(field: MappingRuleField = "ifcClass"): MappingRule {
+  return { id: crypto.randomUUID(), field, pattern: "" };
+}
+
+export function createMappingProfile(name: string, rules: MappingRule[] = []): MappingProfile {
+  return { id: crypto.randomUUID(), name, rules, updatedAt: new Date().toISOString() };
+}
+
+const FIELDS = Object.keys(MAPPING_FIELD_LABELS) as MappingRuleField[];
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value : undefined);
+
+const parseRule = (value: unknown, profileName: string, index: number): MappingRule => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  if (!FIELDS.includes(raw.field as MappingRuleField)) {
+    throw new MappingProfileError(`"${profileName}" 규칙 ${index + 1}: 조건 종류가 올바르지 않습니다 (${FIELDS.join(", ")})`);
+  }
+  return {
+    id: optionalString(raw.id) ?? crypto.randomUUID(),
+    field: raw.field as MappingRuleField,
+    pattern: typeof raw.pattern === "string" ? raw.pattern : "",
+    propertySet: optionalString(raw.propertySet),
+    propertyName: optionalString(raw.propertyName),
+    category: optionalString(raw.category),
+    displayName: optionalString(raw.displayName),
+    unit: optionalString(raw.unit),
+  };
+};
+
+const parseProfile = (value: unknown, index: number): MappingProfile => {
+  const raw = (value ?? {}) as Record<string, unknown>;
+  const name = optionalString(raw.name);
+  if (!name) throw new MappingProfileError(`프로파일 ${index + 1}: 이름이 없습니다`);
+  if (!Array.isArray(raw.rules)) throw new MappingProfileError(`"${name}": 규칙 목록이 없습니다`);
+  return {
+    id: optionalString(raw.id) ?? crypto.randomUUID(),
+    name,
+    rules: raw.rules.map((rule, i) => parseRule(rule, name, i)),
+    updatedAt: optionalString(raw.updatedAt) ?? new Date().toISOString(),
+  };
+};
+
+/**
+ * JSON → 프로파일 목록 (내보낸 파일, 프로파일 하나, 프로파일 배열 모두 허용)
+ */
+export function parseMappingProfiles(json: string): MappingProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MappingProfileError("JSON 형식이 올바르지 않습니다");
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as { profiles?: unknown }).profiles)
+      ? (data as { profiles: unknown[] }).profiles
+      : [data];
+  if (list.length === 0) throw new MappingProfileError("프로파일이 없습니다");
+  return list.map(parseProfile);
+}
+
+/**
+ * 프로파일 목록 → 내보내기 JSON
+ */
+export function serializeMappingProfiles(profiles: MappingProfile[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, profiles }, null, 2);
+}
+
+// 브라우저에 저장된 프로파일 (읽을 수 없으면 빈 목록)
+export function loadStoredMappingProfiles(): { profiles: MappingProfile[]; activeId: string | null } {
+  try {
+    const stored = localStorage.getItem(PROFILES_KEY);
+    const profiles = stored ? parseMappingProfiles(stored) : [];
+    const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    return { profiles, activeId: profiles.some(p => p.id === activeId) ? activeId : null };
+  } catch (e) {
+    console.warn("매핑 프로파일 읽기 실패:", e);
+    return { profiles: [], activeId: null };
+  }
+}
+
+export function storeMappingProfiles(profiles: MappingProfile[], activeId: string | null) {
+  localStorage.setItem(PROFILES_KEY, serializeMappingProfiles(profiles));
+  if (activeId) localStorage.setItem(ACTIVE_PROFILE_KEY, activeId);
+  else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+}
@@ -0,0 +1,154 @@
+/**
+ * 재료별 수량 산출 (IfcMaterial 기준)
+ * 요소 수량(면적·체적·길이)을 요소에 연결된 재료 구성으로 나눠 재료 + 레이어 두께별로 합산
+ *
+ * 나누는 방식
+ * - 레이어(IfcMaterialLayerSet): 레이어마다 요소 면적 전체, 체적은 면적 × 두께
+ *   (면적이 없으면 요소 체적을 두께 비율로 나눔)
+ * - 프로파일(IfcMaterialProfileSet): 프로파일마다 요소 길이 전체, 체적은 프로파일 수로 균등 분할
+ * - 구성 재료(IfcMaterialConstituentSet): Fraction 비율로 면적·체적 분할 (비율이 없는 구성은 남은 비율을 균등 분할)
+ * - 재료 목록(IfcMaterialList): 균등 분할 / 단일 재료: 요소 수량 그대로
+ */
+
+import { ElementMaterialLayer, ElementQuantities, MaterialLayerItem } from "@/types/ifc";
+
+export interface MaterialLayerTakeoff {
+  items: MaterialLayerItem[];
+  withoutMaterial: number[];  // 재료가 연결되지 않은 요소
+  incompleteModels: string[]; // 재료 구성을 수집하지 않은 이전 캐시 모델 (집계 제외)
+}
+
+interface LayerShare {
+  layer: ElementMaterialLayer;
+  area: number;
+  volume: number;
+  length: number;
+}
+
+export const MATERIAL_LAYER_KIND_LABELS: Record<ElementMaterialLayer["kind"], string> = {
+  material: "단일 재료",
+  list: "재료 목록",
+  layer: "레이어",
+  profile: "프로파일",
+  constituent: "구성 재료",
+};
+
+// 두께 표시 (mm, 소수 1자리까지)
+export const formatLayerThickness = (thickness: number | undefined): string =>
+  thickness !== undefined ? `${Math.round(thickness * 10000) / 10}` : "";
+
+// 구성 비율 (없는 비율은 남은 비율을 균등 분할, 합이 1이 아니면 정규화)
+const constituentFractions = (layers: ElementMaterialLayer[]): number[] => {
+  const given = layers.reduce((sum, layer) => sum + (layer.fraction ?? 0), 0);
+  const missing = layers.filter(layer => layer.fraction === undefined).length;
+  const rest = missing > 0 ? Math.max(0, 1 - given) / missing : 0;
+  const fractions = layers.map(layer => layer.fraction ?? rest);
+  const total = fractions.reduce((sum, f) => sum + f, 0);
+  return total > 0 ? fractions.map(f => f / total) : layers.map(() => 1 / layers.length);
+};
+
+/**
+ * 요소 하나의 수량을 재료 구성별로 나눔
+ */
+export function splitElementQuantities(layers: ElementMaterialLayer[], quantities: ElementQuantities | undefined): LayerShare[] {
+  const area = quantities?.area ?? 0;
+  const volume = quantities?.volume ?? 0;
+  const length = quantities?.length ?? 0;
+  const shares: LayerShare[] = [];
+
+  const byKind = (kind: ElementMaterialLayer["kind"]) => layers.filter(layer => layer.kind === kind);
+
+  const layered = byKind("layer");
+  const totalThickness = layered.reduce((sum, layer) => sum + (layer.thickness ?? 0), 0);
+  for (const layer of layered) {
+    const thickness = layer.thickness ?? 0;
+    shares.push({
+      layer,
+      area,
+      volume: area > 0 ? area * thickness : totalThickness > 0 ? volume * (thickness / totalThickness) : volume / layered.length,
+      length,
+    });
+  }
+
+  const profiles = byKind("profile");
+  for (const layer of profiles) {
+    shares.push({ layer, area: 0, volume: volume / profiles.length, length });
+  }
+
+  const constituents = byKind("constituent");
+  constituentFractions(constituents).forEach((fraction, i) => {
+    shares.push({ layer: constituents[i], area: area * fraction, volume: volume * fraction, length });
+  });
+
+  const listed = byKind("list");
+  for (const layer of listed) {
+    shares.push({ layer, area: area / listed.length, volume: volume / listed.length, length });
+  }
+
+  for (const layer of byKind("material")) {
+    shares.push({ layer, area, volume, length });
+  }
+
+  return shares;
+}
+
+/**
+ * 재료 + 두께별 수량 목록
+ * 레이어는 두께가 다르면 다른 행 (콘크리트 200 / 콘크리트 150), 그 외 구성은 재료 이름별 한 행
+ */
+export function buildMaterialLayerTakeoff(
+  keys: Iterable<number>,
+  layersByElement: Map<number, ElementMaterialLayer[]>,
+  quantities: Map<number, ElementQuantities>
+): Omit<MaterialLayerTakeoff, "incompleteModels"> {
+  const rows = new Map<string, MaterialLayerItem & { setNameSet: Set<string>; keySet: Set<number> }>();
+  const withoutMaterial: number[] = [];
+
+  for (const key of keys) {
+    const layers = layersByElement.get(key);
+    if (!layers || layers.length === 0) {
+      withoutMaterial.push(key);
+      continue;
+    }
+
+    for (const { layer, area, volume, length } of splitElementQuantities(layers, quantities.get(key))) {
+      const thicknessKey = layer.kind === "layer" ? formatLayerThickness(layer.thickness) : "";
+      const rowKey = `${layer.material}\u0000${layer.kind === "layer" ? "layer" : "other"}\u0000${thicknessKey}`;
+      let row = rows.get(rowKey);
+      if (!row) {
+        row = {
+          id: `layer_${rows.size}`,
+          material: layer.material,
+          kind: layer.kind,
+          category: layer.category,
+          thickness: layer.kind === "layer" ? layer.thickness : undefined,
+          setNames: [],
+          count: 0,
+          area: 0,
+          volume: 0,
+          length: 0,
+          expressIDs: [],
+          setNameSet: new Set(),
+          keySet: new Set(),
+        };
+        rows.set(rowKey, row);
+      }
+      if (layer.setName) row.setNameSet.add(layer.setName);
+      row.keySet.add(key);
+      row.area += area;
+      row.volume += volume;
+      row.length += length;
+    }
+  }
+
+  const items = Array.from(rows.values())
+    .map(({ setNameSet, keySet, ...row }) => ({
+      ...row,
+      setNames: Array.from(setNameSet).sort(),
+      count: keySet.size,
+      expressIDs: Array.from(keySet),
+    }))
+    .sort((a, b) => a.material.localeCompare(b.material) || (b.thickness ?? 0) - (a.thickness ?? 0));
+
+  return { items, withoutMaterial };
+}
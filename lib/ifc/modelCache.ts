@@ -0,0 +1,205 @@
+/**
+ * IndexedDB를 사용한 파싱 결과 캐시
+ * 파일 내용 해시(modelId)를 키로 지오메트리 버퍼 + 자재/층/공간 트리를 저장하여
+ * 같은 파일을 다시 열 때 OpenModel/StreamAllMeshes를 건너뜀
+ */
+
+import { MaterialItem, StoreyInfo, IFCSpatialNode, ElementQuantities, ElementMaterialLayer, ElementOpenings } from "@/types/ifc";
+import { deletePropertyDatabase } from "./propertyDB";
+import type { ModelHealthData } from "./modelHealth";
+
+const DB_NAME = "ifc-model-cache";
+const DB_VERSION = 1;
+// 캐시 데이터 형식 버전 (형식이 바뀌면 이전 캐시는 무시하고 다시 파싱)
+const CACHE_FORMAT_VERSION = 5;
+const MODEL_STORE_NAME = "models";
+const ENTRY_STORE_NAME = "entries";
+
+// 캐시 전체 용량 상한 (초과 시 오래 안 연 모델부터 삭제)
+export const MAX_CACHE_BYTES = 2 * 1024 * 1024 * 1024;
+
+export interface CachedMesh {
+  expressID: number;
+  typeCode: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array;
+  color: { x: number; y: number; z: number; w: number };
+  transformation: number[];
+}
+
+export interface CachedElement {
+  expressID: number;
+  typeCode: number;
+  globalId?: string;
+  name?: string;
+  description?: string;
+  quantities?: ElementQuantities;
+  materialLayers?: ElementMaterialLayer[]; // 재료 구성 (재료가 없으면 빈 배열, 없는 이전 캐시는 재료별 수량 제외)
+  openings?: ElementOpenings;              // 벽·슬래브 개구부 (없는 이전 캐시는 개구부 공제 제외)
+}
+
+export interface CachedModelData {
+  modelId: string;
+  formatVersion?: number;
+  meshes: CachedMesh[];
+  elements: CachedElement[];
+  materials: MaterialItem[];
+  storeys: StoreyInfo[];
+  spatialTree: IFCSpatialNode | null;
+  health?: ModelHealthData; // 모델 점검 자료 (없는 이전 캐시는 일부 항목만 점검)
+}
+
+// 최근 모델 목록용 메타데이터 (지오메트리 없이 빠르게 조회)
+export interface CachedModelEntry {
+  modelId: string;
+  fileName: string;
+  fileSize: number;      // 원본 IFC 크기 (bytes)
+  cacheSize: number;     // 캐시 데이터 크기 추정치 (bytes)
+  elementCount: number;
+  cachedAt: number;
+  lastOpenedAt: number;
+}
+
+// 캐시 데이터 크기 추정 (버퍼 + 목록 JSON)
+const estimateSize = (data: CachedModelData): number => {
+  let size = 0;
+  for (const mesh of data.meshes) {
+    size += mesh.positions.byteLength + mesh.normals.byteLength + mesh.indices.byteLength + 200;
+  }
+  size += data.elements.length * 64;
+  size += JSON.stringify(data.materials).length + JSON.stringify(data.storeys).length;
+  size += JSON.stringify(data.spatialTree).length + JSON.stringify(data.health ?? null).length;
+  return size;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+class ModelCache {
+  private db: IDBDatabase | null = null;
+
+  private async open(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(MODEL_STORE_NAME)) {
+          db.createObjectStore(MODEL_STORE_NAME, { keyPath: "modelId" });
+        }
+        if (!db.objectStoreNames.contains(ENTRY_STORE_NAME)) {
+          const store = db.createObjectStore(ENTRY_STORE_NAME, { keyPath: "modelId" });
+          store.createIndex("lastOpenedAt", "lastOpenedAt", { unique: false });
+        }
+      };
+    });
+  }
+
+  async list(): Promise<CachedModelEntry[]> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE_NAME], "readonly");
+    const entries = await requestToPromise<CachedModelEntry[]>(transaction.objectStore(ENTRY_STORE_NAME).getAll());
+    return entries.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+  }
+
+  // 캐시 조회 (있으면 마지막 사용 시각 갱신)
+  async load(modelId: string): Promise<{ entry: CachedModelEntry; data: CachedModelData } | null> {
+    const db = await this.open();
+    const transaction = db.transaction([MODEL_STORE_NAME, ENTRY_STORE_NAME], "readonly");
+    const [entry, data] = await Promise.all([
+      requestToPromise<CachedModelEntry | undefined>(transaction.objectStore(ENTRY_STORE_NAME).get(modelId)),
+      requestToPromise<CachedModelData | undefined>(transaction.objectStore(MODEL_STORE_NAME).get(modelId)),
+    ]);
+    if (!entry || !data || data.formatVersion !== CACHE_FORMAT_VERSION) return null;
+
+    const touched = { ...entry, lastOpenedAt: Date.now() };
+    const touchTransaction = db.transaction([ENTRY_STORE_NAME], "readwrite");
+    touchTransaction.objectStore(ENTRY_STORE_NAME).put(touched);
+    await transactionDone(touchTransaction);
+    return { entry: touched, data };
+  }
+
+  async save(data: CachedModelData, file: { name: string; size: number }): Promise<CachedModelEntry> {
+    const cacheSize = estimateSize(data);
+    if (cacheSize > MAX_CACHE_BYTES) throw new Error("캐시 용량 상한보다 큰 모델");
+
+    await this.evict(MAX_CACHE_BYTES - cacheSize, data.modelId);
+
+    const now = Date.now();
+    const entry: CachedModelEntry = {
+      modelId: data.modelId,
+      fileName: file.name,
+      fileSize: file.size,
+      cacheSize,
+      elementCount: data.elements.length,
+      cachedAt: now,
+      lastOpenedAt: now,
+    };
+
+    const db = await this.open();
+    const transaction = db.transaction([MODEL_STORE_NAME, ENTRY_STORE_NAME], "readwrite");
+    transaction.objectStore(MODEL_STORE_NAME).put({ ...data, formatVersion: CACHE_FORMAT_VERSION });
+    transaction.objectStore(ENTRY_STORE_NAME).put(entry);
+    await transactionDone(transaction);
+    return entry;
+  }
+
+  // 오래 안 연 모델부터 삭제하여 전체 용량을 maxBytes 이하로 유지
+  async evict(maxBytes: number, keepModelId?: string): Promise<string[]> {
+    const entries = (await this.list()).filter(e => e.modelId !== keepModelId);
+    let total = entries.reduce((sum, e) => sum + e.cacheSize, 0);
+    const removed: string[] = [];
+
+    for (const entry of entries.reverse()) {
+      if (total <= maxBytes) break;
+      await this.remove(entry.modelId);
+      total -= entry.cacheSize;
+      removed.push(entry.modelId);
+    }
+    return removed;
+  }
+
+  // 모델 캐시 + 해당 모델의 속성 DB 삭제
+  async remove(modelId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([MODEL_STORE_NAME, ENTRY_STORE_NAME], "readwrite");
+    transaction.objectStore(MODEL_STORE_NAME).delete(modelId);
+    transaction.objectStore(ENTRY_STORE_NAME).delete(modelId);
+    await transactionDone(transaction);
+    await deletePropertyDatabase(modelId).catch(() => {});
+  }
+
+  async clear(): Promise<void> {
+    const entries = await this.list();
+    const db = await this.open();
+    const transaction = db.transaction([MODEL_STORE_NAME, ENTRY_STORE_NAME], "readwrite");
+    transaction.objectStore(MODEL_STORE_NAME).clear();
+    transaction.objectStore(ENTRY_STORE_NAME).clear();
+    await transactionDone(transaction);
+    await Promise.all(entries.map(e => deletePropertyDatabase(e.modelId).catch(() => {})));
+  }
+}
+
+// 싱글톤 인스턴스
+export const modelCache = new ModelCache();
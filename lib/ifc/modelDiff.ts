@@ -0,0 +1,237 @@
+/**
+ * 모델 버전 비교 (같은 프로젝트의 이전/개정 IFC를 GlobalId로 대응)
+ * - 추가: 개정 모델에만 있음 / 삭제: 이전 모델에만 있음
+ * - 형상 변경: 경계 상자(허용 오차 1mm) 또는 정점·삼각형 수가 다름 (속성도 바뀌었어도 형상 변경으로 분류)
+ * - 속성 변경: 이름·설명·ObjectType 또는 Pset/Qto 값이 다름 (바뀐 속성 이름을 함께 남김)
+ *   한쪽이라도 속성을 조회할 수 없으면 이름·설명만 비교
+ * - 수량 증감: 두 모델의 자재 목록(수량검토 탭과 같은 행·단위)을 행 id(타입 + 규격)로 맞춰 비교
+ */
+
+import { IFCProperty, MaterialItem } from "@/types/ifc";
+import { materialItemQuantity } from "./takeoff";
+import { getIfcCategory } from "./typeRegistry";
+
+export type ModelDiffStatus = "added" | "removed" | "geometry" | "properties";
+
+export const MODEL_DIFF_STATUSES: ModelDiffStatus[] = ["added", "removed", "geometry", "properties"];
+
+// 경계 상자 비교 허용 오차 (m)
+export const GEOMETRY_TOLERANCE = 0.001;
+
+// 요소 형상 요약 (모델 좌표 경계 상자 + 메시 크기)
+export interface GeometrySignature {
+  min: [number, number, number];
+  max: [number, number, number];
+  vertexCount: number;
+  triangleCount: number;
+}
+
+// 비교 대상 요소 (key는 뷰어의 요소 키)
+export interface DiffElement {
+  key: number;
+  globalId: string;
+  typeCode: number;
+  name?: string;
+  description?: string;
+  objectType?: string;
+  geometry?: GeometrySignature;                      // 형상이 없는 요소는 생략
+  properties?: Record<string, IFCProperty["value"]>; // "Pset_WallCommon.IsExternal" → 값 (조회할 수 없으면 생략)
+}
+
+export interface ModelDiffInput {
+  elements: DiffElement[];
+  materials: MaterialItem[];
+}
+
+export interface ModelDiffEntry {
+  globalId: string;
+  status: ModelDiffStatus;
+  key: number;          // 3D에서 가리킬 요소 (삭제는 이전 모델, 나머지는 개정 모델)
+  baseKey?: number;     // 이전 모델의 같은 요소
+  typeCode: number;
+  category: string;
+  name?: string;
+  changedProperties?: string[];
+}
+
+export interface ModelDiffCategory {
+  category: string;
+  counts: Record<ModelDiffStatus, number>;
+}
+
+export interface ModelDiffQuantityRow {
+  id: string;           // 자재 행 id (typeCode_spec)
+  category: string;
+  typeName: string;
+  spec: string;
+  unit: string;
+  baseCount: number;
+  revisedCount: number;
+  base: number;         // unit 기준 수량
+  revised: number;
+  delta: number;
+}
+
+export interface ModelDiff {
+  entries: ModelDiffEntry[];
+  counts: Record<ModelDiffStatus, number>;
+  unchanged: number;
+  categories: ModelDiffCategory[];
+  quantities: ModelDiffQuantityRow[]; // 바뀐 행만
+}
+
+// 요소 기본 속성 (속성 변경 목록에 이 이름으로 표시)
+const ATTRIBUTE_LABELS = {
+  name: "Name",
+  description: "Description",
+  objectType: "ObjectType",
+} as const;
+
+// 수량이 같다고 볼 차이 (반올림 오차)
+const QUANTITY_EPSILON = 1e-6;
+
+const emptyCounts = (): Record<ModelDiffStatus, number> => ({ added: 0, removed: 0, geometry: 0, properties: 0 });
+
+export function sameGeometry(a: GeometrySignature | undefined, b: GeometrySignature | undefined, tolerance = GEOMETRY_TOLERANCE): boolean {
+  if (!a || !b) return a === b;
+  if (a.vertexCount !== b.vertexCount || a.triangleCount !== b.triangleCount) return false;
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(a.min[axis] - b.min[axis]) > tolerance) return false;
+    if (Math.abs(a.max[axis] - b.max[axis]) > tolerance) return false;
+  }
+  return true;
+}
+
+// 값이 다른 속성 이름 (한쪽에만 있는 속성 포함, 이름순)
+export function changedPropertyNames(base: DiffElement, revised: DiffElement): string[] {
+  const baseProperties = base.properties;
+  const revisedProperties = revised.properties;
+  const withProperties = !!baseProperties && !!revisedProperties;
+
+  const changed: string[] = [];
+  const keys = withProperties ? (["name", "description", "objectType"] as const) : (["name", "description"] as const);
+  for (const key of keys) {
+    if ((base[key] ?? null) !== (revised[key] ?? null)) changed.push(ATTRIBUTE_LABELS[key]);
+  }
+  if (!withProperties) return changed;
+
+  const names = new Set([...Object.keys(baseProperties), ...Object.keys(revisedProperties)]);
+  for (const name of Array.from(names).sort()) {
+    if ((baseProperties[name] ?? null) !== (revisedProperties[name] ?? null)) changed.push(name);
+  }
+  return changed;
+}
+
+/**
+ * 요소 비교 (GlobalId가 없는 요소는 대응할 수 없으므로 제외)
+ * 결과 순서: 개정 모델 순서대로 추가·변경, 그 뒤 이전 모델 순서대로 삭제
+ */
+export function diffElements(base: DiffElement[], revised: DiffElement[]): { entries: ModelDiffEntry[]; unchanged: number } {
+  const baseById = new Map<string, DiffElement>();
+  for (const element of base) if (element.globalId) baseById.set(element.globalId, element);
+
+  const entries: ModelDiffEntry[] = [];
+  const matched = new Set<string>();
+  let unchanged = 0;
+
+  const toEntry = (element: DiffElement, status: ModelDiffStatus): ModelDiffEntry => ({
+    globalId: element.globalId,
+    status,
+    key: element.key,
+    typeCode: element.typeCode,
+    category: getIfcCategory(element.typeCode),
+    name: element.name,
+  });
+
+  for (const element of revised) {
+    if (!element.globalId || matched.has(element.globalId)) continue;
+    const previous = baseById.get(element.globalId);
+    if (!previous) {
+      entries.push(toEntry(element, "added"));
+      continue;
+    }
+    matched.add(element.globalId);
+
+    const changedProperties = changedPropertyNames(previous, element);
+    if (!sameGeometry(previous.geometry, element.geometry)) {
+      entries.push({ ...toEntry(element, "geometry"), baseKey: previous.key, changedProperties });
+    } else if (changedProperties.length > 0) {
+      entries.push({ ...toEntry(element, "properties"), baseKey: previous.key, changedProperties });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const element of baseById.values()) {
+    if (!matched.has(element.globalId)) entries.push(toEntry(element, "removed"));
+  }
+
+  return { entries, unchanged };
+}
+
+/**
+ * 자재 행별 수량 증감 (수량검토 탭의 행 수량 기준, 바뀐 행만)
+ * 형상이 바뀌어 규격 문자열이 달라진 요소는 이전 행에서 빠지고 새 행에 더해짐
+ */
+export function diffMaterialQuantities(base: MaterialItem[], revised: MaterialItem[]): ModelDiffQuantityRow[] {
+  const rows = new Map<string, ModelDiffQuantityRow>();
+  const rowFor = (item: MaterialItem) => {
+    let row = rows.get(item.id);
+    if (!row) {
+      row = {
+        id: item.id, category: item.category, typeName: item.typeName, spec: item.spec, unit: item.unit,
+        baseCount: 0, revisedCount: 0, base: 0, revised: 0, delta: 0,
+      };
+      rows.set(item.id, row);
+    }
+    return row;
+  };
+
+  for (const item of base) {
+    const row = rowFor(item);
+    const { value, unit } = materialItemQuantity(item);
+    row.unit = unit;
+    row.baseCount += item.count;
+    row.base += value;
+  }
+  for (const item of revised) {
+    const row = rowFor(item);
+    const { value, unit } = materialItemQuantity(item);
+    row.unit = unit;
+    row.revisedCount += item.count;
+    row.revised += value;
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, delta: row.revised - row.base }))
+    .filter(row => row.baseCount !== row.revisedCount || Math.abs(row.delta) > QUANTITY_EPSILON)
+    .sort((a, b) =>
+      a.category.localeCompare(b.category) ||
+      a.typeName.localeCompare(b.typeName) ||
+      a.spec.localeCompare(b.spec)
+    );
+}
+
+/**
+ * 두 모델 비교 결과 (카테고리별 건수 포함)
+ */
+export function buildModelDiff(base: ModelDiffInput, revised: ModelDiffInput): ModelDiff {
+  const { entries, unchanged } = diffElements(base.elements, revised.elements);
+
+  const counts = emptyCounts();
+  const categories = new Map<string, ModelDiffCategory>();
+  for (const entry of entries) {
+    counts[entry.status]++;
+    const category = categories.get(entry.category) || { category: entry.category, counts: emptyCounts() };
+    category.counts[entry.status]++;
+    categories.set(entry.category, category);
+  }
+
+  return {
+    entries,
+    counts,
+    unchanged,
+    categories: Array.from(categories.values()).sort((a, b) => a.category.localeCompare(b.category)),
+    quantities: diffMaterialQuantities(base.materials, revised.materials),
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * 모델 구조 추출 (공간 트리, 층, 요소 규격, 자재 목록)
+ * 메인 스레드(useIFCLoader), Web Worker(ifc.worker.ts), 서버 변환(lib/server/convertIfc.ts)에서 공통으로 사용
+ * → 어느 경로로 열어도 같은 공간 트리·층 소속·높이·규격별 자재 목록
+ */
+
+import {
+  ElementDimensions,
+  ElementQuantities,
+  IFCSpatialNode,
+  IFC_SPATIAL_TYPES,
+  MaterialItem,
+  StoreyInfo,
+} from "@/types/ifc";
+import type { IfcPropertyApi } from "./propertyExtractor";
+import { quantityForUnit, sumQuantities } from "./takeoff";
+import { getLengthUnitScale } from "./units";
+import { getIfcTypeInfo } from "./typeRegistry";
+
+interface RefValue {
+  value?: number;
+}
+
+interface SpatialLine {
+  type?: number;
+  Name?: { value?: string };
+  LongName?: { value?: string };
+  RelatingObject?: RefValue;
+  RelatedObjects?: RefValue[];
+  RelatingStructure?: RefValue;
+  RelatedElements?: RefValue[];
+  Elevation?: { value?: unknown };
+}
+
+const getLine = (api: IfcPropertyApi, modelID: number, expressID: number): SpatialLine | null => {
+  try {
+    return api.GetLine(modelID, expressID, false) as SpatialLine;
+  } catch {
+    return null;
+  }
+};
+
+// 표시용 타입 이름 (공간 구조는 IFC 클래스 이름, 요소는 한글 이름)
+export const getTypeName = (typeCode: number): string => {
+  const info = getIfcTypeInfo(typeCode);
+  return info.category === "공간" ? info.entity : info.koreanName;
+};
+
+// 관계 객체의 대상 expressID 목록
+const collectRelations = (
+  api: IfcPropertyApi,
+  modelID: number,
+  relType: number,
+  getParent: (rel: SpatialLine) => RefValue | undefined,
+  getChildren: (rel: SpatialLine) => RefValue[] | undefined
+): Map<number, number[]> => {
+  const map = new Map<number, number[]>();
+  const ids = api.GetLineIDsWithType(modelID, relType);
+  for (let i = 0; i < ids.size(); i++) {
+    const rel = getLine(api, modelID, ids.get(i));
+    const parentId = rel && getParent(rel)?.value;
+    const related = rel && getChildren(rel);
+    if (!parentId || !related) continue;
+
+    const children: number[] = [];
+    for (const ref of related) {
+      if (ref?.value) children.push(ref.value);
+    }
+    map.set(parentId, [...(map.get(parentId) || []), ...children]);
+  }
+  return map;
+};
+
+/**
+ * IfcProject부터 공간 구조 트리 (IfcRelAggregates → children, IfcRelContainedInSpatialStructure → elements)
+ */
+export function parseSpatialStructure(api: IfcPropertyApi, modelID: number): IFCSpatialNode | null {
+  try {
+    const aggregatesMap = collectRelations(
+      api, modelID, IFC_SPATIAL_TYPES.IFCRELAGGREGATES,
+      rel => rel.RelatingObject, rel => rel.RelatedObjects
+    );
+    const containsMap = collectRelations(
+      api, modelID, IFC_SPATIAL_TYPES.IFCRELCONTAINEDINSPATIALSTRUCTURE,
+      rel => rel.RelatingStructure, rel => rel.RelatedElements
+    );
+
+    const projectIds = api.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCPROJECT);
+    if (projectIds.size() === 0) return null;
+
+    const buildNode = (expressID: number): IFCSpatialNode => {
+      const props = getLine(api, modelID, expressID);
+      const typeCode = props?.type || 0;
+
+      return {
+        expressID,
+        name: props?.Name?.value || props?.LongName?.value || `#${expressID}`,
+        type: getTypeName(typeCode),
+        typeCode,
+        children: (aggregatesMap.get(expressID) || []).map(buildNode),
+        elements: containsMap.get(expressID) || [],
+      };
+    };
+
+    return buildNode(projectIds.get(0));
+  } catch (e) {
+    console.error("공간 구조 파싱 실패:", e);
+    return null;
+  }
+}
+
+/**
+ * 공간 트리에서 층 목록 추출 (높이는 IfcBuildingStorey.Elevation을 m로 환산)
+ */
+export function extractStoreys(api: IfcPropertyApi, modelID: number, tree: IFCSpatialNode | null): StoreyInfo[] {
+  if (!tree) return [];
+  const unitScale = getLengthUnitScale(api, modelID);
+  const storeys: StoreyInfo[] = [];
+  const visit = (node: IFCSpatialNode) => {
+    if (node.typeCode === IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY) {
+      const props = getLine(api, modelID, node.expressID);
+      storeys.push({
+        id: `storey_${node.expressID}`,
+        name: node.name,
+        elevation: (Number(props?.Elevation?.value) || 0) * unitScale,
+        expressIDs: node.elements,
+      });
+    }
+    node.children.forEach(visit);
+  };
+  visit(tree);
+  return storeys;
+}
+
+/**
+ * 공간 트리의 포함 관계 (요소 → 소속 공간, 공간 → 하위 노드/요소)
+ */
+export function collectContainment(spatialTree: IFCSpatialNode | null) {
+  const containedIn = new Map<number, number>();
+  const contains = new Map<number, number[]>();
+
+  const traverse = (node: IFCSpatialNode, parentId?: number) => {
+    if (parentId !== undefined) containedIn.set(node.expressID, parentId);
+    contains.set(node.expressID, [...node.children.map(c => c.expressID), ...node.elements]);
+    for (const id of node.elements) containedIn.set(id, node.expressID);
+    node.children.forEach(child => traverse(child, node.expressID));
+  };
+
+  if (spatialTree) traverse(spatialTree);
+  return { containedIn, contains };
+}
+
+// ========== 요소 규격 ==========
+
+// [minX, minY, minZ, maxX, maxY, maxZ]
+export type ElementBounds = [number, number, number, number, number, number];
+
+export const createBounds = (): ElementBounds => [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+
+/**
+ * 지오메트리 하나로 바운딩 박스 확장 (월드 좌표 기준)
+ * 로컬 바운딩 박스의 8개 꼭짓점을 변환 행렬(열 우선 4×4, flatTransformation)로 옮겨 합침
+ * - 브라우저 로더의 box.applyMatrix4(matrix)와 같은 결과 (mm 모델의 단위 배율도 행렬에 들어 있음)
+ */
+export function expandBounds(bounds: ElementBounds, positions: ArrayLike<number>, transform: ArrayLike<number>) {
+  const local = createBounds();
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i], y = positions[i + 1], z = positions[i + 2];
+    if (x < local[0]) local[0] = x; if (x > local[3]) local[3] = x;
+    if (y < local[1]) local[1] = y; if (y > local[4]) local[4] = y;
+    if (z < local[2]) local[2] = z; if (z > local[5]) local[5] = z;
+  }
+  if (local[0] === Infinity) return;
+
+  const m = transform;
+  for (let corner = 0; corner < 8; corner++) {
+    const x = local[corner & 1 ? 3 : 0], y = local[corner & 2 ? 4 : 1], z = local[corner & 4 ? 5 : 2];
+    const w = m[3] * x + m[7] * y + m[11] * z + m[15] || 1;
+    const tx = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+    const ty = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+    const tz = (m[2] * x + m[6] * y + m[10] * z + m[14]) / w;
+    if (tx < bounds[0]) bounds[0] = tx; if (tx > bounds[3]) bounds[3] = tx;
+    if (ty < bounds[1]) bounds[1] = ty; if (ty > bounds[4]) bounds[4] = ty;
+    if (tz < bounds[2]) bounds[2] = tz; if (tz > bounds[5]) bounds[5] = tz;
+  }
+}
+
+/**
+ * 바운딩 박스 → 가로/세로/높이 (mm, 정점이 없으면 null)
+ */
+export function boundsToDimensions(bounds: ElementBounds): ElementDimensions | null {
+  if (bounds[0] === Infinity) return null;
+  return {
+    width: Math.round((bounds[3] - bounds[0]) * 1000),
+    height: Math.round((bounds[4] - bounds[1]) * 1000),
+    depth: Math.round((bounds[5] - bounds[2]) * 1000),
+  };
+}
+
+// 규격 문자열 (큰 치수부터, 예: "3000×2700×200")
+export const getDimensionSpec = (dim: ElementDimensions): string => {
+  const sizes = [dim.width, dim.height, dim.depth].sort((a, b) => b - a);
+  return `${sizes[0]}×${sizes[1]}×${sizes[2]}`;
+};
+
+/**
+ * 타입 + 규격별 자재 목록 (규격을 알 수 없는 요소는 "unknown" 그룹)
+ */
+export function buildMaterialList(
+  typeToExpressIDs: Map<number, number[]>,
+  elementDimensions: Map<number, ElementDimensions>,
+  elementQuantities: Map<number, ElementQuantities>
+): MaterialItem[] {
+  const materials: MaterialItem[] = [];
+
+  typeToExpressIDs.forEach((expressIDs, typeCode) => {
+    // 규격별로 그룹화
+    const specGroups = new Map<string, number[]>();
+    for (const id of expressIDs) {
+      const dim = elementDimensions.get(id);
+      const spec = dim ? getDimensionSpec(dim) : "unknown";
+      const group = specGroups.get(spec) || [];
+      group.push(id);
+      specGroups.set(spec, group);
+    }
+
+    const { koreanName: typeName, category, unit } = getIfcTypeInfo(typeCode);
+    specGroups.forEach((ids, spec) => {
+      const totals = sumQuantities(ids, elementQuantities);
+
+      materials.push({
+        id: `${typeCode}_${spec}`,
+        typeCode,
+        typeName,
+        category,
+        spec,
+        count: ids.length,
+        unit,
+        quantity: quantityForUnit(totals, unit),
+        totalArea: totals.area,
+        totalVolume: totals.volume,
+        totalLength: totals.length,
+        expressIDs: ids,
+        dimensions: elementDimensions.get(ids[0]),
+      });
+    });
+  });
+
+  return materials.sort((a, b) =>
+    a.category.localeCompare(b.category) || a.typeName.localeCompare(b.typeName) || a.spec.localeCompare(b.spec)
+  );
+}
+
+/**
+ * 자재 목록의 타입 이름·카테고리·단위를 타입 레지스트리 기준으로 다시 지정
+ * (이전 캐시나 인라인 워커처럼 레지스트리 없이 만든 목록, 단위가 바뀌면 수량도 다시 계산)
+ */
+export function applyTypeLabels(materials: MaterialItem[]): MaterialItem[] {
+  return materials
+    .map(item => {
+      const { koreanName: typeName, category, unit } = getIfcTypeInfo(item.typeCode);
+      const totals = { area: item.totalArea || 0, volume: item.totalVolume || 0, length: item.totalLength || 0, count: item.count };
+      return { ...item, typeName, category, unit, quantity: quantityForUnit(totals, unit) };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category) || a.typeName.localeCompare(b.typeName) || a.spec.localeCompare(b.spec));
+}
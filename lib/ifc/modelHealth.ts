@@ -0,0 +1,355 @@
+/**
+ * 모델 점검 (공간 구조 누락, GlobalId 누락·중복, 형상 없음, 체적 0 메시, 중복 배치, 프록시 남용)
+ * - 로드 시 web-ifc가 열려 있을 때만 알 수 있는 자료는 collectModelHealth로 모아 캐시에 함께 저장
+ * - 점검 결과는 buildHealthReport로 불러온 전체 모델에 대해 계산 (항목마다 문제 요소 키 목록)
+ */
+
+import { IFCSpatialNode, IFC_SPATIAL_TYPES } from "@/types/ifc";
+import type { IfcPropertyApi } from "./propertyExtractor";
+import { collectContainment } from "./modelExtractor";
+import { GEOMETRY_TOLERANCE, GeometrySignature } from "./modelDiff";
+
+// 점검 대상 IFC 클래스 (web-ifc 타입 코드, 하위 클래스 포함 조회)
+const IFCELEMENT = 1758889154;
+const IFCFEATUREELEMENT = 2827207264; // 개구부·돌출 (형상·공간 소속이 없어도 정상)
+const IFCVIRTUALELEMENT = 2769231204;
+const IFCRELNESTS = 3268803585;
+export const IFCBUILDINGELEMENTPROXY = 1095909175;
+
+// 경계 상자 한 변이 이보다 얇으면 체적 0 (m)
+export const ZERO_THICKNESS = 1e-4;
+// 프록시 요소 비율이 이 이상이면 경고
+export const PROXY_RATIO_LIMIT = 0.1;
+
+export interface ModelHealthApi extends IfcPropertyApi {
+  GetLineIDsWithType(modelID: number, type: number, includeInherited?: boolean): { size(): number; get(index: number): number };
+}
+
+// 로드 중 읽지 못해 건너뛴 라인
+export interface HealthLoadIssue {
+  expressID?: number;
+  stage: string;   // "요소 속성", "속성 관계" 등
+  message: string;
+}
+
+export interface NonGeometricElement {
+  expressID: number;
+  typeCode: number;
+  globalId?: string;
+  name?: string;
+}
+
+// 로드 시 수집하는 점검 자료 (파일의 expressID 기준)
+export interface ModelHealthData {
+  productCount: number;                  // IfcElement 수 (개구부·가상 요소 제외, 형상 유무 무관)
+  uncontained: number[];                 // 공간 구조에 속하지 않은 요소 (부재는 상위 집합체 기준)
+  withoutGeometry: NonGeometricElement[]; // StreamAllMeshes에 나오지 않은 요소 (집합체 자체는 제외)
+  issues: HealthLoadIssue[];
+}
+
+export type HealthCheckId =
+  | "loadIssue"
+  | "notContained"
+  | "missingGlobalId"
+  | "invalidGlobalId"
+  | "duplicateGlobalId"
+  | "noGeometry"
+  | "zeroVolume"
+  | "coincident"
+  | "proxy";
+
+export type HealthSeverity = "error" | "warning" | "info";
+
+export interface HealthItem {
+  key?: number;        // 요소 키 (요소를 알 수 없는 오류는 생략)
+  label: string;
+  detail?: string;
+}
+
+export interface HealthFinding {
+  check: HealthCheckId;
+  severity: HealthSeverity;
+  slot: number;
+  modelName: string;
+  title: string;
+  description: string;
+  keys: number[];      // 선택할 요소 키 (형상 없는 요소 포함)
+  items: HealthItem[];
+}
+
+// 점검 입력 (모델 하나, 요소 키는 통합 모델 기준)
+export interface HealthElement {
+  key: number;
+  typeCode: number;
+  globalId?: string;
+  name?: string;
+  geometry?: GeometrySignature;
+}
+
+export interface HealthModelInput {
+  slot: number;
+  name: string;
+  elements: HealthElement[];        // 형상이 있는 요소
+  data: ModelHealthData | null;     // 로드 시 수집 자료 (이전 캐시로 복원하면 없음)
+  toKey: (expressID: number) => number;
+}
+
+export interface HealthReport {
+  checkedAt: number;
+  elementCount: number;
+  findings: HealthFinding[];
+  incompleteModels: string[];      // 로드 시 수집 자료가 없어 일부 항목을 건너뛴 모델
+}
+
+export const HEALTH_CHECK_LABELS: Record<HealthCheckId, string> = {
+  loadIssue: "읽기 오류",
+  notContained: "공간 구조 누락",
+  missingGlobalId: "GlobalId 없음",
+  invalidGlobalId: "GlobalId 형식 오류",
+  duplicateGlobalId: "GlobalId 중복",
+  noGeometry: "형상 없음",
+  zeroVolume: "체적 0 메시",
+  coincident: "중복 배치",
+  proxy: "프록시 요소",
+};
+
+export const HEALTH_SEVERITY_LABELS: Record<HealthSeverity, string> = {
+  error: "오류",
+  warning: "경고",
+  info: "참고",
+};
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/**
+ * 로드 중 읽지 못한 라인 기록 (빈 catch 대신 사용)
+ */
+export function recordLoadIssue(issues: HealthLoadIssue[], stage: string, error: unknown, expressID?: number) {
+  issues.push({ expressID, stage, message: errorMessage(error) });
+}
+
+const toIdList = (ids: { size(): number; get(index: number): number }): number[] => {
+  const list: number[] = [];
+  for (let i = 0; i < ids.size(); i++) list.push(ids.get(i));
+  return list;
+};
+
+/**
+ * 로드 직후 점검 자료 수집 (web-ifc 모델이 열려 있을 때)
+ * streamedIds: StreamAllMeshes에 나온 요소
+ */
+export function collectModelHealth(
+  api: ModelHealthApi,
+  modelID: number,
+  streamedIds: Iterable<number>,
+  spatialTree: IFCSpatialNode | null,
+  issues: HealthLoadIssue[]
+): ModelHealthData {
+  const excluded = new Set([
+    ...toIdList(api.GetLineIDsWithType(modelID, IFCFEATUREELEMENT, true)),
+    ...toIdList(api.GetLineIDsWithType(modelID, IFCVIRTUALELEMENT, true)),
+  ]);
+  const elementIds = toIdList(api.GetLineIDsWithType(modelID, IFCELEMENT, true)).filter(id => !excluded.has(id));
+
+  // 부재 → 상위 집합체 (IfcRelAggregates, IfcRelNests)
+  const wholeOf = new Map<number, number>();
+  for (const relType of [IFC_SPATIAL_TYPES.IFCRELAGGREGATES, IFCRELNESTS]) {
+    const relIds = api.GetLineIDsWithType(modelID, relType);
+    for (let i = 0; i < relIds.size(); i++) {
+      try {
+        const rel = api.GetLine(modelID, relIds.get(i), false) as {
+          RelatingObject?: { value?: number };
+          RelatedObjects?: { value?: number }[];
+        };
+        const wholeId = rel.RelatingObject?.value;
+        if (!wholeId) continue;
+        for (const part of rel.RelatedObjects || []) {
+          if (part?.value) wholeOf.set(part.value, wholeId);
+        }
+      } catch (e) {
+        recordLoadIssue(issues, "집합 관계", e, relIds.get(i));
+      }
+    }
+  }
+  const wholes = new Set(wholeOf.values());
+
+  const { containedIn } = collectContainment(spatialTree);
+  const isContained = (expressID: number): boolean => {
+    const visited = new Set<number>();
+    for (let id: number | undefined = expressID; id !== undefined && !visited.has(id); id = wholeOf.get(id)) {
+      if (containedIn.has(id)) return true;
+      visited.add(id);
+    }
+    return false;
+  };
+
+  const streamed = new Set(streamedIds);
+  const withoutGeometry: NonGeometricElement[] = [];
+  for (const expressID of elementIds) {
+    if (streamed.has(expressID) || wholes.has(expressID)) continue;
+    try {
+      const line = api.GetLine(modelID, expressID, false) as {
+        type?: number;
+        GlobalId?: { value?: string };
+        Name?: { value?: string };
+      };
+      withoutGeometry.push({
+        expressID,
+        typeCode: line.type || 0,
+        globalId: line.GlobalId?.value || undefined,
+        name: line.Name?.value || undefined,
+      });
+    } catch (e) {
+      recordLoadIssue(issues, "형상 없는 요소", e, expressID);
+      withoutGeometry.push({ expressID, typeCode: 0 });
+    }
+  }
+
+  return {
+    productCount: elementIds.length,
+    uncontained: elementIds.filter(id => !isContained(id)),
+    withoutGeometry,
+    issues,
+  };
+}
+
+// IFC GlobalId: base64 변형 22자 (첫 글자는 0~3)
+const GLOBAL_ID_PATTERN = /^[0-3][0-9A-Za-z_$]{21}$/;
+
+export const isValidGlobalId = (globalId: string) => GLOBAL_ID_PATTERN.test(globalId);
+
+// 형상 요약이 체적 0인지 (삼각형 없음 또는 경계 상자 한 변이 0)
+export function isZeroVolume(geometry: GeometrySignature): boolean {
+  if (geometry.triangleCount === 0) return true;
+  for (let axis = 0; axis < 3; axis++) {
+    if (geometry.max[axis] - geometry.min[axis] < ZERO_THICKNESS) return true;
+  }
+  return false;
+}
+
+// 같은 자리의 같은 형상 판정 키 (허용 오차 격자로 반올림)
+const coincidenceKey = (typeCode: number, geometry: GeometrySignature): string => {
+  const snap = (value: number) => Math.round(value / GEOMETRY_TOLERANCE);
+  return [typeCode, geometry.vertexCount, geometry.triangleCount, ...geometry.min.map(snap), ...geometry.max.map(snap)].join("_");
+};
+
+/**
+ * 불러온 모델 전체 점검 (문제가 없는 항목은 결과에 넣지 않음)
+ * typeName: 타입 코드 → 표시 이름 (IFC 클래스)
+ */
+export function buildHealthReport(models: HealthModelInput[], typeName: (typeCode: number) => string): HealthReport {
+  const findings: HealthFinding[] = [];
+  const incompleteModels: string[] = [];
+  let elementCount = 0;
+
+  for (const model of models) {
+    const { slot, name: modelName, data, toKey } = model;
+    const elements = new Map(model.elements.map(element => [element.key, element]));
+    const nonGeometric = (data?.withoutGeometry || []).map(({ expressID, ...rest }) => ({ ...rest, key: toKey(expressID) }));
+    const all: HealthElement[] = [...elements.values(), ...nonGeometric];
+    const byKey = new Map(all.map(element => [element.key, element]));
+    elementCount += data ? data.productCount : elements.size;
+    if (!data) incompleteModels.push(modelName);
+
+    const label = (key: number) => {
+      const element = byKey.get(key);
+      return element?.name || element?.globalId || `#${key}`;
+    };
+    const itemOf = (key: number, detail?: string): HealthItem => ({
+      key,
+      label: label(key),
+      detail: detail ?? typeName(byKey.get(key)?.typeCode ?? 0),
+    });
+    const add = (check: HealthCheckId, severity: HealthSeverity, description: string, keys: number[], items: HealthItem[]) => {
+      if (items.length === 0) return;
+      findings.push({ check, severity, slot, modelName, title: HEALTH_CHECK_LABELS[check], description, keys, items });
+    };
+
+    if (data) {
+      const issueKey = (issue: HealthLoadIssue) => {
+        const key = issue.expressID !== undefined ? toKey(issue.expressID) : undefined;
+        return key !== undefined && byKey.has(key) ? key : undefined;
+      };
+      add(
+        "loadIssue", "error", "IFC 라인을 읽지 못해 건너뛰었습니다 (속성·이름 누락 가능)",
+        data.issues.flatMap(issue => issueKey(issue) ?? []),
+        data.issues.map(issue => ({
+          key: issueKey(issue),
+          label: issue.expressID !== undefined ? `#${issue.expressID} · ${issue.stage}` : issue.stage,
+          detail: issue.message,
+        }))
+      );
+
+      const uncontained = data.uncontained.map(toKey);
+      add(
+        "notContained", "warning", "IfcRelContainedInSpatialStructure로 층·공간에 속하지 않은 요소",
+        uncontained, uncontained.map(key => itemOf(key))
+      );
+
+      const noGeometry = nonGeometric.map(element => element.key);
+      add(
+        "noGeometry", "warning", "표현(형상)이 없어 3D에 나타나지 않는 요소 (선택해도 화면에는 보이지 않음)",
+        noGeometry, noGeometry.map(key => itemOf(key))
+      );
+    }
+
+    // GlobalId 누락·형식·중복 (중복은 모델 안에서)
+    const missing: number[] = [];
+    const invalid: number[] = [];
+    const byGlobalId = new Map<string, number[]>();
+    for (const element of all) {
+      if (!element.globalId) {
+        missing.push(element.key);
+        continue;
+      }
+      if (!isValidGlobalId(element.globalId)) invalid.push(element.key);
+      byGlobalId.set(element.globalId, [...(byGlobalId.get(element.globalId) || []), element.key]);
+    }
+    add("missingGlobalId", "error", "GlobalId가 없어 BCF·버전 비교에서 요소를 찾을 수 없습니다", missing, missing.map(key => itemOf(key)));
+    add(
+      "invalidGlobalId", "warning", "22자 IFC GlobalId 형식이 아닙니다",
+      invalid, invalid.map(key => itemOf(key, byKey.get(key)?.globalId))
+    );
+    const duplicateGroups = Array.from(byGlobalId.entries()).filter(([, keys]) => keys.length > 1);
+    add(
+      "duplicateGlobalId", "error", "같은 GlobalId를 여러 요소가 사용합니다 (BCF·비교에서 마지막 요소만 연결)",
+      duplicateGroups.flatMap(([, keys]) => keys),
+      duplicateGroups.flatMap(([globalId, keys]) => keys.map(key => itemOf(key, `${globalId} (${keys.length}개)`)))
+    );
+
+    // 체적 0 메시 (평면·선으로만 표현된 요소)
+    const zeroVolume = Array.from(elements.values()).filter(element => element.geometry && isZeroVolume(element.geometry)).map(element => element.key);
+    add(
+      "zeroVolume", "warning", `두께가 ${ZERO_THICKNESS * 1000}mm 미만이거나 삼각형이 없는 메시`,
+      zeroVolume, zeroVolume.map(key => itemOf(key))
+    );
+
+    // 같은 타입·같은 형상이 같은 자리에 겹친 요소
+    const coincident = new Map<string, number[]>();
+    for (const element of elements.values()) {
+      if (!element.geometry) continue;
+      const groupKey = coincidenceKey(element.typeCode, element.geometry);
+      coincident.set(groupKey, [...(coincident.get(groupKey) || []), element.key]);
+    }
+    const coincidentGroups = Array.from(coincident.values()).filter(keys => keys.length > 1);
+    add(
+      "coincident", "warning", "같은 타입·같은 형상의 요소가 같은 위치에 겹쳐 있습니다 (수량 이중 집계)",
+      coincidentGroups.flatMap(keys => keys),
+      coincidentGroups.flatMap(keys => keys.map(key => itemOf(key, `${typeName(byKey.get(key)?.typeCode ?? 0)} · ${keys.length}개 겹침`)))
+    );
+
+    // IfcBuildingElementProxy 비율
+    const proxies = all.filter(element => element.typeCode === IFCBUILDINGELEMENTPROXY).map(element => element.key);
+    const total = data ? data.productCount : all.length;
+    const ratio = total > 0 ? proxies.length / total : 0;
+    add(
+      "proxy", ratio >= PROXY_RATIO_LIMIT ? "warning" : "info",
+      `IfcBuildingElementProxy ${proxies.length}개 (전체 요소의 ${(ratio * 100).toFixed(1)}%, 기준 ${PROXY_RATIO_LIMIT * 100}%) - 알맞은 IFC 클래스로 내보내야 분류·수량 집계가 됩니다`,
+      proxies, proxies.map(key => itemOf(key))
+    );
+  }
+
+  const severityOrder: Record<HealthSeverity, number> = { error: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => a.slot - b.slot || severityOrder[a.severity] - severityOrder[b.severity]);
+  return { checkedAt: Date.now(), elementCount, findings, incompleteModels };
+}
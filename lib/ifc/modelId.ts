@@ -0,0 +1,11 @@
+/**
+ * IFC 파일 내용 기반 모델 ID
+ * 같은 파일을 다시 열면 같은 ID가 나오므로 속성 DB 등 캐시 키로 사용
+ */
+
+export async function computeModelId(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,470 @@
+/**
+ * 서버 변환 결과 바이너리 형식 (/api/convert 응답, 서버 저장소 공용)
+ * - JSON number[] 대신 타입 배열 섹션으로 전송 (양자화 시 위치 Uint16, 법선 Int16)
+ * - 같은 geometryExpressID를 쓰는 메시는 지오메트리 하나를 공유 (선택)
+ * - 헤더 → 레코드 순서로 쓰므로 받는 쪽은 스트림을 받는 대로 디코딩
+ *
+ * 레이아웃 (리틀 엔디언, 모든 섹션 4바이트 정렬)
+ *   [0]  u32 매직 "IFCB"
+ *   [4]  u16 형식 버전, u16 플래그 (QUANTIZED, DEDUPLICATED)
+ *   [8]  u32 헤더 JSON 길이, 헤더 JSON (UTF-8, 4바이트 패딩)
+ *   레코드 반복: u32 종류, u32 본문 길이, 본문
+ *     GEOMETRY: u32 index, u32 vertexCount, u32 indexCount, u32 flags(bit0: Uint32 인덱스)
+ *               [양자화] f32 min[3], f32 scale[3], u16 positions, i16 normals
+ *               [원본]   f32 positions, f32 normals
+ *               u16 또는 u32 indices
+ *     MESH:     u32 expressID, u32 typeCode, u32 geometry index, u32 예약,
+ *               f32 color[4], f64 transform[16]
+ *     END:      본문 없음 (끝까지 받았는지 확인용)
+ */
+
+import { MaterialItem, StoreyInfo, IFCSpatialNode } from "@/types/ifc";
+
+export const MODEL_PAYLOAD_MIME = "application/x-ifc-model";
+export const MODEL_PAYLOAD_VERSION = 1;
+
+const MAGIC = 0x42434649; // "IFCB"
+
+export const PAYLOAD_FLAG_QUANTIZED = 1;
+export const PAYLOAD_FLAG_DEDUPLICATED = 2;
+
+const RECORD_END = 0;
+const RECORD_GEOMETRY = 1;
+const RECORD_MESH = 2;
+
+const GEOMETRY_FLAG_UINT32_INDICES = 1;
+const MESH_RECORD_SIZE = 16 + 16 + 128;
+const QUANT_MAX = 65535;
+
+// 지오메트리 외 모델 정보 (헤더 JSON)
+export interface ModelPayloadHeader {
+  id: string;
+  fileName: string;
+  meshCount: number;
+  geometryCount: number;
+  materials: MaterialItem[];
+  storeys: StoreyInfo[];
+  spatialTree: IFCSpatialNode | null;
+  createdAt: number;
+}
+
+export interface PayloadGeometry {
+  index: number;
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array | Uint16Array;
+}
+
+export interface PayloadMesh {
+  expressID: number;
+  typeCode: number;
+  geometry: number;                          // PayloadGeometry.index
+  color: [number, number, number, number];
+  transform: ArrayLike<number>;              // 4x4 열 우선
+}
+
+export interface ModelPayloadOptions {
+  quantize?: boolean;
+  deduplicate?: boolean;
+}
+
+export class ModelPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelPayloadError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+// ========== 쓰기 ==========
+
+/**
+ * 변환 결과 바이너리 작성기
+ * 지오메트리/메시를 받는 즉시 인코딩하고, finish()에서 헤더를 앞에 붙여 합침
+ */
+export class ModelPayloadWriter {
+  private readonly parts: Uint8Array[] = [];
+  private readonly geometryKeys = new Map<number, number>();
+  private geometries = 0;
+  private meshes = 0;
+  readonly flags: number;
+
+  constructor(options: ModelPayloadOptions = {}) {
+    this.flags =
+      (options.quantize !== false ? PAYLOAD_FLAG_QUANTIZED : 0) |
+      (options.deduplicate !== false ? PAYLOAD_FLAG_DEDUPLICATED : 0);
+  }
+
+  get geometryCount() {
+    return this.geometries;
+  }
+
+  get meshCount() {
+    return this.meshes;
+  }
+
+  get quantized() {
+    return (this.flags & PAYLOAD_FLAG_QUANTIZED) !== 0;
+  }
+
+  get deduplicated() {
+    return (this.flags & PAYLOAD_FLAG_DEDUPLICATED) !== 0;
+  }
+
+  /**
+   * 이미 쓴 지오메트리 조회 (중복 제거 사용 시에만, key는 geometryExpressID)
+   */
+  findGeometry(key: number): number | undefined {
+    return this.deduplicated ? this.geometryKeys.get(key) : undefined;
+  }
+
+  /**
+   * 지오메트리 추가 (중복 제거 사용 시 같은 key는 기존 index 반환)
+   */
+  addGeometry(key: number, positions: ArrayLike<number>, normals: ArrayLike<number>, indices: ArrayLike<number>): number {
+    const existing = this.findGeometry(key);
+    if (existing !== undefined) return existing;
+
+    const index = this.geometries++;
+    if (this.deduplicated) this.geometryKeys.set(key, index);
+
+    const vertexCount = positions.length / 3;
+    const wideIndices = vertexCount > QUANT_MAX + 1;
+    const quantized = this.quantized;
+
+    const attrBytes = quantized ? align4(vertexCount * 3 * 2) : vertexCount * 3 * 4;
+    const indexBytes = wideIndices ? indices.length * 4 : align4(indices.length * 2);
+    const bodySize = 16 + (quantized ? 24 : 0) + attrBytes * 2 + indexBytes;
+
+    const record = new ArrayBuffer(8 + bodySize);
+    const view = new DataView(record);
+    view.setUint32(0, RECORD_GEOMETRY, true);
+    view.setUint32(4, bodySize, true);
+    view.setUint32(8, index, true);
+    view.setUint32(12, vertexCount, true);
+    view.setUint32(16, indices.length, true);
+    view.setUint32(20, wideIndices ? GEOMETRY_FLAG_UINT32_INDICES : 0, true);
+
+    let offset = 24;
+    if (quantized) {
+      const min = [Infinity, Infinity, Infinity];
+      const max = [-Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < positions.length; i++) {
+        const axis = i % 3;
+        if (positions[i] < min[axis]) min[axis] = positions[i];
+        if (positions[i] > max[axis]) max[axis] = positions[i];
+      }
+      const scale = min.map((m, axis) => (vertexCount > 0 && max[axis] > m ? (max[axis] - m) / QUANT_MAX : 0));
+      for (let axis = 0; axis < 3; axis++) {
+        view.setFloat32(offset + axis * 4, vertexCount > 0 ? min[axis] : 0, true);
+        view.setFloat32(offset + 12 + axis * 4, scale[axis], true);
+      }
+      offset += 24;
+
+      const qPositions = new Uint16Array(record, offset, vertexCount * 3);
+      for (let i = 0; i < positions.length; i++) {
+        const axis = i % 3;
+        qPositions[i] = scale[axis] > 0 ? Math.round((positions[i] - min[axis]) / scale[axis]) : 0;
+      }
+      offset += attrBytes;
+
+      const qNormals = new Int16Array(record, offset, vertexCount * 3);
+      for (let i = 0; i < normals.length; i++) {
+        qNormals[i] = Math.round(Math.max(-1, Math.min(1, normals[i])) * 32767);
+      }
+      offset += attrBytes;
+    } else {
+      new Float32Array(record, offset, vertexCount * 3).set(positions);
+      offset += attrBytes;
+      new Float32Array(record, offset, vertexCount * 3).set(normals);
+      offset += attrBytes;
+    }
+
+    if (wideIndices) new Uint32Array(record, offset, indices.length).set(indices);
+    else new Uint16Array(record, offset, indices.length).set(indices);
+
+    this.parts.push(new Uint8Array(record));
+    return index;
+  }
+
+  addMesh(mesh: PayloadMesh) {
+    const record = new ArrayBuffer(8 + MESH_RECORD_SIZE);
+    const view = new DataView(record);
+    view.setUint32(0, RECORD_MESH, true);
+    view.setUint32(4, MESH_RECORD_SIZE, true);
+    view.setUint32(8, mesh.expressID, true);
+    view.setUint32(12, mesh.typeCode, true);
+    view.setUint32(16, mesh.geometry, true);
+    for (let i = 0; i < 4; i++) view.setFloat32(24 + i * 4, mesh.color[i], true);
+    for (let i = 0; i < 16; i++) view.setFloat64(40 + i * 8, mesh.transform[i] ?? 0, true);
+    this.parts.push(new Uint8Array(record));
+    this.meshes++;
+  }
+
+  /**
+   * 헤더를 붙여 전체 바이너리 생성 (meshCount/geometryCount는 작성기 기준으로 채움)
+   */
+  finish(header: Omit<ModelPayloadHeader, "meshCount" | "geometryCount">): Uint8Array<ArrayBuffer> {
+    const json = encoder.encode(JSON.stringify({
+      ...header,
+      meshCount: this.meshes,
+      geometryCount: this.geometries,
+    }));
+    const prefix = new DataView(new ArrayBuffer(12 + align4(json.length)));
+    prefix.setUint32(0, MAGIC, true);
+    prefix.setUint16(4, MODEL_PAYLOAD_VERSION, true);
+    prefix.setUint16(6, this.flags, true);
+    prefix.setUint32(8, json.length, true);
+    new Uint8Array(prefix.buffer).set(json, 12);
+
+    const parts = [new Uint8Array(prefix.buffer), ...this.parts, new Uint8Array(8)]; // 마지막은 END 레코드
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+}
+
+// ========== 읽기 ==========
+
+export interface ModelPayloadHandlers {
+  onHeader?: (header: ModelPayloadHeader, flags: number) => void;
+  onGeometry?: (geometry: PayloadGeometry) => void;
+  onMesh?: (mesh: PayloadMesh) => void;
+}
+
+/**
+ * 스트리밍 디코더 - 받은 조각을 push()하면 완성된 레코드부터 핸들러 호출
+ */
+export class ModelPayloadDecoder {
+  private buffer = new Uint8Array(0);
+  private length = 0;
+  private header: ModelPayloadHeader | null = null;
+  private flags = 0;
+  private done = false;
+
+  constructor(private readonly handlers: ModelPayloadHandlers) {}
+
+  get finished() {
+    return this.done;
+  }
+
+  push(chunk: Uint8Array) {
+    if (this.done) {
+      if (chunk.length > 0) throw new ModelPayloadError("END 레코드 뒤에 데이터가 있습니다");
+      return;
+    }
+    this.append(chunk);
+
+    let offset = 0;
+    while (!this.done) {
+      const consumed = this.header
+        ? this.readRecord(offset)
+        : this.readHeader(offset);
+      if (consumed === 0) break;
+      offset += consumed;
+    }
+
+    // 처리한 앞부분 제거
+    if (offset > 0) {
+      this.buffer.copyWithin(0, offset, this.length);
+      this.length -= offset;
+    }
+  }
+
+  /**
+   * 스트림 끝 - END 레코드까지 받지 못했으면 오류
+   */
+  end() {
+    if (!this.done) throw new ModelPayloadError("변환 결과가 중간에 끊겼습니다");
+  }
+
+  private append(chunk: Uint8Array) {
+    if (this.length + chunk.length > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(this.length + chunk.length, this.buffer.length * 2, 64 * 1024));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(chunk, this.length);
+    this.length += chunk.length;
+  }
+
+  private view(offset: number, size: number) {
+    return new DataView(this.buffer.buffer, this.buffer.byteOffset + offset, size);
+  }
+
+  private readHeader(offset: number): number {
+    if (this.length - offset < 12) return 0;
+    const view = this.view(offset, 12);
+    if (view.getUint32(0, true) !== MAGIC) throw new ModelPayloadError("변환 결과 형식이 아닙니다");
+    const version = view.getUint16(4, true);
+    if (version !== MODEL_PAYLOAD_VERSION) {
+      throw new ModelPayloadError(`지원하지 않는 변환 결과 버전입니다: ${version}`);
+    }
+    const jsonLength = view.getUint32(8, true);
+    const size = 12 + align4(jsonLength);
+    if (this.length - offset < size) return 0;
+
+    this.flags = view.getUint16(6, true);
+    const json = decoder.decode(this.buffer.subarray(offset + 12, offset + 12 + jsonLength));
+    this.header = JSON.parse(json);
+    this.handlers.onHeader?.(this.header!, this.flags);
+    return size;
+  }
+
+  private readRecord(offset: number): number {
+    if (this.length - offset < 8) return 0;
+    const view = this.view(offset, 8);
+    const type = view.getUint32(0, true);
+    const bodySize = view.getUint32(4, true);
+    if (this.length - offset < 8 + bodySize) return 0;
+
+    // 본문은 새 버퍼로 복사 (타입 배열 정렬 보장 + 디코딩 결과가 내부 버퍼를 참조하지 않도록)
+    const body = this.buffer.slice(offset + 8, offset + 8 + bodySize).buffer;
+    switch (type) {
+      case RECORD_END:
+        this.done = true;
+        break;
+      case RECORD_GEOMETRY:
+        this.handlers.onGeometry?.(this.decodeGeometry(body));
+        break;
+      case RECORD_MESH:
+        this.handlers.onMesh?.(decodeMesh(body));
+        break;
+      default:
+        // 모르는 레코드는 건너뜀 (같은 버전 안에서 추가된 선택 섹션)
+        break;
+    }
+    return 8 + bodySize;
+  }
+
+  private decodeGeometry(body: ArrayBuffer): PayloadGeometry {
+    const view = new DataView(body);
+    const index = view.getUint32(0, true);
+    const vertexCount = view.getUint32(4, true);
+    const indexCount = view.getUint32(8, true);
+    const wideIndices = (view.getUint32(12, true) & GEOMETRY_FLAG_UINT32_INDICES) !== 0;
+
+    let offset = 16;
+    let positions: Float32Array;
+    let normals: Float32Array;
+
+    if (this.flags & PAYLOAD_FLAG_QUANTIZED) {
+      const min = [0, 1, 2].map(axis => view.getFloat32(offset + axis * 4, true));
+      const scale = [0, 1, 2].map(axis => view.getFloat32(offset + 12 + axis * 4, true));
+      offset += 24;
+      const attrBytes = align4(vertexCount * 3 * 2);
+
+      const qPositions = new Uint16Array(body, offset, vertexCount * 3);
+      positions = new Float32Array(vertexCount * 3);
+      for (let i = 0; i < qPositions.length; i++) {
+        const axis = i % 3;
+        positions[i] = min[axis] + qPositions[i] * scale[axis];
+      }
+      offset += attrBytes;
+
+      const qNormals = new Int16Array(body, offset, vertexCount * 3);
+      normals = new Float32Array(vertexCount * 3);
+      for (let i = 0; i < qNormals.length; i++) normals[i] = qNormals[i] / 32767;
+      offset += attrBytes;
+    } else {
+      positions = new Float32Array(body, offset, vertexCount * 3);
+      offset += vertexCount * 3 * 4;
+      normals = new Float32Array(body, offset, vertexCount * 3);
+      offset += vertexCount * 3 * 4;
+    }
+
+    const indices = wideIndices
+      ? new Uint32Array(body, offset, indexCount)
+      : new Uint16Array(body, offset, indexCount);
+
+    return { index, positions, normals, indices };
+  }
+}
+
+const decodeMesh = (body: ArrayBuffer): PayloadMesh => {
+  const view = new DataView(body);
+  const color: [number, number, number, number] = [0, 0, 0, 0];
+  for (let i = 0; i < 4; i++) color[i] = view.getFloat32(16 + i * 4, true);
+  const transform = new Array<number>(16);
+  for (let i = 0; i < 16; i++) transform[i] = view.getFloat64(32 + i * 8, true);
+  return {
+    expressID: view.getUint32(0, true),
+    typeCode: view.getUint32(4, true),
+    geometry: view.getUint32(8, true),
+    color,
+    transform,
+  };
+};
+
+/**
+ * 응답 스트림을 받는 대로 디코딩
+ * (핸들러 호출 사이에 UI가 멈추지 않도록 조각마다 한 번씩 양보)
+ */
+export async function decodeModelPayloadStream(
+  stream: ReadableStream<Uint8Array>,
+  handlers: ModelPayloadHandlers
+): Promise<void> {
+  const payloadDecoder = new ModelPayloadDecoder(handlers);
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      payloadDecoder.push(value);
+      await new Promise(r => setTimeout(r, 0));
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  payloadDecoder.end();
+}
+
+/**
+ * 전체 바이너리를 한 번에 디코딩 (서버 쪽 조회용)
+ */
+export function decodeModelPayload(data: Uint8Array): {
+  header: ModelPayloadHeader;
+  geometries: PayloadGeometry[];
+  meshes: PayloadMesh[];
+} {
+  let header: ModelPayloadHeader | null = null;
+  const geometries: PayloadGeometry[] = [];
+  const meshes: PayloadMesh[] = [];
+  const payloadDecoder = new ModelPayloadDecoder({
+    onHeader: h => { header = h; },
+    onGeometry: g => geometries.push(g),
+    onMesh: m => meshes.push(m),
+  });
+  payloadDecoder.push(data);
+  payloadDecoder.end();
+  return { header: header!, geometries, meshes };
+}
+
+/**
+ * 헤더 부분 바이트 (서버 저장소가 지오메트리와 따로 저장 - readModelPayloadHeader로 읽음)
+ */
+export function sliceModelPayloadHeader(data: Uint8Array): Uint8Array {
+  if (data.byteLength < 12) throw new ModelPayloadError("변환 결과가 중간에 끊겼습니다");
+  const jsonLength = new DataView(data.buffer, data.byteOffset + 8, 4).getUint32(0, true);
+  return data.subarray(0, 12 + align4(jsonLength));
+}
+
+/**
+ * 헤더만 읽기 (지오메트리·메시 레코드는 디코딩하지 않음 - 서버 요소 조회 API용)
+ * 전체 변환 결과 또는 sliceModelPayloadHeader로 잘라 둔 헤더 모두 가능
+ */
+export function readModelPayloadHeader(data: Uint8Array): ModelPayloadHeader {
+  let header = null as ModelPayloadHeader | null;
+  new ModelPayloadDecoder({ onHeader: h => { header = h; } }).push(sliceModelPayloadHeader(data));
+  if (!header) throw new ModelPayloadError("변환 결과가 중간에 끊겼습니다");
+  return header;
+}
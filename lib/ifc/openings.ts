@@ -0,0 +1,352 @@
+/**
+ * 개구부 공제 (벽·슬래브 면적)
+ * - 로드 시 IfcRelVoidsElement / IfcRelFillsElement로 요소별 개구부와 채움 요소(문·창)를 모아 캐시에 함께 저장
+ * - 총면적(개구부 포함)과 공제 규칙을 적용한 순면적을 자재 행·요소별로 계산
+ *
+ * 개구부 크기: 문·창 OverallWidth × OverallHeight → 개구부 Qto(Area, Width × Height) 순, 둘 다 없으면 크기 미상(공제 안 함)
+ * 총면적: 요소 Qto GrossSideArea/GrossArea, 없으면 산출 면적(개구부가 빠진 값) + 개구부 면적
+ */
+
+import { ElementOpening, ElementOpenings, IFCPropertySection, MaterialItem } from "@/types/ifc";
+import { getElementQuantitySections, IfcPropertyApi, PropertyIndex, SectionCache } from "./propertyExtractor";
+import { getIfcKoreanName, getIfcTypeCode, isIfcSubtypeOf } from "./typeRegistry";
+import { splitElementKey } from "./federation";
+import { HealthLoadIssue, recordLoadIssue } from "./modelHealth";
+
+const IFCRELVOIDSELEMENT = 1401173127;
+const IFCRELFILLSELEMENT = 3940055652;
+
+export type OpeningHostKind = "wall" | "slab";
+
+// 공제 규칙
+export interface OpeningDeductionSettings {
+  minArea: number;       // 이 면적(m²) 이하 개구부는 공제하지 않음
+  deductWalls: boolean;
+  deductSlabs: boolean;
+  deductEmpty: boolean;  // 문·창이 없는 개구부(설비 관통 등)도 공제
+}
+
+export type OpeningSkipReason = "small" | "empty" | "unknownSize" | "hostExcluded";
+
+export interface OpeningDeduction extends ElementOpening {
+  deducted: boolean;
+  skipReason?: OpeningSkipReason;
+}
+
+// 공제 계산에 쓰는 요소 (요소 키 기준)
+export interface OpeningHost {
+  key: number;
+  typeCode: number;
+  name?: string;
+  kind: OpeningHostKind;
+  area: number; // 산출 면적 (Qto 순면적 또는 메시 면적, 개구부가 빠진 값)
+  data: ElementOpenings;
+}
+
+export interface HostDeduction {
+  key: number;
+  typeCode: number;
+  name?: string;
+  kind: OpeningHostKind;
+  grossArea: number;
+  grossSource: "qto" | "derived";
+  deductedArea: number;
+  netArea: number;
+  openings: OpeningDeduction[];
+}
+
+// 자재 행 하나의 공제 결과
+export interface OpeningDeductionGroup {
+  materialId: string;
+  category: string;
+  typeName: string;
+  spec: string;
+  grossArea: number;
+  deductedArea: number;
+  netArea: number;
+  openingCount: number;
+  deductedCount: number;
+  hosts: HostDeduction[];
+}
+
+export interface OpeningDeductionResult {
+  groups: OpeningDeductionGroup[];
+  grossArea: number;
+  deductedArea: number;
+  netArea: number;
+  unknownSizeCount: number; // 크기를 알 수 없어 공제하지 않은 개구부
+}
+
+export const DEFAULT_OPENING_DEDUCTION: OpeningDeductionSettings = {
+  minArea: 0.5, // 적산 기준: 0.5m² 이하 개구부는 공제하지 않음
+  deductWalls: true,
+  deductSlabs: true,
+  deductEmpty: true,
+};
+
+export const OPENING_HOST_LABELS: Record<OpeningHostKind, string> = {
+  wall: "벽",
+  slab: "슬래브",
+};
+
+export const OPENING_SKIP_LABELS: Record<OpeningSkipReason, string> = {
+  small: "기준 면적 이하",
+  empty: "문·창 없음",
+  unknownSize: "크기 미상",
+  hostExcluded: "공제 안 함",
+};
+
+const SETTINGS_KEY = "ifc-opening-deduction";
+
+// 요소 표시 이름 (이름이 없으면 IFC 타입 한글명, 파일의 expressID 병기)
+export const openingElementLabel = (key: number, typeCode: number, name?: string): string =>
+  `${name || getIfcKoreanName(typeCode)} #${splitElementKey(key).expressID}`;
+
+// 공제 대상 요소 종류 (하위 클래스 포함, 레지스트리 로드 후 호출)
+export function getOpeningHostKind(typeCode: number): OpeningHostKind | null {
+  const wall = getIfcTypeCode("IfcWall");
+  const slab = getIfcTypeCode("IfcSlab");
+  if (wall !== undefined && isIfcSubtypeOf(typeCode, wall)) return "wall";
+  if (slab !== undefined && isIfcSubtypeOf(typeCode, slab)) return "slab";
+  return null;
+}
+
+// ============================================
+// 로드 시 수집
+// ============================================
+
+interface RelationLine {
+  [attr: string]: { value?: number } | undefined;
+}
+
+interface FillingLine {
+  type?: number;
+  Name?: { value?: string } | null;
+  OverallWidth?: { value?: number } | null;
+  OverallHeight?: { value?: number } | null;
+}
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+
+// Qto 섹션에서 이름이 맞는 첫 수량 값 (섹션 추출 시 PropertyIndex.unitScales로 m / m² 환산됨)
+const qtoValue = (sections: IFCPropertySection[], names: string[]): number | undefined => {
+  for (const name of names) {
+    for (const section of sections) {
+      const value = positive(section.properties.find(prop => prop.name === name)?.value);
+      if (value !== undefined) return value;
+    }
+  }
+  return undefined;
+};
+
+const scanRelation = (
+  api: IfcPropertyApi,
+  modelID: number,
+  relType: number,
+  fromAttr: string,
+  toAttr: string,
+  stage: string,
+  issues: HealthLoadIssue[],
+  apply: (from: number, to: number) => void
+) => {
+  let ids;
+  try {
+    ids = api.GetLineIDsWithType(modelID, relType);
+  } catch (e) {
+    recordLoadIssue(issues, stage, e);
+    return;
+  }
+  for (let i = 0; i < ids.size(); i++) {
+    try {
+      const rel = api.GetLine(modelID, ids.get(i), false) as RelationLine;
+      const from = rel[fromAttr]?.value;
+      const to = rel[toAttr]?.value;
+      if (from !== undefined && to !== undefined) apply(from, to);
+    } catch (e) {
+      recordLoadIssue(issues, stage, e, ids.get(i));
+    }
+  }
+};
+
+/**
+ * 요소별 개구부 수집 (파일의 expressID 기준, 개구부가 있는 요소만)
+ * 문·창 크기와 Qto 값 모두 index.unitScales(모델 단위 → m / m²)로 환산
+ * 읽지 못한 관계·문·창 라인은 issues에 기록 (모델 점검에 표시)
+ */
+export function collectElementOpenings(
+  api: IfcPropertyApi,
+  modelID: number,
+  index: PropertyIndex,
+  issues: HealthLoadIssue[],
+  cache?: SectionCache
+): Map<number, ElementOpenings> {
+  const lengthScale = index.unitScales.length;
+  const openingsOf = new Map<number, number[]>();
+  scanRelation(api, modelID, IFCRELVOIDSELEMENT, "RelatingBuildingElement", "RelatedOpeningElement", "개구부 관계", issues, (host, opening) => {
+    const list = openingsOf.get(host) || [];
+    list.push(opening);
+    openingsOf.set(host, list);
+  });
+  if (openingsOf.size === 0) return new Map();
+
+  const fillingOf = new Map<number, number>();
+  scanRelation(api, modelID, IFCRELFILLSELEMENT, "RelatingOpeningElement", "RelatedBuildingElement", "채움 관계", issues, (opening, filling) =>
+    fillingOf.set(opening, filling)
+  );
+
+  const resolveOpening = (openingId: number): ElementOpening => {
+    const fillingId = fillingOf.get(openingId);
+    let filling: ElementOpening["filling"];
+    if (fillingId !== undefined) {
+      try {
+        const line = api.GetLine(modelID, fillingId, false) as FillingLine;
+        filling = { expressID: fillingId, typeCode: line.type ?? 0, name: line.Name?.value || undefined };
+        const width = positive(line.OverallWidth?.value);
+        const height = positive(line.OverallHeight?.value);
+        if (width !== undefined && height !== undefined) {
+          const w = width * lengthScale;
+          const h = height * lengthScale;
+          return { openingId, area: w * h, width: w, height: h, source: "filling", filling };
+        }
+      } catch (e) {
+        recordLoadIssue(issues, "문·창 크기", e, fillingId);
+      }
+    }
+
+    const sections = getElementQuantitySections(api, modelID, index, openingId, cache);
+    const width = qtoValue(sections, ["Width"]);
+    const height = qtoValue(sections, ["Height"]);
+    const area = qtoValue(sections, ["Area"]) ?? (width !== undefined && height !== undefined ? width * height : undefined);
+    return area !== undefined
+      ? { openingId, area, width, height, source: "qto", filling }
+      : { openingId, area: 0, source: "unknown", filling };
+  };
+
+  const result = new Map<number, ElementOpenings>();
+  for (const [hostId, openingIds] of openingsOf) {
+    const grossArea = qtoValue(getElementQuantitySections(api, modelID, index, hostId, cache), ["GrossSideArea", "GrossArea"]);
+    result.set(hostId, { grossArea, openings: openingIds.map(resolveOpening) });
+  }
+  return result;
+}
+
+// 개구부·채움 요소의 expressID를 요소 키로 (또는 반대로) 변환
+export function rekeyElementOpenings(data: ElementOpenings, toKey: (expressID: number) => number): ElementOpenings {
+  return {
+    ...data,
+    openings: data.openings.map(opening => ({
+      ...opening,
+      openingId: toKey(opening.openingId),
+      filling: opening.filling && { ...opening.filling, expressID: toKey(opening.filling.expressID) },
+    })),
+  };
+}
+
+// ============================================
+// 공제 계산
+// ============================================
+
+/**
+ * 요소 하나에 공제 규칙 적용
+ */
+export function deductHostOpenings(host: OpeningHost, settings: OpeningDeductionSettings): HostDeduction {
+  const hostDeducts = host.kind === "wall" ? settings.deductWalls : settings.deductSlabs;
+  const openings: OpeningDeduction[] = host.data.openings.map(opening => {
+    const skipReason: OpeningSkipReason | undefined =
+      opening.source === "unknown" ? "unknownSize"
+      : !hostDeducts ? "hostExcluded"
+      : !opening.filling && !settings.deductEmpty ? "empty"
+      : opening.area <= settings.minArea ? "small"
+      : undefined;
+    return { ...opening, deducted: !skipReason, skipReason };
+  });
+
+  const openingArea = openings.reduce((sum, opening) => sum + opening.area, 0);
+  const grossArea = host.data.grossArea ?? host.area + openingArea;
+  const deductedArea = openings.reduce((sum, opening) => sum + (opening.deducted ? opening.area : 0), 0);
+
+  return {
+    key: host.key,
+    typeCode: host.typeCode,
+    name: host.name,
+    kind: host.kind,
+    grossArea,
+    grossSource: host.data.grossArea !== undefined ? "qto" : "derived",
+    deductedArea,
+    netArea: Math.max(0, grossArea - deductedArea),
+    openings,
+  };
+}
+
+/**
+ * 자재 행별 총면적·공제·순면적 (벽·슬래브가 있는 행만)
+ */
+export function applyOpeningDeductions(
+  materials: MaterialItem[],
+  hosts: Map<number, OpeningHost>,
+  settings: OpeningDeductionSettings
+): OpeningDeductionResult {
+  const result: OpeningDeductionResult = { groups: [], grossArea: 0, deductedArea: 0, netArea: 0, unknownSizeCount: 0 };
+
+  for (const item of materials) {
+    const deductions = item.expressIDs
+      .map(key => hosts.get(key))
+      .filter((host): host is OpeningHost => !!host)
+      .map(host => deductHostOpenings(host, settings));
+    if (deductions.length === 0) continue;
+
+    const group: OpeningDeductionGroup = {
+      materialId: item.id,
+      category: item.category,
+      typeName: item.typeName,
+      spec: item.spec,
+      grossArea: 0,
+      deductedArea: 0,
+      netArea: 0,
+      openingCount: 0,
+      deductedCount: 0,
+      hosts: deductions,
+    };
+    for (const host of deductions) {
+      group.grossArea += host.grossArea;
+      group.deductedArea += host.deductedArea;
+      group.netArea += host.netArea;
+      group.openingCount += host.openings.length;
+      group.deductedCount += host.openings.filter(opening => opening.deducted).length;
+      result.unknownSizeCount += host.openings.filter(opening => opening.skipReason === "unknownSize").length;
+    }
+    result.groups.push(group);
+    result.grossArea += group.grossArea;
+    result.deductedArea += group.deductedArea;
+    result.netArea += group.netArea;
+  }
+
+  return result;
+}
+
+// ============================================
+// 설정 저장
+// ============================================
+
+// 브라우저에 저장된 공제 규칙 (없거나 읽을 수 없으면 기본값)
+export function loadStoredDeductionSettings(): OpeningDeductionSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_OPENING_DEDUCTION;
+    const raw = JSON.parse(stored) as Partial<OpeningDeductionSettings>;
+    return {
+      minArea: typeof raw.minArea === "number" && raw.minArea >= 0 ? raw.minArea : DEFAULT_OPENING_DEDUCTION.minArea,
+      deductWalls: raw.deductWalls ?? DEFAULT_OPENING_DEDUCTION.deductWalls,
+      deductSlabs: raw.deductSlabs ?? DEFAULT_OPENING_DEDUCTION.deductSlabs,
+      deductEmpty: raw.deductEmpty ?? DEFAULT_OPENING_DEDUCTION.deductEmpty,
+    };
+  } catch (e) {
+    console.warn("개구부 공제 규칙 읽기 실패:", e);
+    return DEFAULT_OPENING_DEDUCTION;
+  }
+}
+
+export function storeDeductionSettings(settings: OpeningDeductionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
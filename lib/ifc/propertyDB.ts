@@ -1,30 +1,59 @@
 /**
  * IndexedDB를 사용한 IFC 속성 데이터 저장/조회
  * 메모리 절약을 위해 상세 속성은 DB에 저장하고 필요시 조회
+ * 모델별 DB 이름은 파일 내용 해시(modelId)를 사용하므로 같은 파일을 다시 열면 그대로 재사용
  */
 
+import { IFCProperty, IFCPropertySection } from "@/types/ifc";
+
 const DB_NAME = "ifc-properties-db";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "properties";
+const META_STORE_NAME = "meta";
+const STATUS_KEY = "status";
+
+// 레코드 형식 버전 (섹션 구성이 바뀌면 올림 - 원본 파일이 있으면 이전 버전 DB를 다시 저장)
+// 2: 분류(IfcClassificationReference) 섹션 추가
+// 3: Qto 값을 모델 단위에서 m / m² / m³로 환산
+export const PROPERTY_RECORD_VERSION = 3;
 
 export interface IFCPropertyData {
   expressID: number;
+  typeCode?: number;
   name?: string;
   description?: string;
   objectType?: string;
   globalId?: string;
-  properties: Record<string, any>;
+  properties: Record<string, IFCProperty["value"]>; // "Pset_WallCommon.IsExternal" → 값
+  sections?: IFCPropertySection[]; // 속성 패널 표시용
   relationships: {
     containedIn?: number;
     contains?: number[];
   };
 }
 
-class PropertyDB {
+// 저장 완료 상태 (중간에 중단된 DB는 재사용하지 않음)
+export interface PropertyDBStatus {
+  complete: boolean;
+  count: number;
+  updatedAt: number;
+  version?: number; // PROPERTY_RECORD_VERSION (없으면 1)
+}
+
+// 열려 있는 DB 인스턴스 (통합 모델은 모델마다 인스턴스를 따로 사용)
+const openInstances = new Set<PropertyDB>();
+
+export class PropertyDB {
   private db: IDBDatabase | null = null;
   private modelId: string = "";
 
+  get currentModelId(): string {
+    return this.modelId;
+  }
+
   async init(modelId: string): Promise<void> {
+    if (this.db && this.modelId === modelId) return;
+    this.close();
     this.modelId = modelId;
     
     return new Promise((resolve, reject) => {
@@ -34,6 +63,7 @@ class PropertyDB {
       
       request.onsuccess = () => {
         this.db = request.result;
+        openInstances.add(this);
         resolve();
       };
       
@@ -45,10 +75,37 @@ class PropertyDB {
           store.createIndex("objectType", "objectType", { unique: false });
           store.createIndex("containedIn", "relationships.containedIn", { unique: false });
         }
+        if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+          db.createObjectStore(META_STORE_NAME);
+        }
       };
     });
   }
 
+  async getStatus(): Promise<PropertyDBStatus | null> {
+    if (!this.db) return null;
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([META_STORE_NAME], "readonly");
+      const request = transaction.objectStore(META_STORE_NAME).get(STATUS_KEY);
+      
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async setStatus(status: PropertyDBStatus): Promise<void> {
+    if (!this.db) throw new Error("DB not initialized");
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([META_STORE_NAME], "readwrite");
+      transaction.objectStore(META_STORE_NAME).put(status, STATUS_KEY);
+      
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async storeProperties(properties: IFCPropertyData[]): Promise<void> {
     if (!this.db) throw new Error("DB not initialized");
     
@@ -85,6 +142,26 @@ class PropertyDB {
     });
   }
 
+  async getProperties(expressIDs: number[]): Promise<IFCPropertyData[]> {
+    if (!this.db || expressIDs.length === 0) return [];
+    
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORE_NAME], "readonly");
+      const store = transaction.objectStore(STORE_NAME);
+      const results: IFCPropertyData[] = [];
+      
+      for (const expressID of expressIDs) {
+        const request = store.get(expressID);
+        request.onsuccess = () => {
+          if (request.result) results.push(request.result);
+        };
+      }
+      
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getPropertiesByType(objectType: string): Promise<IFCPropertyData[]> {
     if (!this.db) return [];
     
@@ -117,12 +194,12 @@ class PropertyDB {
     if (!this.db) return;
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.clear();
+      const transaction = this.db!.transaction([STORE_NAME, META_STORE_NAME], "readwrite");
+      transaction.objectStore(STORE_NAME).clear();
+      transaction.objectStore(META_STORE_NAME).clear();
       
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -131,18 +208,28 @@ class PropertyDB {
       this.db.close();
       this.db = null;
     }
+    openInstances.delete(this);
   }
 
   async deleteDatabase(): Promise<void> {
     this.close();
-    
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.deleteDatabase(`${DB_NAME}-${this.modelId}`);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return deletePropertyDatabase(this.modelId);
   }
 }
 
 // 싱글톤 인스턴스
 export const propertyDB = new PropertyDB();
+
+// 모델별 속성 DB 삭제 (모델 캐시 삭제 시 함께 정리)
+export function deletePropertyDatabase(modelId: string): Promise<void> {
+  openInstances.forEach(instance => {
+    if (instance.currentModelId === modelId) instance.close();
+  });
+  
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(`${DB_NAME}-${modelId}`);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve(); // 다른 탭에서 열려 있으면 닫힐 때 삭제됨
+  });
+}
@@ -0,0 +1,578 @@
+/**
+ * IFC 속성 추출기
+ * IfcPropertySet / IfcElementQuantity / 타입 객체(IfcRelDefinesByType) / 재료(IfcRelAssociatesMaterial) /
+ * 분류(IfcRelAssociatesClassification)를
+ * 요소별로 찾아 속성 패널에 표시할 수 있는 섹션 단위로 변환
+ */
+
+import { ElementMaterialLayer, IFCProperty, IFCPropertySection, IFC_SPATIAL_TYPES } from "@/types/ifc";
+import type { IFCPropertyData } from "./propertyDB";
+import { getQuantityUnitScales, QuantityUnitScales } from "./units";
+
+// web-ifc IfcAPI 중 속성 추출에 필요한 부분만 (훅별 로컬 IfcAPI 타입과 호환)
+export interface IfcPropertyApi {
+  GetLine(modelID: number, expressID: number, flatten?: boolean): unknown;
+  GetLineIDsWithType(modelID: number, type: number): { size(): number; get(index: number): number };
+}
+
+// web-ifc가 반환하는 라인/값 객체 (속성 이름은 IFC 스키마를 따름)
+interface IfcLine {
+  expressID?: number;
+  type?: number;
+  name?: string;
+  value?: unknown;
+  [attr: string]: unknown;
+}
+
+// 요소 → 관계 대상 인덱스 (모델 로드 시 한 번 구축)
+export interface PropertyIndex {
+  propertyDefinitions: Map<number, number[]>; // 요소 → IfcPropertySet / IfcElementQuantity
+  typeObjects: Map<number, number>;           // 요소 → IfcTypeObject
+  materials: Map<number, number[]>;           // 요소(또는 타입) → 재료 정의
+  classifications: Map<number, number[]>;     // 요소(또는 타입) → IfcClassificationReference
+  unitScales: QuantityUnitScales;             // Qto 값 → m / m² / m³ 배율 (IfcUnitAssignment)
+}
+
+// 여러 요소가 공유하는 Pset/재료 변환 결과 캐시 (전체 요소를 한 번에 추출할 때 사용)
+export type SectionCache = Map<string, IFCPropertySection | null>;
+
+// 수량 타입별 값 속성 이름과 단위 (scale: 모델 단위 → 표시 단위 환산, 없으면 그대로)
+const QUANTITY_FIELDS: Record<number, { field: string; unit: string; scale?: keyof QuantityUnitScales }> = {
+  [IFC_SPATIAL_TYPES.IFCQUANTITYLENGTH]: { field: "LengthValue", unit: "m", scale: "length" },
+  [IFC_SPATIAL_TYPES.IFCQUANTITYAREA]: { field: "AreaValue", unit: "m²", scale: "area" },
+  [IFC_SPATIAL_TYPES.IFCQUANTITYVOLUME]: { field: "VolumeValue", unit: "m³", scale: "volume" },
+  [IFC_SPATIAL_TYPES.IFCQUANTITYCOUNT]: { field: "CountValue", unit: "개" },
+  [IFC_SPATIAL_TYPES.IFCQUANTITYWEIGHT]: { field: "WeightValue", unit: "kg" },
+  [IFC_SPATIAL_TYPES.IFCQUANTITYTIME]: { field: "TimeValue", unit: "s" },
+};
+
+// 기본 정보 섹션에 표시할 요소 속성
+const ELEMENT_ATTRIBUTES: [string, string][] = [
+  ["GlobalId", "GlobalId"],
+  ["Name", "이름"],
+  ["Description", "설명"],
+  ["ObjectType", "객체 타입"],
+  ["Tag", "태그"],
+  ["PredefinedType", "사전정의 타입"],
+];
+
+const asLine = (v: unknown): IfcLine | null =>
+  v !== null && typeof v === "object" ? (v as IfcLine) : null;
+
+const asList = (v: unknown): IfcLine[] => {
+  if (Array.isArray(v)) return v.map(asLine).filter((l): l is IfcLine => l !== null);
+  const line = asLine(v);
+  return line ? [line] : [];
+};
+
+// 참조(Handle) 또는 평탄화된 라인에서 expressID 추출
+const refId = (v: unknown): number | null => {
+  const line = asLine(v);
+  if (!line) return null;
+  if (typeof line.expressID === "number") return line.expressID;
+  return typeof line.value === "number" ? line.value : null;
+};
+
+const getLine = (api: IfcPropertyApi, modelID: number, expressID: number, flatten = false): IfcLine | null => {
+  try {
+    return asLine(api.GetLine(modelID, expressID, flatten));
+  } catch {
+    return null;
+  }
+};
+
+const text = (v: unknown): string | undefined => {
+  const line = asLine(v);
+  const raw = line ? line.value : v;
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  return String(raw);
+};
+
+// IFCLENGTHMEASURE → IfcLengthMeasure
+const formatTypeName = (name?: string): string | undefined => {
+  if (!name) return undefined;
+  const lower = name.toLowerCase();
+  return lower.startsWith("ifc") ? `Ifc${lower.charAt(3).toUpperCase()}${lower.slice(4)}` : name;
+};
+
+/**
+ * web-ifc 값 객체를 표시용 값으로 변환 (IfcBoolean/IfcLogical의 T/F/U 포함)
+ */
+export function toPropertyValue(v: unknown): IFCProperty["value"] {
+  const line = asLine(v);
+  const raw = line ? line.value : v;
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === "boolean" || typeof raw === "number") return raw;
+
+  const str = String(raw);
+  const valueName = line?.name?.toUpperCase();
+  if (valueName === "IFCBOOLEAN" || valueName === "IFCLOGICAL" || str === ".T." || str === ".F.") {
+    const flag = str.replace(/\./g, "").toUpperCase();
+    if (flag === "T" || flag === "TRUE") return true;
+    if (flag === "F" || flag === "FALSE") return false;
+    if (flag === "U" || flag === "UNKNOWN") return null;
+  }
+  return str;
+}
+
+const addToIndex = (map: Map<number, number[]>, key: number, value: number) => {
+  const existing = map.get(key);
+  if (existing) existing.push(value);
+  else map.set(key, [value]);
+};
+
+/**
+ * 속성/타입/재료 관계를 한 번 스캔하여 요소별 인덱스 구축
+ * 요소마다 관계 전체를 다시 스캔하지 않도록 모델 로드 시 호출
+ */
+export function buildPropertyIndex(api: IfcPropertyApi, modelID: number): PropertyIndex {
+  const index: PropertyIndex = {
+    propertyDefinitions: new Map(),
+    typeObjects: new Map(),
+    materials: new Map(),
+    classifications: new Map(),
+    unitScales: getQuantityUnitScales(api, modelID),
+  };
+
+  const scan = (relType: number, relatingAttr: string, apply: (objectId: number, relatingId: number) => void) => {
+    let ids;
+    try {
+      ids = api.GetLineIDsWithType(modelID, relType);
+    } catch {
+      return;
+    }
+    for (let i = 0; i < ids.size(); i++) {
+      const rel = getLine(api, modelID, ids.get(i));
+      if (!rel) continue;
+      // IFC4에서는 RelatingPropertyDefinition이 집합일 수 있음
+      const relatingIds = asList(rel[relatingAttr]).map(refId).filter((id): id is number => id !== null);
+      if (relatingIds.length === 0) continue;
+      for (const obj of asList(rel.RelatedObjects)) {
+        const objectId = refId(obj);
+        if (objectId === null) continue;
+        for (const relatingId of relatingIds) apply(objectId, relatingId);
+      }
+    }
+  };
+
+  scan(IFC_SPATIAL_TYPES.IFCRELDEFINESBYPROPERTIES, "RelatingPropertyDefinition", (objectId, defId) =>
+    addToIndex(index.propertyDefinitions, objectId, defId)
+  );
+  scan(IFC_SPATIAL_TYPES.IFCRELDEFINESBYTYPE, "RelatingType", (objectId, typeId) =>
+    index.typeObjects.set(objectId, typeId)
+  );
+  scan(IFC_SPATIAL_TYPES.IFCRELASSOCIATESMATERIAL, "RelatingMaterial", (objectId, materialId) =>
+    addToIndex(index.materials, objectId, materialId)
+  );
+  scan(IFC_SPATIAL_TYPES.IFCRELASSOCIATESCLASSIFICATION, "RelatingClassification", (objectId, referenceId) =>
+    addToIndex(index.classifications, objectId, referenceId)
+  );
+
+  return index;
+}
+
+// IfcProperty 하나를 표시용 속성으로 변환 (수량은 m / m² / m³로 환산)
+const convertProperty = (prop: IfcLine, scales: QuantityUnitScales): IFCProperty | null => {
+  const name = text(prop.Name);
+  if (!name) return null;
+
+  switch (prop.type) {
+    case IFC_SPATIAL_TYPES.IFCPROPERTYSINGLEVALUE: {
+      const nominal = asLine(prop.NominalValue);
+      return {
+        name,
+        value: toPropertyValue(prop.NominalValue),
+        type: formatTypeName(nominal?.name),
+        unit: text(asLine(prop.Unit)?.Name),
+      };
+    }
+    case IFC_SPATIAL_TYPES.IFCPROPERTYENUMERATEDVALUE:
+      return { name, value: asList(prop.EnumerationValues).map(v => String(toPropertyValue(v))).join(", ") || null };
+    case IFC_SPATIAL_TYPES.IFCPROPERTYLISTVALUE:
+      return { name, value: asList(prop.ListValues).map(v => String(toPropertyValue(v))).join(", ") || null };
+    case IFC_SPATIAL_TYPES.IFCPROPERTYBOUNDEDVALUE: {
+      const lower = toPropertyValue(prop.LowerBoundValue);
+      const upper = toPropertyValue(prop.UpperBoundValue);
+      return { name, value: `${lower ?? ""} ~ ${upper ?? ""}` };
+    }
+    default: {
+      const quantity = prop.type !== undefined ? QUANTITY_FIELDS[prop.type] : undefined;
+      if (quantity) {
+        const value = toPropertyValue(prop[quantity.field]);
+        if (typeof value !== "number") return { name, value, unit: quantity.unit };
+        const scaled = quantity.scale ? value * scales[quantity.scale] : value;
+        return { name, value: Math.round(scaled * 1000) / 1000, unit: quantity.unit };
+      }
+      return null;
+    }
+  }
+};
+
+// IfcPropertySet / IfcElementQuantity → 섹션
+const convertPropertyDefinition = (
+  api: IfcPropertyApi,
+  modelID: number,
+  definitionId: number,
+  source: IFCPropertySection["source"],
+  scales: QuantityUnitScales,
+  cache?: SectionCache
+): IFCPropertySection | null => {
+  const cacheKey = `${source}_${definitionId}`;
+  if (cache?.has(cacheKey)) return cache.get(cacheKey)!;
+  const section = resolvePropertyDefinition(api, modelID, definitionId, source, scales);
+  cache?.set(cacheKey, section);
+  return section;
+};
+
+const resolvePropertyDefinition = (
+  api: IfcPropertyApi,
+  modelID: number,
+  definitionId: number,
+  source: IFCPropertySection["source"],
+  scales: QuantityUnitScales
+): IFCPropertySection | null => {
+  const def = getLine(api, modelID, definitionId, true);
+  if (!def) return null;
+
+  const isQuantity = def.type === IFC_SPATIAL_TYPES.IFCELEMENTQUANTITY;
+  if (!isQuantity && def.type !== IFC_SPATIAL_TYPES.IFCPROPERTYSET) return null;
+
+  const items = asList(isQuantity ? def.Quantities : def.HasProperties);
+  const properties = items.map(item => convertProperty(item, scales)).filter((p): p is IFCProperty => p !== null);
+
+  return {
+    id: `${source}_${definitionId}`,
+    title: text(def.Name) || `#${definitionId}`,
+    kind: isQuantity ? "qto" : "pset",
+    source,
+    properties,
+  };
+};
+
+// 재료 정의 → 속성 목록 (레이어는 두께와 함께)
+const convertMaterial = (material: IfcLine): IFCProperty[] => {
+  switch (material.type) {
+    case IFC_SPATIAL_TYPES.IFCMATERIAL:
+      return [{ name: "재료", value: text(material.Name) ?? null }];
+    case IFC_SPATIAL_TYPES.IFCMATERIALLIST:
+      return asList(material.Materials).map((m, i) => ({ name: `재료 ${i + 1}`, value: text(m.Name) ?? null }));
+    case IFC_SPATIAL_TYPES.IFCMATERIALLAYERSETUSAGE:
+      return convertMaterial(asLine(material.ForLayerSet) || {});
+    case IFC_SPATIAL_TYPES.IFCMATERIALLAYERSET:
+      return asList(material.MaterialLayers).map((layer, i) => {
+        const thickness = toPropertyValue(layer.LayerThickness);
+        return {
+          name: `레이어 ${i + 1}${typeof thickness === "number" ? ` (${Math.round(thickness * 1000) / 1000})` : ""}`,
+          value: text(asLine(layer.Material)?.Name) ?? text(layer.Name) ?? null,
+        };
+      });
+    case IFC_SPATIAL_TYPES.IFCMATERIALPROFILESETUSAGE:
+      return convertMaterial(asLine(material.ForProfileSet) || {});
+    case IFC_SPATIAL_TYPES.IFCMATERIALPROFILESET:
+      return asList(material.MaterialProfiles).map((profile, i) => ({
+        name: text(profile.Name) || `프로파일 ${i + 1}`,
+        value: text(asLine(profile.Material)?.Name) ?? null,
+      }));
+    case IFC_SPATIAL_TYPES.IFCMATERIALCONSTITUENTSET:
+      return asList(material.MaterialConstituents).map((constituent, i) => ({
+        name: text(constituent.Name) || `구성 ${i + 1}`,
+        value: text(asLine(constituent.Material)?.Name) ?? null,
+      }));
+    default:
+      return [];
+  }
+};
+
+const convertMaterials = (
+  api: IfcPropertyApi,
+  modelID: number,
+  materialIds: number[],
+  source: IFCPropertySection["source"],
+  cache?: SectionCache
+): IFCPropertySection[] => {
+  const sections: IFCPropertySection[] = [];
+  for (const materialId of materialIds) {
+    const cacheKey = `material_${source}_${materialId}`;
+    if (cache?.has(cacheKey)) {
+      const cached = cache.get(cacheKey);
+      if (cached) sections.push(cached);
+      continue;
+    }
+    const material = getLine(api, modelID, materialId, true);
+    const properties = material ? convertMaterial(material) : [];
+    if (!material || properties.length === 0) {
+      cache?.set(cacheKey, null);
+      continue;
+    }
+    const section: IFCPropertySection = {
+      id: cacheKey,
+      title: text(material.Name)
+        || text(material.LayerSetName)
+        || text(asLine(material.ForLayerSet)?.LayerSetName)
+        || text(asLine(material.ForProfileSet)?.Name)
+        || "재료",
+      kind: "material",
+      source,
+      properties,
+    };
+    cache?.set(cacheKey, section);
+    sections.push(section);
+  }
+  return sections;
+};
+
+// 재료 정의 → 재료 구성 목록 (레이어 두께는 lengthScale로 m 환산)
+const resolveMaterialLayers = (material: IfcLine, lengthScale: number): ElementMaterialLayer[] => {
+  const materialName = (m: IfcLine | null, fallback?: unknown) => text(m?.Name) ?? text(fallback) ?? "이름 없는 재료";
+  const number = (v: unknown) => {
+    const value = toPropertyValue(v);
+    return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+  };
+
+  switch (material.type) {
+    case IFC_SPATIAL_TYPES.IFCMATERIAL:
+      return [{ material: materialName(material), kind: "material", category: text(material.Category) }];
+    case IFC_SPATIAL_TYPES.IFCMATERIALLIST:
+      return asList(material.Materials).map(m => ({ material: materialName(m), kind: "list", category: text(m.Category) }));
+    case IFC_SPATIAL_TYPES.IFCMATERIALLAYERSETUSAGE:
+      return resolveMaterialLayers(asLine(material.ForLayerSet) || {}, lengthScale);
+    case IFC_SPATIAL_TYPES.IFCMATERIALLAYERSET:
+      return asList(material.MaterialLayers).map(layer => {
+        const thickness = number(layer.LayerThickness);
+        return {
+          material: materialName(asLine(layer.Material), layer.Name),
+          kind: "layer",
+          setName: text(material.LayerSetName),
+          category: text(layer.Category) ?? text(asLine(layer.Material)?.Category),
+          thickness: thickness !== undefined ? thickness * lengthScale : undefined,
+        };
+      });
+    case IFC_SPATIAL_TYPES.IFCMATERIALPROFILESETUSAGE:
+      return resolveMaterialLayers(asLine(material.ForProfileSet) || {}, lengthScale);
+    case IFC_SPATIAL_TYPES.IFCMATERIALPROFILESET:
+      return asList(material.MaterialProfiles).map(profile => ({
+        material: materialName(asLine(profile.Material), profile.Name),
+        kind: "profile",
+        setName: text(material.Name),
+        category: text(profile.Category) ?? text(asLine(profile.Material)?.Category),
+      }));
+    case IFC_SPATIAL_TYPES.IFCMATERIALCONSTITUENTSET:
+      return asList(material.MaterialConstituents).map(constituent => ({
+        material: materialName(asLine(constituent.Material), constituent.Name),
+        kind: "constituent",
+        setName: text(material.Name),
+        category: text(constituent.Category) ?? text(asLine(constituent.Material)?.Category),
+        fraction: number(constituent.Fraction),
+      }));
+    default:
+      return [];
+  }
+};
+
+/**
+ * 요소의 재료 구성 (인스턴스에 재료가 없으면 타입의 재료)
+ * 레이어 세트 사용(IfcMaterialLayerSetUsage)·프로파일 세트·구성 세트를 재료 하나씩으로 풀어 수량 산출에 사용
+ */
+export function getElementMaterialLayers(
+  api: IfcPropertyApi,
+  modelID: number,
+  index: PropertyIndex,
+  expressID: number,
+  lengthScale: number,
+  cache?: Map<number, ElementMaterialLayer[]>
+): ElementMaterialLayer[] {
+  let materialIds = index.materials.get(expressID) || [];
+  if (materialIds.length === 0) {
+    const typeId = index.typeObjects.get(expressID);
+    materialIds = typeId !== undefined ? index.materials.get(typeId) || [] : [];
+  }
+
+  // 같은 재료 정의를 쓰는 요소는 같은 배열을 공유 (메모리·캐시 크기)
+  const resolved = materialIds.map(materialId => {
+    let layers = cache?.get(materialId);
+    if (!layers) {
+      const material = getLine(api, modelID, materialId, true);
+      layers = material ? resolveMaterialLayers(material, lengthScale) : [];
+      cache?.set(materialId, layers);
+    }
+    return layers;
+  });
+  return resolved.length === 1 ? resolved[0] : resolved.flat();
+}
+
+// 분류 참조 하나 → 속성 (이름: 분류 체계, 값: 분류 코드)
+// IFC4는 Identification, IFC2x3는 ItemReference
+const convertClassification = (
+  api: IfcPropertyApi,
+  modelID: number,
+  referenceId: number,
+  cache?: SectionCache
+): IFCProperty | null => {
+  const cacheKey = `classification_${referenceId}`;
+  if (cache?.has(cacheKey)) return cache.get(cacheKey)?.properties[0] ?? null;
+
+  const reference = getLine(api, modelID, referenceId, true);
+  let property: IFCProperty | null = null;
+  if (reference?.type === IFC_SPATIAL_TYPES.IFCCLASSIFICATIONREFERENCE) {
+    const system = asLine(reference.ReferencedSource);
+    const value = text(reference.Identification) ?? text(reference.ItemReference) ?? text(reference.Name);
+    property = { name: text(system?.Name) ?? text(system?.Source) ?? "분류", value: value ?? null };
+  } else if (reference?.type === IFC_SPATIAL_TYPES.IFCCLASSIFICATION) {
+    property = { name: text(reference.Name) ?? "분류", value: null };
+  }
+
+  cache?.set(cacheKey, property && { id: cacheKey, title: "분류", kind: "classification", properties: [property] });
+  return property;
+};
+
+const convertClassifications = (
+  api: IfcPropertyApi,
+  modelID: number,
+  referenceIds: number[],
+  source: IFCPropertySection["source"],
+  ownerId: number,
+  cache?: SectionCache
+): IFCPropertySection | null => {
+  const properties = referenceIds
+    .map(id => convertClassification(api, modelID, id, cache))
+    .filter((p): p is IFCProperty => p !== null);
+  return properties.length > 0
+    ? { id: `classification_${source}_${ownerId}`, title: "분류", kind: "classification", source, properties }
+    : null;
+};
+
+/**
+ * 기본 정보 섹션 → IFC 속성 이름별 값 (GlobalId, Name, Tag 등 - IDS 속성 검사용)
+ */
+export function getElementAttributes(sections: IFCPropertySection[]): Record<string, string> {
+  const attributeByLabel = new Map(ELEMENT_ATTRIBUTES.map(([attr, label]) => [label, attr]));
+  const attributes: Record<string, string> = {};
+  for (const prop of sections.find(s => s.kind === "attributes")?.properties ?? []) {
+    const attr = attributeByLabel.get(prop.name);
+    if (attr && prop.value !== null) attributes[attr] = String(prop.value);
+  }
+  return attributes;
+}
+
+/**
+ * 요소 하나의 속성을 섹션별로 추출
+ * 순서: 기본 정보 → 인스턴스 Pset/Qto → 타입 정보/타입 Pset → 재료 → 분류
+ */
+export function getElementPropertySections(
+  api: IfcPropertyApi,
+  modelID: number,
+  index: PropertyIndex,
+  expressID: number,
+  cache?: SectionCache
+): IFCPropertySection[] {
+  const element = getLine(api, modelID, expressID);
+  if (!element) return [];
+
+  const sections: IFCPropertySection[] = [];
+
+  // 1. 기본 정보
+  const attributes: IFCProperty[] = [];
+  for (const [attr, label] of ELEMENT_ATTRIBUTES) {
+    const value = text(element[attr]);
+    if (value !== undefined) attributes.push({ name: label, value });
+  }
+  attributes.push({ name: "expressID", value: expressID });
+  sections.push({ id: `attributes_${expressID}`, title: "기본 정보", kind: "attributes", source: "instance", properties: attributes });
+
+  // 2. 인스턴스 속성/수량
+  const instanceDefs = (index.propertyDefinitions.get(expressID) || [])
+    .map(id => convertPropertyDefinition(api, modelID, id, "instance", index.unitScales, cache))
+    .filter((s): s is IFCPropertySection => s !== null);
+  sections.push(...instanceDefs.filter(s => s.kind === "pset"), ...instanceDefs.filter(s => s.kind === "qto"));
+
+  // 3. 타입 객체 (IfcWallType 등) - 인스턴스와 같은 이름의 Pset은 인스턴스 값이 우선
+  const typeId = index.typeObjects.get(expressID);
+  const typeLine = typeId !== undefined ? getLine(api, modelID, typeId) : null;
+  if (typeId !== undefined && typeLine) {
+    const typeAttributes: IFCProperty[] = [{ name: "타입 이름", value: text(typeLine.Name) ?? `#${typeId}` }];
+    const elementType = text(typeLine.ElementType);
+    if (elementType) typeAttributes.push({ name: "요소 타입", value: elementType });
+    const predefined = text(typeLine.PredefinedType);
+    if (predefined) typeAttributes.push({ name: "사전정의 타입", value: predefined });
+    sections.push({ id: `type_${typeId}`, title: "타입 정보", kind: "type", source: "type", properties: typeAttributes });
+
+    const instanceProps = new Map(instanceDefs.map(s => [s.title, new Set(s.properties.map(p => p.name))]));
+    for (const ref of asList(typeLine.HasPropertySets)) {
+      const defId = refId(ref);
+      if (defId === null) continue;
+      const section = convertPropertyDefinition(api, modelID, defId, "type", index.unitScales, cache);
+      if (!section) continue;
+      const overridden = instanceProps.get(section.title);
+      const properties = overridden ? section.properties.filter(p => !overridden.has(p.name)) : section.properties;
+      if (properties.length > 0) sections.push({ ...section, properties });
+    }
+  }
+
+  // 4. 재료 (인스턴스에 없으면 타입의 재료 사용)
+  const instanceMaterials = index.materials.get(expressID) || [];
+  if (instanceMaterials.length > 0) {
+    sections.push(...convertMaterials(api, modelID, instanceMaterials, "instance", cache));
+  } else if (typeId !== undefined) {
+    sections.push(...convertMaterials(api, modelID, index.materials.get(typeId) || [], "type", cache));
+  }
+
+  // 5. 분류 (인스턴스 + 타입)
+  const instanceClassification = convertClassifications(api, modelID, index.classifications.get(expressID) || [], "instance", expressID, cache);
+  if (instanceClassification) sections.push(instanceClassification);
+  if (typeId !== undefined) {
+    const typeClassification = convertClassifications(api, modelID, index.classifications.get(typeId) || [], "type", typeId, cache);
+    if (typeClassification) sections.push(typeClassification);
+  }
+
+  return sections;
+}
+
+// 요소에 직접 연결된 IfcElementQuantity 섹션만 (수량 산출용)
+export function getElementQuantitySections(
+  api: IfcPropertyApi,
+  modelID: number,
+  index: PropertyIndex,
+  expressID: number,
+  cache?: SectionCache
+): IFCPropertySection[] {
+  return (index.propertyDefinitions.get(expressID) || [])
+    .map(id => convertPropertyDefinition(api, modelID, id, "instance", index.unitScales, cache))
+    .filter((s): s is IFCPropertySection => s !== null && s.kind === "qto");
+}
+
+/**
+ * 속성 DB 저장용 레코드 생성
+ * properties에는 "Pset이름.속성이름" 키로 값을 평탄화하여 저장 (조건 검색용)
+ */
+export function buildPropertyRecord(
+  api: IfcPropertyApi,
+  modelID: number,
+  index: PropertyIndex,
+  expressID: number,
+  relationships: IFCPropertyData["relationships"],
+  cache?: SectionCache
+): IFCPropertyData | null {
+  const element = getLine(api, modelID, expressID);
+  if (!element) return null;
+
+  const sections = getElementPropertySections(api, modelID, index, expressID, cache);
+  const properties: IFCPropertyData["properties"] = {};
+  for (const section of sections) {
+    if (section.kind !== "pset" && section.kind !== "qto") continue;
+    for (const prop of section.properties) {
+      properties[`${section.title}.${prop.name}`] = prop.value;
+    }
+  }
+
+  return {
+    expressID,
+    typeCode: element.type,
+    name: text(element.Name) ?? text(element.LongName),
+    description: text(element.Description),
+    objectType: text(element.ObjectType),
+    globalId: text(element.GlobalId),
+    properties,
+    sections,
+    relationships,
+  };
+}
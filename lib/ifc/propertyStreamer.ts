@@ -0,0 +1,74 @@
+/**
+ * 로드 중 요소 속성을 PropertyDB(IndexedDB)에 배치 단위로 저장
+ * 메인 스레드(useIFCLoader)와 Web Worker(ifc.worker.ts)에서 공통으로 사용
+ */
+
+import { IFCSpatialNode } from "@/types/ifc";
+import { collectContainment } from "./modelExtractor";
+import { IFCPropertyData, PropertyDB, propertyDB, PROPERTY_RECORD_VERSION } from "./propertyDB";
+import { buildPropertyIndex, buildPropertyRecord, IfcPropertyApi, SectionCache } from "./propertyExtractor";
+
+export interface PropertyStreamOptions {
+  batchSize?: number;
+  onProgress?: (stored: number, total: number) => void;
+  db?: PropertyDB; // 저장할 DB (기본: 싱글톤, 통합 모델은 모델별 인스턴스)
+}
+
+export interface PropertyStreamResult {
+  count: number;
+  reused: boolean; // 이전에 저장된 DB를 그대로 사용했는지
+}
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// 배치 사이에 이벤트 루프 양보 (UI 진행률 갱신용)
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * 요소 + 공간 노드의 속성을 PropertyDB에 저장
+ * 같은 modelId·레코드 버전으로 저장이 완료된 DB가 있으면 관계 인덱스 구축과 추출을 모두 건너뛰고 재사용
+ */
+export async function streamPropertiesToDB(
+  api: IfcPropertyApi,
+  modelID: number,
+  modelId: string,
+  elementIds: number[],
+  spatialTree: IFCSpatialNode | null,
+  options: PropertyStreamOptions = {}
+): Promise<PropertyStreamResult> {
+  const { batchSize = DEFAULT_BATCH_SIZE, onProgress, db = propertyDB } = options;
+
+  await db.init(modelId);
+  const status = await db.getStatus();
+  if (status?.complete && status.version === PROPERTY_RECORD_VERSION) {
+    onProgress?.(status.count, status.count);
+    return { count: status.count, reused: true };
+  }
+
+  await db.clear();
+
+  const index = buildPropertyIndex(api, modelID);
+  const { containedIn, contains } = collectContainment(spatialTree);
+  const ids = Array.from(new Set([...contains.keys(), ...elementIds]));
+  const cache: SectionCache = new Map();
+  let stored = 0;
+
+  for (let start = 0; start < ids.length; start += batchSize) {
+    const batch: IFCPropertyData[] = [];
+    for (const expressID of ids.slice(start, start + batchSize)) {
+      const record = buildPropertyRecord(api, modelID, index, expressID, {
+        containedIn: containedIn.get(expressID),
+        contains: contains.get(expressID),
+      }, cache);
+      if (record) batch.push(record);
+    }
+
+    await db.storeProperties(batch);
+    stored += batch.length;
+    onProgress?.(Math.min(start + batchSize, ids.length), ids.length);
+    await yieldToEventLoop();
+  }
+
+  await db.setStatus({ complete: true, count: stored, updatedAt: Date.now(), version: PROPERTY_RECORD_VERSION });
+  return { count: stored, reused: false };
+}
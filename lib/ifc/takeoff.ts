@@ -0,0 +1,256 @@
+/**
+ * 수량 산출 (Quantity Takeoff)
+ * IfcElementQuantity 값이 있으면 우선 사용하고, 없으면 삼각형 메시에서 직접 계산
+ *
+ * 메시 기반 계산 방식
+ * - 면적: 법선 방향(부호 무시)별로 삼각형 면적을 모아 주요 면 그룹(가장 큰 그룹의 절반 이상)의 합 / 2
+ *   → 벽은 한쪽 측면, 슬라브/지붕은 상면 (경사·L자 형상 포함, 개구부는 메시에서 이미 빠져 있음)
+ *   곡면 벽처럼 법선이 연속적으로 바뀌는 요소는 오차가 크므로 Qto 값 사용 권장
+ * - 체적: 닫힌 메시(면적 벡터 합이 0)에 대해 부호 있는 사면체 체적 합, 열린 메시는 계산하지 않음
+ * - 길이: 정점 분포의 주축(PCA) 방향 최대 길이
+ */
+
+import { ElementQuantities, IFCPropertySection, MaterialItem, QuantityTotals } from "@/types/ifc";
+
+export interface TakeoffGeometry {
+  positions: Float32Array;
+  indices: Uint32Array;
+  transformation: number[]; // 4x4 (column-major, Three.js Matrix4.fromArray 순서)
+}
+
+type QuantityKey = "area" | "volume" | "length";
+
+const NORMAL_PRECISION = 20;    // 법선 방향 양자화 (약 3°)
+const MAJOR_FACE_RATIO = 0.5;   // 주요 면 그룹 기준 (가장 큰 그룹 대비)
+const CLOSED_TOLERANCE = 1e-3;  // 닫힌 메시 판정 (면적 벡터 합 / 전체 면적)
+const PCA_SAMPLE_LIMIT = 2000;
+
+// Qto 수량 이름 우선순위 (순 수량 → 총 수량), 값은 속성 추출 시 모델 단위에서 m / m² / m³로 환산됨
+const QTO_NAMES: Record<QuantityKey, string[]> = {
+  area: ["NetSideArea", "NetArea", "NetSurfaceArea", "Area", "GrossSideArea", "GrossArea"],
+  volume: ["NetVolume", "Volume", "GrossVolume"],
+  length: ["Length", "NetLength", "GrossLength"],
+};
+
+// 집계 단위 → 사용할 수량
+const UNIT_QUANTITY: Record<string, QuantityKey> = {
+  "m²": "area",
+  "m³": "volume",
+  "m": "length",
+};
+
+// 법선을 부호 무관한 방향 키로 변환 (n과 -n은 같은 그룹)
+const normalKey = (nx: number, ny: number, nz: number): string => {
+  const flip = nx < -1e-6 || (Math.abs(nx) <= 1e-6 && (ny < -1e-6 || (Math.abs(ny) <= 1e-6 && nz < 0)));
+  const s = flip ? -NORMAL_PRECISION : NORMAL_PRECISION;
+  return `${Math.round(nx * s)}_${Math.round(ny * s)}_${Math.round(nz * s)}`;
+};
+
+// 3x3 공분산 행렬의 최대 고유벡터 (거듭제곱법)
+const principalAxis = (points: Float64Array[], total: number): [number, number, number] => {
+  const stride = Math.max(1, Math.floor(total / PCA_SAMPLE_LIMIT));
+  let mx = 0, my = 0, mz = 0, n = 0;
+  let index = 0;
+  for (const world of points) {
+    for (let i = 0; i < world.length; i += 3, index++) {
+      if (index % stride !== 0) continue;
+      mx += world[i]; my += world[i + 1]; mz += world[i + 2]; n++;
+    }
+  }
+  if (n === 0) return [1, 0, 0];
+  mx /= n; my /= n; mz /= n;
+
+  let xx = 0, xy = 0, xz = 0, yy = 0, yz = 0, zz = 0;
+  index = 0;
+  for (const world of points) {
+    for (let i = 0; i < world.length; i += 3, index++) {
+      if (index % stride !== 0) continue;
+      const dx = world[i] - mx, dy = world[i + 1] - my, dz = world[i + 2] - mz;
+      xx += dx * dx; xy += dx * dy; xz += dx * dz;
+      yy += dy * dy; yz += dy * dz; zz += dz * dz;
+    }
+  }
+
+  let v: [number, number, number] = [1, 0.7, 0.3];
+  for (let iter = 0; iter < 32; iter++) {
+    const next: [number, number, number] = [
+      xx * v[0] + xy * v[1] + xz * v[2],
+      xy * v[0] + yy * v[1] + yz * v[2],
+      xz * v[0] + yz * v[1] + zz * v[2],
+    ];
+    const len = Math.hypot(next[0], next[1], next[2]);
+    if (len < 1e-12) break;
+    v = [next[0] / len, next[1] / len, next[2] / len];
+  }
+  return v;
+};
+
+/**
+ * 삼각형 메시에서 면적/체적/길이 계산 (요소 하나의 모든 지오메트리)
+ */
+export function computeGeometryQuantities(geometries: TakeoffGeometry[]): Omit<ElementQuantities, "sources"> {
+  const faceGroups = new Map<string, number>();
+  const worldPoints: Float64Array[] = [];
+  let pointCount = 0;
+  let volume = 0;
+  let closed = geometries.length > 0;
+
+  for (const { positions, indices, transformation: m } of geometries) {
+    const vertexCount = positions.length / 3;
+    const world = new Float64Array(vertexCount * 3);
+    for (let i = 0; i < vertexCount; i++) {
+      const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+      world[i * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+      world[i * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+      world[i * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+    }
+    worldPoints.push(world);
+    pointCount += vertexCount;
+
+    let signedVolume = 0;
+    let areaSum = 0;
+    let ax = 0, ay = 0, az = 0; // 면적 벡터 합
+
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+      const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3;
+      const x0 = world[a], y0 = world[a + 1], z0 = world[a + 2];
+      const e1x = world[b] - x0, e1y = world[b + 1] - y0, e1z = world[b + 2] - z0;
+      const e2x = world[c] - x0, e2y = world[c + 1] - y0, e2z = world[c + 2] - z0;
+
+      const cx = e1y * e2z - e1z * e2y;
+      const cy = e1z * e2x - e1x * e2z;
+      const cz = e1x * e2y - e1y * e2x;
+      const len = Math.hypot(cx, cy, cz);
+      if (len < 1e-12) continue;
+
+      const area = len / 2;
+      areaSum += area;
+      ax += cx / 2; ay += cy / 2; az += cz / 2;
+
+      const key = normalKey(cx / len, cy / len, cz / len);
+      faceGroups.set(key, (faceGroups.get(key) || 0) + area);
+
+      // 원점 기준 사면체 체적 = a · (b × c) / 6 = a · (e1 × e2) / 6
+      signedVolume += (x0 * cx + y0 * cy + z0 * cz) / 6;
+    }
+
+    if (areaSum === 0 || Math.hypot(ax, ay, az) > CLOSED_TOLERANCE * areaSum) closed = false;
+    volume += Math.abs(signedVolume);
+  }
+
+  // 주요 면 그룹 면적 합 / 2
+  const groupAreas = Array.from(faceGroups.values());
+  const maxGroup = groupAreas.length > 0 ? Math.max(...groupAreas) : 0;
+  const majorArea = groupAreas.filter(a => a >= maxGroup * MAJOR_FACE_RATIO).reduce((sum, a) => sum + a, 0);
+
+  // 주축 방향 길이
+  let length = 0;
+  if (pointCount > 0) {
+    const [vx, vy, vz] = principalAxis(worldPoints, pointCount);
+    let min = Infinity, max = -Infinity;
+    for (const world of worldPoints) {
+      for (let i = 0; i < world.length; i += 3) {
+        const d = world[i] * vx + world[i + 1] * vy + world[i + 2] * vz;
+        if (d < min) min = d;
+        if (d > max) max = d;
+      }
+    }
+    length = max - min;
+  }
+
+  return {
+    area: majorArea > 0 ? majorArea / 2 : undefined,
+    volume: closed && volume > 0 ? volume : undefined,
+    length: length > 0 ? length : undefined,
+  };
+}
+
+// IfcElementQuantity 섹션에서 면적/체적/길이 값 추출 (섹션은 PropertyIndex 단위 배율로 환산된 값)
+export function quantitiesFromQto(sections: IFCPropertySection[]): Partial<Record<QuantityKey, number>> {
+  const values = new Map<string, number>();
+  for (const section of sections) {
+    if (section.kind !== "qto") continue;
+    for (const prop of section.properties) {
+      if (typeof prop.value === "number" && prop.value > 0 && !values.has(prop.name)) {
+        values.set(prop.name, prop.value);
+      }
+    }
+  }
+
+  const result: Partial<Record<QuantityKey, number>> = {};
+  for (const key of Object.keys(QTO_NAMES) as QuantityKey[]) {
+    const name = QTO_NAMES[key].find(n => values.has(n));
+    if (name) result[key] = values.get(name);
+  }
+  return result;
+}
+
+// Qto 값 우선, 없는 항목만 메시 계산값 사용
+export function resolveElementQuantities(
+  qto: Partial<Record<QuantityKey, number>>,
+  geometry: Omit<ElementQuantities, "sources">
+): ElementQuantities {
+  const result: ElementQuantities = { sources: {} };
+  for (const key of ["area", "volume", "length"] as QuantityKey[]) {
+    if (qto[key] !== undefined) {
+      result[key] = qto[key];
+      result.sources[key] = "qto";
+    } else if (geometry[key] !== undefined) {
+      result[key] = geometry[key];
+      result.sources[key] = "geometry";
+    }
+  }
+  return result;
+}
+
+// 요소 목록의 수량 합계
+export function sumQuantities(expressIDs: number[], quantities: Map<number, ElementQuantities>): QuantityTotals {
+  const totals: QuantityTotals = { area: 0, volume: 0, length: 0, count: expressIDs.length };
+  for (const id of expressIDs) {
+    const q = quantities.get(id);
+    if (!q) continue;
+    totals.area += q.area || 0;
+    totals.volume += q.volume || 0;
+    totals.length += q.length || 0;
+  }
+  return totals;
+}
+
+// 집계 단위에 해당하는 수량 (m² → 면적, m³ → 체적, m → 길이, 그 외 → 개수)
+export function quantityForUnit(totals: QuantityTotals, unit: string): number {
+  const key = UNIT_QUANTITY[unit];
+  return key ? totals[key] : totals.count;
+}
+
+// 자재 행 수량 (집계 단위 기준, 단위 정보가 없는 자재는 면적 → 개수 순)
+export function materialItemQuantity(item: MaterialItem): { value: number; unit: string } {
+  if (item.quantity !== undefined) return { value: item.quantity, unit: item.unit };
+  const area = item.totalArea || 0;
+  return area > 0.01 ? { value: area, unit: "m²" } : { value: item.count, unit: "개" };
+}
+
+// 일부 요소만 남긴 자재 행 (요소별 수량으로 재집계, 조회 함수가 없으면 비율 환산)
+export function subsetMaterialItem(
+  item: MaterialItem,
+  expressIDs: number[],
+  getQuantityTotals?: (expressIDs: number[]) => QuantityTotals
+): MaterialItem {
+  const ratio = expressIDs.length / item.expressIDs.length;
+  const totals: QuantityTotals = getQuantityTotals
+    ? getQuantityTotals(expressIDs)
+    : {
+        area: (item.totalArea || 0) * ratio,
+        volume: (item.totalVolume || 0) * ratio,
+        length: (item.totalLength || 0) * ratio,
+        count: expressIDs.length,
+      };
+  return {
+    ...item,
+    expressIDs,
+    count: expressIDs.length,
+    quantity: item.quantity !== undefined ? quantityForUnit(totals, item.unit) : undefined,
+    totalArea: totals.area,
+    totalVolume: totals.volume,
+    totalLength: totals.length,
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * IFC 타입 레지스트리 (타입 코드 ↔ 클래스 이름, 한글·영문 표시 이름, 카테고리, 집계 단위)
+ * - 코드·클래스 이름·상속 관계는 web-ifc 스키마 상수에서 생성 (IFC2x3 / IFC4 / IFC4x3 공통, 타입 코드는 스키마와 무관)
+ * - 한글 이름·카테고리는 아래 표 기준, 표에 없는 하위 클래스는 가장 가까운 상위 클래스를 따름
+ *   (IfcWallStandardCase → IfcWall "벽", IFC4 IfcPipeSegment → 표의 "배관")
+ * - web-ifc 모듈은 크기가 커서 정적 import하지 않음: 모듈을 불러온 곳에서 registerIfcSchema로 등록
+ *   (등록 전에는 표에 있는 이름으로만 찾을 수 있고, 코드는 "타입 123"으로 표시)
+ */
+
+import { CATEGORY_UNIT_MAP } from "@/types/ifc";
+
+// web-ifc 모듈에서 쓰는 부분 (IFCWALL 같은 코드 상수, IFC2X3/IFC4/IFC4X3 클래스 네임스페이스, 하위 클래스 목록)
+export interface IfcSchemaModule {
+  InheritanceDef: Record<number, Record<number, number[]>>;
+  [name: string]: unknown;
+}
+
+export interface IfcTypeInfo {
+  typeCode: number;
+  entity: string;       // IFC 클래스 이름 (IfcWallStandardCase), 모르는 코드는 "Type_123"
+  englishName: string;  // "Wall Standard Case"
+  koreanName: string;   // "벽" (표에 없으면 클래스 이름)
+  category: string;     // 구조 / 건축 / 설비 / 토목 / 가구 / 공간 / 기타
+  unit: string;         // 자재 집계 단위 (CATEGORY_UNIT_MAP 기준)
+  baseEntity?: string;  // 한글 이름·카테고리를 가져온 클래스 (IfcWall)
+}
+
+interface TypeDefinition {
+  koreanName: string;
+  category: string;
+}
+
+// 클래스별 한글 이름·카테고리 (대문자 클래스 이름 기준, 상위 클래스는 하위 클래스의 기본값)
+const TYPE_DEFINITIONS: Record<string, TypeDefinition> = {
+  // 공간 구조
+  IFCPROJECT: { koreanName: "프로젝트", category: "공간" },
+  IFCSITE: { koreanName: "대지", category: "공간" },
+  IFCBUILDING: { koreanName: "건물", category: "공간" },
+  IFCBUILDINGSTOREY: { koreanName: "층", category: "공간" },
+  IFCSPACE: { koreanName: "공간", category: "공간" },
+  IFCFACILITY: { koreanName: "시설", category: "공간" },
+  IFCFACILITYPART: { koreanName: "시설 구간", category: "공간" },
+  // 구조
+  IFCWALL: { koreanName: "벽", category: "구조" },
+  IFCSLAB: { koreanName: "슬라브", category: "구조" },
+  IFCCOLUMN: { koreanName: "기둥", category: "구조" },
+  IFCBEAM: { koreanName: "보", category: "구조" },
+  IFCFOOTING: { koreanName: "기초", category: "구조" },
+  IFCPILE: { koreanName: "파일", category: "구조" },
+  IFCBEARING: { koreanName: "받침", category: "구조" },
+  IFCREINFORCINGBAR: { koreanName: "철근", category: "구조" },
+  IFCREINFORCINGMESH: { koreanName: "철망", category: "구조" },
+  IFCTENDON: { koreanName: "강연선", category: "구조" },
+  // 건축
+  IFCBUILDINGELEMENT: { koreanName: "건축 요소", category: "건축" },
+  IFCBUILTELEMENT: { koreanName: "건축 요소", category: "건축" },
+  IFCDOOR: { koreanName: "문", category: "건축" },
+  IFCWINDOW: { koreanName: "창문", category: "건축" },
+  IFCSTAIR: { koreanName: "계단", category: "건축" },
+  IFCSTAIRFLIGHT: { koreanName: "계단", category: "건축" },
+  IFCRAMP: { koreanName: "경사로", category: "건축" },
+  IFCRAMPFLIGHT: { koreanName: "경사로", category: "건축" },
+  IFCROOF: { koreanName: "지붕", category: "건축" },
+  IFCRAILING: { koreanName: "난간", category: "건축" },
+  IFCCOVERING: { koreanName: "피복", category: "건축" },
+  IFCCURTAINWALL: { koreanName: "커튼월", category: "건축" },
+  IFCCHIMNEY: { koreanName: "굴뚝", category: "건축" },
+  IFCSHADINGDEVICE: { koreanName: "차양", category: "건축" },
+  IFCOPENINGELEMENT: { koreanName: "개구부", category: "건축" },
+  // 기타 부재
+  IFCPLATE: { koreanName: "판", category: "기타" },
+  IFCMEMBER: { koreanName: "부재", category: "기타" },
+  IFCELEMENTASSEMBLY: { koreanName: "조립 부재", category: "기타" },
+  IFCDISCRETEACCESSORY: { koreanName: "부속", category: "기타" },
+  IFCFASTENER: { koreanName: "철물", category: "기타" },
+  IFCMECHANICALFASTENER: { koreanName: "철물", category: "기타" },
+  IFCBUILDINGELEMENTPROXY: { koreanName: "기타 요소", category: "기타" },
+  IFCVIRTUALELEMENT: { koreanName: "가상 요소", category: "기타" },
+  IFCANNOTATION: { koreanName: "주석", category: "기타" },
+  IFCGRID: { koreanName: "그리드", category: "기타" },
+  IFCELEMENT: { koreanName: "요소", category: "기타" },
+  // 가구
+  IFCFURNISHINGELEMENT: { koreanName: "가구", category: "가구" },
+  // 설비
+  IFCDISTRIBUTIONELEMENT: { koreanName: "설비 요소", category: "설비" },
+  IFCDISTRIBUTIONCONTROLELEMENT: { koreanName: "계측 기기", category: "설비" },
+  IFCFLOWSEGMENT: { koreanName: "배관", category: "설비" },
+  IFCPIPESEGMENT: { koreanName: "배관", category: "설비" },
+  IFCDUCTSEGMENT: { koreanName: "덕트", category: "설비" },
+  IFCCABLESEGMENT: { koreanName: "케이블", category: "설비" },
+  IFCCABLECARRIERSEGMENT: { koreanName: "케이블 트레이", category: "설비" },
+  IFCFLOWFITTING: { koreanName: "배관 피팅", category: "설비" },
+  IFCDUCTFITTING: { koreanName: "덕트 피팅", category: "설비" },
+  IFCFLOWTERMINAL: { koreanName: "설비 단말", category: "설비" },
+  IFCSANITARYTERMINAL: { koreanName: "위생기구", category: "설비" },
+  IFCAIRTERMINAL: { koreanName: "디퓨저", category: "설비" },
+  IFCLIGHTFIXTURE: { koreanName: "조명", category: "설비" },
+  IFCFLOWCONTROLLER: { koreanName: "제어 장치", category: "설비" },
+  IFCFLOWMOVINGDEVICE: { koreanName: "펌프·팬", category: "설비" },
+  IFCENERGYCONVERSIONDEVICE: { koreanName: "열원 기기", category: "설비" },
+  IFCFLOWSTORAGEDEVICE: { koreanName: "저장 탱크", category: "설비" },
+  IFCFLOWTREATMENTDEVICE: { koreanName: "처리 장치", category: "설비" },
+  IFCTRANSPORTELEMENT: { koreanName: "승강 설비", category: "설비" },
+  // 토목 (IFC4x3)
+  IFCCOURSE: { koreanName: "포장층", category: "토목" },
+  IFCPAVEMENT: { koreanName: "포장", category: "토목" },
+  IFCKERB: { koreanName: "연석", category: "토목" },
+  IFCEARTHWORKSELEMENT: { koreanName: "토공", category: "토목" },
+  IFCRAIL: { koreanName: "레일", category: "토목" },
+  IFCTRACKELEMENT: { koreanName: "궤도 요소", category: "토목" },
+  IFCGEOGRAPHICELEMENT: { koreanName: "지형", category: "토목" },
+};
+
+const SCHEMA_NAMESPACES = ["IFC2X3", "IFC4", "IFC4X3"];
+
+// 등록된 스키마 (코드 → 클래스 이름, 코드 → 상위 클래스 코드 목록)
+let entityByCode: Map<number, string> | null = null;
+let codeByName: Map<string, number> | null = null;
+let ancestorsByCode: Map<number, { code: number; descendants: number }[]> | null = null;
+const infoCache = new Map<number, IfcTypeInfo>();
+
+/**
+ * web-ifc 모듈로 레지스트리 생성 (여러 번 불러도 한 번만 생성)
+ */
+export function registerIfcSchema(schema: IfcSchemaModule) {
+  if (entityByCode) return;
+
+  // 대문자 상수 이름 → 클래스 네임스페이스의 표기 (IFCWALLSTANDARDCASE → IfcWallStandardCase)
+  const displayNames = new Map<string, string>();
+  for (const namespace of SCHEMA_NAMESPACES) {
+    const classes = schema[namespace];
+    if (!classes || typeof classes !== "object") continue;
+    for (const name of Object.keys(classes)) {
+      if (name.startsWith("Ifc")) displayNames.set(name.toUpperCase(), name);
+    }
+  }
+
+  const entities = new Map<number, string>();
+  const codes = new Map<string, number>();
+  for (const [name, value] of Object.entries(schema)) {
+    if (!/^IFC[A-Z0-9]+$/.test(name) || typeof value !== "number") continue;
+    entities.set(value, displayNames.get(name) ?? name);
+    codes.set(name, value);
+  }
+
+  // InheritanceDef[스키마][상위 클래스] = 모든 하위 클래스 (스키마마다 하위 클래스가 다를 수 있어 모두 모음)
+  const ancestors = new Map<number, { code: number; descendants: number }[]>();
+  for (const bySchema of Object.values(schema.InheritanceDef)) {
+    for (const [ancestor, descendants] of Object.entries(bySchema)) {
+      for (const code of descendants) {
+        const list = ancestors.get(code) || [];
+        list.push({ code: Number(ancestor), descendants: descendants.length });
+        ancestors.set(code, list);
+      }
+    }
+  }
+
+  entityByCode = entities;
+  codeByName = codes;
+  ancestorsByCode = ancestors;
+  infoCache.clear();
+}
+
+/**
+ * web-ifc 모듈을 불러와 등록 (원본 없이 캐시로 복원할 때처럼 web-ifc를 아직 열지 않은 경우)
+ */
+export async function loadIfcTypeRegistry(): Promise<void> {
+  if (entityByCode) return;
+  const WebIFC = await import("web-ifc");
+  registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
+}
+
+// "IfcWallStandardCase" → "Wall Standard Case"
+const toEnglishName = (entity: string) =>
+  entity.replace(/^Ifc/, "").replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/([A-Z])([A-Z][a-z])/g, "$1 $2");
+
+const buildInfo = (typeCode: number, entity: string, base?: { entity: string; definition: TypeDefinition }): IfcTypeInfo => {
+  const koreanName = base?.definition.koreanName ?? entity;
+  return {
+    typeCode,
+    entity,
+    englishName: toEnglishName(entity),
+    koreanName,
+    category: base?.definition.category ?? "기타",
+    unit: CATEGORY_UNIT_MAP[koreanName] || "개",
+    baseEntity: base?.entity,
+  };
+};
+
+/**
+ * 타입 코드의 이름·카테고리 (표에 없으면 가장 가까운 상위 클래스 = 하위 클래스가 가장 적은 상위 클래스)
+ */
+export function getIfcTypeInfo(typeCode: number): IfcTypeInfo {
+  const cached = infoCache.get(typeCode);
+  if (cached) return cached;
+
+  const entity = entityByCode?.get(typeCode);
+  if (!entity) {
+    // 등록 전이거나 스키마에 없는 코드 (캐시하지 않음)
+    return { ...buildInfo(typeCode, `Type_${typeCode}`), koreanName: `타입 ${typeCode}` };
+  }
+
+  let base: { entity: string; definition: TypeDefinition } | undefined;
+  const own = TYPE_DEFINITIONS[entity.toUpperCase()];
+  if (own) {
+    base = { entity, definition: own };
+  } else {
+    const ancestors = [...(ancestorsByCode?.get(typeCode) || [])].sort((a, b) => a.descendants - b.descendants);
+    for (const ancestor of ancestors) {
+      const ancestorEntity = entityByCode?.get(ancestor.code);
+      const definition = ancestorEntity && TYPE_DEFINITIONS[ancestorEntity.toUpperCase()];
+      if (ancestorEntity && definition) {
+        base = { entity: ancestorEntity, definition };
+        break;
+      }
+    }
+  }
+
+  const info = buildInfo(typeCode, entity, base);
+  infoCache.set(typeCode, info);
+  return info;
+}
+
+/**
+ * 클래스 이름(대소문자 무시, "IfcWall" / "IFCWALL")의 이름·카테고리
+ * 등록 전에는 표에 있는 클래스만 (없으면 null)
+ */
+export function getIfcTypeInfoByName(entity: string): IfcTypeInfo | null {
+  const upper = entity.toUpperCase();
+  const typeCode = codeByName?.get(upper);
+  if (typeCode !== undefined) return getIfcTypeInfo(typeCode);
+  const definition = TYPE_DEFINITIONS[upper];
+  return definition ? buildInfo(0, entity, { entity, definition }) : null;
+}
+
+/**
+ * 클래스 이름 → 타입 코드 (등록 전이거나 없는 이름이면 undefined)
+ */
+export const getIfcTypeCode = (entity: string): number | undefined => codeByName?.get(entity.toUpperCase());
+
+/**
+ * typeCode가 ancestorCode 클래스이거나 그 하위 클래스인지 (IfcWallStandardCase는 IfcWall)
+ */
+export function isIfcSubtypeOf(typeCode: number, ancestorCode: number): boolean {
+  if (typeCode === ancestorCode) return true;
+  return !!ancestorsByCode?.get(typeCode)?.some(ancestor => ancestor.code === ancestorCode);
+}
+
+// 자주 쓰는 조회
+export const getIfcEntityName = (typeCode: number) => getIfcTypeInfo(typeCode).entity;
+export const getIfcKoreanName = (typeCode: number) => getIfcTypeInfo(typeCode).koreanName;
+export const getIfcCategory = (typeCode: number) => getIfcTypeInfo(typeCode).category;
@@ -0,0 +1,87 @@
+/**
+ * IFC 단위 변환
+ * IfcUnitAssignment의 길이·면적·체적 단위(IfcSIUnit 접두어 / IfcConversionBasedUnit 환산 계수)를 m 기준 배율로 변환
+ * web-ifc 지오메트리는 m로 정규화되지만 IfcBuildingStorey.Elevation, Qto 값 같은 속성 값은 파일 단위 그대로
+ */
+
+import { IFC_SPATIAL_TYPES } from "@/types/ifc";
+import type { IfcPropertyApi } from "./propertyExtractor";
+
+// IfcSIPrefix → 배율
+const SI_PREFIX_SCALE: Record<string, number> = {
+  EXA: 1e18, PETA: 1e15, TERA: 1e12, GIGA: 1e9, MEGA: 1e6, KILO: 1e3, HECTO: 1e2, DECA: 1e1,
+  DECI: 1e-1, CENTI: 1e-2, MILLI: 1e-3, MICRO: 1e-6, NANO: 1e-9, PICO: 1e-12, FEMTO: 1e-15, ATTO: 1e-18,
+};
+
+interface UnitLine {
+  type?: number;
+  UnitType?: { value?: string };
+  Prefix?: { value?: string } | null;
+  ConversionFactor?: { ValueComponent?: { value?: number }; UnitComponent?: UnitLine } | null;
+}
+
+// 단위 종류 → 차수 (SI 접두어는 차수만큼 거듭제곱: mm² = (10⁻³)²)
+const UNIT_POWERS = { LENGTHUNIT: 1, AREAUNIT: 2, VOLUMEUNIT: 3 } as const;
+type UnitType = keyof typeof UNIT_POWERS;
+
+// 모델 수량 단위 → m / m² / m³ 배율
+export interface QuantityUnitScales {
+  length: number;
+  area: number;
+  volume: number;
+}
+
+// 단위 하나의 SI 배율 (해당 종류가 아니거나 해석할 수 없으면 null)
+const unitScale = (unit: UnitLine | undefined, unitType: UnitType): number | null => {
+  if (!unit || unit.UnitType?.value !== unitType) return null;
+  if (unit.type === IFC_SPATIAL_TYPES.IFCSIUNIT) {
+    const prefix = unit.Prefix?.value;
+    return prefix ? (SI_PREFIX_SCALE[prefix] ?? 1) ** UNIT_POWERS[unitType] : 1;
+  }
+  if (unit.type === IFC_SPATIAL_TYPES.IFCCONVERSIONBASEDUNIT) {
+    const factor = unit.ConversionFactor?.ValueComponent?.value;
+    if (typeof factor !== "number") return null;
+    return factor * (unitScale(unit.ConversionFactor?.UnitComponent, unitType) ?? 1);
+  }
+  return null;
+};
+
+// IfcUnitAssignment에서 종류별 배율 (처음 찾은 단위, 없는 종류는 빠짐)
+const readUnitScales = (api: IfcPropertyApi, modelID: number): Partial<Record<UnitType, number>> => {
+  const scales: Partial<Record<UnitType, number>> = {};
+  try {
+    const ids = api.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCUNITASSIGNMENT);
+    for (let i = 0; i < ids.size(); i++) {
+      const assignment = api.GetLine(modelID, ids.get(i), true) as { Units?: UnitLine[] } | null;
+      for (const unit of assignment?.Units ?? []) {
+        for (const unitType of Object.keys(UNIT_POWERS) as UnitType[]) {
+          if (scales[unitType] !== undefined) continue;
+          const scale = unitScale(unit, unitType);
+          if (scale !== null) scales[unitType] = scale;
+        }
+      }
+    }
+  } catch {}
+  return scales;
+};
+
+/**
+ * 모델의 길이 단위 → m 배율 (mm 모델이면 0.001, 단위 정보가 없으면 1)
+ */
+export function getLengthUnitScale(api: IfcPropertyApi, modelID: number): number {
+  return readUnitScales(api, modelID).LENGTHUNIT ?? 1;
+}
+
+/**
+ * 모델의 길이·면적·체적 단위 → m / m² / m³ 배율
+ * 면적·체적 단위가 없으면 길이 단위의 제곱·세제곱으로 간주
+ */
+export function getQuantityUnitScales(api: IfcPropertyApi, modelID: number): QuantityUnitScales {
+  const scales = readUnitScales(api, modelID);
+  const length = scales.LENGTHUNIT ?? 1;
+  return {
+    length,
+    area: scales.AREAUNIT ?? length ** 2,
+    volume: scales.VOLUMEUNIT ?? length ** 3,
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * 서버 변환 작업 (/api/convert)
+ * - POST는 작업만 등록하고 바로 응답, 변환은 worker_threads 워커에서 실행
+ * - 진행 상황은 구독자(SSE 라우트)에게 단계/진행률로 전달
+ * - 대기/실행 중 취소, 실패·취소된 작업 재시도 (원본은 작업이 끝날 때까지 메모리에 보관)
+ *   워커 변환 중에만 취소 가능 - 프로세스 내 변환·저장 단계는 취소할 수 없음 (cancellable)
+ * - 같은 파일(내용 해시)이 이미 변환 중이면 그 작업을 그대로 돌려줌
+ * - 작업 목록은 프로세스 메모리에만 있음 (변환 결과는 modelStore에 저장)
+ */
+
+import * as crypto from "crypto";
+import { Worker } from "worker_threads";
+import { sliceModelPayloadHeader } from "@/lib/ifc/modelPayload";
+import { getModelStore } from "./modelStore";
+import {
+  convertIfc,
+  payloadOptions,
+  ConversionCancelledError,
+  ConversionPhase,
+  ConvertIfcInput,
+  ConvertIfcResult,
+} from "./convertIfc";
+import type { ConversionWorkerData, ConversionWorkerMessage } from "./conversionWorker";
+
+export type ConversionJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+export type ConversionJobPhase = ConversionPhase | "storing";
+
+// 클라이언트에 보내는 작업 상태
+export interface ConversionJob {
+  id: string;
+  modelId: string;          // 원본 IFC 내용 해시 (GET /api/convert?id=)
+  fileName: string;
+  fileSize: number;
+  status: ConversionJobStatus;
+  phase: ConversionJobPhase | null;
+  progress: number;         // 전체 진행률 0~1
+  cached: boolean;          // 저장된 변환 결과를 그대로 사용
+  cancellable: boolean;     // 지금 취소할 수 있는지 (대기 중, 워커 변환 중)
+  error: string | null;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ConversionJobListener = (job: ConversionJob) => void;
+
+interface JobRecord {
+  job: ConversionJob;
+  data: Uint8Array | null;
+  listeners: Set<ConversionJobListener>;
+  cancel: (() => void) | null;
+  expireTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// 단계별 전체 진행률 구간
+const PHASE_RANGES: Record<ConversionJobPhase, [number, number]> = {
+  parsing: [0, 0.05],
+  geometry: [0.05, 0.85],
+  metadata: [0.85, 0.9],
+  encoding: [0.9, 0.95],
+  storing: [0.95, 1],
+};
+
+// 끝난 작업 보관 시간 (이후 조회·재시도 불가)
+const FINISHED_JOB_TTL = 10 * 60 * 1000;
+
+const DEFAULT_MAX_UPLOAD_MB = 20;
+
+export const isFinished = (status: ConversionJobStatus) =>
+  status === "done" || status === "failed" || status === "cancelled";
+
+/**
+ * 업로드 크기 상한 (IFC_CONVERT_MAX_MB, 기본 20MB)
+ */
+export const maxUploadBytes = () => {
+  const mb = Number(process.env.IFC_CONVERT_MAX_MB);
+  return (mb > 0 ? mb : DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+};
+
+// 동시 변환 수 (IFC_CONVERT_CONCURRENCY, 기본 1)
+const maxConcurrency = () => {
+  const n = Number(process.env.IFC_CONVERT_CONCURRENCY);
+  return n >= 1 ? Math.floor(n) : 1;
+};
+
+// cancel이 null이면 취소할 수 없는 변환
+type RunningConversion = { result: Promise<ConvertIfcResult>; cancel: (() => void) | null };
+
+// 요청 처리 스레드에서 변환 (변환이 스레드를 막아 취소 요청을 끝날 때까지 처리할 수 없음)
+function convertInProcess(
+  input: ConvertIfcInput,
+  options: ReturnType<typeof payloadOptions>,
+  onProgress: (phase: ConversionPhase, progress: number) => void
+): RunningConversion {
+  return { result: convertIfc(input, options, onProgress), cancel: null };
+}
+
+/**
+ * 워커 스레드에서 변환
+ * - 워커는 new Worker(new URL(...)) 형태라 webpack이 별도 엔트리로 컴파일 (@/ 경로도 번들 시 해석)
+ * - 워커를 만들 수 없거나 ready 전에 오류·종료되면 (번들되지 않은 .ts 워커 등) 프로세스 내 변환으로 전환
+ *   (도중에 전환하면 onInProcess 호출 - 이후로는 취소 불가)
+ */
+function startConversion(
+  input: ConvertIfcInput,
+  onProgress: (phase: ConversionPhase, progress: number) => void,
+  onInProcess: () => void
+): RunningConversion {
+  const options = payloadOptions();
+  let worker: Worker;
+  try {
+    const workerData: ConversionWorkerData = { input, options };
+    worker = new Worker(new URL("./conversionWorker.ts", import.meta.url), { workerData });
+  } catch (e) {
+    console.warn("변환 워커 생성 실패, 프로세스 내에서 변환:", e);
+    return convertInProcess(input, options, onProgress);
+  }
+
+  let ready = false;
+  let cancelled = false;
+  let fallback: RunningConversion | null = null;
+  let rejectResult: (reason: Error) => void = () => {};
+  const result = new Promise<ConvertIfcResult>((resolve, reject) => {
+    rejectResult = reject;
+    const fallBack = (reason: unknown) => {
+      if (cancelled || fallback) return;
+      console.warn("변환 워커 시작 실패, 프로세스 내에서 변환:", reason);
+      fallback = convertInProcess(input, options, onProgress);
+      onInProcess();
+      fallback.result.then(resolve, reject);
+    };
+
+    worker.on("message", (message: ConversionWorkerMessage) => {
+      if (message.type === "ready") {
+        ready = true;
+      } else if (message.type === "progress") {
+        onProgress(message.phase, message.progress);
+      } else if (message.type === "done") {
+        const { payload, elements, elementCount, elementQuantities, meshCount, geometryCount, materialCount } = message;
+        resolve({ payload, elements, elementCount, elementQuantities, meshCount, geometryCount, materialCount });
+        worker.terminate();
+      } else {
+        reject(new Error(message.message));
+        worker.terminate();
+      }
+    });
+    worker.on("error", error => (ready ? reject(error) : fallBack(error)));
+    worker.on("exit", code => {
+      if (!ready) fallBack(new Error(`변환 워커가 시작 전에 종료되었습니다 (code ${code})`));
+      else if (code !== 0) reject(new Error(`변환 워커가 종료되었습니다 (code ${code})`));
+    });
+  });
+
+  return {
+    result,
+    cancel: () => {
+      if (fallback) return;
+      cancelled = true;
+      rejectResult(new ConversionCancelledError());
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * 변환 작업 관리자 (프로세스당 하나)
+ */
+export class ConversionJobManager {
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly queue: JobRecord[] = [];
+  private running = 0;
+
+  /**
+   * 작업 등록 - 저장된 결과가 있으면 바로 done, 같은 파일이 변환 중이면 기존 작업
+   */
+  async submit(data: Uint8Array, fileName: string): Promise<ConversionJob> {
+    const modelId = crypto.createHash("sha256").update(data).digest("hex");
+
+    for (const record of this.jobs.values()) {
+      if (record.job.modelId === modelId && !isFinished(record.job.status)) {
+        return { ...record.job };
+      }
+    }
+
+    const now = Date.now();
+    const record: JobRecord = {
+      job: {
+        id: crypto.randomUUID(),
+        modelId,
+        fileName,
+        fileSize: data.byteLength,
+        status: "queued",
+        phase: null,
+        progress: 0,
+        cached: false,
+        cancellable: true,
+        error: null,
+        attempts: 1,
+        createdAt: now,
+        updatedAt: now,
+      },
+      data,
+      listeners: new Set(),
+      cancel: null,
+      expireTimer: null,
+    };
+    this.jobs.set(record.job.id, record);
+
+    const stored = await getModelStore().has(modelId);
+    if (stored) {
+      console.log(`📦 캐시 히트: ${fileName} (${modelId})`);
+      this.update(record, { status: "done", progress: 1, cached: true });
+      return { ...record.job };
+    }
+
+    this.queue.push(record);
+    this.pump();
+    return { ...record.job };
+  }
+
+  get(id: string): ConversionJob | null {
+    const record = this.jobs.get(id);
+    return record ? { ...record.job } : null;
+  }
+
+  /**
+   * 상태 구독 (현재 상태로 즉시 한 번 호출) - 구독 해제 함수 반환, 없는 작업이면 null
+   */
+  subscribe(id: string, listener: ConversionJobListener): (() => void) | null {
+    const record = this.jobs.get(id);
+    if (!record) return null;
+    record.listeners.add(listener);
+    listener({ ...record.job });
+    return () => record.listeners.delete(listener);
+  }
+
+  /**
+   * 대기 중이거나 워커에서 변환 중인 작업 취소 (끝났거나 취소할 수 없는 단계면 false)
+   */
+  cancel(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || isFinished(record.job.status)) return false;
+
+    if (record.job.status === "queued") {
+      this.queue.splice(this.queue.indexOf(record), 1);
+      this.update(record, { status: "cancelled", phase: null });
+      return true;
+    }
+    if (!record.cancel) return false;
+    record.cancel();
+    return true;
+  }
+
+  /**
+   * 실패·취소된 작업 재시도 (원본이 남아 있을 때만)
+   */
+  retry(id: string): ConversionJob | null {
+    const record = this.jobs.get(id);
+    if (!record || !record.data) return null;
+    if (record.job.status !== "failed" && record.job.status !== "cancelled") return null;
+
+    this.update(record, {
+      status: "queued",
+      phase: null,
+      progress: 0,
+      cancellable: true,
+      error: null,
+      attempts: record.job.attempts + 1,
+    });
+    this.queue.push(record);
+    this.pump();
+    return { ...record.job };
+  }
+
+  private update(record: JobRecord, changes: Partial<ConversionJob>) {
+    Object.assign(record.job, changes, { updatedAt: Date.now() });
+    if (isFinished(record.job.status)) record.job.cancellable = false;
+
+    if (record.expireTimer) {
+      clearTimeout(record.expireTimer);
+      record.expireTimer = null;
+    }
+    if (isFinished(record.job.status)) {
+      if (record.job.status === "done") record.data = null;
+      record.expireTimer = setTimeout(() => this.jobs.delete(record.job.id), FINISHED_JOB_TTL);
+      record.expireTimer.unref?.();
+    }
+
+    const snapshot = { ...record.job };
+    record.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private pump() {
+    while (this.running < maxConcurrency() && this.queue.length > 0) {
+      const record = this.queue.shift()!;
+      this.running++;
+      this.run(record).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(record: JobRecord) {
+    const { job } = record;
+    console.log(`🔄 IFC 처리 시작: ${job.fileName} (${(job.fileSize / 1024 / 1024).toFixed(2)}MB)`);
+    this.update(record, { status: "running", phase: "parsing", progress: 0 });
+
+    const setPhase = (phase: ConversionJobPhase, progress: number) => {
+      const [start, end] = PHASE_RANGES[phase];
+      this.update(record, { phase, progress: start + (end - start) * Math.min(Math.max(progress, 0), 1) });
+    };
+
+    try {
+      const conversion = startConversion(
+        { data: record.data!, modelId: job.modelId, fileName: job.fileName },
+        setPhase,
+        () => {
+          record.cancel = null;
+          this.update(record, { cancellable: false });
+        }
+      );
+      if (conversion.cancel) record.cancel = conversion.cancel;
+      else this.update(record, { cancellable: false });
+      const result = await conversion.result;
+      record.cancel = null;
+
+      // 저장 (취소 불가, 실패해도 작업은 실패 처리 - 결과를 받을 곳이 저장소뿐)
+      this.update(record, { cancellable: false });
+      setPhase("storing", 0);
+      await getModelStore().put(
+        {
+          id: job.modelId,
+          fileName: job.fileName,
+          sourceSize: job.fileSize,
+          meshCount: result.meshCount,
+          elementCount: result.elementCount,
+        },
+        Buffer.from(result.payload.buffer, result.payload.byteOffset, result.payload.byteLength),
+        Buffer.from(result.elements.buffer, result.elements.byteOffset, result.elements.byteLength),
+        Buffer.from(sliceModelPayloadHeader(result.payload))
+      );
+
+      console.log(
+        `✅ IFC 처리 완료: ${result.meshCount}개 메시 (지오메트리 ${result.geometryCount}개), ` +
+        `${result.materialCount}개 자재 타입, ${result.elementCount}개 요소 속성, ` +
+        `${(result.payload.byteLength / 1024 / 1024).toFixed(2)}MB`
+      );
+      this.update(record, { status: "done", phase: null, progress: 1 });
+    } catch (error) {
+      record.cancel = null;
+      if (error instanceof ConversionCancelledError) {
+        console.log(`⏹️ IFC 처리 취소: ${job.fileName}`);
+        this.update(record, { status: "cancelled", phase: null });
+      } else {
+        console.error("IFC 처리 실패:", error);
+        this.update(record, {
+          status: "failed",
+          phase: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+// 개발 모드 모듈 재로딩에도 작업 목록이 유지되도록 전역에 보관
+const globalJobs = globalThis as typeof globalThis & { __ifcConversionJobs?: ConversionJobManager };
+
+export function getConversionJobs(): ConversionJobManager {
+  if (!globalJobs.__ifcConversionJobs) globalJobs.__ifcConversionJobs = new ConversionJobManager();
+  return globalJobs.__ifcConversionJobs;
+}
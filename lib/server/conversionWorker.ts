@@ -0,0 +1,31 @@
+/**
+ * 변환 작업 워커 (worker_threads)
+ * 요청 처리 스레드를 막지 않도록 web-ifc 변환을 별도 스레드에서 실행
+ * 취소는 부모 쪽에서 worker.terminate()
+ * 모듈을 읽자마자 ready를 보냄 (그 전에 죽으면 부모가 프로세스 내 변환으로 전환)
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { convertIfc, ConversionPhase, ConvertIfcInput, ConvertIfcResult } from "./convertIfc";
+import { ModelPayloadOptions } from "@/lib/ifc/modelPayload";
+
+export type ConversionWorkerMessage =
+  | { type: "ready" }
+  | { type: "progress"; phase: ConversionPhase; progress: number }
+  | ({ type: "done" } & ConvertIfcResult)
+  | { type: "error"; message: string };
+
+export interface ConversionWorkerData {
+  input: ConvertIfcInput;
+  options: ModelPayloadOptions;
+}
+
+const post = (message: ConversionWorkerMessage, transfer: ArrayBuffer[] = []) =>
+  parentPort?.postMessage(message, transfer);
+
+const { input, options } = workerData as ConversionWorkerData;
+post({ type: "ready" });
+
+convertIfc(input, options, (phase, progress) => post({ type: "progress", phase, progress }))
+  .then(result => post({ type: "done", ...result }, [result.payload.buffer, result.elements.buffer]))
+  .catch(error => post({ type: "error", message: error instanceof Error ? error.message : String(error) }));
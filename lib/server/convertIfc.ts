@@ -0,0 +1,223 @@
+/**
+ * 서버 IFC 변환 (web-ifc → 바이너리 변환 결과)
+ * 변환 작업 워커(conversionWorker)와 워커를 못 띄울 때의 프로세스 내 변환이 함께 사용
+ * 공간 트리·층·자재 목록은 Web Worker와 같은 lib/ifc/modelExtractor로 추출
+ * 요소 속성은 지오메트리와 별도로 요소 색인(lib/server/elementIndex)에 담음
+ */
+
+import { ModelPayloadWriter, ModelPayloadOptions } from "@/lib/ifc/modelPayload";
+import {
+  boundsToDimensions, buildMaterialList, collectContainment, createBounds, expandBounds, extractStoreys,
+  parseSpatialStructure,
+} from "@/lib/ifc/modelExtractor";
+import type { IFCPropertyData } from "@/lib/ifc/propertyDB";
+import {
+  buildPropertyIndex, buildPropertyRecord, getElementQuantitySections, SectionCache,
+} from "@/lib/ifc/propertyExtractor";
+import { computeGeometryQuantities, quantitiesFromQto, resolveElementQuantities, TakeoffGeometry } from "@/lib/ifc/takeoff";
+import { getIfcEntityName, IfcSchemaModule, registerIfcSchema } from "@/lib/ifc/typeRegistry";
+import { ElementDimensions, ElementQuantities } from "@/types/ifc";
+import { encodeElementIndex } from "./elementIndex";
+
+// 변환 단계 (진행률 표시용)
+export type ConversionPhase = "parsing" | "geometry" | "metadata" | "encoding";
+
+export type ConversionProgress = (phase: ConversionPhase, progress: number) => void;
+
+export interface ConvertIfcInput {
+  data: Uint8Array;
+  modelId: string;   // 원본 IFC 내용 해시
+  fileName: string;
+}
+
+export interface ConvertIfcResult {
+  payload: Uint8Array<ArrayBuffer>;
+  elements: Uint8Array<ArrayBuffer>; // 요소 속성 색인
+  elementCount: number;
+  elementQuantities: Map<number, ElementQuantities>; // 층별 수량 분할용 (CLI)
+  meshCount: number;
+  geometryCount: number;
+  materialCount: number;
+}
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("변환이 취소되었습니다");
+    this.name = "ConversionCancelledError";
+  }
+}
+
+// 바이너리 옵션 (환경 변수로 끔: IFC_PAYLOAD_QUANTIZE=0, IFC_PAYLOAD_DEDUPE=0)
+// 저장된 결과는 플래그를 함께 담고 있으므로 설정을 바꿔도 그대로 읽힘
+export const payloadOptions = (): ModelPayloadOptions => ({
+  quantize: process.env.IFC_PAYLOAD_QUANTIZE !== "0",
+  deduplicate: process.env.IFC_PAYLOAD_DEDUPE !== "0",
+});
+
+/**
+ * IFC 파일을 바이너리 변환 결과로 변환
+ * signal이 중단되면 메시 단위로 확인해 ConversionCancelledError
+ */
+export async function convertIfc(
+  { data, modelId, fileName }: ConvertIfcInput,
+  options: ModelPayloadOptions = payloadOptions(),
+  onProgress?: ConversionProgress,
+  signal?: AbortSignal
+): Promise<ConvertIfcResult> {
+  // web-ifc 로드
+  const WebIFC = await import("web-ifc");
+  registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
+  const ifcApi = new WebIFC.IfcAPI();
+
+  // WASM 경로 설정 - Node.js 환경에서는 설정하지 않으면 자동으로 찾음
+  // SetWasmPath를 호출하지 않음
+
+  await ifcApi.Init();
+
+  onProgress?.("parsing", 0);
+  const modelID = ifcApi.OpenModel(data);
+
+  try {
+    // 메시 데이터 수집 (받는 즉시 바이너리로 인코딩)
+    const writer = new ModelPayloadWriter(options);
+    const typeToExpressIDs = new Map<number, number[]>();
+    const elementDimensions = new Map<number, ElementDimensions>();
+    const geometryQuantities = new Map<number, ReturnType<typeof computeGeometryQuantities>>();
+
+    onProgress?.("geometry", 0);
+    ifcApi.StreamAllMeshes(modelID, (flatMesh, index, total) => {
+      if (signal?.aborted) throw new ConversionCancelledError();
+
+      const expressID = flatMesh.expressID;
+      const geometries = flatMesh.geometries;
+      const geoCount = geometries.size();
+
+      // 타입 정보 가져오기
+      let typeCode = 0;
+      try {
+        const props = ifcApi.GetLine(modelID, expressID, false);
+        typeCode = props?.type || 0;
+      } catch {}
+
+      // 타입별 맵 구성
+      const existing = typeToExpressIDs.get(typeCode) || [];
+      existing.push(expressID);
+      typeToExpressIDs.set(typeCode, existing);
+
+      const bounds = createBounds();
+      const takeoffGeometries: TakeoffGeometry[] = [];
+
+      for (let i = 0; i < geoCount; i++) {
+        const pg = geometries.get(i);
+        const geo = ifcApi.GetGeometry(modelID, pg.geometryExpressID);
+
+        const vertPtr = geo.GetVertexData();
+        const vertSize = geo.GetVertexDataSize();
+        const indexPtr = geo.GetIndexData();
+        const indexSize = geo.GetIndexDataSize();
+
+        if (vertSize === 0 || indexSize === 0) continue;
+
+        const verts = ifcApi.GetVertexArray(vertPtr, vertSize);
+        const indices = ifcApi.GetIndexArray(indexPtr, indexSize);
+
+        if (verts.length === 0 || indices.length === 0) continue;
+
+        // 위치/법선 분리 (web-ifc는 [x, y, z, nx, ny, nz] 교차 배열)
+        const vertexCount = verts.length / 6;
+        const positions = new Float32Array(vertexCount * 3);
+        const normals = new Float32Array(vertexCount * 3);
+
+        for (let v = 0; v < vertexCount; v++) {
+          const srcIdx = v * 6;
+          positions.set(verts.subarray(srcIdx, srcIdx + 3), v * 3);
+          normals.set(verts.subarray(srcIdx + 3, srcIdx + 6), v * 3);
+        }
+
+        // 규격·수량 계산용 (중복 제거로 인코딩을 건너뛰는 지오메트리도 요소마다 반영)
+        expandBounds(bounds, positions, pg.flatTransformation);
+        takeoffGeometries.push({ positions, indices, transformation: Array.from(pg.flatTransformation) });
+
+        writer.addMesh({
+          expressID,
+          typeCode,
+          geometry: writer.addGeometry(pg.geometryExpressID, positions, normals, indices),
+          color: [pg.color.x, pg.color.y, pg.color.z, pg.color.w],
+          transform: pg.flatTransformation,
+        });
+      }
+
+      if (takeoffGeometries.length > 0) {
+        const dim = boundsToDimensions(bounds);
+        if (dim) elementDimensions.set(expressID, dim);
+        geometryQuantities.set(expressID, computeGeometryQuantities(takeoffGeometries));
+      }
+
+      if (onProgress && total > 0 && index % 50 === 0) onProgress("geometry", index / total);
+    });
+
+    // 공간 구조·층 정보 추출
+    onProgress?.("metadata", 0);
+    const spatialTree = parseSpatialStructure(ifcApi, modelID);
+    const storeys = extractStoreys(ifcApi, modelID, spatialTree);
+
+    // 수량 산출 (Qto 우선, 없으면 메시 계산)
+    onProgress?.("metadata", 0.3);
+    const propertyIndex = buildPropertyIndex(ifcApi, modelID);
+    const qtoCache: SectionCache = new Map();
+    const elementQuantities = new Map<number, ElementQuantities>();
+    geometryQuantities.forEach((geometry, expressID) => {
+      const qto = quantitiesFromQto(getElementQuantitySections(ifcApi, modelID, propertyIndex, expressID, qtoCache));
+      elementQuantities.set(expressID, resolveElementQuantities(qto, geometry));
+    });
+
+    // 자재 목록 생성 (타입 + 규격별)
+    onProgress?.("metadata", 0.5);
+    const materials = buildMaterialList(typeToExpressIDs, elementDimensions, elementQuantities);
+
+    // 요소 속성 색인 (공간 노드 + 공간 소속 요소 + 메시가 있는 요소)
+    const { containedIn, contains } = collectContainment(spatialTree);
+    const meshElementIds = Array.from(typeToExpressIDs.values()).flat();
+    const recordIds = Array.from(new Set([...contains.keys(), ...Array.from(contains.values()).flat(), ...meshElementIds]));
+    const sectionCache: SectionCache = new Map();
+    const records: IFCPropertyData[] = [];
+    const classNames: Record<number, string> = {};
+    recordIds.forEach((expressID, i) => {
+      if (signal?.aborted) throw new ConversionCancelledError();
+      const record = buildPropertyRecord(ifcApi, modelID, propertyIndex, expressID, {
+        containedIn: containedIn.get(expressID),
+        contains: contains.get(expressID),
+      }, sectionCache);
+      if (!record) return;
+      records.push(record);
+      if (record.typeCode && !(record.typeCode in classNames)) {
+        classNames[record.typeCode] = getIfcEntityName(record.typeCode);
+      }
+      if (onProgress && i % 500 === 0) onProgress("metadata", 0.5 + 0.5 * (i / recordIds.length));
+    });
+
+    // 모델 데이터 생성
+    onProgress?.("encoding", 0);
+    const elements = encodeElementIndex(classNames, records);
+    const payload = writer.finish({
+      id: modelId,
+      fileName,
+      materials,
+      storeys,
+      spatialTree,
+      createdAt: Date.now(),
+    });
+
+    return {
+      payload,
+      elements,
+      elementCount: records.length,
+      elementQuantities,
+      meshCount: writer.meshCount,
+      geometryCount: writer.geometryCount,
+      materialCount: materials.length,
+    };
+  } finally {
+    ifcApi.CloseModel(modelID);
+  }
+}
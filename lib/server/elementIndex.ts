@@ -0,0 +1,33 @@
+/**
+ * 서버 변환 결과의 요소 속성 색인 (/api/models/[modelId]/elements)
+ * - 변환 시 요소·공간 노드마다 PropertyDB와 같은 레코드(buildPropertyRecord)를 만들어 저장
+ * - 지오메트리 바이너리와 별도 항목이라 조회 API는 지오메트리를 읽지 않음
+ * - 저장 형식: gzip 압축한 JSON
+ */
+
+import { gunzipSync, gzipSync } from "zlib";
+import type { IFCPropertyData } from "@/lib/ifc/propertyDB";
+
+export const ELEMENT_INDEX_VERSION = 1;
+
+export interface ElementIndexDocument {
+  version: number;
+  classNames: Record<number, string>; // typeCode → IFC 클래스 이름 (예: "IfcWall")
+  elements: IFCPropertyData[];
+}
+
+export function encodeElementIndex(
+  classNames: ElementIndexDocument["classNames"],
+  elements: IFCPropertyData[]
+): Uint8Array<ArrayBuffer> {
+  const document: ElementIndexDocument = { version: ELEMENT_INDEX_VERSION, classNames, elements };
+  return new Uint8Array(gzipSync(JSON.stringify(document)));
+}
+
+export function decodeElementIndex(data: Uint8Array): ElementIndexDocument {
+  const document = JSON.parse(gunzipSync(data).toString("utf8")) as ElementIndexDocument;
+  if (document.version !== ELEMENT_INDEX_VERSION) {
+    throw new Error(`지원하지 않는 요소 색인 버전입니다: ${document.version}`);
+  }
+  return document;
+}
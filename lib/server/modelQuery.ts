@@ -0,0 +1,384 @@
+/**
+ * 저장된 변환 결과 조회 (/api/models/[modelId]/...)
+ * - 지오메트리 없이 요소 속성 색인 + 바이너리 헤더(공간 트리·층)만 읽음
+ * - 목록 응답은 모두 offset/limit 페이지 ({ total, offset, limit, items })
+ * - 최근 조회한 모델 몇 개는 디코딩 결과를 메모리에 보관 (저장 시각이 바뀌면 다시 읽음)
+ */
+
+import { NextResponse } from "next/server";
+import type { IFCPropertyData } from "@/lib/ifc/propertyDB";
+import { ModelPayloadHeader, readModelPayloadHeader } from "@/lib/ifc/modelPayload";
+import { IFCSpatialNode } from "@/types/ifc";
+import { decodeElementIndex, ElementIndexDocument } from "./elementIndex";
+import { getModelStore, isModelId, StoredModelEntry } from "./modelStore";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const CACHED_MODELS = 4;
+
+export class ModelQueryError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = "ModelQueryError";
+  }
+}
+
+export interface PageParams {
+  offset: number;
+  limit: number;
+}
+
+export interface Page<T> extends PageParams {
+  total: number;
+  items: T[];
+}
+
+// 목록용 요소 요약
+export interface ElementSummary {
+  expressID: number;
+  globalId?: string;
+  ifcClass: string;
+  typeCode?: number;
+  name?: string;
+  objectType?: string;
+  containedIn?: number;
+  storey: string | null; // 소속 층 id (storey_xxx)
+}
+
+// 단일 요소 조회 (속성 패널과 같은 섹션 + "Pset.속성" 평탄화 값)
+export interface ElementDetail extends ElementSummary {
+  description?: string;
+  properties: IFCPropertyData["properties"];
+  sections: NonNullable<IFCPropertyData["sections"]>;
+  relationships: IFCPropertyData["relationships"];
+}
+
+// 공간 트리 노드 (하위 노드·요소는 개수만)
+export interface SpatialNodeSummary {
+  expressID: number;
+  name: string;
+  type: string;
+  typeCode: number;
+  childCount: number;
+  elementCount: number;
+}
+
+export type PropertyOperator = "eq" | "ne" | "contains" | "gt" | "gte" | "lt" | "lte" | "exists";
+
+const PROPERTY_OPERATORS: PropertyOperator[] = ["eq", "ne", "contains", "gt", "gte", "lt", "lte", "exists"];
+
+export interface ElementFilter {
+  types?: string[];       // IFC 클래스 이름 (대소문자 무시) 또는 typeCode
+  storey?: string;        // 층 id (storey_xxx) 또는 층 expressID
+  container?: number;     // 공간 노드 expressID (직접 포함된 요소만)
+  property?: string;      // "Pset_WallCommon.IsExternal" 또는 속성 이름만 (모든 Pset/Qto에서 찾음)
+  operator?: PropertyOperator;
+  value?: string;
+}
+
+// 정수 쿼리 파라미터 (없으면 기본값)
+const intParam = (params: URLSearchParams, name: string, fallback: number) => {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ModelQueryError(`${name}는 0 이상의 정수여야 합니다`);
+  }
+  return value;
+};
+
+/**
+ * offset/limit 파라미터 (limit 기본 100, 최대 1000)
+ */
+export function parsePageParams(params: URLSearchParams): PageParams {
+  const offset = intParam(params, "offset", 0);
+  const limit = intParam(params, "limit", DEFAULT_PAGE_SIZE);
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ModelQueryError(`limit는 1~${MAX_PAGE_SIZE} 사이여야 합니다`);
+  }
+  return { offset, limit };
+}
+
+/**
+ * 요소 필터 파라미터 (type, storey, container, property, op, value)
+ */
+export function parseElementFilter(params: URLSearchParams): ElementFilter {
+  const types = params.getAll("type").flatMap(t => t.split(",")).map(t => t.trim()).filter(Boolean);
+  const property = params.get("property")?.trim() || undefined;
+  const value = params.get("value") ?? undefined;
+  const op = params.get("op");
+
+  if (op !== null && !PROPERTY_OPERATORS.includes(op as PropertyOperator)) {
+    throw new ModelQueryError(`op는 ${PROPERTY_OPERATORS.join(", ")} 중 하나여야 합니다`);
+  }
+  const operator = (op as PropertyOperator | null) ?? (value === undefined ? "exists" : "eq");
+  if (!property && (op !== null || value !== undefined)) {
+    throw new ModelQueryError("op, value는 property와 함께 지정해야 합니다");
+  }
+  if (operator !== "exists" && value === undefined) {
+    throw new ModelQueryError(`op=${operator}에는 value가 필요합니다`);
+  }
+
+  const container = params.get("container");
+  return {
+    types: types.length > 0 ? types : undefined,
+    storey: params.get("storey") || undefined,
+    container: container ? intParam(params, "container", 0) : undefined,
+    property,
+    operator: property ? operator : undefined,
+    value,
+  };
+}
+
+export function paginate<T>(items: T[], { offset, limit }: PageParams): Page<T> {
+  return { total: items.length, offset, limit, items: items.slice(offset, offset + limit) };
+}
+
+// 속성 값 비교 (문자열은 대소문자 무시, 크기 비교는 숫자 값만)
+const matchValue = (
+  actual: IFCPropertyData["properties"][string],
+  operator: PropertyOperator,
+  expected = ""
+): boolean => {
+  if (actual === null || actual === undefined) return false;
+  if (operator === "exists") return true;
+
+  const expectedNumber = expected.trim() === "" ? NaN : Number(expected);
+  switch (operator) {
+    case "gt": return typeof actual === "number" && actual > expectedNumber;
+    case "gte": return typeof actual === "number" && actual >= expectedNumber;
+    case "lt": return typeof actual === "number" && actual < expectedNumber;
+    case "lte": return typeof actual === "number" && actual <= expectedNumber;
+    case "contains": return String(actual).toLowerCase().includes(expected.toLowerCase());
+  }
+
+  const equal = typeof actual === "number" && !Number.isNaN(expectedNumber)
+    ? actual === expectedNumber
+    : String(actual).toLowerCase() === expected.toLowerCase();
+  return operator === "eq" ? equal : !equal;
+};
+
+/**
+ * 모델 하나의 조회 인덱스
+ */
+export class ModelQuery {
+  private readonly records = new Map<number, IFCPropertyData>();
+  private readonly nodes = new Map<number, { node: IFCSpatialNode; parentId: number | null }>();
+  private readonly elementStoreys = new Map<number, string>();
+
+  constructor(
+    readonly entry: StoredModelEntry,
+    readonly header: ModelPayloadHeader,
+    private readonly index: ElementIndexDocument
+  ) {
+    index.elements.forEach(record => this.records.set(record.expressID, record));
+
+    const visit = (node: IFCSpatialNode, parentId: number | null) => {
+      this.nodes.set(node.expressID, { node, parentId });
+      node.children.forEach(child => visit(child, node.expressID));
+    };
+    if (header.spatialTree) visit(header.spatialTree, null);
+
+    for (const storey of header.storeys) {
+      storey.expressIDs.forEach(id => this.elementStoreys.set(id, storey.id));
+    }
+  }
+
+  get elementCount() {
+    return this.records.size;
+  }
+
+  className(typeCode?: number): string {
+    if (!typeCode) return "Unknown";
+    return this.index.classNames[typeCode] || `Type_${typeCode}`;
+  }
+
+  private summarize(record: IFCPropertyData): ElementSummary {
+    return {
+      expressID: record.expressID,
+      globalId: record.globalId,
+      ifcClass: this.className(record.typeCode),
+      typeCode: record.typeCode,
+      name: record.name,
+      objectType: record.objectType,
+      containedIn: record.relationships.containedIn,
+      storey: this.elementStoreys.get(record.expressID) ?? null,
+    };
+  }
+
+  /**
+   * IFC 클래스별 요소 수 (많은 순)
+   */
+  classes(): { ifcClass: string; typeCode: number; count: number }[] {
+    const counts = new Map<number, number>();
+    this.records.forEach(record => {
+      const typeCode = record.typeCode ?? 0;
+      counts.set(typeCode, (counts.get(typeCode) || 0) + 1);
+    });
+    return Array.from(counts, ([typeCode, count]) => ({ ifcClass: this.className(typeCode), typeCode, count }))
+      .sort((a, b) => b.count - a.count || a.ifcClass.localeCompare(b.ifcClass));
+  }
+
+  /**
+   * 조건에 맞는 요소 목록 (expressID 순)
+   */
+  findElements(filter: ElementFilter, page: PageParams): Page<ElementSummary> {
+    let candidates: IFCPropertyData[];
+
+    if (filter.storey !== undefined) {
+      const storeyId = filter.storey.startsWith("storey_") ? filter.storey : `storey_${filter.storey}`;
+      const storey = this.header.storeys.find(s => s.id === storeyId);
+      if (!storey) throw new ModelQueryError(`층을 찾을 수 없습니다: ${filter.storey}`, 404);
+      candidates = storey.expressIDs.map(id => this.records.get(id)).filter((r): r is IFCPropertyData => !!r);
+    } else {
+      candidates = Array.from(this.records.values());
+    }
+
+    if (filter.container !== undefined) {
+      const container = filter.container;
+      candidates = candidates.filter(r => r.relationships.containedIn === container);
+    }
+
+    if (filter.types) {
+      const codes = new Set<number>();
+      const names = new Set<string>();
+      filter.types.forEach(t => (/^\d+$/.test(t) ? codes.add(Number(t)) : names.add(t.toUpperCase())));
+      candidates = candidates.filter(r =>
+        (r.typeCode !== undefined && codes.has(r.typeCode)) || names.has(this.className(r.typeCode).toUpperCase())
+      );
+    }
+
+    if (filter.property) {
+      const key = filter.property.toLowerCase();
+      const qualified = key.includes(".");
+      const operator = filter.operator ?? "exists";
+      candidates = candidates.filter(r => Object.entries(r.properties).some(([name, value]) => {
+        const lower = name.toLowerCase();
+        const matchesKey = qualified ? lower === key : lower.slice(lower.indexOf(".") + 1) === key;
+        return matchesKey && matchValue(value, operator, filter.value);
+      }));
+    }
+
+    candidates.sort((a, b) => a.expressID - b.expressID);
+    const result = paginate(candidates, page);
+    return { ...result, items: result.items.map(r => this.summarize(r)) };
+  }
+
+  /**
+   * 요소 하나의 속성 (없으면 null)
+   */
+  element(expressID: number): ElementDetail | null {
+    const record = this.records.get(expressID);
+    if (!record) return null;
+    return {
+      ...this.summarize(record),
+      description: record.description,
+      properties: record.properties,
+      sections: record.sections ?? [],
+      relationships: record.relationships,
+    };
+  }
+
+  private summarizeNode(node: IFCSpatialNode): SpatialNodeSummary {
+    return {
+      expressID: node.expressID,
+      name: node.name,
+      type: node.type,
+      typeCode: node.typeCode,
+      childCount: node.children.length,
+      elementCount: node.elements.length,
+    };
+  }
+
+  /**
+   * 공간 트리 노드 + 하위 노드 페이지 (expressID가 없으면 IfcProject)
+   */
+  spatialNode(expressID: number | undefined, page: PageParams) {
+    const found = expressID === undefined
+      ? (this.header.spatialTree ? this.nodes.get(this.header.spatialTree.expressID) : undefined)
+      : this.nodes.get(expressID);
+    if (!found) {
+      throw new ModelQueryError(
+        expressID === undefined ? "공간 구조가 없는 모델입니다" : `공간 노드를 찾을 수 없습니다: ${expressID}`,
+        404
+      );
+    }
+    return {
+      node: this.summarizeNode(found.node),
+      parentId: found.parentId,
+      ...paginate(found.node.children.map(child => this.summarizeNode(child)), page),
+    };
+  }
+
+  /**
+   * 층 목록 (소속 요소는 개수만 - 요소는 elements?storey=로 조회)
+   */
+  storeys(page: PageParams) {
+    return paginate(
+      this.header.storeys.map(({ expressIDs, ...storey }) => ({ ...storey, elementCount: expressIDs.length })),
+      page
+    );
+  }
+}
+
+const cache = new Map<string, { createdAt: number; query: ModelQuery }>();
+
+/**
+ * 저장된 모델의 조회 인덱스 (없으면 null)
+ * 메모리에 있으면 인덱스 항목만 확인, 없으면 요소 색인 + 헤더 사본만 읽음 (지오메트리는 읽지 않음)
+ */
+export async function loadModelQuery(modelId: string): Promise<ModelQuery | null> {
+  const store = getModelStore();
+  const entry = await store.getEntry(modelId, true);
+  if (!entry) {
+    cache.delete(modelId);
+    return null;
+  }
+
+  const cached = cache.get(modelId);
+  if (cached && cached.createdAt === entry.createdAt) {
+    cache.delete(modelId);
+    cache.set(modelId, cached);
+    return cached.query;
+  }
+
+  const stored = await store.getElements(modelId);
+  if (!stored) return null;
+
+  const query = new ModelQuery(stored.entry, readModelPayloadHeader(stored.header), decodeElementIndex(stored.elements));
+  cache.delete(modelId);
+  cache.set(modelId, { createdAt: stored.entry.createdAt, query });
+  while (cache.size > CACHED_MODELS) cache.delete(cache.keys().next().value!);
+  return query;
+}
+
+/**
+ * 조회 API 공통 응답 - 모델 ID 형식이 틀리면 400, 모델이 없으면 404, ModelQueryError는 해당 상태 코드
+ */
+export async function respondWithModel(
+  modelId: string,
+  handler: (query: ModelQuery) => Record<string, unknown>
+): Promise<NextResponse> {
+  if (!isModelId(modelId)) {
+    return NextResponse.json(
+      { error: "모델 ID는 원본 IFC의 SHA-256 (소문자 16진수 64자)이어야 합니다" },
+      { status: 400 }
+    );
+  }
+  try {
+    const query = await loadModelQuery(modelId);
+    if (!query) {
+      return NextResponse.json(
+        { error: "저장된 모델을 찾을 수 없습니다", suggestion: "convert" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, modelId, ...handler(query) });
+  } catch (error) {
+    if (error instanceof ModelQueryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("모델 조회 실패:", error);
+    return NextResponse.json({ error: "모델 정보를 불러오지 못했습니다" }, { status: 500 });
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * 서버 변환 결과 저장소 (/api/convert)
+ * - 저장 위치는 백엔드로 교체 가능 (기본: 로컬 디스크)
+ * - 키는 원본 IFC 내용 해시(SHA-256) - 클라이언트 modelCache의 modelId와 같은 값
+ * - 항목마다 지오메트리 바이너리 + 요소 속성 색인 + 바이너리 헤더 사본 (조회 API는 색인·헤더만 읽음)
+ * - 변환 결과 형식 버전이 다른 항목은 없는 것으로 보고 삭제 (다시 변환)
+ * - 전체 용량이 상한을 넘으면 오래 조회하지 않은 항목부터 삭제 (LRU)
+ * - 서버 재시작 후에도 유지, 여러 인스턴스가 같은 디렉터리를 공유해도 항목별 메타데이터 파일이라 서로 덮어쓰지 않음
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+
+// 저장 백엔드 (바이트 단위 읽기/쓰기만 담당)
+export interface ModelStorageBackend {
+  read(key: string): Promise<Buffer | null>;
+  write(key: string, data: Buffer): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// 저장된 변환 결과 메타데이터 (목록 조회용)
+export interface StoredModelEntry {
+  id: string;             // 원본 IFC 내용 해시
+  fileName: string;
+  formatVersion: number;  // 변환 결과 형식 버전
+  byteSize: number;       // 저장된 변환 결과 크기 (bytes, 요소 색인 포함)
+  sourceSize: number;     // 원본 IFC 크기 (bytes)
+  meshCount: number;
+  elementCount: number;   // 요소 색인 레코드 수
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+// 메타데이터 파일 내용 (writing: 결과 파일을 쓰는 중)
+interface StoredMeta extends StoredModelEntry {
+  writing?: boolean;
+}
+
+// /api/convert 변환 결과 형식 버전 - 형식이 바뀌면 올림
+// (2: JSON → 바이너리 lib/ifc/modelPayload, 3: 공간 트리·층 소속·규격별 자재 목록, 4: 요소 속성 색인,
+//  5: Qto 값 모델 단위 → m 환산, 바이너리 헤더 별도 저장)
+export const MODEL_FORMAT_VERSION = 5;
+
+const META_SUFFIX = ".meta";
+const LEGACY_INDEX_KEY = "index.json"; // 이전 공유 인덱스 (정리 대상)
+const PAYLOAD_SUFFIX = ".model";
+const ELEMENTS_SUFFIX = ".elements";
+const HEADER_SUFFIX = ".header";
+const ENTRY_SUFFIXES = [PAYLOAD_SUFFIX, ELEMENTS_SUFFIX, HEADER_SUFFIX];
+
+// 기본 설정 (환경 변수로 변경)
+const DEFAULT_STORE_DIR = path.join(process.cwd(), ".model-store");
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024 * 1024;
+const TOUCH_FLUSH_MS = 30_000;          // 조회 시각 기록 간격
+const STALE_WRITE_MS = 10 * 60 * 1000;  // 이보다 오래 "쓰는 중"인 항목은 중단된 저장으로 보고 삭제
+
+const MODEL_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * 모델 ID 형식 확인 (원본 IFC 내용의 SHA-256, 소문자 16진수 64자)
+ */
+export function isModelId(id: string): boolean {
+  return MODEL_ID_PATTERN.test(id);
+}
+
+// 형식이 맞지 않는 모델 ID (요청 값을 파일 이름으로 쓰지 않도록)
+export class InvalidModelIdError extends Error {
+  constructor(id: string) {
+    super(`잘못된 모델 ID입니다: ${id.slice(0, 80)}`);
+    this.name = "InvalidModelIdError";
+  }
+}
+
+const assertModelId = (id: string) => {
+  if (!isModelId(id)) throw new InvalidModelIdError(id);
+};
+
+/**
+ * 로컬 디스크 백엔드 (디렉터리 하나에 키별 파일)
+ */
+export class DiskStorageBackend implements ModelStorageBackend {
+  constructor(private readonly dir: string) {}
+
+  // 키는 디렉터리 바로 아래 파일 이름만 허용
+  private filePath(key: string) {
+    const root = path.resolve(this.dir);
+    const file = path.resolve(root, key);
+    if (path.dirname(file) !== root) throw new Error(`저장 디렉터리 밖의 키입니다: ${key}`);
+    return file;
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const file = this.filePath(key);
+    try {
+      return await fs.readFile(file);
+    } catch {
+      return null;
+    }
+  }
+
+  // 임시 파일에 쓴 뒤 이름 변경 (다른 인스턴스가 쓰다 만 파일을 읽지 않도록)
+  async write(key: string, data: Buffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const temp = `${this.filePath(key)}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, this.filePath(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      return (await fs.readdir(this.dir)).filter(name => !name.endsWith(".tmp"));
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * 변환 결과 저장소 (항목별 메타데이터 + LRU 용량 관리)
+ * - 공유 인덱스 파일 없이 항목마다 메타데이터 파일 하나 (여러 인스턴스가 같은 파일을 읽고-고쳐-쓰지 않음)
+ * - 저장 순서: 메타데이터(쓰는 중) → 결과 파일 → 메타데이터(완료), 쓰는 중인 항목은 없는 것으로 봄
+ * - 조회 시각은 메모리에 모았다가 일정 간격으로 기록 (조회마다 파일을 다시 쓰지 않음)
+ * - 모델 ID 형식이 맞지 않으면 InvalidModelIdError
+ */
+export class ModelStore {
+  private cleaned = false;
+  private queue: Promise<unknown> = Promise.resolve();
+  private touches = new Map<string, number>();
+  private touchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly backend: ModelStorageBackend,
+    readonly formatVersion: number,
+    readonly maxBytes: number = DEFAULT_MAX_BYTES
+  ) {}
+
+  // 이 프로세스의 변경(저장·삭제·용량 정리·조회 시각 기록)은 한 번에 하나씩
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readMeta(id: string): Promise<StoredMeta | null> {
+    try {
+      const raw = await this.backend.read(`${id}${META_SUFFIX}`);
+      return raw ? JSON.parse(raw.toString("utf8")) : null;
+    } catch (e) {
+      console.warn(`변환 결과 메타데이터 읽기 실패 (${id}):`, e);
+      return null;
+    }
+  }
+
+  private async writeMeta(meta: StoredMeta) {
+    await this.backend.write(`${meta.id}${META_SUFFIX}`, Buffer.from(JSON.stringify(meta)));
+  }
+
+  // 현재 형식 버전의 완료된 항목 (아직 기록하지 않은 조회 시각 반영)
+  private usable(meta: StoredMeta | null): StoredModelEntry | null {
+    if (!meta || meta.writing || meta.formatVersion !== this.formatVersion) return null;
+    const entry: StoredModelEntry = meta;
+    const touched = this.touches.get(entry.id);
+    return touched && touched > entry.lastAccessedAt ? { ...entry, lastAccessedAt: touched } : entry;
+  }
+
+  private async removeEntry(id: string) {
+    this.touches.delete(id);
+    for (const suffix of ENTRY_SUFFIXES) await this.backend.remove(`${id}${suffix}`);
+    await this.backend.remove(`${id}${META_SUFFIX}`);
+  }
+
+  // 전체 메타데이터 (처음 한 번은 메타데이터 없는 결과 파일·이전 형식 인덱스·중단된 저장 정리)
+  private async loadEntries(): Promise<StoredMeta[]> {
+    const keys = await this.backend.keys();
+    const metas: StoredMeta[] = [];
+    for (const key of keys) {
+      if (!key.endsWith(META_SUFFIX)) continue;
+      const meta = await this.readMeta(key.slice(0, -META_SUFFIX.length));
+      if (meta) metas.push(meta);
+    }
+
+    if (!this.cleaned) {
+      this.cleaned = true;
+      const ids = new Set(metas.map(meta => meta.id));
+      for (const key of keys) {
+        const suffix = ENTRY_SUFFIXES.find(s => key.endsWith(s));
+        if (key === LEGACY_INDEX_KEY || (suffix && !ids.has(key.slice(0, -suffix.length)))) {
+          await this.backend.remove(key);
+        }
+      }
+      const now = Date.now();
+      for (const meta of metas.filter(m => m.writing && now - m.createdAt > STALE_WRITE_MS)) {
+        await this.removeEntry(meta.id);
+        metas.splice(metas.indexOf(meta), 1);
+      }
+    }
+    return metas;
+  }
+
+  // 상한을 넘으면 오래 조회하지 않은 항목부터 삭제 (keepId는 방금 저장한 항목, 다른 형식 버전 항목도 용량에 포함)
+  private async evict(keepId: string) {
+    const entries = (await this.loadEntries()).filter(meta => !meta.writing || meta.id === keepId);
+    let total = entries.reduce((sum, e) => sum + e.byteSize, 0);
+    const candidates = entries
+      .filter(e => e.id !== keepId)
+      .map(e => ({ ...e, lastAccessedAt: Math.max(e.lastAccessedAt, this.touches.get(e.id) ?? 0) }))
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    for (const entry of candidates) {
+      if (total <= this.maxBytes) break;
+      await this.removeEntry(entry.id);
+      total -= entry.byteSize;
+      console.log(`🧹 변환 결과 삭제 (용량 초과): ${entry.fileName}`);
+    }
+  }
+
+  // 조회 시각은 모아 두었다가 TOUCH_FLUSH_MS마다 기록
+  private touch(id: string) {
+    this.touches.set(id, Date.now());
+    if (this.touchTimer) return;
+    this.touchTimer = setTimeout(() => {
+      this.touchTimer = null;
+      this.flushTouches().catch(e => console.warn("변환 결과 조회 시각 기록 실패:", e));
+    }, TOUCH_FLUSH_MS);
+    this.touchTimer.unref?.();
+  }
+
+  private flushTouches(): Promise<void> {
+    return this.exclusive(async () => {
+      const touches = Array.from(this.touches);
+      this.touches.clear();
+      for (const [id, time] of touches) {
+        const meta = await this.readMeta(id);
+        if (!meta || meta.writing || meta.lastAccessedAt >= time) continue;
+        await this.writeMeta({ ...meta, lastAccessedAt: time });
+      }
+    });
+  }
+
+  // 항목 삭제 (그 사이 다시 저장됐으면 둠)
+  private removeIfUnchanged(id: string, createdAt: number): Promise<void> {
+    return this.exclusive(async () => {
+      const current = await this.readMeta(id);
+      if (current && !current.writing && current.createdAt === createdAt) await this.removeEntry(id);
+    });
+  }
+
+  // 항목 파일 읽기 (형식 버전이 다르거나 파일이 없으면 항목 삭제 후 null, 조회 시각 갱신)
+  private async read(id: string, suffixes: string[]): Promise<{ entry: StoredModelEntry; data: Buffer[] } | null> {
+    const meta = await this.readMeta(id);
+    if (!meta || meta.writing) return null;
+    const entry = this.usable(meta);
+    if (!entry) {
+      await this.removeIfUnchanged(id, meta.createdAt);
+      return null;
+    }
+
+    const data: Buffer[] = [];
+    for (const suffix of suffixes) {
+      const file = await this.backend.read(`${id}${suffix}`);
+      if (!file) {
+        await this.removeIfUnchanged(id, meta.createdAt);
+        return null;
+      }
+      data.push(file);
+    }
+
+    this.touch(id);
+    return { entry: { ...entry, lastAccessedAt: this.touches.get(id)! }, data };
+  }
+
+  /**
+   * 변환 결과(지오메트리 바이너리) 조회
+   */
+  async get(id: string): Promise<{ entry: StoredModelEntry; payload: Buffer } | null> {
+    assertModelId(id);
+    const result = await this.read(id, [PAYLOAD_SUFFIX]);
+    return result && { entry: result.entry, payload: result.data[0] };
+  }
+
+  /**
+   * 요소 속성 색인(lib/server/elementIndex) + 바이너리 헤더 조회 (지오메트리는 읽지 않음)
+   */
+  async getElements(id: string): Promise<{ entry: StoredModelEntry; elements: Buffer; header: Buffer } | null> {
+    assertModelId(id);
+    const result = await this.read(id, [ELEMENTS_SUFFIX, HEADER_SUFFIX]);
+    return result && { entry: result.entry, elements: result.data[0], header: result.data[1] };
+  }
+
+  /**
+   * 현재 형식 버전의 항목 메타데이터 (결과 파일은 읽지 않음)
+   * touch면 조회 시각 갱신 (메모리에 보관한 조회 결과를 쓸 때)
+   */
+  async getEntry(id: string, touch = false): Promise<StoredModelEntry | null> {
+    assertModelId(id);
+    const entry = this.usable(await this.readMeta(id));
+    if (entry && touch) this.touch(id);
+    return entry;
+  }
+
+  /**
+   * 현재 형식 버전의 변환 결과가 있는지 (조회 시각은 갱신하지 않음)
+   */
+  async has(id: string): Promise<boolean> {
+    return (await this.getEntry(id)) !== null;
+  }
+
+  /**
+   * 변환 결과 저장 (같은 해시는 덮어씀)
+   */
+  put(
+    meta: Pick<StoredModelEntry, "id" | "fileName" | "sourceSize" | "meshCount" | "elementCount">,
+    payload: Buffer,
+    elements: Buffer,
+    header: Buffer
+  ): Promise<StoredModelEntry> {
+    return this.exclusive(async () => {
+      assertModelId(meta.id);
+      const now = Date.now();
+      const entry: StoredModelEntry = {
+        ...meta,
+        formatVersion: this.formatVersion,
+        byteSize: payload.byteLength + elements.byteLength + header.byteLength,
+        createdAt: now,
+        lastAccessedAt: now,
+      };
+
+      await this.writeMeta({ ...entry, writing: true });
+      await this.backend.write(`${meta.id}${PAYLOAD_SUFFIX}`, payload);
+      await this.backend.write(`${meta.id}${ELEMENTS_SUFFIX}`, elements);
+      await this.backend.write(`${meta.id}${HEADER_SUFFIX}`, header);
+      await this.writeMeta(entry);
+      this.touches.delete(meta.id);
+      await this.evict(meta.id);
+      return { ...entry };
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      assertModelId(id);
+      if (!(await this.readMeta(id))) return false;
+      await this.removeEntry(id);
+      return true;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      for (const meta of await this.loadEntries()) await this.removeEntry(meta.id);
+    });
+  }
+
+  /**
+   * 저장된 변환 결과 목록 (최근 조회순) + 전체 용량
+   */
+  async list(): Promise<{ entries: StoredModelEntry[]; totalBytes: number; maxBytes: number }> {
+    const entries = (await this.loadEntries())
+      .map(meta => this.usable(meta))
+      .filter((e): e is StoredModelEntry => e !== null)
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+    return {
+      entries,
+      totalBytes: entries.reduce((sum, e) => sum + e.byteSize, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+}
+
+// 환경 변수 설정 (IFC_MODEL_STORE_DIR, IFC_MODEL_STORE_MAX_MB)
+const storeDir = () => process.env.IFC_MODEL_STORE_DIR || DEFAULT_STORE_DIR;
+const storeMaxBytes = () => {
+  const mb = Number(process.env.IFC_MODEL_STORE_MAX_MB);
+  return mb > 0 ? mb * 1024 * 1024 : DEFAULT_MAX_BYTES;
+};
+
+const stores = new Map<number, ModelStore>();
+
+/**
+ * 변환 결과 형식 버전별 저장소 (프로세스당 하나)
+ */
+export function getModelStore(formatVersion: number = MODEL_FORMAT_VERSION): ModelStore {
+  let store = stores.get(formatVersion);
+  if (!store) {
+    store = new ModelStore(new DiskStorageBackend(storeDir()), formatVersion, storeMaxBytes());
+    stores.set(formatVersion, store);
+  }
+  return store;
+}
@@ -0,0 +1,218 @@
+/**
+ * 간섭 검토 (Clash Detection) - 두 요소 집합 사이의 하드 간섭·여유 거리 간섭
+ * - 1단계: 요소별 월드 경계 상자를 x축 기준으로 훑어 (여유 거리만큼 넓혀) 겹치는 쌍만 추림 (sweep and prune)
+ * - 2단계: three-mesh-bvh로 삼각형 단위 판정
+ *   하드: MeshBVH.intersectsGeometry (경계 상자 겹침이 허용 오차 이하인 맞닿음은 제외)
+ *   여유: MeshBVH.closestPointToGeometry (여유 거리 안의 최단 거리·지점)
+ * - 같은 요소가 두 집합에 모두 있으면 자기 자신과는 비교하지 않고, 같은 쌍은 한 번만 검사
+ */
+
+import * as THREE from "three";
+import { MeshBVH } from "three-mesh-bvh";
+import type { Clash } from "@/types/ifc";
+
+// 요소 하나 (요소 키 + 그 요소의 메시들, 월드 행렬은 호출 전에 갱신)
+export interface ClashElement {
+  key: number;
+  meshes: THREE.Mesh[];
+}
+
+export interface ClashOptions {
+  clearance?: number;  // 여유 거리 (m), 0이면 하드 간섭만
+  tolerance?: number;  // 하드 간섭으로 보지 않을 겹침 깊이 (m) - 맞닿은 요소 제외
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export type ClashHit = Omit<Clash, "id" | "elementA" | "elementB" | "group" | "status">;
+
+export const DEFAULT_CLASH_TOLERANCE = 0.001;
+
+export class ClashCancelledError extends Error {
+  constructor() {
+    super("간섭 검토가 취소되었습니다");
+    this.name = "ClashCancelledError";
+  }
+}
+
+// 정밀 판정 중 UI 양보 간격 (요소 쌍 수)
+const YIELD_INTERVAL = 200;
+
+interface BoxedElement extends ClashElement {
+  box: THREE.Box3;
+}
+
+const toBoxed = (element: ClashElement): BoxedElement | null => {
+  const box = new THREE.Box3();
+  for (const mesh of element.meshes) {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    if (geometry.boundingBox) box.union(geometry.boundingBox.clone().applyMatrix4(mesh.matrixWorld));
+  }
+  return box.isEmpty() ? null : { ...element, box };
+};
+
+const boxesNear = (a: THREE.Box3, b: THREE.Box3, gap: number) =>
+  a.min.x <= b.max.x + gap && a.max.x + gap >= b.min.x &&
+  a.min.y <= b.max.y + gap && a.max.y + gap >= b.min.y &&
+  a.min.z <= b.max.z + gap && a.max.z + gap >= b.min.z;
+
+// 경계 상자 겹침이 가장 얇은 축의 두께 (겹치지 않으면 0)
+const overlapDepth = (overlap: THREE.Box3) => {
+  if (overlap.isEmpty()) return 0;
+  const size = overlap.getSize(new THREE.Vector3());
+  return Math.min(size.x, size.y, size.z);
+};
+
+// 행렬 축 중 가장 작은 배율 (월드 거리 → 로컬 거리 환산, mm 모델은 0.001 같은 배율이 들어 있음)
+const minScaleOnAxis = (matrix: THREE.Matrix4) => {
+  const e = matrix.elements;
+  return Math.sqrt(Math.min(
+    e[0] * e[0] + e[1] * e[1] + e[2] * e[2],
+    e[4] * e[4] + e[5] * e[5] + e[6] * e[6],
+    e[8] * e[8] + e[9] * e[9] + e[10] * e[10]
+  ));
+};
+
+/**
+ * 1단계: 경계 상자가 gap 안으로 가까운 (A, B) 쌍
+ */
+function findCandidatePairs(setA: BoxedElement[], setB: BoxedElement[], gap: number): [BoxedElement, BoxedElement][] {
+  type Entry = { element: BoxedElement; side: 0 | 1 };
+  const entries: Entry[] = [
+    ...setA.map(element => ({ element, side: 0 as const })),
+    ...setB.map(element => ({ element, side: 1 as const })),
+  ].sort((a, b) => a.element.box.min.x - b.element.box.min.x);
+
+  const active: [Entry[], Entry[]] = [[], []];
+  const seen = new Set<string>();
+  const pairs: [BoxedElement, BoxedElement][] = [];
+
+  for (const entry of entries) {
+    const { box } = entry.element;
+    // x축으로 이미 멀어진 요소는 활성 목록에서 제거
+    for (let side = 0; side < 2; side++) {
+      active[side] = active[side].filter(other => other.element.box.max.x + gap >= box.min.x);
+    }
+
+    for (const other of active[entry.side === 0 ? 1 : 0]) {
+      const [a, b] = entry.side === 0 ? [entry.element, other.element] : [other.element, entry.element];
+      if (a.key === b.key || !boxesNear(a.box, b.box, gap)) continue;
+      const pairKey = a.key < b.key ? `${a.key}_${b.key}` : `${b.key}_${a.key}`;
+      if (seen.has(pairKey)) continue;
+      seen.add(pairKey);
+      pairs.push([a, b]);
+    }
+    active[entry.side].push(entry);
+  }
+  return pairs;
+}
+
+/**
+ * 두 집합의 간섭 목록 (A 요소 순서가 아니라 발견 순서)
+ */
+export async function detectClashes(
+  setA: ClashElement[],
+  setB: ClashElement[],
+  { clearance = 0, tolerance = DEFAULT_CLASH_TOLERANCE, signal, onProgress }: ClashOptions = {}
+): Promise<ClashHit[]> {
+  const boxedA = setA.map(toBoxed).filter((e): e is BoxedElement => e !== null);
+  const boxedB = setB.map(toBoxed).filter((e): e is BoxedElement => e !== null);
+  const pairs = findCandidatePairs(boxedA, boxedB, clearance);
+
+  // 메시마다 BVH (로드 시 적용된 것 재사용, 없으면 이번 검사 동안만 생성)
+  const bvhCache = new Map<THREE.Mesh, MeshBVH>();
+  const bvhOf = (mesh: THREE.Mesh) => {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    let bvh = geometry.boundsTree ?? bvhCache.get(mesh);
+    if (!bvh) {
+      bvh = new MeshBVH(geometry);
+      bvhCache.set(mesh, bvh);
+    }
+    return bvh;
+  };
+
+  const bToA = new THREE.Matrix4();
+  const worldToA = new THREE.Matrix4();
+  const target1 = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  const target2 = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+
+  const hits: ClashHit[] = [];
+  for (let i = 0; i < pairs.length; i++) {
+    if (i % YIELD_INTERVAL === 0) {
+      if (signal?.aborted) throw new ClashCancelledError();
+      onProgress?.(i, pairs.length);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const [a, b] = pairs[i];
+    const overlap = a.box.clone().intersect(b.box);
+    const depth = overlapDepth(overlap);
+
+    // 하드 간섭 - 삼각형이 서로 교차
+    let hard = false;
+    if (depth > tolerance) {
+      for (const meshA of a.meshes) {
+        const bvh = bvhOf(meshA);
+        worldToA.copy(meshA.matrixWorld).invert();
+        for (const meshB of b.meshes) {
+          bToA.multiplyMatrices(worldToA, meshB.matrixWorld);
+          if (bvh.intersectsGeometry(meshB.geometry as THREE.BufferGeometry, bToA)) {
+            hard = true;
+            break;
+          }
+        }
+        if (hard) break;
+      }
+    }
+    if (hard) {
+      const center = overlap.getCenter(new THREE.Vector3());
+      hits.push({
+        keyA: a.key,
+        keyB: b.key,
+        kind: "hard",
+        distance: 0,
+        depth,
+        point: center.toArray(),
+        box: { min: overlap.min.toArray(), max: overlap.max.toArray() },
+      });
+      continue;
+    }
+    if (clearance <= 0) continue;
+
+    // 여유 거리 간섭 - 최단 거리가 여유 거리 이내
+    let closest: { distance: number; pointA: THREE.Vector3; pointB: THREE.Vector3 } | null = null;
+    for (const meshA of a.meshes) {
+      const bvh = bvhOf(meshA);
+      worldToA.copy(meshA.matrixWorld).invert();
+      // 거리 기준은 meshA 로컬 단위로 적용되므로 여유 거리(m)를 로컬 단위로 환산 (최종 판정은 아래 월드 거리)
+      const scale = minScaleOnAxis(meshA.matrixWorld);
+      const localClearance = scale > 0 ? clearance / scale : Infinity;
+      for (const meshB of b.meshes) {
+        bToA.multiplyMatrices(worldToA, meshB.matrixWorld);
+        const found = bvh.closestPointToGeometry(meshB.geometry as THREE.BufferGeometry, bToA, target1, target2, 0, localClearance);
+        if (!found) continue;
+        // target1은 meshA 로컬, target2는 meshB 로컬 좌표
+        const pointA = target1.point.clone().applyMatrix4(meshA.matrixWorld);
+        const pointB = target2.point.clone().applyMatrix4(meshB.matrixWorld);
+        const distance = pointA.distanceTo(pointB);
+        if (distance <= clearance && (!closest || distance < closest.distance)) closest = { distance, pointA, pointB };
+      }
+    }
+    if (closest) {
+      const box = new THREE.Box3().setFromPoints([closest.pointA, closest.pointB]).expandByScalar(clearance);
+      hits.push({
+        keyA: a.key,
+        keyB: b.key,
+        kind: "clearance",
+        distance: closest.distance,
+        depth,
+        point: closest.pointA.clone().add(closest.pointB).multiplyScalar(0.5).toArray(),
+        box: { min: box.min.toArray(), max: box.max.toArray() },
+      });
+    }
+  }
+
+  onProgress?.(pairs.length, pairs.length);
+  return hits;
+}
@@ -34,3 +34,23 @@ export {
   StencilHighlighter,
   MaterialHighlighter,
 } from "./stencilHighlighter";
+
+// 측정 (스냅, 길이·각도·면적, 요소 간 거리)
+export {
+  snapIntersection,
+  polylineLength,
+  angleAt,
+  polygonArea,
+  projectToPlane,
+  closestPointsBetween,
+  formatMeasureValue,
+} from "./measurement";
+export type { SnapResult } from "./measurement";
+
+// 간섭 검토 (하드·여유 거리)
+export {
+  detectClashes,
+  ClashCancelledError,
+  DEFAULT_CLASH_TOLERANCE,
+} from "./clashDetection";
+export type { ClashElement, ClashHit, ClashOptions } from "./clashDetection";
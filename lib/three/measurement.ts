@@ -0,0 +1,201 @@
+/**
+ * 측정 유틸리티
+ * - 꼭짓점/모서리/면 스냅 (BVH 레이캐스트 결과 기준)
+ * - 길이·각도·면적 계산
+ * - 요소 간 최소 거리 (three-mesh-bvh closestPointToGeometry)
+ */
+
+import * as THREE from "three";
+import { MeshBVH } from "three-mesh-bvh";
+import { SnapKind } from "@/types/ifc";
+
+export interface SnapResult {
+  point: THREE.Vector3;
+  kind: SnapKind;
+  normal: THREE.Vector3; // 카메라 쪽을 향하는 면 법선 (월드)
+}
+
+// 인접 면과 이 각도 이상 꺾인 모서리만 스냅 (사각형 면의 대각선 제외)
+const FEATURE_EDGE_ANGLE = 1;
+const FEATURE_EDGE_COS = Math.cos(THREE.MathUtils.degToRad(FEATURE_EDGE_ANGLE));
+
+const featureEdgeCache = new WeakMap<THREE.BufferGeometry, Set<string>>();
+
+// 위치 기준 키 (정점이 면마다 복제된 지오메트리도 같은 모서리로 인식)
+const vertexKey = (v: THREE.Vector3) => `${Math.round(v.x * 1e4)},${Math.round(v.y * 1e4)},${Math.round(v.z * 1e4)}`;
+const edgeKey = (a: THREE.Vector3, b: THREE.Vector3) => {
+  const ka = vertexKey(a);
+  const kb = vertexKey(b);
+  return ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+};
+
+// 지오메트리의 특징 모서리 (경계 또는 꺾인 모서리) - 처음 스냅할 때 한 번만 계산
+function getFeatureEdges(geometry: THREE.BufferGeometry): Set<string> {
+  const cached = featureEdgeCache.get(geometry);
+  if (cached) return cached;
+
+  const position = geometry.getAttribute("position");
+  const index = geometry.index;
+  const triangleCount = (index ? index.count : position.count) / 3;
+  const vertices = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const triangle = new THREE.Triangle();
+  const edgeNormals = new Map<string, THREE.Vector3>();
+  const featureEdges = new Set<string>();
+
+  for (let t = 0; t < triangleCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      vertices[k].fromBufferAttribute(position, index ? index.getX(t * 3 + k) : t * 3 + k);
+    }
+    triangle.set(vertices[0], vertices[1], vertices[2]);
+    const normal = triangle.getNormal(new THREE.Vector3());
+
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(vertices[k], vertices[(k + 1) % 3]);
+      const other = edgeNormals.get(key);
+      if (!other) {
+        edgeNormals.set(key, normal);
+        featureEdges.add(key);
+      } else if (other.dot(normal) >= FEATURE_EDGE_COS) {
+        featureEdges.delete(key);
+      }
+    }
+  }
+
+  featureEdgeCache.set(geometry, featureEdges);
+  return featureEdges;
+}
+
+/**
+ * 레이캐스트 결과를 가까운 꼭짓점 → 특징 모서리 → 면 순서로 스냅
+ * @param tolerance 스냅 허용 거리 (px)
+ */
+export function snapIntersection(
+  hit: THREE.Intersection,
+  camera: THREE.Camera,
+  viewport: { width: number; height: number },
+  tolerance = 10
+): SnapResult {
+  const mesh = hit.object as THREE.Mesh;
+  const geometry = mesh.geometry as THREE.BufferGeometry;
+  const face = hit.face;
+
+  const normal = face
+    ? face.normal.clone().transformDirection(mesh.matrixWorld)
+    : new THREE.Vector3(0, 1, 0);
+  if (normal.dot(camera.getWorldDirection(new THREE.Vector3())) > 0) normal.negate();
+
+  if (!face || !geometry?.getAttribute("position")) {
+    return { point: hit.point.clone(), kind: "face", normal };
+  }
+
+  const toScreen = (v: THREE.Vector3) => {
+    const p = v.clone().project(camera);
+    return new THREE.Vector2((p.x + 1) / 2 * viewport.width, (1 - p.y) / 2 * viewport.height);
+  };
+  const hitScreen = toScreen(hit.point);
+
+  const position = geometry.getAttribute("position");
+  const local = [face.a, face.b, face.c].map(i => new THREE.Vector3().fromBufferAttribute(position, i));
+  const world = local.map(v => v.clone().applyMatrix4(mesh.matrixWorld));
+
+  // 꼭짓점
+  let best: THREE.Vector3 | null = null;
+  let bestDistance = tolerance;
+  for (const v of world) {
+    const d = toScreen(v).distanceTo(hitScreen);
+    if (d <= bestDistance) {
+      best = v;
+      bestDistance = d;
+    }
+  }
+  if (best) return { point: best.clone(), kind: "vertex", normal };
+
+  // 모서리 (특징 모서리만)
+  const featureEdges = getFeatureEdges(geometry);
+  const segment = new THREE.Line3();
+  for (let k = 0; k < 3; k++) {
+    if (!featureEdges.has(edgeKey(local[k], local[(k + 1) % 3]))) continue;
+    segment.set(world[k], world[(k + 1) % 3]);
+    const closest = segment.closestPointToPoint(hit.point, true, new THREE.Vector3());
+    const d = toScreen(closest).distanceTo(hitScreen);
+    if (d <= bestDistance) {
+      best = closest;
+      bestDistance = d;
+    }
+  }
+  if (best) return { point: best, kind: "edge", normal };
+
+  return { point: hit.point.clone(), kind: "face", normal };
+}
+
+// 폴리라인 길이
+export function polylineLength(points: THREE.Vector3[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += points[i].distanceTo(points[i - 1]);
+  return length;
+}
+
+// 꼭짓점 b에서 a-b-c가 이루는 각도 (°)
+export function angleAt(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  const ba = a.clone().sub(b);
+  const bc = c.clone().sub(b);
+  if (ba.lengthSq() === 0 || bc.lengthSq() === 0) return 0;
+  return THREE.MathUtils.radToDeg(ba.angleTo(bc));
+}
+
+// 다각형 면적 (Newell 방식 - 평면이 아니면 가장 잘 맞는 평면에 투영한 면적)
+export function polygonArea(points: THREE.Vector3[]): number {
+  if (points.length < 3) return 0;
+  const sum = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    sum.add(new THREE.Vector3().crossVectors(points[i], points[(i + 1) % points.length]));
+  }
+  return sum.length() / 2;
+}
+
+// 점에서 평면(origin, normal)으로 내린 수선의 발
+export function projectToPlane(point: THREE.Vector3, origin: THREE.Vector3, normal: THREE.Vector3): THREE.Vector3 {
+  const n = normal.clone().normalize();
+  return point.clone().addScaledVector(n, -n.dot(point.clone().sub(origin)));
+}
+
+/**
+ * 두 메시 묶음 사이의 최소 거리와 양쪽 최근접점 (월드)
+ * 메시에 BVH가 없으면 새로 만들어 사용
+ */
+export function closestPointsBetween(
+  meshesA: THREE.Mesh[],
+  meshesB: THREE.Mesh[]
+): { distance: number; pointA: THREE.Vector3; pointB: THREE.Vector3 } | null {
+  let result: { distance: number; pointA: THREE.Vector3; pointB: THREE.Vector3 } | null = null;
+  const geometryToBvh = new THREE.Matrix4();
+  const target1 = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+  const target2 = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+
+  for (const a of meshesA) {
+    const geometryA = a.geometry as THREE.BufferGeometry;
+    const bvh = geometryA.boundsTree ?? new MeshBVH(geometryA);
+    a.updateWorldMatrix(true, false);
+    const worldToA = a.matrixWorld.clone().invert();
+
+    for (const b of meshesB) {
+      b.updateWorldMatrix(true, false);
+      geometryToBvh.multiplyMatrices(worldToA, b.matrixWorld);
+      if (!bvh.closestPointToGeometry(b.geometry as THREE.BufferGeometry, geometryToBvh, target1, target2)) continue;
+
+      // target1은 a의 로컬, target2는 b의 로컬 좌표
+      const pointA = target1.point.clone().applyMatrix4(a.matrixWorld);
+      const pointB = target2.point.clone().applyMatrix4(b.matrixWorld);
+      const distance = pointA.distanceTo(pointB);
+      if (!result || distance < result.distance) result = { distance, pointA, pointB };
+    }
+  }
+  return result;
+}
+
+// 측정값 표시 문자열
+export function formatMeasureValue(value: number, unit: "m" | "m²" | "°"): string {
+  if (unit === "°") return `${value.toFixed(1)}°`;
+  if (unit === "m²") return `${value.toFixed(2)} m²`;
+  return value < 1 ? `${(value * 1000).toFixed(0)} mm` : `${value.toFixed(3)} m`;
+}
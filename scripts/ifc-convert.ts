@@ -0,0 +1,271 @@
+/**
+ * IFC 일괄 변환 CLI (브라우저·서버 없이 실행)
+ *
+ *   npm run convert -- <IFC 파일 또는 폴더...> [--out 출력 폴더] [--format binary|json|both]
+ *                      [--no-glb] [--no-csv] [--force]
+ *
+ * 파일마다 <출력 폴더>/<파일 이름>/ 에
+ *   model.ifcb     변환 결과 바이너리 (/api/convert 응답과 같은 형식, lib/ifc/modelPayload)
+ *   model.json     지오메트리 외 모델 정보 (자재 목록, 층, 공간 트리, 요소 속성)
+ *   materials.csv  층별 수량표 (화면의 CSV 내보내기와 같은 형식)
+ *   storeys.csv    층별 요약
+ *   model.glb      glTF 바이너리
+ *   manifest.json  원본 해시·개수·소요 시간 (원본이 그대로면 다음 실행에서 건너뜀)
+ * 출력 폴더의 report.json에 전체 결과, 실패가 있으면 종료 코드 1
+ *
+ * 변환·추출은 서버 변환(lib/server/convertIfc)과 같은 코드 → Web Worker와 같은 공간 트리·층·자재 목록
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { convertIfc, payloadOptions } from "@/lib/server/convertIfc";
+import { decodeElementIndex } from "@/lib/server/elementIndex";
+import { decodeModelPayload } from "@/lib/ifc/modelPayload";
+import { sumQuantities } from "@/lib/ifc/takeoff";
+import { createGlb } from "@/lib/export/glb";
+import { MaterialExportInput, materialsToCsv, storeySummaryToCsv } from "@/lib/export/materialExport";
+
+type OutputFormat = "binary" | "json" | "both";
+
+interface CliOptions {
+  outDir: string;
+  format: OutputFormat;
+  glb: boolean;
+  csv: boolean;
+  force: boolean;
+}
+
+interface Manifest {
+  source: string;
+  sourceHash: string;   // 원본 IFC SHA-256 (서버 modelId와 같은 값)
+  sourceSize: number;
+  outputs: string[];
+  meshCount: number;
+  elementCount: number;
+  materialCount: number;
+  storeyCount: number;
+  durationMs: number;
+  createdAt: string;
+}
+
+interface FileResult {
+  source: string;
+  status: "converted" | "skipped" | "failed";
+  outDir: string;
+  error?: string;
+  manifest?: Manifest;
+}
+
+const USAGE = `사용법: npm run convert -- <IFC 파일 또는 폴더...> [옵션]
+
+옵션:
+  --out <폴더>       출력 폴더 (기본: ./ifc-output)
+  --format <형식>    binary | json | both (기본: both)
+  --no-glb           GLB 생성 안 함
+  --no-csv           수량표·층 요약 CSV 생성 안 함
+  --force            원본이 그대로여도 다시 변환
+  -h, --help         도움말`;
+
+const MB = 1024 * 1024;
+
+function parseCli(argv: string[]): { inputs: string[]; options: CliOptions } | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", default: "ifc-output" },
+      format: { type: "string", default: "both" },
+      "no-glb": { type: "boolean", default: false },
+      "no-csv": { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) return null;
+  if (!["binary", "json", "both"].includes(values.format!)) {
+    throw new Error(`--format은 binary, json, both 중 하나여야 합니다: ${values.format}`);
+  }
+
+  return {
+    inputs: positionals,
+    options: {
+      outDir: path.resolve(values.out!),
+      format: values.format as OutputFormat,
+      glb: !values["no-glb"],
+      csv: !values["no-csv"],
+      force: values.force!,
+    },
+  };
+}
+
+// 파일·폴더 인자 → .ifc 파일 목록 (폴더는 하위까지, 이름순)
+async function collectIfcFiles(inputs: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  const visit = async (target: string) => {
+    const stat = await fs.stat(target);
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(target)).sort();
+      for (const entry of entries) await visit(path.join(target, entry));
+    } else if (target.toLowerCase().endsWith(".ifc")) {
+      files.add(path.resolve(target));
+    }
+  };
+  for (const input of inputs) await visit(input);
+  return Array.from(files);
+}
+
+// 출력 폴더 이름 (같은 파일 이름이 여러 폴더에 있으면 경로 해시를 붙임)
+function outputNames(files: string[]): Map<string, string> {
+  const counts = new Map<string, number>();
+  const base = (file: string) => path.basename(file, path.extname(file)).replace(/[^\w.\-가-힣]+/g, "_");
+  files.forEach(file => counts.set(base(file), (counts.get(base(file)) || 0) + 1));
+  return new Map(files.map(file => {
+    const name = base(file);
+    const suffix = (counts.get(name) || 0) > 1
+      ? `-${createHash("sha256").update(file).digest("hex").slice(0, 8)}`
+      : "";
+    return [file, name + suffix];
+  }));
+}
+
+// 옵션별 출력 파일 목록 (이전 실행에 모두 있어야 건너뜀)
+const expectedOutputs = (options: CliOptions) => [
+  ...(options.format !== "json" ? ["model.ifcb"] : []),
+  ...(options.format !== "binary" ? ["model.json"] : []),
+  ...(options.csv ? ["materials.csv", "storeys.csv"] : []),
+  ...(options.glb ? ["model.glb"] : []),
+];
+
+async function readManifest(dir: string): Promise<Manifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, "manifest.json"), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function convertFile(source: string, outDir: string, options: CliOptions): Promise<FileResult> {
+  const started = Date.now();
+  const data = new Uint8Array(await fs.readFile(source));
+  const sourceHash = createHash("sha256").update(data).digest("hex");
+
+  const previous = await readManifest(outDir);
+  const upToDate = previous?.sourceHash === sourceHash &&
+    expectedOutputs(options).every(name => previous.outputs.includes(name));
+  if (!options.force && upToDate) {
+    return { source, status: "skipped", outDir, manifest: previous };
+  }
+
+  const fileName = path.basename(source);
+  const result = await convertIfc({ data, modelId: sourceHash, fileName }, payloadOptions());
+  const { header, geometries, meshes } = decodeModelPayload(result.payload);
+  const { classNames, elements } = decodeElementIndex(result.elements);
+
+  await fs.mkdir(outDir, { recursive: true });
+  const outputs: string[] = [];
+  const write = async (name: string, content: string | Uint8Array) => {
+    await fs.writeFile(path.join(outDir, name), content);
+    outputs.push(name);
+  };
+
+  if (options.format !== "json") await write("model.ifcb", result.payload);
+  if (options.format !== "binary") {
+    await write("model.json", JSON.stringify({ ...header, elements }, null, 2));
+  }
+
+  if (options.csv) {
+    const exportInput: MaterialExportInput = {
+      materials: header.materials,
+      storeys: header.storeys,
+      getQuantityTotals: ids => sumQuantities(ids, result.elementQuantities),
+      modelName: fileName,
+    };
+    await write("materials.csv", materialsToCsv(exportInput));
+    await write("storeys.csv", storeySummaryToCsv(exportInput));
+  }
+
+  if (options.glb) {
+    // 노드 이름: "IfcWall 외벽-01 #123"
+    const records = new Map(elements.map(record => [record.expressID, record]));
+    const glb = createGlb(geometries, meshes, {
+      sceneName: fileName,
+      nodeName: mesh => {
+        const record = records.get(mesh.expressID);
+        return [classNames[mesh.typeCode], record?.name, `#${mesh.expressID}`].filter(Boolean).join(" ");
+      },
+    });
+    await write("model.glb", glb);
+  }
+
+  const manifest: Manifest = {
+    source,
+    sourceHash,
+    sourceSize: data.byteLength,
+    outputs,
+    meshCount: result.meshCount,
+    elementCount: result.elementCount,
+    materialCount: result.materialCount,
+    storeyCount: header.storeys.length,
+    durationMs: Date.now() - started,
+    createdAt: new Date().toISOString(),
+  };
+  await fs.writeFile(path.join(outDir, "manifest.json"), JSON.stringify(manifest, null, 2));
+  return { source, status: "converted", outDir, manifest };
+}
+
+async function main() {
+  const parsed = parseCli(process.argv.slice(2));
+  if (!parsed) {
+    console.log(USAGE);
+    return;
+  }
+  const { inputs, options } = parsed;
+
+  const files = await collectIfcFiles(inputs);
+  if (files.length === 0) throw new Error("변환할 .ifc 파일이 없습니다");
+
+  const names = outputNames(files);
+  const results: FileResult[] = [];
+  console.log(`🔄 IFC ${files.length}개 변환 → ${options.outDir}`);
+
+  // web-ifc 변환은 동기 실행이라 파일을 하나씩 처리 (메모리도 파일 하나 분량만 사용)
+  for (const [i, source] of files.entries()) {
+    const outDir = path.join(options.outDir, names.get(source)!);
+    const label = `[${i + 1}/${files.length}] ${path.relative(process.cwd(), source)}`;
+    try {
+      const result = await convertFile(source, outDir, options);
+      results.push(result);
+      const m = result.manifest!;
+      console.log(result.status === "skipped"
+        ? `⏭️ ${label} - 변경 없음, 건너뜀`
+        : `✅ ${label} - ${m.meshCount}개 메시, ${m.elementCount}개 요소, ${m.materialCount}개 자재, ` +
+          `${(m.sourceSize / MB).toFixed(2)}MB, ${(m.durationMs / 1000).toFixed(1)}s`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ source, status: "failed", outDir, error: message });
+      console.error(`❌ ${label} - ${message}`);
+    }
+  }
+
+  const count = (status: FileResult["status"]) => results.filter(r => r.status === status).length;
+  const report = {
+    createdAt: new Date().toISOString(),
+    converted: count("converted"),
+    skipped: count("skipped"),
+    failed: count("failed"),
+    files: results,
+  };
+  await fs.mkdir(options.outDir, { recursive: true });
+  await fs.writeFile(path.join(options.outDir, "report.json"), JSON.stringify(report, null, 2));
+
+  console.log(`완료: 변환 ${report.converted}, 건너뜀 ${report.skipped}, 실패 ${report.failed}`);
+  if (report.failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -12,6 +12,19 @@ export interface IFCProperty {
   name: string;
   value: string | number | boolean | null;
   type?: string;
+  unit?: string; // 수량 단위 (m, m², m³ 등)
+}
+
+// 속성 패널 섹션 종류
+export type IFCPropertySectionKind = "attributes" | "pset" | "qto" | "type" | "material" | "classification";
+
+// 속성 패널에 표시되는 그룹 (Pset_WallCommon, Qto_WallBaseQuantities 등)
+export interface IFCPropertySection {
+  id: string;
+  title: string;
+  kind: IFCPropertySectionKind;
+  source?: "instance" | "type"; // 타입 객체에서 상속된 속성인지 여부
+  properties: IFCProperty[];
 }
 
 // 선택된 요소들의 집계 정보
@@ -37,6 +50,68 @@ export interface ElementDimensions {
   ifcSpec?: string; // IFC 속성에서 가져온 규격 문자열
 }
 
+// 수량 값 출처 (IfcElementQuantity 우선, 없으면 메시에서 계산)
+export type QuantitySource = "qto" | "geometry";
+
+// 요소별 산출 수량
+export interface ElementQuantities {
+  area?: number;   // 순면적 (m²) - 벽은 한쪽 면, 슬라브/지붕은 상면, 개구부 제외
+  volume?: number; // 체적 (m³) - 닫힌 메시만
+  length?: number; // 주축 방향 길이 (m)
+  sources: Partial<Record<"area" | "volume" | "length", QuantitySource>>;
+}
+
+// 여러 요소의 수량 합계
+export interface QuantityTotals {
+  area: number;
+  volume: number;
+  length: number;
+  count: number;
+}
+
+// 요소에 연결된 재료 구성 하나 (IfcMaterial, 레이어 세트의 레이어, 프로파일, 구성 재료)
+export type MaterialLayerKind = "material" | "list" | "layer" | "profile" | "constituent";
+
+export interface ElementMaterialLayer {
+  material: string;   // IfcMaterial 이름
+  kind: MaterialLayerKind;
+  setName?: string;   // 레이어 세트 / 프로파일 세트 / 구성 세트 이름
+  category?: string;  // IfcMaterial(또는 레이어·구성) Category
+  thickness?: number; // 레이어 두께 (m)
+  fraction?: number;  // 구성 비율 (0~1, IfcMaterialConstituent.Fraction)
+}
+
+// 재료별 수량 행 (재료 + 레이어 두께 조합)
+export interface MaterialLayerItem {
+  id: string;
+  material: string;
+  kind: MaterialLayerKind;
+  category?: string;
+  thickness?: number;   // 레이어 두께 (m)
+  setNames: string[];   // 이 재료가 쓰인 세트 이름
+  count: number;        // 요소 수
+  area: number;         // m²
+  volume: number;       // m³
+  length: number;       // m
+  expressIDs: number[];
+}
+
+// 요소를 뚫는 개구부 하나 (IfcRelVoidsElement, 채움 요소는 IfcRelFillsElement)
+export interface ElementOpening {
+  openingId: number;   // IfcOpeningElement
+  area: number;        // m² (크기를 알 수 없으면 0)
+  width?: number;      // m
+  height?: number;     // m
+  source: "filling" | "qto" | "unknown"; // 크기 출처 (문·창 전체 크기 / 개구부 Qto)
+  filling?: { expressID: number; typeCode: number; name?: string }; // 개구부를 채운 문·창
+}
+
+// 요소의 개구부와 총면적 (벽·슬래브)
+export interface ElementOpenings {
+  grossArea?: number;  // Qto GrossSideArea / GrossArea (m²)
+  openings: ElementOpening[];
+}
+
 // 자재 목록 아이템 (타입 + 규격 조합)
 export interface MaterialItem {
   id: string;           // 고유 키 (typeCode_spec)
@@ -45,12 +120,45 @@ export interface MaterialItem {
   category: string;
   spec: string;         // 규격 문자열 (예: "300×200×2700")
   count: number;
-  unit: string;
+  unit: string;         // 집계 단위 (CATEGORY_UNIT_MAP 기준: m², m³, m, 개)
+  quantity?: number;    // unit 기준 수량
   totalArea?: number;   // 총 면적 (m²)
+  totalVolume?: number; // 총 체적 (m³)
+  totalLength?: number; // 총 길이 (m)
   expressIDs: number[];
   dimensions?: ElementDimensions;
 }
 
+// 카테고리별 단위
+export const CATEGORY_UNIT_MAP: Record<string, string> = {
+  '벽': 'm²',
+  '슬라브': 'm²',
+  '지붕': 'm²',
+  '마감재': 'm²',
+  '피복': 'm²',
+  '커튼월': 'm²',
+  '기둥': '개',
+  '보': 'm',
+  '문': '개',
+  '창문': '개',
+  '계단': '개',
+  '난간': 'm',
+  '가구': '개',
+  '판': 'm²',
+  '부재': '개',
+  '기초': '개',
+  '파일': '개',
+  '공간': 'm²',
+  '배관': 'm',
+  '덕트': 'm',
+  '케이블': 'm',
+  '케이블 트레이': 'm',
+  '포장': 'm²',
+  '포장층': 'm²',
+  '연석': 'm',
+  '레일': 'm',
+};
+
 // 층 정보
 export interface StoreyInfo {
   id: string;
@@ -83,7 +191,35 @@ export const IFC_SPATIAL_TYPES = {
   IFCRELDEFINESBYPROPERTIES: 4186316022,
   IFCPROPERTYSET: 1451395588,
   IFCPROPERTYSINGLEVALUE: 3650150729,
+  IFCPROPERTYENUMERATEDVALUE: 4166981789,
+  IFCPROPERTYLISTVALUE: 2752243245,
+  IFCPROPERTYBOUNDEDVALUE: 871118103,
   IFCELEMENTQUANTITY: 1883228015,
+  IFCQUANTITYLENGTH: 931644368,
+  IFCQUANTITYAREA: 2044713172,
+  IFCQUANTITYVOLUME: 2405470396,
+  IFCQUANTITYCOUNT: 2093928680,
+  IFCQUANTITYWEIGHT: 825690147,
+  IFCQUANTITYTIME: 3252649465,
+  // 타입 / 재료 관계
+  IFCRELDEFINESBYTYPE: 781010003,
+  IFCRELASSOCIATESMATERIAL: 2655215786,
+  IFCMATERIAL: 1838606355,
+  IFCMATERIALLIST: 2199411900,
+  IFCMATERIALLAYERSET: 3303938423,
+  IFCMATERIALLAYERSETUSAGE: 1303795690,
+  IFCMATERIALPROFILESET: 164193824,
+  IFCMATERIALPROFILESETUSAGE: 3079605661,
+  IFCMATERIALCONSTITUENTSET: 2852063980,
+  // 분류 관계
+  IFCRELASSOCIATESCLASSIFICATION: 919958153,
+  IFCCLASSIFICATIONREFERENCE: 647927063,
+  IFCCLASSIFICATION: 747523909,
+  // 단위
+  IFCUNITASSIGNMENT: 180925521,
+  IFCSIUNIT: 448429030,
+  IFCCONVERSIONBASEDUNIT: 2889183280,
+  IFCMEASUREWITHUNIT: 2597039031,
 } as const;
 
 // IFC 속성 정보 (Property Set에서 추출)
@@ -98,6 +234,22 @@ export interface IFCPropertyInfo {
   acousticRating?: string;   // 음향 등급
 }
 
+// 통합 모델에 로드된 모델 (요소 키 = 슬롯 + expressID)
+export interface FederatedModelInfo {
+  slot: number;         // 로드 순서대로 0, 1, 2… (첫 모델은 요소 키가 expressID와 같음)
+  modelId: string;      // 파일 내용 해시
+  name: string;
+  elementCount: number;
+}
+
+// 모델별 표시 상태 (정렬은 IFC 좌표 기준 - z가 수직)
+export interface FederatedModel extends FederatedModelInfo {
+  visible: boolean;
+  opacity: number;                     // 0~1
+  offset: [number, number, number];    // 이동량 (m)
+  rotation: number;                    // z축 회전 (°)
+}
+
 export interface IFCModel {
   id: string;
   name: string;
@@ -119,35 +271,158 @@ export interface CameraPosition {
 
 export type ViewPreset = 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom' | 'isometric';
 
-// IFC 타입 코드 매핑
-export const IFC_TYPE_NAMES: Record<number, string> = {
-  // 벽
-  45: "벽",
-  46: "벽",
-  // 슬라브
-  1529196076: "슬라브",
-  // 기둥
-  843113511: "기둥",
-  // 보
-  753842376: "보",
-  // 문
-  395920057: "문",
-  // 창문
-  3304561284: "창문",
-  // 계단
-  331165859: "계단",
-  // 지붕
-  2016517767: "지붕",
-  // 난간
-  2262370178: "난간",
-  // 가구
-  263784265: "가구",
-  // 판
-  3171933400: "판",
-  // 부재
-  1073191201: "부재",
-  // 피복
-  1973544240: "피복",
-  // 기초
-  900683007: "기초",
+// 단면 축 (IFC 좌표 기준 - z가 수직)
+export type SectionAxis = 'x' | 'y' | 'z';
+
+// 단면 평면 (뷰어 좌표, normal·p + constant < 0 인 쪽이 잘림)
+export interface SectionPlane {
+  id: string;
+  normal: [number, number, number];
+  constant: number;
+  source: SectionAxis | 'face'; // 축 정렬 또는 클릭한 면에 정렬
+}
+
+// 단면 박스 (뷰어 좌표, 박스 밖이 잘림)
+export interface SectionBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+// 측정 종류
+export type MeasureMode = 'distance' | 'polyline' | 'angle' | 'area' | 'perpendicular' | 'elementDistance';
+
+// 스냅 종류 (꼭짓점 > 모서리 > 면)
+export type SnapKind = 'vertex' | 'edge' | 'face';
+
+// 측정용 클릭 지점 (뷰어 좌표)
+export interface MeasurePick {
+  point: [number, number, number];
+  normal?: [number, number, number]; // 면 법선 (카메라 쪽)
+  snap: SnapKind;
+  expressID?: number;
+}
+
+// 완료된 측정 (점은 뷰어 좌표, 값은 m / m² / °)
+export interface Measurement {
+  id: string;
+  mode: MeasureMode;
+  points: [number, number, number][];
+  value: number;
+  unit: 'm' | 'm²' | '°';
+  expressIDs?: number[]; // 요소 간 최소 거리
+}
+
+// 저장된 뷰포인트 (카메라 + 선택/표시 상태)
+export interface SavedViewpoint {
+  id: string;                     // BCF Guid로도 사용
+  modelId: string;
+  name: string;
+  createdAt: number;
+  camera: CameraPosition & { fov: number; aspect?: number };  // 뷰어 좌표 (Y-up, 모델 중심 원점)
+  selectedExpressIDs: number[];
+  hiddenMaterialIds: string[];
+  selectedStorey: string | null;
+  xrayMode: boolean;
+  showEdges: boolean;
+  snapshot?: string;              // PNG data URL
+}
+
+// ========== BCF (요소는 GlobalId로 참조) ==========
+
+export interface BcfVisibility {
+  defaultVisibility: boolean;
+  exceptions: string[]; // IfcGuid 목록
+}
+
+export interface BcfViewpoint {
+  guid: string;
+  camera?: SavedViewpoint["camera"]; // 뷰어 좌표
+  selectedGlobalIds: string[];
+  visibility: BcfVisibility;
+  snapshot?: string;                 // PNG data URL
+}
+
+export interface BcfComment {
+  guid: string;
+  author: string;
+  date: number;
+  text: string;
+  viewpointGuid?: string;
+}
+
+// 이슈(토픽) 상태 - BCF TopicStatus 값 그대로 저장
+export const BCF_TOPIC_STATUSES: Record<string, string> = {
+  "Open": "열림",
+  "In Progress": "진행 중",
+  "Resolved": "해결됨",
+  "Closed": "닫힘",
 };
+
+export const BCF_TOPIC_TYPES: Record<string, string> = {
+  "Issue": "이슈",
+  "Clash": "간섭",
+  "Request": "요청",
+  "Remark": "의견",
+};
+
+export interface BcfTopic {
+  guid: string;
+  modelId: string;      // 작성한 모델 (다른 버전의 모델에서도 GlobalId로 연결)
+  title: string;
+  description?: string;
+  topicType: string;
+  status: string;
+  priority?: string;
+  assignedTo?: string;
+  labels?: string[];
+  author: string;
+  createdAt: number;
+  modifiedAt?: number;
+  modifiedAuthor?: string;
+  dueDate?: number;
+  globalIds: string[];  // 관련 요소
+  viewpoints: BcfViewpoint[];
+  comments: BcfComment[];
+}
+
+// ========== 간섭 검토 (요소는 요소 키, 상태는 GlobalId 쌍으로 저장) ==========
+
+// hard: 형상이 서로 파고듦, clearance: 여유 거리 안으로 접근
+export type ClashKind = 'hard' | 'clearance';
+
+export type ClashStatus = 'new' | 'approved' | 'resolved';
+
+export const CLASH_STATUSES: Record<ClashStatus, string> = {
+  new: "신규",
+  approved: "승인",
+  resolved: "해결",
+};
+
+// 간섭 요소 표시 정보
+export interface ClashElementInfo {
+  globalId?: string;
+  type: string;   // 타입 이름 (예: "보")
+  name?: string;
+}
+
+export interface Clash {
+  id: string;                       // "GlobalIdA:GlobalIdB" (GlobalId가 없으면 요소 키) - 상태 저장 키
+  keyA: number;                     // 집합 A의 요소 키
+  keyB: number;                     // 집합 B의 요소 키
+  elementA: ClashElementInfo;
+  elementB: ClashElementInfo;
+  kind: ClashKind;
+  distance: number;                 // 최단 거리 (m, 하드 간섭은 0)
+  depth: number;                    // 겹침 깊이 근사 (m, 경계 상자 겹침)
+  point: [number, number, number];  // 간섭 위치 (뷰어 좌표)
+  box: { min: [number, number, number]; max: [number, number, number] }; // 카메라 맞춤 범위
+  group: string;                    // 그룹 (예: "보 ↔ 덕트")
+  status: ClashStatus;
+}
+
+// 저장된 간섭 상태
+export interface ClashStatusRecord {
+  id: string;
+  status: ClashStatus;
+  updatedAt: number;
+}
@@ -3,6 +3,16 @@
  * 메인 스레드 블로킹 없이 IFC 파일을 파싱합니다.
  */
 
+import { streamPropertiesToDB } from '@/lib/ifc/propertyStreamer';
+import { computeModelId } from '@/lib/ifc/modelId';
+import { buildPropertyIndex, getElementQuantitySections, SectionCache } from '@/lib/ifc/propertyExtractor';
+import { computeGeometryQuantities, quantitiesFromQto, resolveElementQuantities } from '@/lib/ifc/takeoff';
+import {
+  boundsToDimensions, buildMaterialList, createBounds, expandBounds, extractStoreys, parseSpatialStructure,
+} from '@/lib/ifc/modelExtractor';
+import { IfcSchemaModule, registerIfcSchema } from '@/lib/ifc/typeRegistry';
+import { ElementDimensions, ElementQuantities, IFCSpatialNode, MaterialItem, StoreyInfo } from '@/types/ifc';
+
 // Worker 컨텍스트 타입
 declare const self: DedicatedWorkerGlobalScope;
 
@@ -21,39 +31,15 @@ interface ParsedMesh {
 
 interface ParseResult {
   meshes: ParsedMesh[];
-  spatialTree: any;
-  storeys: any[];
-  materials: any[];
+  spatialTree: IFCSpatialNode | null;
+  storeys: StoreyInfo[];
+  materials: MaterialItem[];
+  modelId: string;
+  propertyDBReady: boolean;
   progress: number;
   message: string;
 }
 
-// IFC 타입 이름 매핑
-const IFC_TYPE_NAMES: Record<number, string> = {
-  45: "벽", 46: "벽", 1529196076: "슬라브", 843113511: "기둥",
-  753842376: "보", 395920057: "문", 3304561284: "창문", 331165859: "계단",
-  2016517767: "지붕", 2262370178: "난간", 263784265: "가구",
-  3171933400: "판", 1073191201: "부재", 1973544240: "피복", 900683007: "기초",
-};
-
-const TYPE_CATEGORIES: Record<number, string> = {
-  45: "구조", 46: "구조", 1529196076: "구조", 843113511: "구조",
-  753842376: "구조", 900683007: "구조",
-  395920057: "건축", 3304561284: "건축", 331165859: "건축",
-  2016517767: "건축", 2262370178: "건축", 1973544240: "건축",
-  263784265: "가구", 3171933400: "기타", 1073191201: "기타",
-};
-
-const IFC_SPATIAL_TYPES = {
-  IFCPROJECT: 103090709,
-  IFCSITE: 4097777520,
-  IFCBUILDING: 4031249490,
-  IFCBUILDINGSTOREY: 3124254112,
-  IFCSPACE: 3856911033,
-  IFCRELAGGREGATES: 160246688,
-  IFCRELCONTAINEDINSPATIALSTRUCTURE: 3242617779,
-} as const;
-
 let ifcApi: any = null;
 
 // 진행 상황 전송
@@ -67,6 +53,7 @@ async function initIfcApi() {
   
   sendProgress(5, '라이브러리 로딩...');
   const WebIFC = await import('web-ifc');
+  registerIfcSchema(WebIFC as unknown as IfcSchemaModule);
   
   sendProgress(10, 'WASM 초기화...');
   ifcApi = new WebIFC.IfcAPI();
@@ -76,101 +63,10 @@ async function initIfcApi() {
   return ifcApi;
 }
 
-// 공간 구조 파싱
-function parseSpatialStructure(api: any, modelID: number) {
-  try {
-    const aggregatesMap = new Map<number, number[]>();
-    const containsMap = new Map<number, number[]>();
-
-    // IfcRelAggregates 수집
-    const aggregatesIds = api.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCRELAGGREGATES);
-    for (let i = 0; i < aggregatesIds.size(); i++) {
-      try {
-        const rel = api.GetLine(modelID, aggregatesIds.get(i), false);
-        const parentId = rel.RelatingObject?.value;
-        if (parentId && rel.RelatedObjects) {
-          const children = rel.RelatedObjects.map((o: any) => o.value).filter(Boolean);
-          aggregatesMap.set(parentId, [...(aggregatesMap.get(parentId) || []), ...children]);
-        }
-      } catch {}
-    }
-
-    // IfcRelContainedInSpatialStructure 수집
-    const containsIds = api.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCRELCONTAINEDINSPATIALSTRUCTURE);
-    for (let i = 0; i < containsIds.size(); i++) {
-      try {
-        const rel = api.GetLine(modelID, containsIds.get(i), false);
-        const spatialId = rel.RelatingStructure?.value;
-        if (spatialId && rel.RelatedElements) {
-          const elements = rel.RelatedElements.map((o: any) => o.value).filter(Boolean);
-          containsMap.set(spatialId, [...(containsMap.get(spatialId) || []), ...elements]);
-        }
-      } catch {}
-    }
-
-    // 트리 구축
-    const projectIds = api.GetLineIDsWithType(modelID, IFC_SPATIAL_TYPES.IFCPROJECT);
-    if (projectIds.size() === 0) return null;
-
-    const buildNode = (expressID: number): any => {
-      let name = `#${expressID}`, typeCode = 0;
-      try {
-        const props = api.GetLine(modelID, expressID, false);
-        name = props.Name?.value || props.LongName?.value || name;
-        typeCode = props.type || 0;
-      } catch {}
-
-      return {
-        expressID,
-        name,
-        type: getTypeName(typeCode),
-        typeCode,
-        children: (aggregatesMap.get(expressID) || []).map(buildNode),
-        elements: containsMap.get(expressID) || [],
-      };
-    };
-
-    return buildNode(projectIds.get(0));
-  } catch (e) {
-    console.error('공간 구조 파싱 실패:', e);
-    return null;
-  }
-}
-
-function getTypeName(typeCode: number): string {
-  const names: Record<number, string> = {
-    [IFC_SPATIAL_TYPES.IFCPROJECT]: "IfcProject",
-    [IFC_SPATIAL_TYPES.IFCSITE]: "IfcSite",
-    [IFC_SPATIAL_TYPES.IFCBUILDING]: "IfcBuilding",
-    [IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY]: "IfcBuildingStorey",
-    [IFC_SPATIAL_TYPES.IFCSPACE]: "IfcSpace",
-  };
-  return names[typeCode] || IFC_TYPE_NAMES[typeCode] || `Type_${typeCode}`;
-}
-
-// 층 정보 추출
-function extractStoreys(spatialTree: any): any[] {
-  const storeys: any[] = [];
-  
-  const traverse = (node: any) => {
-    if (node.typeCode === IFC_SPATIAL_TYPES.IFCBUILDINGSTOREY) {
-      storeys.push({
-        id: `storey_${node.expressID}`,
-        name: node.name,
-        elevation: 0,
-        expressIDs: node.elements,
-      });
-    }
-    node.children?.forEach(traverse);
-  };
-  
-  if (spatialTree) traverse(spatialTree);
-  return storeys;
-}
-
 // 메인 파싱 함수
-async function parseIFC(fileData: ArrayBuffer) {
+async function parseIFC(fileData: ArrayBuffer, modelId?: string) {
   const api = await initIfcApi();
+  const modelKey = modelId || await computeModelId(fileData);
   
   sendProgress(15, '파일 읽는 중...');
   const modelID = api.OpenModel(new Uint8Array(fileData));
@@ -179,7 +75,7 @@ async function parseIFC(fileData: ArrayBuffer) {
   
   const meshes: ParsedMesh[] = [];
   const typeToExpressIDs = new Map<number, number[]>();
-  const elementDimensions = new Map<number, { width: number; height: number; depth: number }>();
+  const elementDimensions = new Map<number, ElementDimensions>();
   
   let processedCount = 0;
   let totalMeshes = 0;
@@ -207,10 +103,7 @@ async function parseIFC(fileData: ArrayBuffer) {
     const geometries = flatMesh.geometries;
     const geoCount = geometries.size();
     const meshGeometries: ParsedMesh['geometries'] = [];
-    
-    let minX = Infinity, maxX = -Infinity;
-    let minY = Infinity, maxY = -Infinity;
-    let minZ = Infinity, maxZ = -Infinity;
+    const bounds = createBounds();
     
     for (let i = 0; i < geoCount; i++) {
       const pg = geometries.get(i);
@@ -241,14 +134,11 @@ async function parseIFC(fileData: ArrayBuffer) {
         normals[dstIdx] = verts[srcIdx + 3];
         normals[dstIdx + 1] = verts[srcIdx + 4];
         normals[dstIdx + 2] = verts[srcIdx + 5];
-        
-        // 바운딩 박스
-        const x = verts[srcIdx], y = verts[srcIdx + 1], z = verts[srcIdx + 2];
-        if (x < minX) minX = x; if (x > maxX) maxX = x;
-        if (y < minY) minY = y; if (y > maxY) maxY = y;
-        if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
       }
       
+      // 바운딩 박스
+      expandBounds(bounds, positions, pg.flatTransformation);
+      
       meshGeometries.push({
         positions,
         normals,
@@ -259,24 +149,15 @@ async function parseIFC(fileData: ArrayBuffer) {
     }
     
     if (meshGeometries.length > 0) {
+      const dim = boundsToDimensions(bounds);
       meshes.push({
         expressID,
         typeCode,
         geometries: meshGeometries,
-        boundingBox: {
-          width: minX !== Infinity ? Math.round((maxX - minX) * 1000) : 0,
-          height: minY !== Infinity ? Math.round((maxY - minY) * 1000) : 0,
-          depth: minZ !== Infinity ? Math.round((maxZ - minZ) * 1000) : 0,
-        },
+        boundingBox: dim ?? { width: 0, height: 0, depth: 0 },
       });
       
-      if (minX !== Infinity) {
-        elementDimensions.set(expressID, {
-          width: Math.round((maxX - minX) * 1000),
-          height: Math.round((maxY - minY) * 1000),
-          depth: Math.round((maxZ - minZ) * 1000),
-        });
-      }
+      if (dim) elementDimensions.set(expressID, dim);
     }
     
     processedCount++;
@@ -288,51 +169,37 @@ async function parseIFC(fileData: ArrayBuffer) {
   
   sendProgress(75, 'IFC 공간 구조 분석 중...');
   const spatialTree = parseSpatialStructure(api, modelID);
-  const storeys = extractStoreys(spatialTree);
-  
-  sendProgress(85, '자재 목록 생성 중...');
+  const storeys = extractStoreys(api, modelID, spatialTree);
   
-  // 자재 목록 생성 (타입 + 규격별)
-  const getDimensionSpec = (dim: { width: number; height: number; depth: number }) => {
-    const sizes = [dim.width, dim.height, dim.depth].sort((a, b) => b - a);
-    return `${sizes[0]}×${sizes[1]}×${sizes[2]}`;
-  };
+  // 속성 DB 저장 (Worker에서도 IndexedDB 사용 가능 - 메인 스레드에서 같은 modelId로 조회)
+  sendProgress(80, '속성 DB 저장 중...');
+  let propertyDBReady = false;
+  try {
+    const elementIds = Array.from(typeToExpressIDs.values()).flat();
+    await streamPropertiesToDB(api, modelID, modelKey, elementIds, spatialTree, {
+      onProgress: (stored, total) => {
+        sendProgress(80 + Math.floor((stored / Math.max(total, 1)) * 5), `속성 DB 저장 중... (${stored}/${total})`);
+      },
+    });
+    propertyDBReady = true;
+  } catch (e) {
+    console.warn('속성 DB 저장 실패:', e);
+  }
   
-  const materialMap = new Map<string, any>();
+  // 수량 산출 (Qto 우선, 없으면 메시 계산)
+  sendProgress(85, '수량 산출 중...');
+  const propertyIndex = buildPropertyIndex(api, modelID);
+  const qtoCache: SectionCache = new Map();
+  const elementQuantities = new Map<number, ElementQuantities>();
+  for (const mesh of meshes) {
+    const qto = quantitiesFromQto(getElementQuantitySections(api, modelID, propertyIndex, mesh.expressID, qtoCache));
+    elementQuantities.set(mesh.expressID, resolveElementQuantities(qto, computeGeometryQuantities(mesh.geometries)));
+  }
   
-  typeToExpressIDs.forEach((expressIDs, typeCode) => {
-    // 규격별로 그룹화
-    const specGroups = new Map<string, number[]>();
-    
-    for (const id of expressIDs) {
-      const dim = elementDimensions.get(id);
-      const spec = dim ? getDimensionSpec(dim) : 'unknown';
-      const group = specGroups.get(spec) || [];
-      group.push(id);
-      specGroups.set(spec, group);
-    }
-    
-    specGroups.forEach((ids, spec) => {
-      const key = `${typeCode}_${spec}`;
-      const dim = elementDimensions.get(ids[0]);
-      
-      materialMap.set(key, {
-        id: key,
-        typeCode,
-        typeName: IFC_TYPE_NAMES[typeCode] || `타입 ${typeCode}`,
-        category: TYPE_CATEGORIES[typeCode] || "기타",
-        spec,
-        count: ids.length,
-        unit: "개",
-        expressIDs: ids,
-        dimensions: dim,
-      });
-    });
-  });
+  sendProgress(88, '자재 목록 생성 중...');
   
-  const materials = Array.from(materialMap.values()).sort((a, b) => 
-    a.category.localeCompare(b.category) || a.typeName.localeCompare(b.typeName) || a.spec.localeCompare(b.spec)
-  );
+  // 자재 목록 생성 (타입 + 규격별)
+  const materials = buildMaterialList(typeToExpressIDs, elementDimensions, elementQuantities);
   
   sendProgress(95, '정리 중...');
   
@@ -341,16 +208,16 @@ async function parseIFC(fileData: ArrayBuffer) {
   
   sendProgress(100, '완료!');
   
-  return { meshes, spatialTree, storeys, materials };
+  return { meshes, spatialTree, storeys, materials, modelId: modelKey, propertyDBReady };
 }
 
 // 메시지 핸들러
 addEventListener('message', async (event: MessageEvent) => {
-  const { type, data } = event.data;
+  const { type, data, modelId } = event.data;
   
   if (type === 'parse') {
     try {
-      const result = await parseIFC(data);
+      const result = await parseIFC(data, modelId);
       postMessage({ type: 'complete', data: result });
     } catch (error) {
       postMessage({ type: 'error', error: String(error) });